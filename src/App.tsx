@@ -9,6 +9,8 @@ import TopSection from './components/TopSection';
 
 import { Shortcuts } from './components/calendar/Shortcuts';
 import { GlobalLoading } from './components/GlobalLoading';
+import { MutationError } from './components/MutationError';
+import { ReminderAlerts } from './components/ReminderAlerts';
 
 function App() {
   // Initialize dates lazily to avoid re-creating Date on every render
@@ -54,6 +56,8 @@ function App() {
       >
         <Shortcuts />
         <GlobalLoading />
+        <MutationError />
+        <ReminderAlerts />
         <div className="flex h-screen w-full">
           {/* Left Vertical Section */}
           {showLeftPanel && (
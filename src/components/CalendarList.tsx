@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+
+import { Pencil, Plus, Shapes, Trash2 } from 'lucide-react';
+
+import { CalendarDialog } from './calendar/CalendarDialog';
+import { DeleteCalendarDialog } from './calendar/DeleteCalendarDialog';
+import { EventTypesDialog } from './calendar/EventTypesDialog';
+import { useCalendars } from './calendar/Provider';
+import { ReadOnlyLock } from './calendar/ReadOnlyLock';
+import { Button } from './ui/button';
+import { Checkbox } from './ui/checkbox';
+
+import { colourCss } from '@/lib/colours';
+import type { ICalendar } from '@/types/Calendar';
+
+type OpenDialog =
+  | { kind: 'edit'; calendar: ICalendar | null }
+  | { kind: 'delete'; calendar: ICalendar }
+  | { kind: 'types' };
+
+/**
+ * The calendars with a checkbox each to show or hide their events, and actions to
+ * create, edit and delete them. Event types and custom colours are managed from here too.
+ */
+const CalendarList: React.FC = () => {
+  const { calendars, hiddenCalendarIds, setHiddenCalendarIds } = useCalendars();
+  const [dialog, setDialog] = useState<OpenDialog | null>(null);
+
+  const toggle = (id: string, visible: boolean) =>
+    setHiddenCalendarIds(
+      visible ? hiddenCalendarIds.filter((h) => h !== id) : [...hiddenCalendarIds, id]
+    );
+
+  const close = (open: boolean) => {
+    if (!open) setDialog(null);
+  };
+
+  return (
+    <div className="flex w-full flex-col gap-1 px-3">
+      <div className="flex items-center justify-between">
+        <span className="text-muted-foreground text-xs font-semibold uppercase">Calendars</span>
+        <div className="flex gap-1">
+          <Button
+            size="smdr"
+            variant="grey"
+            className="w-7"
+            aria-label="Event types and colours"
+            onClick={() => setDialog({ kind: 'types' })}
+          >
+            <Shapes />
+          </Button>
+          <Button
+            size="smdr"
+            variant="grey"
+            className="w-7"
+            aria-label="New calendar"
+            onClick={() => setDialog({ kind: 'edit', calendar: null })}
+          >
+            <Plus className="stroke-3" />
+          </Button>
+        </div>
+      </div>
+
+      <ul className="flex flex-col">
+        {calendars.map((calendar) => {
+          const id = `calendar-visible-${calendar.id}`;
+          return (
+            <li key={calendar.id} className="group flex h-7 items-center gap-2 text-sm">
+              <Checkbox
+                id={id}
+                checked={!hiddenCalendarIds.includes(calendar.id)}
+                onCheckedChange={(visible: boolean) => toggle(calendar.id, visible)}
+              />
+              <span
+                className="h-3 w-3 shrink-0 rounded-sm"
+                style={{ backgroundColor: colourCss(calendar.colour) }}
+              />
+              <label htmlFor={id} className="min-w-0 flex-1 truncate">
+                {calendar.name}
+              </label>
+              {calendar.readOnly && <ReadOnlyLock className="text-muted-foreground" />}
+              <div className="flex opacity-0 group-focus-within:opacity-100 group-hover:opacity-100">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="w-6 px-0 has-[>svg]:px-0"
+                  aria-label={`Edit ${calendar.name}`}
+                  onClick={() => setDialog({ kind: 'edit', calendar })}
+                >
+                  <Pencil />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="w-6 px-0 has-[>svg]:px-0"
+                  aria-label={`Delete ${calendar.name}`}
+                  disabled={calendars.length === 1 || calendar.readOnly}
+                  onClick={() => setDialog({ kind: 'delete', calendar })}
+                >
+                  <Trash2 />
+                </Button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {dialog?.kind === 'edit' && (
+        <CalendarDialog
+          key={dialog.calendar?.id ?? 'new'}
+          open
+          onOpenChange={close}
+          calendar={dialog.calendar}
+        />
+      )}
+      {dialog?.kind === 'delete' && (
+        <DeleteCalendarDialog
+          key={dialog.calendar.id}
+          open
+          onOpenChange={close}
+          calendar={dialog.calendar}
+        />
+      )}
+      {dialog?.kind === 'types' && <EventTypesDialog open onOpenChange={close} />}
+    </div>
+  );
+};
+
+export default CalendarList;
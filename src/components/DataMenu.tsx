@@ -0,0 +1,148 @@
+import { useState } from 'react';
+
+import { format } from 'date-fns';
+import {
+  ArchiveRestore,
+  Database,
+  FileDown,
+  FileSpreadsheet,
+  FileUp,
+  HardDrive,
+  HardDriveDownload,
+} from 'lucide-react';
+
+import { ExportIcsDialog } from '@/components/calendar/ExportIcsDialog';
+import { ImportCsvDialog } from '@/components/calendar/ImportCsvDialog';
+import { ImportIcsDialog } from '@/components/calendar/ImportIcsDialog';
+import {
+  useAttachments,
+  useCalendars,
+  useCurrentUser,
+  useEventStore,
+  useEventTypes,
+  useTimeZone,
+  useViewBy,
+} from '@/components/calendar/Provider';
+import { RestoreBackupDialog } from '@/components/calendar/RestoreBackupDialog';
+import { StorageUsageDialog } from '@/components/calendar/StorageUsageDialog';
+import { useTheme } from '@/components/ThemeProvider';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/DropdownMenu';
+import { serializeEventsCsv } from '@/lib/csv';
+import { downloadFile } from '@/lib/download';
+import { createBackup } from '@/services/backup';
+
+/** Top bar menu for moving calendar data in and out of the app. */
+export function DataMenu() {
+  const [importOpen, setImportOpen] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
+  const [csvImportOpen, setCsvImportOpen] = useState(false);
+  const [restoreOpen, setRestoreOpen] = useState(false);
+  const [usageOpen, setUsageOpen] = useState(false);
+  const store = useEventStore();
+  const { viewBy } = useViewBy();
+  const { displayTimeZone, secondaryTimeZones } = useTimeZone();
+  const { calendars, hiddenCalendarIds } = useCalendars();
+  const { userEmail } = useCurrentUser();
+  const { eventTypes, palette } = useEventTypes();
+  const { theme } = useTheme();
+  const { attachmentStore } = useAttachments();
+
+  const handleExportCsv = async () => {
+    try {
+      const events = await store.getEvents();
+      downloadFile(
+        `calendar_${format(new Date(), 'yyyy-MM-dd')}.csv`,
+        serializeEventsCsv(events),
+        'text/csv;charset=utf-8'
+      );
+    } catch (error) {
+      console.error('Failed to export events', error);
+    }
+  };
+
+  const handleBackup = async () => {
+    try {
+      const backup = await createBackup(
+        store,
+        {
+          viewBy,
+          displayTimeZone,
+          secondaryTimeZones,
+          theme,
+          calendars,
+          hiddenCalendarIds,
+          userEmail: userEmail ?? undefined,
+          eventTypes,
+          palette,
+        },
+        new Date(),
+        attachmentStore
+      );
+      downloadFile(
+        `calendar-backup_${format(new Date(), 'yyyy-MM-dd')}.json`,
+        JSON.stringify(backup, null, 2),
+        'application/json'
+      );
+    } catch (error) {
+      console.error('Failed to back up events', error);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="icon">
+            <Database className="h-[1.2rem] w-[1.2rem]" />
+            <span className="sr-only">Import and export</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => setImportOpen(true)}>
+            <FileUp className="h-4 w-4" />
+            Import .ics…
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setExportOpen(true)}>
+            <FileDown className="h-4 w-4" />
+            Export .ics…
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setCsvImportOpen(true)}>
+            <FileSpreadsheet className="h-4 w-4" />
+            Import .csv…
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={handleExportCsv}>
+            <FileDown className="h-4 w-4" />
+            Export all as .csv
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={handleBackup}>
+            <HardDriveDownload className="h-4 w-4" />
+            Download backup
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setRestoreOpen(true)}>
+            <ArchiveRestore className="h-4 w-4" />
+            Restore backup…
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setUsageOpen(true)}>
+            <HardDrive className="h-4 w-4" />
+            Storage usage…
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <ImportIcsDialog open={importOpen} onOpenChange={setImportOpen} />
+      <ExportIcsDialog open={exportOpen} onOpenChange={setExportOpen} />
+      <ImportCsvDialog open={csvImportOpen} onOpenChange={setCsvImportOpen} />
+      <RestoreBackupDialog open={restoreOpen} onOpenChange={setRestoreOpen} />
+      <StorageUsageDialog open={usageOpen} onOpenChange={setUsageOpen} />
+    </>
+  );
+}
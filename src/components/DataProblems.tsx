@@ -0,0 +1,161 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+import { format } from 'date-fns';
+import { Download, Trash2, TriangleAlert } from 'lucide-react';
+
+import { useEventStore, useEvents } from '@/components/calendar/Provider';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import useFetchEvents from '@/hooks/useFetchEvents';
+import { downloadFile } from '@/lib/download';
+import type { QuarantinedRecord } from '@/services/stores/EventStore';
+
+const PREVIEW_LENGTH = 160;
+// how long the loaded events must stay unchanged before the store is checked again (ms)
+const RECHECK_DELAY = 1000;
+
+const preview = (record: unknown) => {
+  const json = JSON.stringify(record) ?? String(record);
+  return json.length > PREVIEW_LENGTH ? `${json.slice(0, PREVIEW_LENGTH)}…` : json;
+};
+
+/**
+ * Top bar warning for stored records that failed validation (see `screenEvents`).
+ * Renders nothing while there are none. The panel lists each record with what is wrong
+ * with it; records can be downloaded for repair, then discarded one by one.
+ */
+export function DataProblems() {
+  const store = useEventStore();
+  const { events } = useEvents();
+  const { fetchEvents } = useFetchEvents(false);
+
+  const [open, setOpen] = useState(false);
+  const [quarantined, setQuarantined] = useState<QuarantinedRecord[]>([]);
+  const [discarding, setDiscarding] = useState<string | null>(null);
+
+  const refresh = useCallback(
+    () =>
+      store
+        .getQuarantined()
+        .then(setQuarantined)
+        .catch((error) => console.error('Failed to check stored events', error)),
+    [store]
+  );
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // stored data only changes together with the loaded events, so re-check once they settle
+  // (every check reads the whole store)
+  const checkedFor = useRef(events);
+  useEffect(() => {
+    if (checkedFor.current === events) return;
+    const timer = setTimeout(() => {
+      checkedFor.current = events;
+      refresh();
+    }, RECHECK_DELAY);
+    return () => clearTimeout(timer);
+  }, [refresh, events]);
+
+  const handleDiscard = async (key: string) => {
+    setDiscarding(key);
+    try {
+      await store.discardQuarantined(key);
+      await refresh();
+      await fetchEvents(true);
+    } catch (error) {
+      console.error('Failed to discard record', error);
+    } finally {
+      setDiscarding(null);
+    }
+  };
+
+  const handleDownload = () => {
+    downloadFile(
+      `calendar-problems_${format(new Date(), 'yyyy-MM-dd')}.json`,
+      JSON.stringify(
+        quarantined.map(({ record, problems }) => ({ problems, record })),
+        null,
+        2
+      ),
+      'application/json'
+    );
+  };
+
+  if (quarantined.length === 0) return null;
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        className="text-destructive gap-1"
+        title="Some stored events could not be read"
+        onClick={() => setOpen(true)}
+      >
+        <TriangleAlert className="h-[1.2rem] w-[1.2rem]" />
+        {quarantined.length}
+        <span className="sr-only">data problems</span>
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="text-primary flex items-center gap-2">
+              <TriangleAlert className="h-6 w-6" />
+              Data problems
+            </DialogTitle>
+            <DialogDescription>
+              {quarantined.length} stored record{quarantined.length === 1 ? ' is' : 's are'} not
+              valid and {quarantined.length === 1 ? 'is' : 'are'} hidden from the calendar. They are
+              kept until you discard them.
+            </DialogDescription>
+          </DialogHeader>
+
+          <ul className="flex max-h-80 flex-col gap-3 overflow-y-auto text-sm">
+            {quarantined.map((q) => (
+              <li key={q.key} className="flex items-start gap-2">
+                <div className="flex min-w-0 flex-1 flex-col gap-1">
+                  <span className="font-medium">
+                    {q.id !== undefined ? `Event ${q.id}` : 'Record without id'}
+                  </span>
+                  <span className="text-destructive text-xs">{q.problems.join(', ')}</span>
+                  <code className="text-muted-foreground text-xs break-all">
+                    {preview(q.record)}
+                  </code>
+                </div>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  title="Discard this record"
+                  disabled={discarding !== null}
+                  onClick={() => handleDiscard(q.key)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                  <span className="sr-only">Discard</span>
+                </Button>
+              </li>
+            ))}
+          </ul>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={handleDownload}>
+              <Download className="h-4 w-4" />
+              Download all
+            </Button>
+            <Button variant="default-rounded" onClick={() => setOpen(false)}>
+              Close
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
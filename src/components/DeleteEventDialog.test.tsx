@@ -28,7 +28,7 @@ describe('DeleteEventDialog', () => {
     );
     expect(screen.getByText('Delete Event')).toBeInTheDocument();
     expect(
-      screen.getByText('Are you sure you want to delete this event? This action cannot be undone.')
+      screen.getByText('Are you sure you want to delete this event? You can undo this with Ctrl+Z.')
     ).toBeInTheDocument();
     expect(screen.getByText('Test Event')).toBeInTheDocument();
   });
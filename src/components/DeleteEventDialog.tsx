@@ -27,7 +27,11 @@ export function DeleteEventDialog({ open, onOpenChange, onConfirm }: DeleteEvent
             Delete Event
           </DialogTitle>
           <DialogDescription className="flex flex-col gap-2">
-            <span>Are you sure you want to delete this event? This action cannot be undone.</span>
+            <span>
+              {selectedEvent?.recurrence
+                ? 'This is a repeating event. Deleting it removes every occurrence. You can undo this with Ctrl+Z.'
+                : 'Are you sure you want to delete this event? You can undo this with Ctrl+Z.'}
+            </span>
             <span className="text-foreground pt-2 font-bold">{selectedEvent?.title}</span>
           </DialogDescription>
         </DialogHeader>
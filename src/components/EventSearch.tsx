@@ -0,0 +1,201 @@
+import { type FocusEvent, useEffect, useMemo, useRef, useState } from 'react';
+
+import { format, startOfDay } from 'date-fns';
+import { Repeat } from 'lucide-react';
+
+import {
+  useCalendars,
+  useEventStore,
+  useEventTypes,
+  useEvents,
+  useSelectedDate,
+  useTimeZone,
+  useViewBy,
+} from '@/components/calendar/Provider';
+import { Input } from '@/components/ui/input';
+import { calendarOf } from '@/lib/calendars';
+import { colourCss } from '@/lib/colours';
+import { isContinuation } from '@/lib/daySegments';
+import { typeName } from '@/lib/eventTypes';
+import { markdownToPlainText } from '@/lib/markdown';
+import { highlightParts, searchEvents } from '@/lib/search';
+import { groupApiEventsToScheduled } from '@/lib/utils';
+import type { IEvent, TCalendarEvent } from '@/types/Calendar';
+
+const Highlighted = ({ text, query }: { text: string; query: string }) => (
+  <>
+    {highlightParts(text, query).map((part, index) =>
+      part.match ? (
+        <mark key={index} className="bg-primary/30 rounded-xs text-inherit">
+          {part.text}
+        </mark>
+      ) : (
+        part.text
+      )
+    )}
+  </>
+);
+
+/**
+ * Top bar search over every stored event (not just the loaded range), by title, description,
+ * location and type. Results are listed by date with the matches highlighted; picking one moves the
+ * calendar to its date and selects it. Events of hidden calendars are left out.
+ */
+export function EventSearch() {
+  const store = useEventStore();
+  const { events, setSelectedEvent } = useEvents();
+  const { calendars, hiddenCalendarIds } = useCalendars();
+  const { eventTypes } = useEventTypes();
+  const { displayTimeZone } = useTimeZone();
+  const { viewBy, setViewBy } = useViewBy();
+  const { setSelectedDate } = useSelectedDate();
+
+  const [query, setQuery] = useState('');
+  const [open, setOpen] = useState(false);
+  const [stored, setStored] = useState<IEvent[]>([]);
+
+  // reload while the results are open; a change to the loaded events means the store changed
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    store
+      .getEvents()
+      .then((all) => {
+        if (!cancelled) setStored(all);
+      })
+      .catch((error) => console.error('Failed to search events', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [store, events, open]);
+
+  // matches in display-zone form, grouped by the day they start (series at their first date)
+  const groups = useMemo(() => {
+    const visible = stored.filter((e) => !hiddenCalendarIds.includes(calendarOf(e, calendars).id));
+    const results = Object.values(
+      groupApiEventsToScheduled(
+        searchEvents(visible, query, (type) => typeName(type, eventTypes)),
+        undefined,
+        displayTimeZone
+      )
+    )
+      .flat()
+      .filter((e) => !isContinuation(e))
+      .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+    const byDate = new Map<string, TCalendarEvent[]>();
+    results.forEach((event) => {
+      const key = format(event.start, 'yyyy-MM-dd');
+      byDate.set(key, [...(byDate.get(key) ?? []), event]);
+    });
+    return [...byDate.entries()];
+  }, [stored, query, calendars, hiddenCalendarIds, eventTypes, displayTimeZone]);
+
+  const count = groups.reduce((n, [, list]) => n + list.length, 0);
+
+  // close when focus leaves the box and its results
+  const containerRef = useRef<HTMLDivElement>(null);
+  const handleBlur = (e: FocusEvent) => {
+    if (!containerRef.current?.contains(e.relatedTarget as Node | null)) setOpen(false);
+  };
+
+  const handleSelect = (event: TCalendarEvent) => {
+    // the year view has nothing to select
+    if (viewBy === 'year') setViewBy('week');
+    // both clear the selection, so select last
+    setSelectedDate?.(startOfDay(event.start));
+    setSelectedEvent(event);
+    setOpen(false);
+  };
+
+  return (
+    <div ref={containerRef} role="search" className="relative">
+      <Input
+        type="text"
+        aria-label="Search events"
+        placeholder="Search events"
+        searchPosition="start"
+        clearable={true}
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setOpen(true);
+        }}
+        onClear={() => setQuery('')}
+        onFocus={() => setOpen(true)}
+        onBlur={handleBlur}
+        onKeyDown={(e) => {
+          if (e.key === 'Escape') setOpen(false);
+        }}
+        className="h-6 w-48 rounded-xs bg-(--button-group-separator)"
+      />
+
+      {open && query.trim() && (
+        <div
+          role="region"
+          aria-label="Search results"
+          className="scrollbar absolute top-full right-0 z-50 mt-1 flex max-h-96 w-80 flex-col overflow-y-auto rounded-md border border-(--left-border-colour) bg-(--left-background) p-2 shadow-lg"
+        >
+          <span className="text-muted-foreground px-2 pb-1 text-xs">
+            {count === 0 ? 'No events match' : `${count} event${count === 1 ? '' : 's'}`}
+          </span>
+          {groups.map(([dateKey, list]) => (
+            <div key={dateKey}>
+              <h4 className="flex h-7 items-center px-2 text-sm leading-none font-medium text-(--button-group-text-default-colour)">
+                <span className="font-semibold">
+                  {format(new Date(dateKey), 'EEEE').toUpperCase()}
+                </span>
+                <span className="font-light">{format(new Date(dateKey), ' dd/MM/yyyy')}</span>
+              </h4>
+              {list.map((event) => (
+                <button
+                  key={event.id}
+                  type="button"
+                  onClick={() => handleSelect(event)}
+                  onBlur={handleBlur}
+                  className="hover:bg-accent hover:text-accent-foreground flex w-full cursor-pointer flex-col rounded-md px-2 py-1 text-left text-xs"
+                >
+                  <span className="flex items-center gap-2">
+                    <span
+                      className="h-3 w-2 shrink-0 rotate-60 transform rounded"
+                      style={{
+                        backgroundColor: colourCss(event.colour, 'marker'),
+                      }}
+                    />
+                    <span className="shrink-0 font-semibold">
+                      {event.allDay ? 'All day' : format(event.start, 'HH:mm')}
+                    </span>
+                    <span className="truncate text-sm font-light">
+                      <Highlighted text={event.title || '(No Title)'} query={query} />
+                    </span>
+                    {event.recurrence && (
+                      <Repeat aria-label="Repeats" className="ml-auto size-3 shrink-0" />
+                    )}
+                  </span>
+                  <span className="text-muted-foreground truncate pl-4">
+                    <Highlighted text={typeName(event.type, eventTypes)} query={query} />
+                    {event.location && (
+                      <>
+                        {' · '}
+                        <Highlighted text={event.location} query={query} />
+                      </>
+                    )}
+                    {event.description && event.description !== event.title && (
+                      <>
+                        {' · '}
+                        <Highlighted
+                          text={markdownToPlainText(event.description).replace(/\s+/g, ' ')}
+                          query={query}
+                        />
+                      </>
+                    )}
+                  </span>
+                </button>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
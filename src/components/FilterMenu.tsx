@@ -0,0 +1,203 @@
+import type { ReactNode } from 'react';
+
+import { ListFilter, X } from 'lucide-react';
+
+import { useCalendars, useEventTypes, useFilter } from '@/components/calendar/Provider';
+import { TypeIcon } from '@/components/calendar/TypeIcon';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { BUILT_IN_COLOURS, colourCss } from '@/lib/colours';
+import {
+  activeFilterCount,
+  cycleFacet,
+  facetStateOf,
+  type EventFilter,
+  type FacetFilter,
+  type FacetState,
+} from '@/lib/filters';
+import { cn } from '@/lib/utils';
+
+type FacetKey = 'types' | 'colours' | 'calendars';
+
+const TIMINGS: { value: EventFilter['timing']; label: string }[] = [
+  { value: 'any', label: 'All' },
+  { value: 'all-day', label: 'All-day' },
+  { value: 'timed', label: 'Timed' },
+];
+
+const STATE_LABEL: Record<FacetState, string> = {
+  none: 'not filtered',
+  include: 'only these',
+  exclude: 'left out',
+};
+
+const chipClass = (state: FacetState) =>
+  cn(
+    'flex h-6 cursor-pointer items-center gap-1 rounded px-1.5 text-xs',
+    state === 'include' && 'bg-primary text-primary-foreground',
+    state === 'exclude' && 'bg-destructive/20 text-destructive line-through',
+    state === 'none' && 'bg-(--button-group-separator)'
+  );
+
+const FacetChips = ({
+  title,
+  facet,
+  options,
+  onCycle,
+}: {
+  title: string;
+  facet: FacetFilter;
+  options: { value: string; label: ReactNode; name: string }[];
+  onCycle: (value: string) => void;
+}) => (
+  <div className="flex flex-col gap-1">
+    <span className="text-muted-foreground text-xs">{title}</span>
+    <div className="flex flex-wrap gap-1">
+      {options.map((option) => {
+        const state = facetStateOf(facet, option.value);
+        return (
+          <button
+            key={option.value}
+            type="button"
+            title={`${option.name}: ${STATE_LABEL[state]}`}
+            aria-label={`${option.name}: ${STATE_LABEL[state]}`}
+            onClick={() => onCycle(option.value)}
+            className={chipClass(state)}
+          >
+            {option.label}
+          </button>
+        );
+      })}
+    </div>
+  </div>
+);
+
+/**
+ * Top bar filter for what the views show: by type, colour and calendar (click a value once
+ * to show only those, again to leave it out, a third time to reset it), all-day or timed,
+ * and words in the title, description or type. The button shows how many parts are set,
+ * with a button next to it to clear them all.
+ */
+export function FilterMenu() {
+  const { filter, setFilter, clearFilter } = useFilter();
+  const { calendars } = useCalendars();
+  const { eventTypes, palette } = useEventTypes();
+  const count = activeFilterCount(filter);
+
+  const cycle = (key: FacetKey) => (value: string) =>
+    setFilter({ ...filter, [key]: cycleFacet(filter[key], value) });
+
+  return (
+    <div className="flex items-center">
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            variant={count > 0 ? 'default' : 'outline'}
+            className="gap-1"
+            aria-label={count > 0 ? `Filters (${count} set)` : 'Filters'}
+            title="Filter events"
+          >
+            <ListFilter className="h-[1.2rem] w-[1.2rem]" />
+            {count > 0 && <span className="text-xs">{count}</span>}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="flex w-80 flex-col gap-3 p-3">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium">Filter events</span>
+            <Button variant="ghost" size="sm" disabled={count === 0} onClick={clearFilter}>
+              Clear all
+            </Button>
+          </div>
+
+          <Input
+            type="text"
+            aria-label="Filter by text"
+            placeholder="Title, description or type"
+            searchPosition="start"
+            clearable={true}
+            value={filter.query}
+            onChange={(e) => setFilter({ ...filter, query: e.target.value })}
+            onClear={() => setFilter({ ...filter, query: '' })}
+            className="h-6 rounded-xs bg-(--button-group-separator)"
+          />
+
+          <div className="flex gap-1" role="group" aria-label="All-day or timed">
+            {TIMINGS.map((t) => (
+              <button
+                key={t.value}
+                type="button"
+                aria-pressed={filter.timing === t.value}
+                onClick={() => setFilter({ ...filter, timing: t.value })}
+                className={chipClass(filter.timing === t.value ? 'include' : 'none')}
+              >
+                {t.label}
+              </button>
+            ))}
+          </div>
+
+          <FacetChips
+            title="Types"
+            facet={filter.types}
+            options={eventTypes.map((type) => ({
+              value: type.id,
+              name: type.name,
+              label: (
+                <>
+                  <TypeIcon icon={type.icon} />
+                  {type.name}
+                </>
+              ),
+            }))}
+            onCycle={cycle('types')}
+          />
+
+          <FacetChips
+            title="Colours"
+            facet={filter.colours}
+            options={[...BUILT_IN_COLOURS, ...palette].map((c) => ({
+              value: c,
+              name: `Colour ${c}`,
+              label: (
+                <span className="h-3 w-6 rounded-sm" style={{ backgroundColor: colourCss(c) }} />
+              ),
+            }))}
+            onCycle={cycle('colours')}
+          />
+
+          <FacetChips
+            title="Calendars"
+            facet={filter.calendars}
+            options={calendars.map((c) => ({
+              value: c.id,
+              name: c.name,
+              label: (
+                <>
+                  <span
+                    className="h-3 w-3 rounded-sm"
+                    style={{ backgroundColor: colourCss(c.colour) }}
+                  />
+                  {c.name}
+                </>
+              ),
+            }))}
+            onCycle={cycle('calendars')}
+          />
+        </PopoverContent>
+      </Popover>
+
+      {count > 0 && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 w-6 p-0"
+          aria-label="Clear filters"
+          title="Clear filters"
+          onClick={clearFilter}
+        >
+          <X className="h-3 w-3" />
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { AnimatePresence, motion } from 'motion/react';
 import Calendar from './calendar/Calendar';
 import EventPanel from './calendar/EventPanel';
 import { useEvents, useNewEvent } from './calendar/Provider';
+import CalendarList from './CalendarList';
 import LeftPanelEventList from './LeftPanelEventList';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
@@ -167,6 +168,7 @@ const LeftPanel: React.FC<LeftPanelProps> = ({
           onSelectDate={setSelectedDate}
           selectedDate={selectedDate}
         />
+        <CalendarList />
         <div className="my-2 h-px w-full" />
         <LeftPanelEventList />
       </div>
@@ -12,20 +12,35 @@ import {
   startOfYear,
 } from 'date-fns';
 
-import { useEvents, useSelectedDate, useViewBy } from '@/components/calendar/Provider';
+import { EventLocation } from '@/components/calendar/EventLocation';
+import {
+  useCurrentUser,
+  useEvents,
+  useFilter,
+  useSelectedDate,
+  useViewBy,
+} from '@/components/calendar/Provider';
+import { DECLINED_CLASS, isDeclinedBy } from '@/lib/attendees';
+import { colourCss } from '@/lib/colours';
+import { isContinuation } from '@/lib/daySegments';
+import { activeFilterCount } from '@/lib/filters';
 import type { TCalendarEvent } from '@/types/Calendar';
 
 const LeftPanelEventList: React.FC = () => {
   const { events, selectedEvent, setSelectedEvent } = useEvents();
   const { viewBy } = useViewBy();
   const { selectedDate } = useSelectedDate();
+  const { userEmail } = useCurrentUser();
+  const { filter } = useFilter();
   const listRef = useRef<HTMLDivElement>(null);
   const headerRefs = useRef<Record<string, HTMLDivElement | null>>({});
   const eventRefs = useRef<Record<string, HTMLDivElement | null>>({});
 
-  // Flatten events from the record structure to a single array
+  // Flatten events from the record structure to a single array (one entry per multi-day event)
   const allEvents = useMemo(() => {
-    return Object.values(events).flat();
+    return Object.values(events)
+      .flat()
+      .filter((event) => !isContinuation(event));
   }, [events]);
 
   // Filter and sort events based on view and selected date
@@ -118,7 +133,7 @@ const LeftPanelEventList: React.FC = () => {
   if (filteredEvents.length === 0) {
     return (
       <div className="text-muted-foreground flex flex-1 items-center justify-center p-4 text-sm">
-        No events
+        {activeFilterCount(filter) > 0 ? 'No events match the filters' : 'No events'}
       </div>
     );
   }
@@ -163,17 +178,17 @@ const LeftPanelEventList: React.FC = () => {
                   selectedEvent?.id === event.id
                     ? {
                         color: `white`,
-                        backgroundColor: `var(--event-default-colour-${event.colour}-marker)`,
+                        backgroundColor: colourCss(event.colour, 'marker'),
                       }
                     : {}
                 }
               >
                 <div
                   key={event.id}
-                  className={`my-1 p-1 pb-1 text-xs ${event.allDay ? `rounded-md` : ``}`}
+                  className={`my-1 p-1 pb-1 text-xs ${event.allDay ? `rounded-md` : ``} ${isDeclinedBy(event, userEmail) ? DECLINED_CLASS : ``}`}
                   style={{
                     backgroundColor: event.allDay
-                      ? `var(--event-default-colour-${event.colour}-marker)`
+                      ? colourCss(event.colour, 'marker')
                       : `transparent`,
                   }}
                 >
@@ -186,7 +201,7 @@ const LeftPanelEventList: React.FC = () => {
                             backgroundColor:
                               selectedEvent?.id === event.id
                                 ? `white`
-                                : `var(--event-default-colour-${event.colour}-marker)`,
+                                : colourCss(event.colour, 'marker'),
                           }}
                         />
                         <span
@@ -213,6 +228,10 @@ const LeftPanelEventList: React.FC = () => {
                   >
                     {event.title || '(No Title)'}
                   </span>
+                  <EventLocation
+                    event={event}
+                    className={`${event.allDay && selectedEvent?.id === event.id ? `pl-2` : event.allDay ? `pl-1` : `pl-4`} font-light`}
+                  />
                 </div>
               </div>
             ))}
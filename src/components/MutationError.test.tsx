@@ -0,0 +1,30 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import { describe, expect, it, vi, type Mock } from 'vitest';
+import { MutationError } from './MutationError';
+import { useMutationError } from './calendar/Provider';
+
+// Mock the useMutationError hook
+vi.mock('./calendar/Provider', () => ({
+  useMutationError: vi.fn(),
+}));
+
+describe('MutationError', () => {
+  it('renders nothing without an error', () => {
+    (useMutationError as Mock).mockReturnValue({ mutationError: null });
+    const { container } = render(<MutationError />);
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('shows the error and clears it on dismiss', () => {
+    const setMutationError = vi.fn();
+    (useMutationError as Mock).mockReturnValue({
+      mutationError: 'Could not save the event: Request timed out',
+      setMutationError,
+    });
+    render(<MutationError />);
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Request timed out');
+    fireEvent.click(screen.getByRole('button', { name: 'Dismiss' }));
+    expect(setMutationError).toHaveBeenCalledWith(null);
+  });
+});
@@ -0,0 +1,30 @@
+import { TriangleAlert, X } from 'lucide-react';
+
+import { useMutationError } from './calendar/Provider';
+import { Button } from './ui/button';
+
+/** Banner for a change the store rejected; the calendar already shows it rolled back. */
+export function MutationError() {
+  const { mutationError, setMutationError } = useMutationError();
+
+  if (!mutationError) return null;
+
+  return (
+    <div
+      role="alert"
+      className="bg-destructive fixed bottom-4 left-1/2 z-60 flex max-w-[90vw] -translate-x-1/2 items-center gap-2 rounded-md px-4 py-2 text-sm text-white shadow-lg"
+    >
+      <TriangleAlert className="h-4 w-4 shrink-0" />
+      <span>{mutationError}. The change was undone.</span>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6 text-white"
+        onClick={() => setMutationError(null)}
+      >
+        <X className="h-4 w-4" />
+        <span className="sr-only">Dismiss</span>
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import { BellRing } from 'lucide-react';
+
+import useReminders from '@/hooks/useReminders';
+import { describeReminder, formatAlertStart, SNOOZE_OPTIONS } from '@/lib/reminders';
+import { useTimeZone } from './calendar/Provider';
+import { Button } from './ui/button';
+
+/** In-app alerts for reminders that fired, with snooze and dismiss. */
+export function ReminderAlerts() {
+  const { active, snooze, dismiss } = useReminders();
+  const { displayTimeZone } = useTimeZone();
+
+  if (active.length === 0) return null;
+
+  return (
+    <div className="fixed right-4 bottom-4 z-60 flex w-80 max-w-[90vw] flex-col gap-2">
+      {active.map((alert) => (
+        <div
+          key={alert.key}
+          role="alert"
+          className="flex flex-col gap-2 rounded-md border border-(--left-border-colour) bg-(--left-background) px-4 py-3 text-sm shadow-lg"
+        >
+          <div className="flex items-start gap-2">
+            <BellRing className="text-primary mt-0.5 h-4 w-4 shrink-0" />
+            <div className="flex min-w-0 flex-col">
+              <span className="truncate font-semibold">{alert.title}</span>
+              <span className="text-muted-foreground text-xs">
+                {formatAlertStart(alert, displayTimeZone)} ({describeReminder(alert.minutes)})
+              </span>
+            </div>
+          </div>
+          <div className="flex items-center justify-end gap-1">
+            <span className="text-muted-foreground mr-auto text-xs">Snooze</span>
+            {SNOOZE_OPTIONS.map((minutes) => (
+              <Button
+                key={minutes}
+                variant="outline"
+                size="sm"
+                onClick={() => snooze(alert.key, minutes)}
+              >
+                {minutes} min
+              </Button>
+            ))}
+            <Button variant="default-rounded" size="sm" onClick={() => dismiss(alert.key)}>
+              Dismiss
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
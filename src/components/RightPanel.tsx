@@ -1,3 +1,4 @@
+import { colourCss } from '@/lib/colours';
 import CalendarEventPanel from './calendar/EventPanel';
 import { useEvents, useViewBy } from './calendar/Provider';
 
@@ -12,11 +13,10 @@ const RightPanel = () => {
         <div
           className="mt-5 mr-2 mb-2 ml-4 flex h-[calc(100vh-var(--headers-height))] items-start justify-center rounded-md border border-(--event-default-colour-1-30) bg-(--event-default-colour-1-10)"
           style={{
-            backgroundColor: `var(--event-default-colour-${selectedEvent?.colour}-10)`,
+            backgroundColor:
+              selectedEvent !== null ? colourCss(selectedEvent.colour, '10') : 'transparent',
             borderColor:
-              selectedEvent !== null
-                ? `var(--event-default-colour-${selectedEvent?.colour}-30)`
-                : 'transparent',
+              selectedEvent !== null ? colourCss(selectedEvent.colour, '30') : 'transparent',
           }}
         >
           {selectedEvent !== null && selectedEvent.id !== '' ? (
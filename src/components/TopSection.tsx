@@ -1,6 +1,11 @@
 import React from 'react';
 
 import { AppearanceToggle } from './AppearanceToggle';
+import { DataMenu } from './DataMenu';
+import { DataProblems } from './DataProblems';
+import { EventSearch } from './EventSearch';
+import { FilterMenu } from './FilterMenu';
+import { DisplayTimeZoneSelect } from './calendar/TimeZoneSelect';
 import TodayNav from './calendar/TodayNav';
 import ViewByBar from './calendar/ViewByBar';
 
@@ -16,6 +21,11 @@ const TopSection: React.FC = () => {
       </div>
 
       <div className="ml-auto flex h-(--header-height) flex-row items-center justify-baseline gap-2 p-2">
+        <EventSearch />
+        <FilterMenu />
+        <DisplayTimeZoneSelect />
+        <DataProblems />
+        <DataMenu />
         <AppearanceToggle />
       </div>
     </div>
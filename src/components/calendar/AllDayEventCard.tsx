@@ -1,26 +1,32 @@
 import React, { useMemo } from 'react';
 
+import { DECLINED_CLASS } from '@/lib/attendees';
+import { colourCss } from '@/lib/colours';
 import type { TCalendarEvent } from '@/types/Calendar';
+import { AttendeeSummary } from './AttendeeSummary';
+import { ReadOnlyLock } from './ReadOnlyLock';
+import { EventTypeIcon } from './TypeIcon';
 
 interface AllDayEventCardProps extends React.HTMLAttributes<HTMLDivElement> {
   event: TCalendarEvent;
   isSelected?: boolean;
   isDragging?: boolean;
+  // shows a lock and drops the grab cursor
+  readOnly?: boolean;
+  // the current user declined it: struck through
+  declined?: boolean;
 }
 
 // Small className helper to keep JSX cleaner.
 const cx = (...parts: Array<string | false | null | undefined>) => parts.filter(Boolean).join(' ');
 
 export const AllDayEventCard = React.forwardRef<HTMLDivElement, AllDayEventCardProps>(
-  ({ event, isSelected, isDragging, className, style, ...props }, ref) => {
+  ({ event, isSelected, isDragging, readOnly, declined, className, style, ...props }, ref) => {
     const containerStyle = useMemo<React.CSSProperties>(
       () => ({
         backgroundColor:
-          isSelected && !isDragging
-            ? `var(--event-default-colour-${event.colour})`
-            : `var(--event-default-colour-${event.colour}-30)`,
-        color:
-          isSelected && !isDragging ? `white` : `var(--event-default-colour-${event.colour}-text)`,
+          isSelected && !isDragging ? colourCss(event.colour) : colourCss(event.colour, '30'),
+        color: isSelected && !isDragging ? `white` : colourCss(event.colour, 'text'),
         userSelect: 'none',
         ...style,
       }),
@@ -29,7 +35,7 @@ export const AllDayEventCard = React.forwardRef<HTMLDivElement, AllDayEventCardP
 
     const markerStyle = useMemo(
       () => ({
-        backgroundColor: `var(--event-default-colour-${event.colour}-marker)`,
+        backgroundColor: colourCss(event.colour, 'marker'),
       }),
       [event.colour]
     );
@@ -50,12 +56,13 @@ export const AllDayEventCard = React.forwardRef<HTMLDivElement, AllDayEventCardP
           'justify-between',
           'items-start',
           'text-sm',
-          'cursor-grab',
+          readOnly ? 'cursor-default' : 'cursor-grab',
           'font-medium',
           'shadow-sm',
           'transition-opacity',
           isDragging ? 'bg-opacity-30' : 'bg-opacity-60',
           'outline-none',
+          declined && DECLINED_CLASS,
           className
         )}
         style={containerStyle}
@@ -82,10 +89,13 @@ export const AllDayEventCard = React.forwardRef<HTMLDivElement, AllDayEventCardP
             'overflow-hidden'
           )}
         >
+          {readOnly && <ReadOnlyLock className="self-center" />}
+          <EventTypeIcon type={event.type} className="self-center" />
           {/* title; preserved truncation behaviour */}
           <span className="font-regular max-w-full truncate overflow-hidden whitespace-nowrap">
             {` ${event.title}`}
           </span>
+          <AttendeeSummary event={event} className="ml-auto self-center" />
         </div>
       </div>
     );
@@ -77,7 +77,7 @@ const AllDaySection: React.FC<AllDaySectionProps> = (props) => {
         className="scrollbar scrollbar-corner-custom scrollbar-thumb-custom-light scrollbar-track-custom scrollbar-hover:bg-[--scroll-thumb-hover-colour] relative flex w-full flex-row items-start overflow-y-scroll border-r border-[--scroll-border-colour] outline-none"
       >
         {/* Label Column */}
-        <div className="flex w-[calc(var(--calendar-hour-width)-0.44rem)] shrink-0 flex-col pr-3">
+        <div className="flex w-[calc(var(--calendar-hour-width)-0.44rem+var(--calendar-zone-gutters-width))] shrink-0 flex-col pr-3">
           <div className="relative flex items-center justify-end py-1">
             <span className="px-1 text-right text-xs font-extralight text-(--calendar-time-colour)">
               all-day
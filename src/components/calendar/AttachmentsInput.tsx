@@ -0,0 +1,198 @@
+import { useEffect, useId, useRef, useState } from 'react';
+
+import { Eye, EyeOff, FileText, Paperclip, X } from 'lucide-react';
+
+import { Button } from '../ui/button';
+import { Label } from '../ui/label';
+import { useAttachments } from './Provider';
+
+import { formatBytes, MAX_ATTACHMENT_SIZE, previewKindOf } from '@/lib/attachments';
+import type { IAttachment } from '@/types/Calendar';
+
+type AttachmentsInputProps = {
+  value: IAttachment[];
+  onChange: (attachments: IAttachment[]) => void;
+  // files can be opened but not added or removed
+  readOnly?: boolean;
+};
+
+/** Object URL of a stored file while mounted: undefined while loading, null when missing. */
+const useAttachmentUrl = (id: string) => {
+  const { attachmentStore } = useAttachments();
+  const [url, setUrl] = useState<string | null | undefined>(undefined);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    attachmentStore
+      .get(id)
+      .then((blob) => {
+        if (cancelled) return;
+        objectUrl = blob ? URL.createObjectURL(blob) : null;
+        setUrl(objectUrl);
+      })
+      .catch((error) => {
+        console.error('Failed to read attachment', error);
+        if (!cancelled) setUrl(null);
+      });
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [attachmentStore, id]);
+
+  return url;
+};
+
+const AttachmentItem = ({
+  attachment,
+  onRemove,
+}: {
+  attachment: IAttachment;
+  onRemove?: () => void;
+}) => {
+  const url = useAttachmentUrl(attachment.id);
+  const kind = previewKindOf(attachment.type);
+  // PDFs are large to show inline, so they open on request
+  const [showPdf, setShowPdf] = useState(false);
+
+  return (
+    <div className="flex flex-col gap-1 rounded-sm bg-(--button-group-separator) p-1.5 text-xs">
+      <div className="flex items-center gap-1.5">
+        <FileText className="size-3.5 shrink-0" />
+        {url ? (
+          <a
+            href={url}
+            download={attachment.name}
+            className="min-w-0 flex-1 truncate underline-offset-2 hover:underline"
+            title={`Download ${attachment.name}`}
+          >
+            {attachment.name}
+          </a>
+        ) : (
+          <span className="min-w-0 flex-1 truncate">{attachment.name}</span>
+        )}
+        <span className="text-muted-foreground shrink-0">
+          {url === null ? 'missing' : formatBytes(attachment.size)}
+        </span>
+        {kind === 'pdf' && url && (
+          <button
+            type="button"
+            aria-label={`${showPdf ? 'Hide' : 'Show'} ${attachment.name}`}
+            onClick={() => setShowPdf(!showPdf)}
+            className="cursor-pointer"
+          >
+            {showPdf ? <EyeOff className="size-3.5" /> : <Eye className="size-3.5" />}
+          </button>
+        )}
+        {onRemove && (
+          <button
+            type="button"
+            aria-label={`Remove ${attachment.name}`}
+            onClick={onRemove}
+            className="cursor-pointer"
+          >
+            <X className="size-3.5" />
+          </button>
+        )}
+      </div>
+      {url && kind === 'image' && (
+        <img src={url} alt={attachment.name} className="max-h-32 self-start rounded-xs" />
+      )}
+      {url && kind === 'pdf' && showPdf && (
+        <iframe src={url} title={attachment.name} className="h-64 w-full rounded-xs bg-white" />
+      )}
+    </div>
+  );
+};
+
+/**
+ * AttachmentsInput
+ * - Lists an event's files with a preview of images (and of PDFs, on request); each name
+ *   downloads the file.
+ * - Picked files are stored at once (see `attachFile`) and linked to the event when it is
+ *   saved; removing one only unlinks it, and unlinked files are deleted later by the provider.
+ */
+const AttachmentsInput = ({ value, onChange, readOnly = false }: AttachmentsInputProps) => {
+  const idFiles = useId();
+  const fileRef = useRef<HTMLInputElement>(null);
+  const { attachFile } = useAttachments();
+  const [busy, setBusy] = useState(false);
+  const [problem, setProblem] = useState<string | null>(null);
+
+  const handleFiles = async (files: File[]) => {
+    const tooLarge = files.filter((f) => f.size > MAX_ATTACHMENT_SIZE);
+    setProblem(
+      tooLarge.length > 0
+        ? `${tooLarge.map((f) => f.name).join(', ')}: larger than ${formatBytes(MAX_ATTACHMENT_SIZE)}`
+        : null
+    );
+    const accepted = files.filter((f) => f.size <= MAX_ATTACHMENT_SIZE);
+    if (accepted.length === 0) return;
+
+    setBusy(true);
+    try {
+      const added: IAttachment[] = [];
+      for (const file of accepted) added.push(await attachFile(file));
+      onChange([...value, ...added]);
+    } catch (error) {
+      console.error('Failed to store attachment', error);
+      setProblem('The file could not be stored (the browser may be out of space).');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (readOnly && value.length === 0) return null;
+
+  return (
+    <div className="flex items-start gap-4">
+      <Label htmlFor={idFiles} className="w-12 shrink-0 justify-end pt-1">
+        files
+      </Label>
+      <div className="flex min-w-0 flex-1 flex-col gap-1">
+        {value.map((attachment) => (
+          <AttachmentItem
+            key={attachment.id}
+            attachment={attachment}
+            onRemove={
+              readOnly ? undefined : () => onChange(value.filter((a) => a.id !== attachment.id))
+            }
+          />
+        ))}
+        {!readOnly && (
+          <>
+            <input
+              id={idFiles}
+              ref={fileRef}
+              type="file"
+              multiple
+              className="sr-only"
+              onChange={(e) => {
+                handleFiles([...(e.target.files ?? [])]);
+                e.target.value = '';
+              }}
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 self-start px-2 text-xs"
+              disabled={busy}
+              onClick={() => fileRef.current?.click()}
+            >
+              <Paperclip className="size-3.5" />
+              {busy ? 'Attaching...' : 'Attach files'}
+            </Button>
+          </>
+        )}
+        {problem && (
+          <span className="text-destructive text-xs" role="alert">
+            {problem}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AttachmentsInput;
@@ -0,0 +1,31 @@
+import { Users } from 'lucide-react';
+
+import { attendeeLabel, organizerOf } from '@/lib/attendees';
+import { cn } from '@/lib/utils';
+import type { TCalendarEvent } from '@/types/Calendar';
+
+/** Attendee count for event cards, with the organizer's name when `showOrganizer` is set. */
+export const AttendeeSummary = ({
+  event,
+  showOrganizer = false,
+  className,
+}: {
+  event: Pick<TCalendarEvent, 'attendees'>;
+  showOrganizer?: boolean;
+  className?: string;
+}) => {
+  if (!event.attendees?.length) return null;
+  const organizer = organizerOf(event);
+  return (
+    <span
+      className={cn('flex shrink-0 items-center gap-0.5 text-xs', className)}
+      title={`${event.attendees.length} guests${organizer ? `, organized by ${attendeeLabel(organizer)}` : ''}`}
+    >
+      <Users className="size-3" aria-hidden />
+      {event.attendees.length}
+      {showOrganizer && organizer && (
+        <span className="truncate pl-1">· {attendeeLabel(organizer)}</span>
+      )}
+    </span>
+  );
+};
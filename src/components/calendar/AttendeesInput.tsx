@@ -0,0 +1,152 @@
+import { useId } from 'react';
+
+import { Crown, Plus, UserRound, X } from 'lucide-react';
+
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { useCurrentUser } from './Provider';
+
+import { ATTENDEE_STATUSES, createAttendee, isSameEmail } from '@/lib/attendees';
+import { cn } from '@/lib/utils';
+import type { AttendeeStatus, IAttendee } from '@/types/Calendar';
+
+type AttendeesInputProps = {
+  value?: IAttendee[];
+  onChange: (attendees: IAttendee[]) => void;
+};
+
+const toggleClass = (active: boolean) =>
+  cn(
+    'h-6 cursor-pointer rounded px-1.5 text-xs',
+    active ? 'bg-primary text-primary-foreground' : 'bg-(--button-group-separator)'
+  );
+
+/**
+ * AttendeesInput
+ * - Edits the `attendees` of an event: name, email, required/optional, the answer each one
+ *   gave, and who organizes it (at most one).
+ * - "me" marks which attendee is the current user (stored as their email), so they can
+ *   answer invitations with the RSVP buttons.
+ * - Controlled: every change emits a new list.
+ */
+const AttendeesInput = ({ value = [], onChange }: AttendeesInputProps) => {
+  const idGuests = useId();
+  const { userEmail, setUserEmail } = useCurrentUser();
+
+  const update = (index: number, patch: Partial<IAttendee>) =>
+    onChange(value.map((a, i) => (i === index ? { ...a, ...patch } : a)));
+
+  const toggleOrganizer = (index: number) =>
+    onChange(
+      value.map((a, i) => ({ ...a, organizer: i === index ? !value[index].organizer : undefined }))
+    );
+
+  const accepted = value.filter((a) => a.status === 'accepted').length;
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-4">
+        <Label htmlFor={idGuests} className="w-12 justify-end">
+          guests
+        </Label>
+        <span className="text-muted-foreground text-xs">
+          {value.length === 0 ? 'None' : `${value.length} invited, ${accepted} accepted`}
+        </span>
+        <Button
+          id={idGuests}
+          type="button"
+          size="smdr"
+          variant="grey"
+          className="ml-auto w-7"
+          aria-label="Add guest"
+          onClick={() => onChange([...value, createAttendee()])}
+        >
+          <Plus className="stroke-3" />
+        </Button>
+      </div>
+
+      {value.map((attendee, index) => {
+        const isMe = !!userEmail && !!attendee.email && isSameEmail(attendee.email, userEmail);
+        return (
+          <div key={index} className="flex flex-col gap-1 pl-16">
+            <div className="flex items-center gap-1">
+              <Input
+                value={attendee.name}
+                placeholder="Name"
+                aria-label={`Guest ${index + 1} name`}
+                onChange={(e) => update(index, { name: e.target.value })}
+                className="h-6 px-1"
+              />
+              <Input
+                type="email"
+                value={attendee.email}
+                placeholder="Email"
+                aria-label={`Guest ${index + 1} email`}
+                onChange={(e) => update(index, { email: e.target.value })}
+                className="h-6 px-1"
+              />
+              <button
+                type="button"
+                aria-label={`Remove guest ${index + 1}`}
+                onClick={() => onChange(value.filter((_, i) => i !== index))}
+                className="text-muted-foreground hover:text-foreground cursor-pointer"
+              >
+                <X className="size-4" />
+              </button>
+            </div>
+            <div className="flex items-center gap-1">
+              <Select
+                value={attendee.status}
+                onValueChange={(v) => update(index, { status: v as AttendeeStatus })}
+              >
+                <SelectTrigger className="h-6 w-28" aria-label={`Guest ${index + 1} answer`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-(--left-background)">
+                  {ATTENDEE_STATUSES.map((s) => (
+                    <SelectItem value={s.value} key={s.value}>
+                      {s.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <button
+                type="button"
+                aria-pressed={!!attendee.optional}
+                onClick={() => update(index, { optional: !attendee.optional || undefined })}
+                className={toggleClass(!!attendee.optional)}
+              >
+                optional
+              </button>
+              <button
+                type="button"
+                aria-pressed={!!attendee.organizer}
+                aria-label="Organizer"
+                title="Organizer"
+                onClick={() => toggleOrganizer(index)}
+                className={toggleClass(!!attendee.organizer)}
+              >
+                <Crown className="size-3" />
+              </button>
+              <button
+                type="button"
+                aria-pressed={isMe}
+                aria-label="This is me"
+                title="This is me"
+                disabled={!attendee.email.trim()}
+                onClick={() => setUserEmail(isMe ? null : attendee.email)}
+                className={cn(toggleClass(isMe), 'disabled:cursor-default disabled:opacity-50')}
+              >
+                <UserRound className="size-3" />
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default AttendeesInput;
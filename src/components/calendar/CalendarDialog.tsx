@@ -0,0 +1,132 @@
+import { useId, useState } from 'react';
+
+import { CalendarPlus, Pencil } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { createCalendar } from '@/lib/calendars';
+import type { ICalendar } from '@/types/Calendar';
+import { EventColourSelect } from './EventStyleSelects';
+import { useCalendars } from './Provider';
+import RemindersInput from './RemindersInput';
+
+interface CalendarDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // calendar to rename/recolour; a new calendar is created when omitted
+  calendar?: ICalendar | null;
+}
+
+/**
+ * Dialog to create a calendar, or rename and recolour one.
+ * The colour is what new events in the calendar start with; existing events keep theirs.
+ * Its default reminders apply to its events that have no reminders of their own.
+ * A read-only calendar's events cannot be changed and no events can be added to it.
+ * Mount it with a `key` per calendar so the form starts from that calendar's values.
+ */
+export function CalendarDialog({ open, onOpenChange, calendar }: CalendarDialogProps) {
+  const idName = useId();
+  const idColour = useId();
+  const idReadOnly = useId();
+
+  const { calendars, setCalendars } = useCalendars();
+  const [name, setName] = useState(calendar?.name ?? '');
+  const [colour, setColour] = useState(calendar?.colour ?? '1');
+  const [readOnly, setReadOnly] = useState(calendar?.readOnly ?? false);
+  const [reminders, setReminders] = useState(calendar?.defaultReminders ?? []);
+
+  const trimmed = name.trim();
+  const taken = calendars.some(
+    (c) => c.id !== calendar?.id && c.name.toLowerCase() === trimmed.toLowerCase()
+  );
+
+  const handleSave = () => {
+    if (!trimmed || taken) return;
+    const defaultReminders = reminders.length > 0 ? reminders : undefined;
+    setCalendars(
+      calendar
+        ? calendars.map((c) =>
+            c.id === calendar.id ? { ...c, name: trimmed, colour, readOnly, defaultReminders } : c
+          )
+        : [...calendars, { ...createCalendar(trimmed, colour), readOnly, defaultReminders }]
+    );
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="text-primary flex items-center gap-2">
+            {calendar ? <Pencil className="h-6 w-6" /> : <CalendarPlus className="h-6 w-6" />}
+            {calendar ? 'Edit calendar' : 'New calendar'}
+          </DialogTitle>
+          <DialogDescription>New events in this calendar start with its colour.</DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="flex flex-col gap-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSave();
+          }}
+        >
+          <div className="flex items-center gap-4">
+            <Label htmlFor={idName} className="w-12 justify-end">
+              name
+            </Label>
+            <Input
+              id={idName}
+              className="w-2/3"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          {taken && (
+            <span className="text-destructive text-sm">
+              There is already a calendar called “{trimmed}”.
+            </span>
+          )}
+
+          <div className="flex items-center gap-4">
+            <Label htmlFor={idColour} className="w-12 justify-end">
+              colour
+            </Label>
+            <EventColourSelect id={idColour} value={colour} onValueChange={setColour} />
+          </div>
+
+          <RemindersInput value={reminders} onChange={(r) => setReminders(r ?? [])} />
+
+          <div className="flex items-center gap-4">
+            <span className="w-12" />
+            <Checkbox
+              id={idReadOnly}
+              checked={readOnly}
+              onCheckedChange={(toggle: boolean) => setReadOnly(toggle)}
+            />
+            <Label htmlFor={idReadOnly}>Read only (events cannot be added or changed)</Label>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="default-rounded" disabled={!trimmed || taken}>
+              {calendar ? 'Save' : 'Create'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
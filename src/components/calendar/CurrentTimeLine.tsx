@@ -1,6 +1,9 @@
+import useNow from '@/hooks/useNow';
 import { CELL_HEIGHT, SLOTS_PER_HOUR } from '@/lib/constants';
+import { toZonedTime } from '@/lib/timeZones';
 import { format } from 'date-fns';
-import React, { useEffect, useState } from 'react';
+import React from 'react';
+import { useTimeZone } from './Provider';
 
 interface CurrentTimeLineProps {
   cellHeight?: number;
@@ -13,13 +16,9 @@ const CurrentTimeLine: React.FC<CurrentTimeLineProps> = ({
   slotsPerHour = SLOTS_PER_HOUR,
   offset = 0,
 }) => {
-  const [now, setNow] = useState(() => new Date());
-
-  // tick every 15s (or whatever resolution you need) — this updates only this component
-  useEffect(() => {
-    const id = setInterval(() => setNow(new Date()), 15000);
-    return () => clearInterval(id);
-  }, []);
+  const { displayTimeZone } = useTimeZone();
+  // wall-clock time in the display zone, ticking every 15s — this updates only this component
+  const now = toZonedTime(useNow(), displayTimeZone);
 
   const top =
     now.getHours() * cellHeight * slotsPerHour + now.getMinutes() * (cellHeight / 15) + offset;
@@ -9,12 +9,16 @@ import Calendar from '../ui/calendar';
 import { Input } from '../ui/input';
 
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { fromZonedTime, nowIn, timeZoneAbbreviation } from '@/lib/timeZones';
 
 type DateInputProps = {
   datetime?: Date;
   onDateChange?: (d: Date) => void;
   dateReadonly?: boolean;
   showTime?: boolean;
+  // IANA zone `datetime` is a wall-clock time in; used for the "now" fallback and shown
+  // next to the time fields
+  timeZone?: string;
 };
 
 const clamp = (val: number, min: number, max: number) => Math.max(min, Math.min(max, val));
@@ -38,8 +42,9 @@ const DateInput: React.FC<DateInputProps> = ({
   onDateChange,
   dateReadonly = false,
   showTime = false,
+  timeZone,
 }) => {
-  const initial = datetime ?? new Date();
+  const initial = datetime ?? (timeZone ? nowIn(timeZone) : new Date());
   // animation variants for showing/hiding the time inputs
   const timeVariants = {
     hidden: { opacity: 0, height: 0, scale: 0.98 },
@@ -97,7 +102,7 @@ const DateInput: React.FC<DateInputProps> = ({
 
   // sync when parent updates datetime
   useEffect(() => {
-    const d = datetime ?? new Date();
+    const d = datetime ?? (timeZone ? nowIn(timeZone) : new Date());
     const sd = pad2(String(d.getDate()));
     const sm = pad2(String(d.getMonth() + 1));
     const sy = String(d.getFullYear());
@@ -113,7 +118,7 @@ const DateInput: React.FC<DateInputProps> = ({
     lastValidYearRef.current = sy;
     lastValidHourRef.current = sh;
     lastValidMinuteRef.current = smi;
-  }, [datetime]);
+  }, [datetime, timeZone]);
 
   // small helpers
   const onlyDigits = useCallback((v: string) => v.replace(/\D/g, ''), []);
@@ -676,6 +681,11 @@ const DateInput: React.FC<DateInputProps> = ({
               maxLength={2}
               className="m-0 h-6 w-5 p-0 text-center"
             />
+            {timeZone && (
+              <span className="text-muted-foreground ml-1.5 text-xs" title={timeZone}>
+                {timeZoneAbbreviation(timeZone, fromZonedTime(composeDate(), timeZone))}
+              </span>
+            )}
           </motion.div>
         )}
       </AnimatePresence>
@@ -6,6 +6,7 @@ import type { CalendarCellProps, TCalendarEvent } from '@/types/Calendar';
 import { DraggableEvent } from './DraggableEvent';
 
 import { CELL_HEIGHT } from '@/lib/constants';
+import { dragIdOf } from '@/lib/daySegments';
 
 /**
  * Safely extract y,m,d,h parts from a scheduledEvents key.
@@ -120,7 +121,7 @@ const CalendarDayCell: React.FC<CalendarCellProps> = ({
                 }}
                 className="pointer-events-auto"
                 data-events-per-hour={Math.round(100 / width)}
-                data-id={event.id}
+                data-id={dragIdOf(event)}
               >
                 <DraggableEvent event={event} />
               </div>
@@ -141,7 +142,7 @@ const CalendarDayCell: React.FC<CalendarCellProps> = ({
                 }}
                 className="pointer-events-auto"
                 data-events-per-hour={0}
-                data-id={event.id}
+                data-id={dragIdOf(event)}
               >
                 <DraggableEvent event={event} />
               </div>
@@ -164,7 +165,7 @@ const CalendarDayCell: React.FC<CalendarCellProps> = ({
               }}
               className="pointer-events-auto"
               data-events-per-hour={lenEventsThisHour}
-              data-id={event.id}
+              data-id={dragIdOf(event)}
             >
               <DraggableEvent event={event} />
             </div>
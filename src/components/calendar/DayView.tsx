@@ -10,22 +10,32 @@ import {
   useSensors,
 } from '@dnd-kit/core';
 import { restrictToVerticalAxis } from '@dnd-kit/modifiers';
-import { format, isToday } from 'date-fns';
+import { format } from 'date-fns';
 import { AnimatePresence, motion } from 'motion/react';
 
 import useCalendarDrag, { type DragOverCellType } from '@/hooks/useCalendarDrag';
 import useFetchEvents from '@/hooks/useFetchEvents';
 import useScrollbarSize from '@/hooks/useScrollbarSize';
+import { colourCss } from '@/lib/colours';
 import { CELL_HEIGHT, CELL_WIDTH, HOURS, SLOTS_PER_HOUR } from '@/lib/constants';
 import { layoutEvents } from '@/lib/layoutEvents';
 import snapToQuarterHour from '@/lib/snapToQuarterHour';
+import { isTodayIn, nowIn } from '@/lib/timeZones';
 import type { TCalendarEvent } from '@/types/Calendar';
 import AllDaySection from './AllDaySection';
 import CurrentTimeLine from './CurrentTimeLine';
 import DayCell from './DayCell';
 import Header from './Header';
-import { useEvents, useNewEvent, usePanels, useSelectedDate, useViewBy } from './Provider';
+import {
+  useEvents,
+  useNewEvent,
+  usePanels,
+  useSelectedDate,
+  useTimeZone,
+  useViewBy,
+} from './Provider';
 import TimeLabel from './TimeLabel';
+import TimeZoneGutters, { zoneGuttersStyle } from './TimeZoneGutters';
 
 const getWeekDays = (date: Date) => {
   return [format(date, 'yyyy-MM-dd')];
@@ -37,6 +47,7 @@ const DayView: React.FC = () => {
   const { viewBy } = useViewBy();
   const { events } = useEvents();
   const { selectedDate } = useSelectedDate();
+  const { displayTimeZone, secondaryTimeZones } = useTimeZone();
   const { showLeftPanel, showRightPanel } = usePanels();
   const { setIsInputToggled, setStartDateTime, setEndDateTime } = useNewEvent();
 
@@ -87,8 +98,8 @@ const DayView: React.FC = () => {
 
   const showCurrentTime = useMemo(() => {
     if (!selectedDate) return false;
-    return isToday(selectedDate ?? new Date());
-  }, [selectedDate]);
+    return isTodayIn(selectedDate, displayTimeZone);
+  }, [selectedDate, displayTimeZone]);
 
   // const tableRectModifier = restrictToTable(tableRef);
 
@@ -135,8 +146,8 @@ const DayView: React.FC = () => {
     (node: HTMLDivElement | null) => {
       if (node && selectedDate) {
         requestAnimationFrame(() => {
-          if (isToday(selectedDate)) {
-            const now = new Date();
+          if (isTodayIn(selectedDate, displayTimeZone)) {
+            const now = nowIn(displayTimeZone);
             const top =
               now.getHours() * CELL_HEIGHT * SLOTS_PER_HOUR + now.getMinutes() * (CELL_HEIGHT / 15);
             const containerHeight = node.clientHeight;
@@ -152,7 +163,7 @@ const DayView: React.FC = () => {
         scrollContainerRef.current = node;
       }
     },
-    [selectedDate]
+    [selectedDate, displayTimeZone]
   );
 
   const handleDoubleClick = (hour: number, slot: number) => {
@@ -187,6 +198,7 @@ const DayView: React.FC = () => {
             ? 'w-[calc(100vw-var(--left-width))]'
             : 'w-full'
       } flex flex-col`}
+      style={zoneGuttersStyle(secondaryTimeZones.length)}
     >
       <Header selectedDate={selectedDate} days={days} />
 
@@ -216,6 +228,10 @@ const DayView: React.FC = () => {
               className="scrollbar scrollbar-corner-custom scrollbar-thumb-custom-light scrollbar-track-custom scrollbar-hover:bg-[--scroll-thumb-hover-colour] relative flex min-h-0 w-full flex-1 flex-row items-start overflow-y-scroll border-r border-[--scroll-border-colour] outline-none"
               tabIndex={-1}
             >
+              <TimeZoneGutters
+                date={selectedDate ?? new Date()}
+                showCurrentTime={showCurrentTime}
+              />
               <TimeLabel />
 
               {showCurrentTime && <CurrentTimeLine />}
@@ -263,7 +279,7 @@ const DayView: React.FC = () => {
               <div
                 className="pointer-events-none relative min-w-[120px] rounded text-left text-base font-semibold opacity-95"
                 style={{
-                  background: `var(--event-default-colour-${activeEvent.colour}-70)`,
+                  background: colourCss(activeEvent.colour, '70'),
                   color: '#222',
                 }}
               >
@@ -271,7 +287,7 @@ const DayView: React.FC = () => {
                   <div
                     className="pointer-events-none absolute w-full min-w-[120px] rounded text-left text-xs font-semibold opacity-95"
                     style={{
-                      backgroundColor: `var(--event-default-colour-${activeEvent.colour})`,
+                      backgroundColor: colourCss(activeEvent.colour),
                       color: `white`,
                       height: activeEvent.duration ? `${activeEvent.duration}px` : 'auto',
                       width: `${
@@ -0,0 +1,160 @@
+import { useId, useState } from 'react';
+
+import { OctagonX } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import useFetchEvents from '@/hooks/useFetchEvents';
+import { calendarOf } from '@/lib/calendars';
+import type { ICalendar } from '@/types/Calendar';
+import { EventCalendarSelect } from './EventStyleSelects';
+import { useAttachments, useCalendars, useEventStore, useHistory } from './Provider';
+
+interface DeleteCalendarDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  calendar: ICalendar;
+}
+
+/**
+ * Dialog to delete a calendar. Its events move to another calendar, or are deleted with it
+ * when asked to (one undo step; the calendar itself is not brought back by undo).
+ * The last calendar and read-only calendars cannot be deleted.
+ */
+export function DeleteCalendarDialog({ open, onOpenChange, calendar }: DeleteCalendarDialogProps) {
+  const idTarget = useId();
+  const idDeleteEvents = useId();
+
+  const store = useEventStore();
+  const { group } = useHistory();
+  const { pruneUnlinkedAttachments } = useAttachments();
+  const { fetchEvents } = useFetchEvents(false);
+  const { calendars, setCalendars, hiddenCalendarIds, setHiddenCalendarIds } = useCalendars();
+
+  const others = calendars.filter((c) => c.id !== calendar.id);
+  const [target, setTarget] = useState((others.find((c) => !c.readOnly) ?? others[0])?.id ?? '');
+  const [deleteEvents, setDeleteEvents] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const [failure, setFailure] = useState<string | null>(null);
+
+  const blocker =
+    others.length === 0
+      ? 'This is the only calendar, so it cannot be deleted.'
+      : calendar.readOnly
+        ? 'This calendar is read-only. Make it editable to delete it.'
+        : null;
+  const targetReadOnly = !deleteEvents && !!others.find((c) => c.id === target)?.readOnly;
+
+  const handleOpenChange = (next: boolean) => {
+    if (deleting) return;
+    setFailure(null);
+    onOpenChange(next);
+  };
+
+  const handleDelete = async () => {
+    setDeleting(true);
+    setFailure(null);
+    try {
+      await group(async () => {
+        const events = (await store.getEvents()).filter(
+          // read-only events cannot be moved or deleted; they end up in the first calendar
+          (e) => calendarOf(e, calendars).id === calendar.id && !e.readOnly
+        );
+        for (const event of events) {
+          if (deleteEvents) await store.deleteEvent(event.id);
+          else await store.changeEvent({ ...event, calendarId: target });
+        }
+      });
+      if (deleteEvents) pruneUnlinkedAttachments();
+      setCalendars(others);
+      setHiddenCalendarIds(hiddenCalendarIds.filter((id) => id !== calendar.id));
+      await fetchEvents(true, true);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Failed to delete calendar', error);
+      setFailure(error instanceof Error ? error.message : 'The calendar could not be deleted.');
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="text-primary flex items-center gap-2">
+            <OctagonX className="h-6 w-6" />
+            Delete calendar
+          </DialogTitle>
+          <DialogDescription className="flex flex-col gap-2">
+            <span>{blocker ?? 'Choose what happens to the events in this calendar.'}</span>
+            <span className="text-foreground pt-2 font-bold">{calendar.name}</span>
+          </DialogDescription>
+        </DialogHeader>
+
+        {!blocker && (
+          <>
+            <div className="flex items-center gap-4">
+              <Label htmlFor={idTarget} className="w-12 justify-end">
+                move to
+              </Label>
+              {deleteEvents ? (
+                <span className="text-muted-foreground text-sm">(events are deleted)</span>
+              ) : (
+                <EventCalendarSelect
+                  id={idTarget}
+                  value={target}
+                  onValueChange={setTarget}
+                  exclude={calendar.id}
+                />
+              )}
+            </div>
+            <div className="flex items-center gap-4">
+              <span className="w-12" />
+              <Checkbox
+                id={idDeleteEvents}
+                checked={deleteEvents}
+                onCheckedChange={(toggle: boolean) => setDeleteEvents(toggle)}
+              />
+              <Label htmlFor={idDeleteEvents}>Delete its events instead</Label>
+            </div>
+          </>
+        )}
+
+        {targetReadOnly && (
+          <span className="text-destructive text-sm">
+            Events cannot be moved to a read-only calendar.
+          </span>
+        )}
+
+        {failure && (
+          <span className="text-destructive text-sm">
+            Delete failed: {failure}. Some events may already have been changed.
+          </span>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" disabled={deleting} onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            disabled={deleting || !!blocker || targetReadOnly}
+            onClick={handleDelete}
+          >
+            {deleting ? 'Deleting...' : 'Delete'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,151 @@
+import { type KeyboardEvent, useId, useRef, useState } from 'react';
+
+import { Bold, Italic, Link, List, ListChecks, ListOrdered, Strikethrough } from 'lucide-react';
+
+import { Button } from '../ui/button';
+import { Label } from '../ui/label';
+import { MarkdownView } from './MarkdownView';
+
+import { insertLink, type TextEdit, toggleList, toggleWrap } from '@/lib/markdown';
+import { cn } from '@/lib/utils';
+
+type DescriptionEditorProps = {
+  value: string;
+  onChange: (description: string) => void;
+  // only the rendered description is shown
+  readOnly?: boolean;
+};
+
+type Format = {
+  label: string;
+  icon: typeof Bold;
+  // Ctrl/Cmd + this key applies it while typing
+  shortcut?: string;
+  edit: (text: string, start: number, end: number) => TextEdit;
+};
+
+const FORMATS: Format[] = [
+  { label: 'Bold', icon: Bold, shortcut: 'b', edit: (t, s, e) => toggleWrap(t, s, e, '**') },
+  { label: 'Italic', icon: Italic, shortcut: 'i', edit: (t, s, e) => toggleWrap(t, s, e, '*') },
+  { label: 'Strikethrough', icon: Strikethrough, edit: (t, s, e) => toggleWrap(t, s, e, '~~') },
+  { label: 'Bulleted list', icon: List, edit: (t, s, e) => toggleList(t, s, e, 'bullet') },
+  {
+    label: 'Numbered list',
+    icon: ListOrdered,
+    edit: (t, s, e) => toggleList(t, s, e, 'numbered'),
+  },
+  { label: 'Checklist', icon: ListChecks, edit: (t, s, e) => toggleList(t, s, e, 'check') },
+  { label: 'Link', icon: Link, shortcut: 'k', edit: insertLink },
+];
+
+/**
+ * DescriptionEditor
+ * - Edits an event's description as Markdown, with buttons (and Ctrl/Cmd+B, I, K) that
+ *   format the selection, and a preview of the rendered text.
+ * - Opens on the preview when there is a description already, on the text when there is not.
+ */
+const DescriptionEditor = ({ value, onChange, readOnly = false }: DescriptionEditorProps) => {
+  const idNotes = useId();
+  const textRef = useRef<HTMLTextAreaElement>(null);
+  const [preview, setPreview] = useState(() => value.trim() !== '');
+
+  const apply = ({ edit }: Format) => {
+    const el = textRef.current;
+    if (!el) return;
+    const next = edit(value, el.selectionStart, el.selectionEnd);
+    onChange(next.text);
+    // put the selection back once the new text is in
+    requestAnimationFrame(() => {
+      el.focus();
+      el.setSelectionRange(next.selectionStart, next.selectionEnd);
+    });
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!(e.ctrlKey || e.metaKey) || e.altKey || e.shiftKey) return;
+    const format = FORMATS.find((f) => f.shortcut === e.key.toLowerCase());
+    if (format) {
+      e.preventDefault();
+      apply(format);
+    }
+  };
+
+  if (readOnly) {
+    return value.trim() ? (
+      <div className="flex items-start gap-4">
+        <span className="w-12 shrink-0 text-end text-sm">notes</span>
+        <MarkdownView text={value} className="min-w-0 flex-1" />
+      </div>
+    ) : null;
+  }
+
+  return (
+    <div className="flex items-start gap-4">
+      <Label htmlFor={idNotes} className="w-12 shrink-0 justify-end pt-1">
+        notes
+      </Label>
+      <div className="flex min-w-0 flex-1 flex-col gap-1">
+        <div className="flex items-center gap-0.5">
+          {(['write', 'preview'] as const).map((mode) => (
+            <button
+              type="button"
+              key={mode}
+              aria-pressed={preview === (mode === 'preview')}
+              onClick={() => setPreview(mode === 'preview')}
+              className={cn(
+                'h-6 cursor-pointer rounded px-2 text-xs capitalize',
+                preview === (mode === 'preview')
+                  ? 'bg-primary text-primary-foreground'
+                  : 'bg-(--button-group-separator)'
+              )}
+            >
+              {mode}
+            </button>
+          ))}
+          {!preview && (
+            <div className="ml-auto flex" role="toolbar" aria-label="Formatting">
+              {FORMATS.map((format) => (
+                <Button
+                  key={format.label}
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 px-0 has-[>svg]:px-0"
+                  aria-label={format.label}
+                  title={format.label}
+                  // keep the selection in the text while clicking
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => apply(format)}
+                >
+                  <format.icon className="size-3.5" />
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+        {preview ? (
+          value.trim() ? (
+            <MarkdownView
+              text={value}
+              className="max-h-60 overflow-y-auto rounded-sm bg-(--button-group-separator) p-2"
+            />
+          ) : (
+            <span className="text-muted-foreground p-2 text-sm">Nothing to preview</span>
+          )
+        ) : (
+          <textarea
+            id={idNotes}
+            ref={textRef}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Agenda, notes, links... (Markdown)"
+            rows={5}
+            className="placeholder:text-muted-foreground w-full resize-y rounded-sm bg-(--button-group-separator) p-2 text-sm outline-none"
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DescriptionEditor;
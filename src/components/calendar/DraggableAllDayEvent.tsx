@@ -2,18 +2,24 @@ import { useEffect, useState } from 'react';
 
 import { useDraggable } from '@dnd-kit/core';
 
+import { isDeclinedBy } from '@/lib/attendees';
+import { isReadOnlyEvent } from '@/lib/calendars';
 import type { TCalendarEvent } from '@/types/Calendar';
 import { Popover, PopoverAnchor, PopoverContent } from '../ui/popover';
 import { AllDayEventCard } from './AllDayEventCard';
 import EventPanel from './EventPanel';
-import { useEvents, useViewBy } from './Provider';
+import { useCalendars, useCurrentUser, useEvents, useViewBy } from './Provider';
 
 export function DraggableAllDayEvent({ event }: { event: TCalendarEvent }) {
   const { selectedEvent, setSelectedEvent } = useEvents();
   const { viewBy } = useViewBy();
+  const { calendars } = useCalendars();
+  const readOnly = isReadOnlyEvent(event, calendars);
+  const { userEmail } = useCurrentUser();
   const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
     id: event.id,
     data: { event },
+    disabled: readOnly,
   });
 
   const [isEditOpen, setIsEditOpen] = useState(false);
@@ -35,6 +41,8 @@ export function DraggableAllDayEvent({ event }: { event: TCalendarEvent }) {
           event={event}
           isSelected={selectedEvent?.id === event.id}
           isDragging={isDragging}
+          readOnly={readOnly}
+          declined={isDeclinedBy(event, userEmail)}
           ref={setNodeRef}
           {...attributes}
           {...listeners}
@@ -4,10 +4,18 @@ import { useEffect, useMemo, useState } from 'react';
 import { useDraggable } from '@dnd-kit/core';
 import { format } from 'date-fns';
 
+import { DECLINED_CLASS, isDeclinedBy } from '@/lib/attendees';
+import { isReadOnlyEvent } from '@/lib/calendars';
+import { colourCss } from '@/lib/colours';
+import { dragIdOf, isContinuation } from '@/lib/daySegments';
 import type { TCalendarEvent } from '@/types/Calendar';
 import { Popover, PopoverAnchor, PopoverContent } from '../ui/popover';
+import { AttendeeSummary } from './AttendeeSummary';
+import { EventLocation } from './EventLocation';
 import EventPanel from './EventPanel';
-import { useEvents, useViewBy } from './Provider';
+import { useCalendars, useCurrentUser, useEvents, useViewBy } from './Provider';
+import { ReadOnlyLock } from './ReadOnlyLock';
+import { EventTypeIcon } from './TypeIcon';
 
 // Small className helper to keep JSX cleaner.
 const cx = (...parts: Array<string | false | null | undefined>) => parts.filter(Boolean).join(' ');
@@ -16,7 +24,9 @@ const cx = (...parts: Array<string | false | null | undefined>) => parts.filter(
  * DraggableEvent
  *
  * - Memoized to avoid unnecessary re-renders when props don't change.
- * - Uses useDraggable from @dnd-kit/core to provide drag behaviour.
+ * - Uses useDraggable from @dnd-kit/core to provide drag behaviour (off for read-only events,
+ *   which show a lock).
+ * - Shows the location, attendee count and organizer; events the user declined are struck through.
  * - Uses useMemo for derived values and inline style objects for stable references.
  *
  * Note: colours and border-related classnames/inline styles are kept exactly as in the original.
@@ -26,35 +36,42 @@ export function DraggableEvent({ event }: { event: TCalendarEvent }) {
   const { selectedEvent, setSelectedEvent } = useEvents();
 
   const { viewBy } = useViewBy();
+  const { calendars } = useCalendars();
+  const readOnly = isReadOnlyEvent(event, calendars);
+  const { userEmail } = useCurrentUser();
+  const declined = isDeclinedBy(event, userEmail);
 
   // dnd-kit hook provides attributes/listeners to attach to the drag node
   const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
-    id: event.id,
+    id: dragIdOf(event),
     data: { event },
+    disabled: readOnly,
   });
 
+  // segments of an event running past midnight join up with the previous/next day
+  const continuesBefore = isContinuation(event);
+  const continuesAfter = !!event.segment && event.segment.index < event.segment.count - 1;
+
   // Determine layout based on short duration. Memoized for stability.
   const oneLineTitle = useMemo(
     () => Boolean(event.duration && event.duration <= 30),
     [event.duration]
   );
 
-  // Pre-format the start time once per relevant change.
+  // Pre-format the start time once per relevant change; continuations name the start day.
   const formattedStart = useMemo(
-    () => (event.start ? format(event.start, 'HH:mm') : ''),
-    [event.start]
+    () => (event.start ? format(event.start, continuesBefore ? 'EEE HH:mm' : 'HH:mm') : ''),
+    [event.start, continuesBefore]
   );
   // Stable style objects to avoid creating new objects each render.
   const containerStyle = useMemo<CSSProperties>(
     () => ({
       backgroundColor:
         selectedEvent?.id === event.id && !isDragging
-          ? `var(--event-default-colour-${event.colour})`
-          : `var(--event-default-colour-${event.colour}-30)`,
+          ? colourCss(event.colour)
+          : colourCss(event.colour, '30'),
       color:
-        selectedEvent?.id === event.id && !isDragging
-          ? `white`
-          : `var(--event-default-colour-${event.colour}-text)`,
+        selectedEvent?.id === event.id && !isDragging ? `white` : colourCss(event.colour, 'text'),
       userSelect: 'none',
       height: event.duration ? `${event.duration}px` : 'auto',
     }),
@@ -64,7 +81,7 @@ export function DraggableEvent({ event }: { event: TCalendarEvent }) {
   const markerStyle = useMemo(
     () => ({
       height: event.duration ? `${event.duration}px` : 'auto',
-      backgroundColor: `var(--event-default-colour-${event.colour}-marker)`,
+      backgroundColor: colourCss(event.colour, 'marker'),
     }),
     [event.colour, event.duration]
   );
@@ -96,6 +113,8 @@ export function DraggableEvent({ event }: { event: TCalendarEvent }) {
             'flex-col',
             'border-0',
             'rounded',
+            continuesBefore && 'rounded-t-none',
+            continuesAfter && 'rounded-b-none',
             'pl-2',
             'pr-1',
             oneLineTitle ? 'py-0' : 'py-1',
@@ -103,12 +122,13 @@ export function DraggableEvent({ event }: { event: TCalendarEvent }) {
             'justify-between',
             'items-start',
             'text-sm',
-            'cursor-grab',
+            readOnly ? 'cursor-default' : 'cursor-grab',
             'font-medium',
             'shadow-sm',
             'transition-opacity',
             isDragging ? 'bg-opacity-30' : 'bg-opacity-60',
-            'outline-none'
+            'outline-none',
+            declined && DECLINED_CLASS
           )}
           style={containerStyle}
           tabIndex={-1}
@@ -133,7 +153,11 @@ export function DraggableEvent({ event }: { event: TCalendarEvent }) {
         >
           {/* Left coloured marker */}
           <div
-            className="absolute top-0 left-0 w-1 rounded-tl rounded-bl border-0 text-xs"
+            className={cx(
+              'absolute top-0 left-0 w-1 rounded-tl rounded-bl border-0 text-xs',
+              continuesBefore && 'rounded-tl-none',
+              continuesAfter && 'rounded-bl-none'
+            )}
             style={markerStyle}
             aria-hidden
           />
@@ -151,12 +175,20 @@ export function DraggableEvent({ event }: { event: TCalendarEvent }) {
             )}
           >
             {/* start time */}
-            <span className="font-regular">{formattedStart}</span>
+            <span className="font-regular flex items-center gap-1">
+              {readOnly && <ReadOnlyLock />}
+              <EventTypeIcon type={event.type} />
+              {formattedStart}
+            </span>
 
             {/* title; preserved truncation behaviour */}
             <span className="font-regular max-w-full truncate overflow-hidden whitespace-nowrap">
               {` ${event.title}`}
             </span>
+            {!oneLineTitle && <EventLocation event={event} className="max-w-full" />}
+            {!oneLineTitle && (
+              <AttendeeSummary event={event} showOrganizer className="max-w-full" />
+            )}
           </div>
         </div>
       </PopoverAnchor>
@@ -2,17 +2,43 @@ import { useDraggable } from '@dnd-kit/core';
 import { format } from 'date-fns';
 import { useEffect, useMemo, useState, type CSSProperties } from 'react';
 
+import { DECLINED_CLASS, isDeclinedBy } from '@/lib/attendees';
+import { isReadOnlyEvent } from '@/lib/calendars';
+import { colourCss } from '@/lib/colours';
+import { dragIdOf, isContinuation } from '@/lib/daySegments';
+import { cn } from '@/lib/utils';
 import type { TCalendarEvent } from '@/types/Calendar';
 import { Popover, PopoverAnchor, PopoverContent } from '../ui/popover';
+import { AttendeeSummary } from './AttendeeSummary';
+import { EventLocation } from './EventLocation';
 import EventPanel from './EventPanel';
-import { useEvents } from './Provider';
+import { useCalendars, useCurrentUser, useEvents } from './Provider';
+import { ReadOnlyLock } from './ReadOnlyLock';
+import { EventTypeIcon } from './TypeIcon';
 
+/**
+ * DraggableMonthEvent
+ * - Timed events are a dot-style row with their start time, all-day events a filled chip.
+ * - Segments of a timed event running past midnight are filled too and stretch into the
+ *   cell padding on the sides where they continue, so the days join up into one bar.
+ * - Read-only events cannot be dragged and show a lock.
+ * - Shows the location and attendee count; events the user declined are struck through.
+ */
 export function DraggableMonthEvent({ event }: { event: TCalendarEvent }) {
+  const { calendars } = useCalendars();
+  const readOnly = isReadOnlyEvent(event, calendars);
+  const { userEmail } = useCurrentUser();
+  const declined = isDeclinedBy(event, userEmail);
   const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
-    id: event.id,
+    id: dragIdOf(event),
     data: { event },
+    disabled: readOnly,
   });
 
+  const continuesBefore = isContinuation(event);
+  const continuesAfter = !!event.segment && event.segment.index < event.segment.count - 1;
+  const isBar = !!event.allDay || !!event.segment;
+
   const { selectedEvent, setSelectedEvent } = useEvents();
 
   const [isEditOpen, setIsEditOpen] = useState(false);
@@ -30,14 +56,14 @@ export function DraggableMonthEvent({ event }: { event: TCalendarEvent }) {
     () => ({
       backgroundColor:
         selectedEvent?.id === event.id && !isDragging
-          ? `var(--event-default-colour-${event.colour})`
-          : event.allDay
-            ? `var(--event-default-colour-${event.colour}-30)`
+          ? colourCss(event.colour)
+          : isBar
+            ? colourCss(event.colour, '30')
             : `transparent`,
       color: selectedEvent?.id === event.id && !isDragging ? `white` : `var(--foreground)`,
       userSelect: 'none',
     }),
-    [event.colour, selectedEvent?.id, isDragging, event.id, event.allDay]
+    [event.colour, selectedEvent?.id, isDragging, event.id, isBar]
   );
 
   return (
@@ -47,7 +73,15 @@ export function DraggableMonthEvent({ event }: { event: TCalendarEvent }) {
           ref={setNodeRef}
           {...attributes}
           {...listeners}
-          className={`relative mt-1 flex w-full cursor-grab flex-col items-start justify-between rounded border-0 py-0.5 pr-1 pl-2 text-sm font-medium transition-opacity outline-none ${isDragging ? 'bg-opacity-30' : 'bg-opacity-60'}`}
+          className={cn(
+            `relative mt-1 flex w-full flex-col items-start justify-between rounded border-0 py-0.5 pr-1 pl-2 text-sm font-medium transition-opacity outline-none ${isDragging ? 'bg-opacity-30' : 'bg-opacity-60'}`,
+            readOnly ? 'cursor-default' : 'cursor-grab',
+            declined && DECLINED_CLASS,
+            continuesBefore && '-ml-2 rounded-l-none',
+            continuesAfter && 'rounded-r-none',
+            (continuesBefore || continuesAfter) && 'w-[calc(100%+0.5rem)]',
+            continuesBefore && continuesAfter && 'w-[calc(100%+1rem)]'
+          )}
           style={containerStyle}
           role="button"
           tabIndex={0}
@@ -67,21 +101,33 @@ export function DraggableMonthEvent({ event }: { event: TCalendarEvent }) {
             setIsEditOpen(true);
           }}
         >
-          <div
-            className={`absolute left-0 w-1 border-0 text-xs ${event.allDay ? 'top-0 h-full rounded-tl rounded-bl' : 'h-3/4 rounded'}`}
-            style={{
-              backgroundColor: `var(--event-default-colour-${event.colour})`,
-            }}
-          />
+          {!continuesBefore && (
+            <div
+              className={`absolute left-0 w-1 border-0 text-xs ${isBar ? 'top-0 h-full rounded-tl rounded-bl' : 'h-3/4 rounded'}`}
+              style={{
+                backgroundColor: colourCss(event.colour),
+              }}
+            />
+          )}
 
           <div
             className={`flex h-full w-full flex-row justify-between gap-1 overflow-hidden text-xs`}
           >
-            <span className="font-regular max-w-full truncate overflow-hidden whitespace-nowrap">
-              {` ${event.title}`}
+            <span className="font-regular flex max-w-full items-center gap-1 overflow-hidden">
+              {readOnly && <ReadOnlyLock />}
+              <EventTypeIcon type={event.type} />
+              <span className="truncate whitespace-nowrap">
+                {continuesBefore ? ` … ${event.title}` : ` ${event.title}`}
+              </span>
+              {!continuesBefore && <EventLocation event={event} className="opacity-70" />}
             </span>
+            {!continuesBefore && <AttendeeSummary event={event} />}
             <span className="font-regular">
-              {event.allDay ? '' : event.start ? format(event.start, 'HH:mm') : ''}
+              {event.allDay || continuesBefore
+                ? ''
+                : event.start
+                  ? format(event.start, 'HH:mm')
+                  : ''}
             </span>
           </div>
         </div>
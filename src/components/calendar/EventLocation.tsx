@@ -0,0 +1,24 @@
+import { MapPin } from 'lucide-react';
+
+import { cn } from '@/lib/utils';
+import type { TCalendarEvent } from '@/types/Calendar';
+
+/** An event's location for event cards and lists, after a pin; nothing when it has none. */
+export const EventLocation = ({
+  event,
+  className,
+}: {
+  event: Pick<TCalendarEvent, 'location'>;
+  className?: string;
+}) => {
+  if (!event.location) return null;
+  return (
+    <span
+      className={cn('flex min-w-0 items-center gap-0.5 text-xs', className)}
+      title={event.location}
+    >
+      <MapPin className="size-3 shrink-0" aria-hidden />
+      <span className="truncate">{event.location}</span>
+    </span>
+  );
+};
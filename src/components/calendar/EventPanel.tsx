@@ -2,18 +2,47 @@ import { type Dispatch, type SetStateAction, useId, useMemo, useState } from 're
 
 import { format } from 'date-fns';
 
-import { useEvents, useNewEvent, useSelectedDate } from '@/components/calendar/Provider';
+import {
+  useCalendars,
+  useCurrentUser,
+  useEvents,
+  useEventTypes,
+  useNewEvent,
+  useSelectedDate,
+  useTimeZone,
+} from '@/components/calendar/Provider';
 import { Button } from '../ui/button';
 import { Checkbox } from '../ui/checkbox';
 import { Input } from '../ui/input';
 import { Label } from '../ui/label';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import AttachmentsInput from './AttachmentsInput';
+import AttendeesInput from './AttendeesInput';
 import DateInput from './DateInput';
-
-import useFetchEvents from '@/hooks/useFetchEvents';
-import { COLOURS, DEFAULT_START_HOUR, EVENT_TYPE } from '@/lib/constants';
-import { addEvent, changeEvent } from '@/services/Events';
-import type { IEvent, TCalendarEvent } from '@/types/Calendar';
+import DescriptionEditor from './DescriptionEditor';
+import { EventCalendarSelect, EventColourSelect, EventTypeSelect } from './EventStyleSelects';
+import LocationInput from './LocationInput';
+import { ReadOnlyLock } from './ReadOnlyLock';
+import RecurrenceInput from './RecurrenceInput';
+import RemindersInput from './RemindersInput';
+import TimeZoneSelect from './TimeZoneSelect';
+
+import useEventMutations from '@/hooks/useEventMutations';
+import { attendeeOf, cleanAttendees, withResponse } from '@/lib/attendees';
+import { calendarOf, defaultCalendarOf, isReadOnlyEvent } from '@/lib/calendars';
+import { DEFAULT_START_HOUR } from '@/lib/constants';
+import { typeOf } from '@/lib/eventTypes';
+import { cleanLocation } from '@/lib/locations';
+import { normalizeReminders } from '@/lib/reminders';
+import { fromZonedTime, toZonedTime } from '@/lib/timeZones';
+import { cn, toApiEvent } from '@/lib/utils';
+import type {
+  AttendeeStatus,
+  IAttachment,
+  IAttendee,
+  IEvent,
+  IRecurrenceRule,
+  TCalendarEvent,
+} from '@/types/Calendar';
 
 type EventPanelProps = {
   id?: string;
@@ -27,11 +56,21 @@ type EventPanelProps = {
   className?: string;
 };
 
+// the current user's answers to an invitation
+const RSVP_OPTIONS: { value: AttendeeStatus; label: string }[] = [
+  { value: 'accepted', label: 'Accept' },
+  { value: 'tentative', label: 'Maybe' },
+  { value: 'declined', label: 'Decline' },
+];
+
 /**
  * EventPanel
  * - Uses React 19.2 hooks: useId for stable ids.
  * - Decoupled from context for event data; relies on `event` prop.
  * - Expects parent to handle key-based remounting for state reset.
+ * - Read-only events (or events in a read-only calendar) are shown with every field disabled.
+ * - When the current user is among the attendees, their answer is saved as soon as they pick it
+ *   (read-only events included).
  */
 const EventPanel = ({
   title,
@@ -46,25 +85,83 @@ const EventPanel = ({
   const idAllDay = useId();
   const idStarts = useId();
   const idEnds = useId();
+  const idType = useId();
   const idColour = useId();
+  const idCalendar = useId();
+  const idTimeZone = useId();
 
   const { selectedDate } = useSelectedDate();
   const { setSelectedEvent } = useEvents();
-  const { fetchEvents } = useFetchEvents(false);
+  const { addEvent, changeEvent } = useEventMutations();
+  const { displayTimeZone } = useTimeZone();
+  const { calendars } = useCalendars();
+  const { eventTypes } = useEventTypes();
+  const { userEmail } = useCurrentUser();
 
   const { startDateTime, endDateTime } = useNewEvent();
-  const [processingAction, setProcessingAction] = useState(false);
 
   const [frmTitle, setFrmTitle] = useState<string>(event?.title ?? title);
   const [frmType, setFrmType] = useState<string>(event?.type || 'other');
+  const [frmLocation, setFrmLocation] = useState<string>(event?.location ?? '');
+  // Markdown notes; events saved before descriptions were editable hold a copy of the title
+  const [frmDescription, setFrmDescription] = useState<string>(() =>
+    event?.description && event.description !== event.title ? event.description : ''
+  );
+
+  // files linked to the event (stored as soon as they are picked)
+  const [frmAttachments, setFrmAttachments] = useState<IAttachment[]>(event?.attachments ?? []);
+
+  // calendar the event belongs to
+  const [frmCalendarId, setFrmCalendarId] = useState<string>(
+    () => (event ? calendarOf(event, calendars) : defaultCalendarOf(calendars)).id
+  );
+
+  const readOnly = !!event && isReadOnlyEvent(event, calendars);
+
+  // invited people; the current user's own entry drives the RSVP buttons
+  const [frmAttendees, setFrmAttendees] = useState<IAttendee[]>(event?.attendees ?? []);
+  const me = event ? attendeeOf({ attendees: frmAttendees }, userEmail) : undefined;
+
+  const handleRsvp = (status: AttendeeStatus) => {
+    if (!event || !userEmail) return;
+    setFrmAttendees(withResponse(frmAttendees, userEmail, status));
+    // save just the answer; other unsaved edits in the form wait for "Update Event"
+    const attendees = withResponse(event.attendees ?? [], userEmail, status);
+    changeEvent(toApiEvent({ ...event, attendees }, displayTimeZone));
+  };
+
+  // minutes-before list; undefined keeps the calendar's defaults
+  const [frmReminders, setFrmReminders] = useState<number[] | undefined>(event?.reminders);
+
+  // colour; new events start with their calendar's colour, then take their type's
+  const [frmColour, setFrmColour] = useState<string>(
+    () => event?.colour || calendarOf({ calendarId: frmCalendarId }, calendars).colour
+  );
 
-  // default colour index and state derived from it
-  const DEFAULT_COLOUR = '1';
-  const [frmColour, setFrmColour] = useState<string>(event?.colour || DEFAULT_COLOUR);
+  const handleCalendarChange = (id: string) => {
+    setFrmCalendarId(id);
+    if (!event) setFrmColour(calendarOf({ calendarId: id }, calendars).colour);
+  };
+
+  const handleTypeChange = (id: string) => {
+    setFrmType(id);
+    if (!event) setFrmColour(typeOf(id, eventTypes).colour);
+  };
 
   // all-day flag (controlled)
   const [allDay, setAllDay] = useState<boolean>(event?.allDay || false);
 
+  // recurrence rule; undefined means the event does not repeat
+  const [recurrence, setRecurrence] = useState<IRecurrenceRule | undefined>(event?.recurrence);
+
+  // zone the form's date fields are in; changing it keeps the fields' wall-clock time
+  const [frmTimeZone, setFrmTimeZone] = useState<string>(event?.timeZone ?? displayTimeZone);
+
+  // incoming dates are wall-clock times in the display zone: show timed events in their own
+  // zone (all-day dates are kept as they are)
+  const toFormZone = (d: Date) =>
+    allDay ? d : toZonedTime(fromZonedTime(d, displayTimeZone), frmTimeZone);
+
   // derive sane default start/end datetimes from selected (or now) using useMemo so initialisers are stable
   const initialStart = useMemo(() => {
     if (startDateTime) {
@@ -92,8 +189,8 @@ const EventPanel = ({
     return new Date(format(base, `yyyy/MM/dd ${DEFAULT_START_HOUR + 1}:00`));
   }, [selectedDate, end, endDateTime]);
 
-  const [startDate, setStartDate] = useState<Date>(() => initialStart);
-  const [endDate, setEndDate] = useState<Date>(() => initialEnd);
+  const [startDate, setStartDate] = useState<Date>(() => toFormZone(initialStart));
+  const [endDate, setEndDate] = useState<Date>(() => toFormZone(initialEnd));
 
   // stable handlers using useCallback
   const handleStartDateChange = (date: Date) => {
@@ -122,213 +219,228 @@ const EventPanel = ({
     }
   };
 
+  // saves are optimistic: the panel closes at once and a rejected save is rolled back
+  // and reported by useEventMutations
   const handleUpdateEvent = () => {
     if (!event) return;
 
-    setProcessingAction(true);
-
-    // Use setTimeout to allow the UI to render the loading state before processing
-    setTimeout(async () => {
-      try {
-        const uEvent: IEvent = {
-          id: event.id,
-          title: frmTitle,
-          description: frmTitle,
-          start: startDate.toISOString(),
-          end: endDate.toISOString(),
-          allDay,
-          type: frmType,
-          colour: frmColour,
-        };
-        await changeEvent(uEvent);
-        await fetchEvents(true);
-        if (onClose) {
-          onClose();
-        } else {
-          setSelectedEvent(null);
-        }
-      } catch (error) {
-        console.error('Failed to update event', error);
-      } finally {
-        setProcessingAction(false);
-      }
-    }, 0);
+    const uEvent: IEvent = {
+      id: event.id,
+      title: frmTitle,
+      description: frmDescription.trim() ? frmDescription : undefined,
+      location: cleanLocation(frmLocation),
+      start: fromZonedTime(startDate, frmTimeZone).toISOString(),
+      end: fromZonedTime(endDate, frmTimeZone).toISOString(),
+      allDay,
+      type: frmType,
+      colour: frmColour,
+      calendarId: frmCalendarId,
+      recurrence,
+      attendees: cleanAttendees(frmAttendees),
+      reminders: frmReminders && normalizeReminders(frmReminders),
+      attachments: frmAttachments.length > 0 ? frmAttachments : undefined,
+      occurrenceOf: event.occurrenceOf,
+      timeZone: frmTimeZone,
+    };
+    // editing an occurrence edits its series
+    changeEvent(uEvent);
+    if (onClose) {
+      onClose();
+    } else {
+      setSelectedEvent(null);
+    }
   };
 
   const handleAddEvent = () => {
     if (!selectedDate) return;
 
-    setProcessingAction(true);
-
-    // Use setTimeout to allow the UI to render the loading state before processing
-    setTimeout(async () => {
-      try {
-        const newEvent: Omit<IEvent, 'id'> = {
-          title: title,
-          description: title,
-          start: startDate.toISOString(),
-          end: endDate.toISOString(),
-          allDay,
-          type: frmType,
-          colour: frmColour,
-        };
-        await addEvent(newEvent);
-        await fetchEvents(true);
-        if (onClose) onClose();
-      } catch (error) {
-        console.error('Failed to add event', error);
-      } finally {
-        setProcessingAction(false);
-      }
-    }, 0);
+    const newEvent: Omit<IEvent, 'id'> = {
+      title: title,
+      description: frmDescription.trim() ? frmDescription : undefined,
+      location: cleanLocation(frmLocation),
+      start: fromZonedTime(startDate, frmTimeZone).toISOString(),
+      end: fromZonedTime(endDate, frmTimeZone).toISOString(),
+      allDay,
+      type: frmType,
+      colour: frmColour,
+      calendarId: frmCalendarId,
+      recurrence,
+      attendees: cleanAttendees(frmAttendees),
+      reminders: frmReminders && normalizeReminders(frmReminders),
+      attachments: frmAttachments.length > 0 ? frmAttachments : undefined,
+      timeZone: frmTimeZone,
+    };
+    addEvent(newEvent);
+    if (onClose) onClose();
   };
 
   return (
     <div
       className={`flex flex-col gap-2 p-3 ${event ? 'pt-4' : 'bg-(--button-group-separator)'} mx-2 mb-3 w-full rounded-md ${className}`}
     >
-      {processingAction && (
-        <div className="flex items-center gap-2">
-          <div className="border-primary h-6 w-6 animate-spin rounded-full border-4 border-t-transparent" />
-          <span className="text-primary ml-2">Processing...</span>
+      <fieldset disabled={readOnly} className="flex flex-col gap-2">
+        <div className="flex w-full items-center pb-2">
+          <Input
+            type="text"
+            value={event ? frmTitle : title}
+            onChange={(e) => {
+              if (event) {
+                setFrmTitle(e.target.value);
+              } else {
+                setTitle?.(e.target.value);
+              }
+            }}
+            placeholder="Event title"
+            className={`h-6 w-full p-0`}
+            style={{
+              fontSize: event ? '1.3rem' : '1rem',
+            }}
+          />
         </div>
-      )}
 
-      {!processingAction && (
-        <div className="flex flex-col gap-2">
-          <div className="flex w-full items-center pb-2">
-            <Input
-              type="text"
-              value={event ? frmTitle : title}
-              onChange={(e) => {
-                if (event) {
-                  setFrmTitle(e.target.value);
-                } else {
-                  setTitle?.(e.target.value);
-                }
-              }}
-              placeholder="Event title"
-              className={`h-6 w-full p-0`}
-              style={{
-                fontSize: event ? '1.3rem' : '1rem',
-              }}
-            />
-          </div>
+        <LocationInput value={frmLocation} onChange={setFrmLocation} />
+
+        <div className="flex items-center gap-4">
+          <Label htmlFor={idAllDay} className="w-12 justify-end">
+            all-day
+          </Label>
+          {/* Controlled Checkbox */}
+          <Checkbox
+            id={idAllDay}
+            checked={allDay}
+            onCheckedChange={(toggle: boolean) => setAllDay(toggle)}
+            // disabled={true}
+          />
+        </div>
 
-          <div className="flex items-center gap-4">
-            <Label htmlFor={idAllDay} className="w-12 justify-end">
-              all-day
-            </Label>
-            {/* Controlled Checkbox */}
-            <Checkbox
-              id={idAllDay}
-              checked={allDay}
-              onCheckedChange={(toggle: boolean) => setAllDay(toggle)}
-              // disabled={true}
-            />
-          </div>
+        <div className="flex items-center gap-4">
+          <Label htmlFor={idStarts} className="w-12 justify-end">
+            starts
+          </Label>
+          <DateInput
+            datetime={startDate}
+            showTime={!allDay}
+            onDateChange={handleStartDateChange}
+            timeZone={frmTimeZone}
+          />
+        </div>
 
-          <div className="flex items-center gap-4">
-            <Label htmlFor={idStarts} className="w-12 justify-end">
-              starts
-            </Label>
-            <DateInput
-              datetime={startDate}
-              showTime={!allDay}
-              onDateChange={handleStartDateChange}
-            />
-          </div>
+        <div className="flex items-center gap-4">
+          <Label htmlFor={idEnds} className="w-12 justify-end">
+            ends
+          </Label>
+          <DateInput
+            datetime={endDate}
+            showTime={!allDay}
+            onDateChange={handleEndDateChange}
+            dateReadonly={true}
+            timeZone={frmTimeZone}
+          />
+        </div>
 
+        {!allDay && (
           <div className="flex items-center gap-4">
-            <Label htmlFor={idEnds} className="w-12 justify-end">
-              ends
+            <Label htmlFor={idTimeZone} className="w-12 justify-end">
+              zone
             </Label>
-            <DateInput
-              datetime={endDate}
-              showTime={!allDay}
-              onDateChange={handleEndDateChange}
-              dateReadonly={true}
-            />
+            <TimeZoneSelect id={idTimeZone} value={frmTimeZone} onValueChange={setFrmTimeZone} />
           </div>
+        )}
+
+        <RecurrenceInput value={recurrence} onChange={setRecurrence} start={startDate} />
+
+        <div className="flex items-center gap-4">
+          <Label htmlFor={idCalendar} className="w-12 justify-end">
+            calendar
+          </Label>
+          <EventCalendarSelect
+            id={idCalendar}
+            value={frmCalendarId}
+            onValueChange={handleCalendarChange}
+          />
+        </div>
 
-          <div className="flex items-center gap-4">
-            <Label htmlFor={idColour} className="w-12 justify-end">
-              type
-            </Label>
-            <Select
-              defaultValue={frmType}
-              onValueChange={(value) => {
-                setFrmType(value);
-              }}
-            >
-              <SelectTrigger className="w-1/2">
-                <SelectValue>{frmType.charAt(0).toUpperCase() + frmType.slice(1)}</SelectValue>
-              </SelectTrigger>
-              <SelectContent className="bg-(--left-background)">
-                {EVENT_TYPE.map((type) => (
-                  <SelectItem value={type} key={type}>
-                    {type.charAt(0).toUpperCase() + type.slice(1)}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
+        <div className="flex items-center gap-4">
+          <Label htmlFor={idType} className="w-12 justify-end">
+            type
+          </Label>
+          <EventTypeSelect id={idType} value={frmType} onValueChange={handleTypeChange} />
+        </div>
 
-          <div className="flex items-center gap-4">
-            <Label htmlFor={idColour} className="w-12 justify-end">
-              colour
-            </Label>
-            <Select defaultValue={frmColour} onValueChange={(value) => setFrmColour(value)}>
-              <SelectTrigger>
-                <SelectValue>
-                  <div
-                    className="w-10"
-                    style={{ backgroundColor: `var(--event-default-colour-${frmColour})` }}
-                  >
-                    &nbsp;
-                  </div>
-                </SelectValue>
-              </SelectTrigger>
-              <SelectContent className="bg-(--left-background)">
-                {COLOURS.map((c, i) => (
-                  <SelectItem value={`${i + 1}`} key={c}>
-                    <div className="w-20" style={{ backgroundColor: `var(${c})` }}>
-                      &nbsp;
-                    </div>
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
+        <div className="flex items-center gap-4">
+          <Label htmlFor={idColour} className="w-12 justify-end">
+            colour
+          </Label>
+          <EventColourSelect id={idColour} value={frmColour} onValueChange={setFrmColour} />
+        </div>
 
-          <div className="flex justify-center gap-2">
-            <Button
-              disabled={processingAction}
-              onClick={() => {
-                if ((event ? frmTitle : title).trim()) {
-                  if (event) {
-                    handleUpdateEvent();
-                  } else {
-                    handleAddEvent();
-                  }
-                }
-              }}
-              className={`mt-5 w-2/3 rounded-sm py-2 text-sm font-semibold`}
-            >
-              {processingAction ? (
-                <div className="flex items-center gap-2">
-                  <div className="h-4 w-4 animate-spin rounded-full border-2 border-white border-t-transparent" />
-                  <span className="ml-2">Processing...</span>
-                </div>
-              ) : event ? (
-                `Update Event`
-              ) : (
-                `Add Event`
-              )}
-            </Button>
+        <RemindersInput
+          value={frmReminders}
+          onChange={setFrmReminders}
+          defaults={calendarOf({ calendarId: frmCalendarId }, calendars).defaultReminders ?? []}
+        />
+
+        <AttendeesInput value={frmAttendees} onChange={setFrmAttendees} />
+
+        <DescriptionEditor
+          value={frmDescription}
+          onChange={setFrmDescription}
+          readOnly={readOnly}
+        />
+
+        <AttachmentsInput value={frmAttachments} onChange={setFrmAttachments} readOnly={readOnly} />
+      </fieldset>
+
+      {/* invitees answer read-only events too, so the answer stays outside the fieldsets */}
+      {me && (
+        <div className="flex items-center gap-4">
+          <span className="w-12 text-end text-sm">reply</span>
+          <div className="flex gap-1" role="group" aria-label="Your answer">
+            {RSVP_OPTIONS.map((option) => (
+              <button
+                type="button"
+                key={option.value}
+                aria-pressed={me.status === option.value}
+                onClick={() => handleRsvp(option.value)}
+                className={cn(
+                  'h-6 cursor-pointer rounded px-2 text-xs',
+                  me.status === option.value
+                    ? 'bg-primary text-primary-foreground'
+                    : 'bg-(--button-group-separator)'
+                )}
+              >
+                {option.label}
+              </button>
+            ))}
           </div>
         </div>
       )}
+
+      <fieldset disabled={readOnly} className="flex flex-col gap-2">
+        {readOnly && (
+          <span className="text-muted-foreground flex items-center justify-center gap-1 pt-2 text-xs">
+            <ReadOnlyLock />
+            Read only
+          </span>
+        )}
+
+        <div className="flex justify-center gap-2">
+          <Button
+            onClick={() => {
+              if ((event ? frmTitle : title).trim()) {
+                if (event) {
+                  handleUpdateEvent();
+                } else {
+                  handleAddEvent();
+                }
+              }
+            }}
+            className={`mt-5 w-2/3 rounded-sm py-2 text-sm font-semibold`}
+          >
+            {event ? `Update Event` : `Add Event`}
+          </Button>
+        </div>
+      </fieldset>
     </div>
   );
 };
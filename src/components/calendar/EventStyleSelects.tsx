@@ -0,0 +1,130 @@
+import React from 'react';
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+
+import { BUILT_IN_COLOURS, colourCss } from '@/lib/colours';
+import { TYPE_ICON_NAMES, typeOf } from '@/lib/eventTypes';
+import { useCalendars, useEventTypes } from './Provider';
+import { ReadOnlyLock } from './ReadOnlyLock';
+import { TypeIcon } from './TypeIcon';
+
+type StyleSelectProps = {
+  id?: string;
+  value: string;
+  onValueChange: (value: string) => void;
+};
+
+/**
+ * Event type picker with each type's icon, in the user's order. A value that is no longer
+ * a type (see `orphanTypesOf`) stays listed, so picking another one is a choice.
+ */
+export const EventTypeSelect: React.FC<StyleSelectProps> = ({ id, value, onValueChange }) => {
+  const { eventTypes } = useEventTypes();
+  const current = typeOf(value, eventTypes);
+  const options = eventTypes.some((t) => t.id === current.id)
+    ? eventTypes
+    : [...eventTypes, current];
+  return (
+    <Select value={current.id} onValueChange={onValueChange}>
+      <SelectTrigger id={id} className="w-1/2">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="bg-(--left-background)">
+        {options.map((type) => (
+          <SelectItem value={type.id} key={type.id}>
+            <TypeIcon icon={type.icon} />
+            {type.name || '(No name)'}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+/**
+ * Event colour picker showing swatches: the built-in colours, then the custom ones. Values
+ * are stored as they are on events ("1".."n" or "#rrggbb"). `palette` replaces the saved
+ * custom colours (while they are being edited).
+ */
+export const EventColourSelect: React.FC<StyleSelectProps & { palette?: string[] }> = ({
+  id,
+  value,
+  onValueChange,
+  palette,
+}) => {
+  const saved = useEventTypes().palette;
+  const colours = [...BUILT_IN_COLOURS, ...(palette ?? saved)];
+  if (value && !colours.includes(value)) colours.push(value);
+  return (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger id={id}>
+        <SelectValue>
+          <div className="w-10" style={{ backgroundColor: colourCss(value) }}>
+            &nbsp;
+          </div>
+        </SelectValue>
+      </SelectTrigger>
+      <SelectContent className="bg-(--left-background)">
+        {colours.map((c) => (
+          <SelectItem value={c} key={c}>
+            <div className="w-20" style={{ backgroundColor: colourCss(c) }}>
+              &nbsp;
+            </div>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+/** Picker for a type's icon (see TYPE_ICON_NAMES). */
+export const TypeIconSelect: React.FC<StyleSelectProps> = ({ id, value, onValueChange }) => (
+  <Select value={value} onValueChange={onValueChange}>
+    <SelectTrigger id={id} className="w-14" aria-label="Icon">
+      <SelectValue>
+        <TypeIcon icon={value} className="size-4" />
+      </SelectValue>
+    </SelectTrigger>
+    <SelectContent className="bg-(--left-background)">
+      {TYPE_ICON_NAMES.map((icon) => (
+        <SelectItem value={icon} key={icon} aria-label={icon}>
+          <TypeIcon icon={icon} className="size-4" />
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+/**
+ * Calendar picker with each calendar's colour; `exclude` leaves one calendar out.
+ * Read-only calendars cannot be picked (unless already selected).
+ */
+export const EventCalendarSelect: React.FC<StyleSelectProps & { exclude?: string }> = ({
+  id,
+  value,
+  onValueChange,
+  exclude,
+}) => {
+  const { calendars } = useCalendars();
+  return (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger id={id} className="w-1/2">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="bg-(--left-background)">
+        {calendars
+          .filter((c) => c.id !== exclude)
+          .map((c) => (
+            <SelectItem value={c.id} key={c.id} disabled={c.readOnly && c.id !== value}>
+              <span
+                className="h-3 w-3 rounded-sm"
+                style={{ backgroundColor: colourCss(c.colour) }}
+              />
+              {c.name}
+              {c.readOnly && <ReadOnlyLock />}
+            </SelectItem>
+          ))}
+      </SelectContent>
+    </Select>
+  );
+};
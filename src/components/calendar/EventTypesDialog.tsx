@@ -0,0 +1,339 @@
+import { useEffect, useId, useState } from 'react';
+
+import { ChevronDown, ChevronUp, Plus, Shapes, Trash2, X } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import useFetchEvents from '@/hooks/useFetchEvents';
+import { isReadOnlyEvent } from '@/lib/calendars';
+import { colourCss } from '@/lib/colours';
+import { createEventType, FALLBACK_TYPE_ID, orphanTypesOf, typeOf } from '@/lib/eventTypes';
+import type { IEventType } from '@/types/Calendar';
+import { EventColourSelect, TypeIconSelect } from './EventStyleSelects';
+import { useCalendars, useEventStore, useEventTypes, useHistory } from './Provider';
+import { TypeIcon } from './TypeIcon';
+
+// Select value for "leave the events as they are"
+const KEEP = '__keep__';
+
+interface EventTypesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Dialog to manage event types and the custom colours.
+ * - Types can be added, renamed, given an icon and default colour, reordered and removed.
+ * - Events whose type is not in the list (removed here, deleted earlier, or imported) are
+ *   listed by type: they can be moved to another type, or the type added back to the list.
+ *   Moves run when saving, as one undo step; read-only events keep their type.
+ * - Custom colours ("#rrggbb") can be added to and removed from every colour picker.
+ * Mount it with a `key` per opening so the form starts from the saved types.
+ */
+export function EventTypesDialog({ open, onOpenChange }: EventTypesDialogProps) {
+  const idNewType = useId();
+  const idNewColour = useId();
+
+  const store = useEventStore();
+  const { group } = useHistory();
+  const { fetchEvents } = useFetchEvents(false);
+  const { calendars } = useCalendars();
+  const { eventTypes, setEventTypes, palette, setPalette } = useEventTypes();
+
+  const [types, setTypes] = useState<IEventType[]>(eventTypes);
+  const [colours, setColours] = useState<string[]>(palette);
+  // type id → the type its events move to, for types not in the list
+  const [moves, setMoves] = useState<Record<string, string>>({});
+  const [usedTypes, setUsedTypes] = useState<{ type: string | undefined }[]>([]);
+  const [newName, setNewName] = useState('');
+  const [newColour, setNewColour] = useState('#3b82f6');
+  const [saving, setSaving] = useState(false);
+  const [failure, setFailure] = useState<string | null>(null);
+
+  // which types the stored events use, to find those missing from the list
+  useEffect(() => {
+    store
+      .getEvents()
+      .then((events) => setUsedTypes(events.map((e) => ({ type: e.type }))))
+      .catch((error) => console.error('Failed to read event types in use', error));
+  }, [store]);
+
+  const orphans = orphanTypesOf(usedTypes, types);
+  const names = types.map((t) => t.name.trim().toLowerCase());
+  const problem = names.some((n) => !n)
+    ? 'Every type needs a name.'
+    : names.some((n, i) => names.indexOf(n) !== i)
+      ? 'Two types have the same name.'
+      : null;
+
+  const update = (index: number, patch: Partial<IEventType>) =>
+    setTypes(types.map((t, i) => (i === index ? { ...t, ...patch } : t)));
+
+  const move = (index: number, by: number) => {
+    const next = [...types];
+    const [type] = next.splice(index, 1);
+    next.splice(index + by, 0, type);
+    setTypes(next);
+  };
+
+  const remove = (index: number) => {
+    const removed = types[index];
+    const rest = types.filter((_, i) => i !== index);
+    setTypes(rest);
+    // its events go to the fallback type, or the first one left, unless told otherwise
+    const target = rest.find((t) => t.id === FALLBACK_TYPE_ID) ?? rest[0];
+    setMoves({ ...moves, [removed.id]: target.id });
+  };
+
+  const adopt = (id: string) => {
+    // a type removed in this dialog comes back as it was
+    const saved = eventTypes.find((t) => t.id === id);
+    setTypes([...types, saved ?? typeOf(id, [])]);
+    setMoves(Object.fromEntries(Object.entries(moves).filter(([from]) => from !== id)));
+  };
+
+  const addType = () => {
+    if (!newName.trim()) return;
+    setTypes([...types, createEventType(newName, types)]);
+    setNewName('');
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (saving) return;
+    setFailure(null);
+    onOpenChange(next);
+  };
+
+  const handleSave = async () => {
+    if (problem) return;
+    setSaving(true);
+    setFailure(null);
+    try {
+      const targets = Object.fromEntries(
+        Object.entries(moves).filter(
+          ([from, to]) => to !== KEEP && !types.some((t) => t.id === from)
+        )
+      );
+      if (Object.keys(targets).length > 0) {
+        await group(async () => {
+          const events = (await store.getEvents()).filter(
+            (e) => targets[e.type || FALLBACK_TYPE_ID] && !isReadOnlyEvent(e, calendars)
+          );
+          for (const event of events) {
+            await store.changeEvent({ ...event, type: targets[event.type || FALLBACK_TYPE_ID] });
+          }
+        });
+      }
+      setEventTypes(types);
+      setPalette(colours);
+      await fetchEvents(true, true);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Failed to save event types', error);
+      setFailure(error instanceof Error ? error.message : 'The types could not be saved.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="text-primary flex items-center gap-2">
+            <Shapes className="h-6 w-6" />
+            Event types and colours
+          </DialogTitle>
+          <DialogDescription>
+            New events of a type start with its colour. Renaming a type keeps its events.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="flex max-h-80 flex-col gap-1 overflow-y-auto">
+          {types.map((type, index) => (
+            <li key={type.id} className="flex items-center gap-1">
+              <TypeIconSelect value={type.icon} onValueChange={(icon) => update(index, { icon })} />
+              <Input
+                value={type.name}
+                aria-label={`Type ${index + 1} name`}
+                onChange={(e) => update(index, { name: e.target.value })}
+                className="h-8"
+              />
+              <EventColourSelect
+                value={type.colour}
+                onValueChange={(colour) => update(index, { colour })}
+                palette={colours}
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-6 px-0 has-[>svg]:px-0"
+                aria-label={`Move ${type.name} up`}
+                disabled={index === 0}
+                onClick={() => move(index, -1)}
+              >
+                <ChevronUp />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-6 px-0 has-[>svg]:px-0"
+                aria-label={`Move ${type.name} down`}
+                disabled={index === types.length - 1}
+                onClick={() => move(index, 1)}
+              >
+                <ChevronDown />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-6 px-0 has-[>svg]:px-0"
+                aria-label={`Remove ${type.name}`}
+                disabled={types.length === 1}
+                onClick={() => remove(index)}
+              >
+                <Trash2 />
+              </Button>
+            </li>
+          ))}
+        </ul>
+
+        <form
+          className="flex items-center gap-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            addType();
+          }}
+        >
+          <Label htmlFor={idNewType} className="w-12 justify-end">
+            new
+          </Label>
+          <Input
+            id={idNewType}
+            value={newName}
+            placeholder="Type name"
+            onChange={(e) => setNewName(e.target.value)}
+            className="h-8 w-1/2"
+          />
+          <Button type="submit" variant="outline" size="sm" disabled={!newName.trim()}>
+            <Plus />
+            Add type
+          </Button>
+        </form>
+
+        {orphans.length > 0 && (
+          <div className="flex flex-col gap-2">
+            <span className="text-sm font-medium">Types not in the list</span>
+            {orphans.map(({ id, count }) => (
+              <div key={id} className="flex items-center gap-2 text-sm">
+                <TypeIcon icon={typeOf(id, eventTypes).icon} className="size-4" />
+                <span className="min-w-0 flex-1 truncate">
+                  {typeOf(id, eventTypes).name}
+                  <span className="text-muted-foreground">
+                    {' '}
+                    ({count} event{count === 1 ? '' : 's'})
+                  </span>
+                </span>
+                <Select
+                  value={moves[id] ?? KEEP}
+                  onValueChange={(to) => setMoves({ ...moves, [id]: to })}
+                >
+                  <SelectTrigger className="h-8 w-40" aria-label={`Move ${id} events to`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-(--left-background)">
+                    <SelectItem value={KEEP}>Leave as is</SelectItem>
+                    {types.map((t) => (
+                      <SelectItem value={t.id} key={t.id}>
+                        <TypeIcon icon={t.icon} />
+                        Move to {t.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" size="sm" onClick={() => adopt(id)}>
+                  Add to list
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-col gap-2">
+          <span className="text-sm font-medium">Custom colours</span>
+          <div className="flex flex-wrap items-center gap-1">
+            {colours.map((colour) => (
+              <span
+                key={colour}
+                className="flex h-6 items-center gap-1 rounded bg-(--button-group-separator) px-1 text-xs"
+              >
+                <span
+                  className="h-4 w-6 rounded-sm"
+                  style={{ backgroundColor: colourCss(colour) }}
+                />
+                {colour}
+                <button
+                  type="button"
+                  aria-label={`Remove colour ${colour}`}
+                  onClick={() => setColours(colours.filter((c) => c !== colour))}
+                  className="cursor-pointer"
+                >
+                  <X className="size-3" />
+                </button>
+              </span>
+            ))}
+            <input
+              id={idNewColour}
+              type="color"
+              aria-label="New colour"
+              value={newColour}
+              onChange={(e) => setNewColour(e.target.value)}
+              className="h-6 w-8 cursor-pointer"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={colours.includes(newColour.toLowerCase())}
+              onClick={() => setColours([...colours, newColour.toLowerCase()])}
+            >
+              <Plus />
+              Add colour
+            </Button>
+          </div>
+        </div>
+
+        {problem && <span className="text-destructive text-sm">{problem}</span>}
+        {failure && (
+          <span className="text-destructive text-sm">
+            Save failed: {failure}. Some events may already have been changed.
+          </span>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" disabled={saving} onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button variant="default-rounded" disabled={saving || !!problem} onClick={handleSave}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,8 +1,10 @@
+import { dragIdOf } from '@/lib/daySegments';
+import { isTodayIn } from '@/lib/timeZones';
 import type { TCalendarEvent } from '@/types/Calendar';
-import { format, isToday } from 'date-fns';
+import { format } from 'date-fns';
 import React, { useEffect, useRef } from 'react';
 import { DraggableMonthEvent } from './DraggableMonthEvent';
-import { useSelectedDate } from './Provider';
+import { useSelectedDate, useTimeZone } from './Provider';
 
 interface ExpandedCellOverlayProps {
   events: TCalendarEvent[];
@@ -19,6 +21,7 @@ const ExpandedCellOverlay: React.FC<ExpandedCellOverlayProps> = ({
 }) => {
   const overlayRef = useRef<HTMLDivElement>(null);
   const { setSelectedDate } = useSelectedDate();
+  const { displayTimeZone } = useTimeZone();
 
   // Handle click outside
   useEffect(() => {
@@ -36,7 +39,7 @@ const ExpandedCellOverlay: React.FC<ExpandedCellOverlayProps> = ({
 
   if (!position) return null;
 
-  const isTodayDate = isToday(date);
+  const isTodayDate = isTodayIn(date, displayTimeZone);
 
   // absolute flex flex-col justify-start px-2 pt-6 left-0 w-full transition-all duration-200 ease-in-out z-0 h-full overflow-hidden top-0
 
@@ -77,7 +80,7 @@ const ExpandedCellOverlay: React.FC<ExpandedCellOverlayProps> = ({
       {/* Scrollable Events List */}
       <div className="scrollbar scrollbar-corner-custom scrollbar-thumb-custom-light scrollbar-track-custom scrollbar-hover:bg-(--scroll-thumb-hover-colour) flex w-full flex-col overflow-y-auto">
         {events.map((event) => (
-          <div key={event.id} className="relative w-full" data-id={event.id}>
+          <div key={event.id} className="relative w-full" data-id={dragIdOf(event)}>
             <DraggableMonthEvent event={event} />
           </div>
         ))}
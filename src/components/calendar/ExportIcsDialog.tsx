@@ -0,0 +1,205 @@
+import { useId, useState } from 'react';
+
+import { endOfDay, format, isValid, parse, startOfDay } from 'date-fns';
+import { FileDown } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { downloadFile } from '@/lib/download';
+import { serializeICalendar } from '@/lib/ical';
+import { fromZonedTime, nowIn } from '@/lib/timeZones';
+import { viewRangeOf } from '@/lib/utils';
+import { useEventStore, useSelectedDate, useTimeZone, useViewBy } from './Provider';
+
+interface ExportIcsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type RangeMode = 'view' | 'custom';
+
+const INPUT_DATE = 'yyyy-MM-dd';
+
+const parseInputDate = (value: string) => {
+  const date = parse(value, INPUT_DATE, new Date());
+  return isValid(date) ? date : null;
+};
+
+/**
+ * Dialog to export events as an iCalendar (.ics) file.
+ * - Exports the range of the current view, or any range of days; days are read in the
+ *   display time zone.
+ * - Events come from the store's range query, so recurring series that occur in the range
+ *   are written whole (with their RRULE), not as single occurrences.
+ */
+export function ExportIcsDialog({ open, onOpenChange }: ExportIcsDialogProps) {
+  const idRange = useId();
+  const idFrom = useId();
+  const idTo = useId();
+
+  const store = useEventStore();
+  const { viewBy } = useViewBy();
+  const { selectedDate } = useSelectedDate();
+  const { displayTimeZone } = useTimeZone();
+
+  const viewRange = viewRangeOf(viewBy, selectedDate ?? nowIn(displayTimeZone));
+
+  const [mode, setMode] = useState<RangeMode>('view');
+  const [from, setFrom] = useState(() => format(viewRange.from, INPUT_DATE));
+  const [to, setTo] = useState(() => format(viewRange.to, INPUT_DATE));
+  const [exporting, setExporting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const customFrom = parseInputDate(from);
+  const customTo = parseInputDate(to);
+  const range =
+    mode === 'view'
+      ? viewRange
+      : customFrom && customTo && customFrom <= customTo
+        ? { from: startOfDay(customFrom), to: endOfDay(customTo) }
+        : null;
+
+  const handleOpenChange = (next: boolean) => {
+    if (exporting) return;
+    if (!next) setMode('view');
+    setMessage(null);
+    onOpenChange(next);
+  };
+
+  const handleModeChange = (next: RangeMode) => {
+    // start custom ranges from what the view shows now
+    if (next === 'custom') {
+      setFrom(format(viewRange.from, INPUT_DATE));
+      setTo(format(viewRange.to, INPUT_DATE));
+    }
+    setMode(next);
+  };
+
+  const handleExport = async () => {
+    if (!range) return;
+    setExporting(true);
+    setMessage(null);
+    try {
+      const events = await store.getEventsByRange(
+        fromZonedTime(range.from, displayTimeZone),
+        fromZonedTime(range.to, displayTimeZone)
+      );
+      if (events.length === 0) {
+        setMessage('There are no events in this range.');
+        return;
+      }
+      const name = `${format(range.from, INPUT_DATE)}_${format(range.to, INPUT_DATE)}`;
+      downloadFile(
+        `calendar_${name}.ics`,
+        serializeICalendar(events, { name: 'atcalendar' }),
+        'text/calendar;charset=utf-8'
+      );
+      setMode('view');
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Failed to export events', error);
+      setMessage('The events could not be exported.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="text-primary flex items-center gap-2">
+            <FileDown className="h-6 w-6" />
+            Export calendar
+          </DialogTitle>
+          <DialogDescription>
+            Save events as an iCalendar (.ics) file that other calendar apps can open.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-4">
+          <Label htmlFor={idRange} className="w-12 justify-end">
+            range
+          </Label>
+          <Select value={mode} onValueChange={(value) => handleModeChange(value as RangeMode)}>
+            <SelectTrigger id={idRange} className="w-2/3">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-(--left-background)">
+              <SelectItem value="view">
+                Current {viewBy} ({format(viewRange.from, 'd MMM yyyy')} –{' '}
+                {format(viewRange.to, 'd MMM yyyy')})
+              </SelectItem>
+              <SelectItem value="custom">Choose dates</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {mode === 'custom' && (
+          <>
+            <div className="flex items-center gap-4">
+              <Label htmlFor={idFrom} className="w-12 justify-end">
+                from
+              </Label>
+              <Input
+                id={idFrom}
+                type="date"
+                className="w-1/2"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+              />
+            </div>
+            <div className="flex items-center gap-4">
+              <Label htmlFor={idTo} className="w-12 justify-end">
+                to
+              </Label>
+              <Input
+                id={idTo}
+                type="date"
+                className="w-1/2"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+              />
+            </div>
+            {!range && (
+              <span className="text-destructive text-sm">
+                Pick a start date on or before the end date.
+              </span>
+            )}
+          </>
+        )}
+
+        {message && (
+          <span className="text-muted-foreground text-sm" role="status">
+            {message}
+          </span>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" disabled={exporting} onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button variant="default-rounded" disabled={exporting || !range} onClick={handleExport}>
+            {exporting ? 'Exporting...' : 'Export'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,10 +1,11 @@
 import React, { useEffect, useRef, useState } from 'react';
 
-import { format, isToday, startOfWeek } from 'date-fns';
+import { format, startOfWeek } from 'date-fns';
 import { AnimatePresence, motion } from 'motion/react';
 
-import { useSelectedDate, useViewBy } from './Provider';
+import { useSelectedDate, useTimeZone, useViewBy } from './Provider';
 
+import { isTodayIn } from '@/lib/timeZones';
 import { cn } from '@/lib/utils';
 
 import useScrollbarSize from '@/hooks/useScrollbarSize';
@@ -21,6 +22,8 @@ const Header: React.FC<CalendarHeaderProps> = ({ selectedDate, days, columnSize
   useScrollbarSize();
   const { viewBy } = useViewBy();
   const { setSelectedDate } = useSelectedDate();
+  const { displayTimeZone } = useTimeZone();
+  const isToday = (date: Date) => isTodayIn(date, displayTimeZone);
   const weekday = selectedDate ?? new Date();
   const dayHeaderRef = useRef<HTMLDivElement>(null);
   const [isNarrow, setIsNarrow] = useState(false);
@@ -62,7 +65,7 @@ const Header: React.FC<CalendarHeaderProps> = ({ selectedDate, days, columnSize
   const renderWeekHeader = () => (
     <div className="mt-2 flex w-full flex-row pl-[calc(var(--calendar-hour-width)-3.55rem)]">
       {/* Spacer for TimeLabel */}
-      <div className="w-(--calendar-hour-width) shrink-0" />
+      <div className="w-[calc(var(--calendar-hour-width)+var(--calendar-zone-gutters-width))] shrink-0" />
 
       {/* Header Content */}
       <div className="flex-1">
@@ -0,0 +1,433 @@
+import { useId, useMemo, useState } from 'react';
+
+import { format } from 'date-fns';
+import { Sheet } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import useFetchEvents from '@/hooks/useFetchEvents';
+import {
+  CSV_DATE_FORMATS,
+  CSV_DELIMITERS,
+  CSV_FIELDS,
+  csvRowsToEvents,
+  detectDelimiter,
+  guessMapping,
+  parseCsv,
+  type CsvDateFormat,
+  type CsvDelimiter,
+  type CsvField,
+  type CsvMapping,
+} from '@/lib/csv';
+import { toZonedTime, wallClockZoneOf } from '@/lib/timeZones';
+import { EventColourSelect, EventTypeSelect } from './EventStyleSelects';
+import { useEventStore, useTimeZone } from './Provider';
+import TimeZoneSelect from './TimeZoneSelect';
+
+interface ImportCsvDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type Step = 'file' | 'map' | 'done';
+
+// rows listed in the preview before "and N more"
+const PREVIEW_LIMIT = 5;
+
+const DELIMITER_LABELS: Record<CsvDelimiter, string> = {
+  ',': 'Comma',
+  ';': 'Semicolon',
+  '\t': 'Tab',
+  '|': 'Pipe',
+};
+
+const FIELD_LABELS: Record<CsvField, string> = {
+  title: 'title',
+  start: 'start',
+  end: 'end',
+  allDay: 'all-day',
+  type: 'type',
+  colour: 'colour',
+  description: 'notes',
+  location: 'where',
+  timeZone: 'zone',
+  recurrence: 'repeat',
+};
+
+const NOT_MAPPED = 'none';
+
+type ImportSummary = { imported: number; failed: number; failure?: string };
+
+/**
+ * Wizard to import events from a CSV file.
+ * 1. Pick the file; the delimiter is detected and can be changed, as can whether the first
+ *    row holds column names.
+ * 2. Map columns onto event fields (guessed from the header), choose the date format, the
+ *    zone dates are read in and the type/colour for rows that leave them empty. The preview
+ *    updates as the mapping changes and lists failing rows by line number.
+ * 3. Valid rows are written in one `addEventsBulk` call.
+ */
+export function ImportCsvDialog({ open, onOpenChange }: ImportCsvDialogProps) {
+  const idFile = useId();
+  const idDelimiter = useId();
+  const idHeader = useId();
+  const idDateFormat = useId();
+  const idZone = useId();
+  const idType = useId();
+  const idColour = useId();
+  const idField = useId();
+
+  const store = useEventStore();
+  const { displayTimeZone } = useTimeZone();
+  const { fetchEvents } = useFetchEvents(false);
+
+  const [step, setStep] = useState<Step>('file');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [text, setText] = useState<string | null>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+  const [delimiter, setDelimiter] = useState<CsvDelimiter>(',');
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<CsvMapping>({});
+  const [dateFormat, setDateFormat] = useState<CsvDateFormat>('iso');
+  const [timeZone, setTimeZone] = useState(displayTimeZone);
+  const [defaultType, setDefaultType] = useState('other');
+  const [defaultColour, setDefaultColour] = useState('1');
+  const [importing, setImporting] = useState(false);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+
+  const rows = useMemo(() => (text === null ? [] : parseCsv(text, delimiter)), [text, delimiter]);
+  const dataRows = useMemo(() => (hasHeader ? rows.slice(1) : rows), [rows, hasHeader]);
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.cells.length), 0);
+  const columns = Array.from({ length: columnCount }, (_, i) =>
+    hasHeader && rows[0]?.cells[i]?.trim() ? rows[0].cells[i].trim() : `Column ${i + 1}`
+  );
+
+  const result = useMemo(
+    () =>
+      step === 'map'
+        ? csvRowsToEvents(dataRows, { mapping, dateFormat, timeZone, defaultType, defaultColour })
+        : null,
+    [step, dataRows, mapping, dateFormat, timeZone, defaultType, defaultColour]
+  );
+
+  const reset = () => {
+    setStep('file');
+    setFileName(null);
+    setText(null);
+    setReadError(null);
+    setMapping({});
+    setSummary(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (importing) return;
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    reset();
+    if (!file) return;
+    setFileName(file.name);
+    try {
+      const content = await file.text();
+      setDelimiter(detectDelimiter(content));
+      setText(content);
+    } catch (error) {
+      console.error('Failed to read CSV file', error);
+      setReadError('The file could not be read.');
+    }
+  };
+
+  const handleNext = () => {
+    setMapping(hasHeader && rows[0] ? guessMapping(rows[0].cells) : {});
+    setTimeZone(displayTimeZone);
+    setStep('map');
+  };
+
+  const setColumn = (field: CsvField, value: string) => {
+    const next = { ...mapping };
+    if (value === NOT_MAPPED) delete next[field];
+    else next[field] = Number(value);
+    setMapping(next);
+  };
+
+  const handleImport = async () => {
+    if (!result || result.events.length === 0) return;
+    setImporting(true);
+    try {
+      const created = await store.addEventsBulk(result.events);
+      setSummary({ imported: created.length, failed: result.errors.length });
+      await fetchEvents(true);
+    } catch (error) {
+      console.error('Failed to import events', error);
+      setSummary({
+        imported: 0,
+        failed: result.errors.length,
+        failure: error instanceof Error ? error.message : 'The events could not be saved.',
+      });
+    } finally {
+      setImporting(false);
+      setStep('done');
+    }
+  };
+
+  const formatStart = (event: { start: string; allDay?: boolean; timeZone?: string }) => {
+    const start = toZonedTime(new Date(event.start), wallClockZoneOf(event, displayTimeZone));
+    return format(start, event.allDay ? 'EEE d MMM yyyy' : 'EEE d MMM yyyy HH:mm');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-primary flex items-center gap-2">
+            <Sheet className="h-6 w-6" />
+            Import from CSV
+          </DialogTitle>
+          <DialogDescription>
+            {step === 'file' && 'Step 1 of 2: pick a CSV file exported from a spreadsheet.'}
+            {step === 'map' && 'Step 2 of 2: tell us which column holds what.'}
+            {step === 'done' && 'Import finished.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'file' && (
+          <>
+            <div className="flex items-center gap-4">
+              <Label htmlFor={idFile} className="w-20 justify-end">
+                file
+              </Label>
+              <Input
+                id={idFile}
+                type="file"
+                accept=".csv,.tsv,.txt,text/csv"
+                className="w-2/3"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </div>
+
+            {readError && <span className="text-destructive text-sm">{readError}</span>}
+
+            {text !== null && (
+              <>
+                <div className="flex items-center gap-4">
+                  <Label htmlFor={idDelimiter} className="w-20 justify-end">
+                    delimiter
+                  </Label>
+                  <Select
+                    value={delimiter}
+                    onValueChange={(value) => setDelimiter(value as CsvDelimiter)}
+                  >
+                    <SelectTrigger id={idDelimiter} className="w-1/2">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-(--left-background)">
+                      {CSV_DELIMITERS.map((d) => (
+                        <SelectItem value={d} key={d}>
+                          {DELIMITER_LABELS[d]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center gap-4">
+                  <span className="w-20" />
+                  <Checkbox
+                    id={idHeader}
+                    checked={hasHeader}
+                    onCheckedChange={(toggle: boolean) => setHasHeader(toggle)}
+                  />
+                  <Label htmlFor={idHeader}>First row has column names</Label>
+                </div>
+                <span className="text-muted-foreground text-sm">
+                  {fileName}: {dataRows.length} row{dataRows.length === 1 ? '' : 's'}, {columnCount}{' '}
+                  column{columnCount === 1 ? '' : 's'}
+                </span>
+              </>
+            )}
+          </>
+        )}
+
+        {step === 'map' && result && (
+          <>
+            <div className="grid grid-cols-2 gap-2">
+              {CSV_FIELDS.map((field) => (
+                <div key={field} className="flex items-center gap-2">
+                  <Label htmlFor={`${idField}-${field}`} className="w-14 justify-end">
+                    {FIELD_LABELS[field]}
+                  </Label>
+                  <Select
+                    value={mapping[field] === undefined ? NOT_MAPPED : String(mapping[field])}
+                    onValueChange={(value) => setColumn(field, value)}
+                  >
+                    <SelectTrigger id={`${idField}-${field}`} className="w-full min-w-0">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-(--left-background)">
+                      <SelectItem value={NOT_MAPPED}>—</SelectItem>
+                      {columns.map((column, i) => (
+                        <SelectItem value={String(i)} key={i}>
+                          {column}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-4">
+              <Label htmlFor={idDateFormat} className="w-20 justify-end">
+                dates
+              </Label>
+              <Select
+                value={dateFormat}
+                onValueChange={(value) => setDateFormat(value as CsvDateFormat)}
+              >
+                <SelectTrigger id={idDateFormat} className="w-2/3">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-(--left-background)">
+                  {CSV_DATE_FORMATS.map((f) => (
+                    <SelectItem value={f.value} key={f.value}>
+                      {f.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center gap-4">
+              <Label htmlFor={idZone} className="w-20 justify-end">
+                zone
+              </Label>
+              <TimeZoneSelect id={idZone} value={timeZone} onValueChange={setTimeZone} />
+            </div>
+
+            <div className="flex items-center gap-4">
+              <Label htmlFor={idType} className="w-20 justify-end">
+                type
+              </Label>
+              <EventTypeSelect id={idType} value={defaultType} onValueChange={setDefaultType} />
+            </div>
+
+            <div className="flex items-center gap-4">
+              <Label htmlFor={idColour} className="w-20 justify-end">
+                colour
+              </Label>
+              <EventColourSelect
+                id={idColour}
+                value={defaultColour}
+                onValueChange={setDefaultColour}
+              />
+            </div>
+
+            <span className="text-sm">
+              {result.events.length} row{result.events.length === 1 ? '' : 's'} ready,{' '}
+              {result.errors.length} with errors
+            </span>
+
+            {result.events.length > 0 && (
+              <ul className="flex flex-col gap-0.5 rounded border border-(--calendar-hour-line) p-2 text-xs">
+                {result.events.slice(0, PREVIEW_LIMIT).map((event, i) => (
+                  <li key={i} className="flex items-center gap-2">
+                    <span className="text-muted-foreground w-36 shrink-0">
+                      {formatStart(event)}
+                    </span>
+                    <span className="truncate">{event.title}</span>
+                  </li>
+                ))}
+                {result.events.length > PREVIEW_LIMIT && (
+                  <li className="text-muted-foreground">
+                    and {result.events.length - PREVIEW_LIMIT} more
+                  </li>
+                )}
+              </ul>
+            )}
+
+            {result.errors.length > 0 && (
+              <ul className="text-muted-foreground max-h-24 overflow-y-auto text-xs">
+                {result.errors.map((error) => (
+                  <li key={error.line}>
+                    line {error.line}: {error.reason}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+
+        {step === 'done' && summary && (
+          <div className="flex flex-col gap-1 text-sm" role="status">
+            {summary.failure ? (
+              <span className="text-destructive">Import failed: {summary.failure}</span>
+            ) : (
+              <span>
+                Imported {summary.imported} event{summary.imported === 1 ? '' : 's'}.
+              </span>
+            )}
+            <span className="text-muted-foreground">
+              {summary.failed} row{summary.failed === 1 ? '' : 's'} could not be read.
+            </span>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'file' && (
+            <>
+              <Button variant="outline" onClick={() => handleOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button
+                variant="default-rounded"
+                disabled={dataRows.length === 0}
+                onClick={handleNext}
+              >
+                Next
+              </Button>
+            </>
+          )}
+          {step === 'map' && (
+            <>
+              <Button variant="outline" disabled={importing} onClick={() => setStep('file')}>
+                Back
+              </Button>
+              <Button
+                variant="default-rounded"
+                disabled={importing || !result || result.events.length === 0}
+                onClick={handleImport}
+              >
+                {importing
+                  ? 'Importing...'
+                  : `Import ${result?.events.length ?? 0} event${result?.events.length === 1 ? '' : 's'}`}
+              </Button>
+            </>
+          )}
+          {step === 'done' && (
+            <Button variant="default-rounded" onClick={() => handleOpenChange(false)}>
+              Done
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
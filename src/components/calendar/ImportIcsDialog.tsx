@@ -0,0 +1,276 @@
+import { useId, useState } from 'react';
+
+import { format } from 'date-fns';
+import { FileUp, Repeat } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import useFetchEvents from '@/hooks/useFetchEvents';
+import { parseICalendar, type ICalIssue, type ICalParseResult } from '@/lib/ical';
+import { toZonedTime, wallClockZoneOf } from '@/lib/timeZones';
+import { EventColourSelect, EventTypeSelect } from './EventStyleSelects';
+import { useEventStore, useTimeZone } from './Provider';
+
+interface ImportIcsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// events listed in the preview before "and N more"
+const PREVIEW_LIMIT = 8;
+
+type ImportSummary = { imported: number; skipped: number; errors: number; failure?: string };
+
+const IssueList = ({ title, issues }: { title: string; issues: ICalIssue[] }) =>
+  issues.length === 0 ? null : (
+    <div className="flex flex-col gap-0.5 text-xs">
+      <span className="font-medium">{title}</span>
+      <ul className="text-muted-foreground max-h-24 overflow-y-auto">
+        {issues.map((issue) => (
+          <li key={issue.line}>
+            line {issue.line}
+            {issue.summary ? ` (${issue.summary})` : ''}: {issue.reason}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+
+/**
+ * Dialog to import an iCalendar (.ics) file.
+ * - Parses the file in the browser (see `parseICalendar`); floating times are read in the
+ *   display time zone.
+ * - Shows a preview with what will be imported, skipped and what could not be read, and
+ *   lets the user pick the type and colour given to the imported events (events exported
+ *   from this calendar may keep their own).
+ * - Writes everything in one `addEventsBulk` call, then refetches the current view.
+ */
+export function ImportIcsDialog({ open, onOpenChange }: ImportIcsDialogProps) {
+  const idFile = useId();
+  const idType = useId();
+  const idColour = useId();
+  const idKeep = useId();
+
+  const store = useEventStore();
+  const { displayTimeZone } = useTimeZone();
+  const { fetchEvents } = useFetchEvents(false);
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [parsed, setParsed] = useState<ICalParseResult | null>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+  const [eventType, setEventType] = useState<string>('other');
+  const [colour, setColour] = useState<string>('1');
+  const [keepFromFile, setKeepFromFile] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+
+  const reset = () => {
+    setFileName(null);
+    setParsed(null);
+    setReadError(null);
+    setSummary(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (importing) return;
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    reset();
+    if (!file) return;
+    setFileName(file.name);
+    try {
+      const text = await file.text();
+      if (!/BEGIN:VCALENDAR/i.test(text)) {
+        setReadError('This file is not an iCalendar (.ics) file.');
+        return;
+      }
+      setParsed(parseICalendar(text, { timeZone: displayTimeZone }));
+    } catch (error) {
+      console.error('Failed to read calendar file', error);
+      setReadError('The file could not be read.');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!parsed || parsed.events.length === 0) return;
+    setImporting(true);
+    try {
+      const created = await store.addEventsBulk(
+        parsed.events.map((event) =>
+          keepFromFile
+            ? { ...event, type: event.type ?? eventType, colour: event.colour ?? colour }
+            : { ...event, type: eventType, colour }
+        )
+      );
+      setSummary({
+        imported: created.length,
+        skipped: parsed.skipped.length,
+        errors: parsed.errors.length,
+      });
+      await fetchEvents(true);
+    } catch (error) {
+      console.error('Failed to import events', error);
+      setSummary({
+        imported: 0,
+        skipped: parsed.skipped.length,
+        errors: parsed.errors.length,
+        failure: error instanceof Error ? error.message : 'The events could not be saved.',
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  // files exported from this calendar carry each event's type and colour
+  const hasOwnStyle = !!parsed?.events.some((event) => event.type || event.colour);
+
+  const formatStart = (event: ICalParseResult['events'][number]) => {
+    const start = toZonedTime(new Date(event.start), wallClockZoneOf(event, displayTimeZone));
+    return format(start, event.allDay ? 'EEE d MMM yyyy' : 'EEE d MMM yyyy HH:mm');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="text-primary flex items-center gap-2">
+            <FileUp className="h-6 w-6" />
+            Import calendar
+          </DialogTitle>
+          <DialogDescription>
+            Add the events of an iCalendar (.ics) file exported from another calendar app.
+          </DialogDescription>
+        </DialogHeader>
+
+        {summary ? (
+          <div className="flex flex-col gap-1 text-sm" role="status">
+            {summary.failure ? (
+              <span className="text-destructive">Import failed: {summary.failure}</span>
+            ) : (
+              <span>
+                Imported {summary.imported} event{summary.imported === 1 ? '' : 's'}.
+              </span>
+            )}
+            <span className="text-muted-foreground">
+              Skipped {summary.skipped}, errors {summary.errors}.
+            </span>
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center gap-4">
+              <Label htmlFor={idFile} className="w-12 justify-end">
+                file
+              </Label>
+              <Input
+                id={idFile}
+                type="file"
+                accept=".ics,text/calendar"
+                className="w-2/3"
+                disabled={importing}
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </div>
+
+            {readError && <span className="text-destructive text-sm">{readError}</span>}
+
+            {parsed && (
+              <div className="flex flex-col gap-2">
+                <span className="text-sm">
+                  {fileName}: {parsed.events.length} to import, {parsed.skipped.length} skipped,{' '}
+                  {parsed.errors.length} with errors
+                </span>
+
+                {parsed.events.length > 0 && (
+                  <ul className="flex max-h-48 flex-col gap-0.5 overflow-y-auto rounded border border-(--calendar-hour-line) p-2 text-xs">
+                    {parsed.events.slice(0, PREVIEW_LIMIT).map((event, i) => (
+                      <li key={i} className="flex items-center gap-2">
+                        <span className="text-muted-foreground w-36 shrink-0">
+                          {formatStart(event)}
+                        </span>
+                        <span className="truncate">{event.title}</span>
+                        {event.recurrence && <Repeat className="h-3 w-3 shrink-0" />}
+                      </li>
+                    ))}
+                    {parsed.events.length > PREVIEW_LIMIT && (
+                      <li className="text-muted-foreground">
+                        and {parsed.events.length - PREVIEW_LIMIT} more
+                      </li>
+                    )}
+                  </ul>
+                )}
+
+                <IssueList title="Skipped" issues={parsed.skipped} />
+                <IssueList title="Errors" issues={parsed.errors} />
+              </div>
+            )}
+
+            {hasOwnStyle && (
+              <div className="flex items-center gap-4">
+                <Checkbox
+                  id={idKeep}
+                  checked={keepFromFile}
+                  onCheckedChange={(toggle: boolean) => setKeepFromFile(toggle)}
+                />
+                <Label htmlFor={idKeep}>Keep the type and colour saved in the file</Label>
+              </div>
+            )}
+
+            <div className="flex items-center gap-4">
+              <Label htmlFor={idType} className="w-12 justify-end">
+                type
+              </Label>
+              <EventTypeSelect id={idType} value={eventType} onValueChange={setEventType} />
+            </div>
+
+            <div className="flex items-center gap-4">
+              <Label htmlFor={idColour} className="w-12 justify-end">
+                colour
+              </Label>
+              <EventColourSelect id={idColour} value={colour} onValueChange={setColour} />
+            </div>
+          </>
+        )}
+
+        <DialogFooter>
+          {summary ? (
+            <Button variant="default-rounded" onClick={() => handleOpenChange(false)}>
+              Done
+            </Button>
+          ) : (
+            <>
+              <Button
+                variant="outline"
+                disabled={importing}
+                onClick={() => handleOpenChange(false)}
+              >
+                Cancel
+              </Button>
+              <Button
+                variant="default-rounded"
+                disabled={importing || !parsed || parsed.events.length === 0}
+                onClick={handleImport}
+              >
+                {importing
+                  ? 'Importing...'
+                  : `Import ${parsed?.events.length ?? 0} event${parsed?.events.length === 1 ? '' : 's'}`}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
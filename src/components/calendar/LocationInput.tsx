@@ -0,0 +1,142 @@
+import { type KeyboardEvent, useEffect, useId, useState } from 'react';
+
+import { MapPin } from 'lucide-react';
+
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { useEventStore } from './Provider';
+
+import { canonicalLocation, rankLocations, suggestLocations } from '@/lib/locations';
+import { cn } from '@/lib/utils';
+
+type LocationInputProps = {
+  value: string;
+  onChange: (location: string) => void;
+};
+
+/**
+ * LocationInput
+ * - A text field suggesting the locations already used by stored events, most used first.
+ * - Arrow keys move through the suggestions, Enter picks one and Escape closes them.
+ * - On leaving the field, a location differing from a known one only in case or spacing
+ *   takes the known spelling, so the same room is not stored several ways.
+ */
+const LocationInput = ({ value, onChange }: LocationInputProps) => {
+  const idLocation = useId();
+  const idList = useId();
+  const store = useEventStore();
+
+  const [ranked, setRanked] = useState<string[]>([]);
+  const [open, setOpen] = useState(false);
+  // index of the highlighted suggestion, -1 for none
+  const [active, setActive] = useState(-1);
+
+  // read the used locations while suggesting, so edits made elsewhere are included
+  useEffect(() => {
+    if (!open) return;
+    store
+      .getEvents()
+      .then((events) => setRanked(rankLocations(events)))
+      .catch((error) => console.error('Failed to read locations', error));
+  }, [store, open]);
+
+  const suggestions = open ? suggestLocations(ranked, value) : [];
+
+  const pick = (location: string) => {
+    onChange(location);
+    setOpen(false);
+    setActive(-1);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      if (!open) {
+        setOpen(true);
+        return;
+      }
+      const by = e.key === 'ArrowDown' ? 1 : -1;
+      setActive((i) => Math.min(Math.max(i + by, -1), suggestions.length - 1));
+    } else if (e.key === 'Enter' && active >= 0 && suggestions[active]) {
+      e.preventDefault();
+      pick(suggestions[active]);
+    } else if (e.key === 'Escape' && suggestions.length > 0) {
+      // close the list, not the panel around it
+      e.preventDefault();
+      e.stopPropagation();
+      setOpen(false);
+      setActive(-1);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-4">
+      <Label htmlFor={idLocation} className="w-12 justify-end">
+        where
+      </Label>
+      <div className="relative flex-1">
+        <MapPin
+          className="text-muted-foreground pointer-events-none absolute top-1/2 left-1.5 size-3 -translate-y-1/2"
+          aria-hidden
+        />
+        <Input
+          id={idLocation}
+          type="text"
+          role="combobox"
+          aria-autocomplete="list"
+          aria-expanded={suggestions.length > 0}
+          aria-controls={idList}
+          aria-activedescendant={active >= 0 ? `${idList}-${active}` : undefined}
+          autoComplete="off"
+          value={value}
+          placeholder="Add a location"
+          onChange={(e) => {
+            onChange(e.target.value);
+            setOpen(true);
+            setActive(-1);
+          }}
+          onFocus={() => setOpen(true)}
+          onBlur={() => {
+            setOpen(false);
+            setActive(-1);
+            onChange(canonicalLocation(value, ranked) ?? '');
+          }}
+          onKeyDown={handleKeyDown}
+          className="h-6 pl-6 text-sm"
+        />
+        {suggestions.length > 0 && (
+          <div
+            id={idList}
+            role="listbox"
+            aria-label="Used locations"
+            className="absolute top-full right-0 left-0 z-50 mt-1 flex flex-col rounded-md border border-(--left-border-colour) bg-(--left-background) p-1 shadow-lg"
+          >
+            {suggestions.map((location, index) => (
+              <div
+                key={location}
+                id={`${idList}-${index}`}
+                role="option"
+                aria-selected={index === active}
+                // focus stays in the field (aria-activedescendant points here)
+                tabIndex={-1}
+                // mousedown, so the field keeps focus until the pick is made
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  pick(location);
+                }}
+                className={cn(
+                  'hover:bg-accent hover:text-accent-foreground cursor-pointer truncate rounded-sm px-2 py-1 text-xs',
+                  index === active && 'bg-accent text-accent-foreground'
+                )}
+              >
+                {location}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LocationInput;
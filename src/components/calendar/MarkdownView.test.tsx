@@ -0,0 +1,30 @@
+import { render, screen } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { MarkdownView } from './MarkdownView';
+
+describe('MarkdownView', () => {
+  it('renders the Markdown as elements', () => {
+    render(
+      <MarkdownView text={'### Agenda\n- [x] **Slides**\n- [ ] [Notes](https://example.com)'} />
+    );
+
+    expect(screen.getByRole('heading', { name: 'Agenda' })).toBeInTheDocument();
+    expect(screen.getByText('Slides').tagName).toBe('STRONG');
+    expect(screen.getByRole('checkbox', { name: 'Done' })).toBeChecked();
+    expect(screen.getByRole('checkbox', { name: 'To do' })).not.toBeChecked();
+    expect(screen.getByRole('link', { name: 'Notes' })).toHaveAttribute(
+      'href',
+      'https://example.com'
+    );
+  });
+
+  it('shows markup and unsafe links as text', () => {
+    const { container } = render(
+      <MarkdownView text={'<img src=x onerror="alert(1)"> [run](javascript:alert(1))'} />
+    );
+
+    expect(container.querySelector('img')).toBeNull();
+    expect(screen.queryByRole('link')).toBeNull();
+    expect(container).toHaveTextContent('<img src=x onerror="alert(1)"> run)');
+  });
+});
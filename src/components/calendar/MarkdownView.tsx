@@ -0,0 +1,122 @@
+import { Fragment, type ReactNode } from 'react';
+
+import { type MarkdownInline, parseMarkdown } from '@/lib/markdown';
+import { cn } from '@/lib/utils';
+
+const renderInline = (nodes: MarkdownInline[]): ReactNode =>
+  nodes.map((node, i) => {
+    switch (node.kind) {
+      case 'text':
+        return <Fragment key={i}>{node.text}</Fragment>;
+      case 'code':
+        return (
+          <code key={i} className="rounded-xs bg-(--button-group-separator) px-0.5 font-mono">
+            {node.text}
+          </code>
+        );
+      case 'strong':
+        return <strong key={i}>{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={i}>{renderInline(node.children)}</em>;
+      case 'strike':
+        return <s key={i}>{renderInline(node.children)}</s>;
+      case 'link':
+        return (
+          <a
+            key={i}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-primary underline underline-offset-2"
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+
+// lines of a paragraph or quote, with their line breaks
+const renderLines = (lines: MarkdownInline[][]) =>
+  lines.map((line, i) => (
+    <Fragment key={i}>
+      {i > 0 && <br />}
+      {renderInline(line)}
+    </Fragment>
+  ));
+
+const HEADING_CLASSES = { 1: 'text-base', 2: 'text-sm', 3: 'text-xs uppercase' };
+
+/**
+ * A description written in Markdown (see lib/markdown), rendered as elements: the text is
+ * never treated as HTML, and only http(s) and mailto links are kept, opening in a new tab.
+ */
+export const MarkdownView = ({ text, className }: { text: string; className?: string }) => (
+  <div className={cn('flex flex-col gap-1.5 text-sm break-words', className)}>
+    {parseMarkdown(text).map((block, i) => {
+      switch (block.kind) {
+        case 'heading': {
+          const Heading = `h${block.level + 2}` as 'h3' | 'h4' | 'h5';
+          return (
+            <Heading key={i} className={cn('font-semibold', HEADING_CLASSES[block.level])}>
+              {renderInline(block.children)}
+            </Heading>
+          );
+        }
+        case 'paragraph':
+          return <p key={i}>{renderLines(block.lines)}</p>;
+        case 'quote':
+          return (
+            <blockquote key={i} className="text-muted-foreground border-l-2 pl-2">
+              {renderLines(block.lines)}
+            </blockquote>
+          );
+        case 'list': {
+          const List = block.ordered ? 'ol' : 'ul';
+          const checklist = block.items.every((item) => item.checked !== undefined);
+          return (
+            <List
+              key={i}
+              start={block.ordered ? block.start : undefined}
+              className={cn(
+                'space-y-0.5',
+                checklist ? 'list-none' : block.ordered ? 'list-decimal pl-5' : 'list-disc pl-5'
+              )}
+            >
+              {block.items.map((item, j) => (
+                <li
+                  key={j}
+                  className={cn(item.checked !== undefined && 'flex items-start gap-1.5')}
+                >
+                  {item.checked !== undefined && (
+                    <input
+                      type="checkbox"
+                      checked={item.checked}
+                      readOnly
+                      disabled
+                      aria-label={item.checked ? 'Done' : 'To do'}
+                      className="mt-1 shrink-0"
+                    />
+                  )}
+                  <span className={cn(item.checked && 'text-muted-foreground line-through')}>
+                    {renderInline(item.children)}
+                  </span>
+                </li>
+              ))}
+            </List>
+          );
+        }
+        case 'code':
+          return (
+            <pre
+              key={i}
+              className="overflow-x-auto rounded-sm bg-(--button-group-separator) p-2 font-mono text-xs"
+            >
+              {block.text}
+            </pre>
+          );
+        case 'rule':
+          return <hr key={i} className="border-(--left-border-colour)" />;
+      }
+    })}
+  </div>
+);
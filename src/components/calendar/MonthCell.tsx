@@ -1,13 +1,15 @@
 import React, { useMemo } from 'react';
 
 import { useDroppable } from '@dnd-kit/core';
-import { isSameDay, isToday } from 'date-fns';
+import { isSameDay } from 'date-fns';
 
 import type { CalendarCellProps, TCalendarEvent } from '@/types/Calendar';
 import { DraggableMonthEvent } from './DraggableMonthEvent';
-import { useSelectedDate } from './Provider';
+import { useSelectedDate, useTimeZone } from './Provider';
 
 import { CELL_HEIGHT } from '@/lib/constants';
+import { dragIdOf } from '@/lib/daySegments';
+import { isTodayIn } from '@/lib/timeZones';
 
 /**
  * Extract events that belong to a specific year-month-day-hour key.
@@ -83,6 +85,7 @@ const MonthCell: React.FC<TCalendarMonthCellProps> = ({
 
   // Selected date from context/provider
   const { selectedDate, setSelectedDate } = useSelectedDate();
+  const { displayTimeZone } = useTimeZone();
 
   // Build a Date object for the cell; use numeric constructor to avoid string parsing differences/timezone issues.
   // month is a string (e.g. "11") so subtract 1 for Date month index.
@@ -108,7 +111,7 @@ const MonthCell: React.FC<TCalendarMonthCellProps> = ({
 
         cellRef.current = node;
       }}
-      className={` ${slot == 0 ? 'border-t border-t-(--calendar-hour-line)' : slot == 2 ? 'border-t border-t-(--calendar-half-hour-line)' : 'border-t border-t-transparent'} cursor-pointer border-r border-r-(--calendar-hour-line) p-0 align-top transition-colors duration-150 ${isSelected && isToday(selectedDate ?? new Date()) ? 'bg-(--colour-4-10)' : ''} ${isSelected && !isToday(selectedDate ?? new Date()) ? 'bg-(--grey-4)' : ''} relative`}
+      className={` ${slot == 0 ? 'border-t border-t-(--calendar-hour-line)' : slot == 2 ? 'border-t border-t-(--calendar-half-hour-line)' : 'border-t border-t-transparent'} cursor-pointer border-r border-r-(--calendar-hour-line) p-0 align-top transition-colors duration-150 ${isSelected && isTodayIn(selectedDate ?? new Date(), displayTimeZone) ? 'bg-(--colour-4-10)' : ''} ${isSelected && !isTodayIn(selectedDate ?? new Date(), displayTimeZone) ? 'bg-(--grey-4)' : ''} relative`}
       style={{
         width: columnSize,
         height: `${CELL_HEIGHT}px`,
@@ -168,7 +171,7 @@ const MonthCell: React.FC<TCalendarMonthCellProps> = ({
               key={event.id}
               className="relative w-full"
               data-events-per-hour={lenEventsThisHour}
-              data-id={event.id}
+              data-id={dragIdOf(event)}
             >
               <DraggableMonthEvent event={event} />
             </div>
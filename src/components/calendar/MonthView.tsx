@@ -10,21 +10,30 @@ import {
   useSensors,
 } from '@dnd-kit/core';
 import { restrictToWindowEdges } from '@dnd-kit/modifiers';
-import { addDays, endOfMonth, format, isToday, startOfMonth, subDays } from 'date-fns';
+import { addDays, endOfMonth, format, startOfMonth, subDays } from 'date-fns';
 import { AnimatePresence, motion } from 'motion/react';
 
 import Header from './Header';
 
 import ExpandedCellOverlay from './ExpandedCellOverlay';
 import MonthCell from './MonthCell';
-import { useEvents, useMonth, usePanels, useSelectedDate, useViewBy } from './Provider';
+import {
+  useEvents,
+  useMonth,
+  usePanels,
+  useSelectedDate,
+  useTimeZone,
+  useViewBy,
+} from './Provider';
 import { restrictToTable } from './restrictToTable';
 
 import { CELL_HEIGHT, CELL_WIDTH, EVENT_ROW_HEIGHT } from '@/lib/constants';
 import snapToQuarterHour from '@/lib/snapToQuarterHour';
+import { isTodayIn, nowIn } from '@/lib/timeZones';
 
 import useCalendarDrag, { type DragOverCellType } from '@/hooks/useCalendarDrag';
 import useFetchEvents from '@/hooks/useFetchEvents';
+import { colourCss } from '@/lib/colours';
 import type { TCalendarEvent } from '@/types/Calendar';
 
 // Helper: build a month grid (strings in 'yyyy-MM-dd') with Monday as first column.
@@ -77,6 +86,8 @@ const MonthView: React.FC = () => {
   const { selectedDate, setSelectedDate } = useSelectedDate();
   const { month } = useMonth();
   const { events } = useEvents();
+  const { displayTimeZone } = useTimeZone();
+  const isToday = (date: Date) => isTodayIn(date, displayTimeZone);
   const { showLeftPanel } = usePanels();
   useFetchEvents();
 
@@ -270,6 +281,9 @@ const MonthView: React.FC = () => {
                           )
                           .flatMap((key) => events[key] ?? [])
                           .sort((a, b) => {
+                            // multi-day bars first, in the same order in every cell they span
+                            if (a.segment && !b.segment) return -1;
+                            if (!a.segment && b.segment) return 1;
                             if (a.allDay && !b.allDay) return -1;
                             if (!a.allDay && b.allDay) return 1;
                             return a.start && b.start ? a.start.getTime() - b.start.getTime() : 0;
@@ -312,7 +326,7 @@ const MonthView: React.FC = () => {
                               <span
                                 className={`font-medium ${isToday(cellDate) ? 'text-white' : 'text-foreground'} pl-[3px]`}
                               >
-                                {fulldate === format(new Date(), 'yyyy-MM-dd') ||
+                                {fulldate === format(nowIn(displayTimeZone), 'yyyy-MM-dd') ||
                                 parseInt(dayStr, 10) === 1
                                   ? format(cellDate, 'd MMM')
                                   : parseInt(dayStr, 10)}
@@ -340,7 +354,7 @@ const MonthView: React.FC = () => {
                   <div
                     className="pointer-events-none relative min-w-[120px] rounded text-left text-base font-semibold opacity-95"
                     style={{
-                      background: `var(--event-default-colour-${activeEvent.colour}-70)`,
+                      background: colourCss(activeEvent.colour, '70'),
                       color: '#222',
                     }}
                   >
@@ -348,7 +362,7 @@ const MonthView: React.FC = () => {
                       <div
                         className="pointer-events-none absolute w-full min-w-[120px] rounded text-left text-xs font-semibold opacity-95"
                         style={{
-                          backgroundColor: `var(--event-default-colour-${activeEvent.colour})`,
+                          backgroundColor: colourCss(activeEvent.colour),
                           color: `white`,
                           width: `${columnSize}px`,
                         }}
@@ -0,0 +1,140 @@
+import { useEffect, useId, useState } from 'react';
+import { createPortal } from 'react-dom';
+
+import { endOfYear, startOfYear, subMonths } from 'date-fns';
+import { Printer } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { fromZonedTime } from '@/lib/timeZones';
+import { PLANNER_FORMATS, type PlannerFormat } from '@/lib/yearPlanner';
+import type { IEvent } from '@/types/Calendar';
+import { useEventStore, useTimeZone } from './Provider';
+import YearPlanner from './YearPlanner';
+
+interface PrintYearPlannerDialogProps {
+  year: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Dialog to print the year planner.
+ * - Loads the year's events straight from the store's range query, so the poster does not
+ *   depend on what the current view has fetched. Starting a month early keeps the tail of
+ *   multi-day events that begin in December of the previous year. Days are read in the
+ *   display time zone, as in the views.
+ * - While open, the planner is mounted (hidden on screen) under <body>; print CSS in
+ *   index.css hides everything else and `@page` picks the paper size.
+ */
+export function PrintYearPlannerDialog({ year, open, onOpenChange }: PrintYearPlannerDialogProps) {
+  const idFormat = useId();
+  const store = useEventStore();
+  const { displayTimeZone } = useTimeZone();
+
+  const [plannerFormat, setPlannerFormat] = useState<PlannerFormat>('a3');
+  const [events, setEvents] = useState<IEvent[] | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    const yearStart = startOfYear(new Date(year, 0, 1));
+    store
+      .getEventsByRange(
+        fromZonedTime(subMonths(yearStart, 1), displayTimeZone),
+        fromZonedTime(endOfYear(yearStart), displayTimeZone)
+      )
+      .then((loaded) => {
+        if (!cancelled) setEvents(loaded);
+      })
+      .catch((error) => {
+        console.error('Failed to load events for the year planner', error);
+        if (!cancelled) setEvents([]);
+      });
+
+    return () => {
+      cancelled = true;
+      setEvents(null);
+    };
+  }, [open, year, store, displayTimeZone]);
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="text-primary flex items-center gap-2">
+              <Printer className="h-6 w-6" />
+              Print {year} planner
+            </DialogTitle>
+            <DialogDescription>
+              All-day and multi-day events are printed as bars, weekends and holidays are shaded.
+              Choose the matching paper size in the print dialog.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex items-center gap-4">
+            <Label htmlFor={idFormat} className="w-12 justify-end">
+              layout
+            </Label>
+            <Select
+              value={plannerFormat}
+              onValueChange={(value) => setPlannerFormat(value as PlannerFormat)}
+            >
+              <SelectTrigger id={idFormat} className="w-2/3">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-(--left-background)">
+                {(Object.keys(PLANNER_FORMATS) as PlannerFormat[]).map((f) => (
+                  <SelectItem value={f} key={f}>
+                    {PLANNER_FORMATS[f].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button variant="default-rounded" disabled={!events} onClick={() => window.print()}>
+              {events ? 'Print' : 'Loading events...'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {open &&
+        events &&
+        createPortal(
+          <div className="year-planner-print hidden print:block">
+            <style>{`@page { size: ${PLANNER_FORMATS[plannerFormat].pageSize}; margin: 8mm; }`}</style>
+            <YearPlanner
+              year={year}
+              events={events}
+              plannerFormat={plannerFormat}
+              timeZone={displayTimeZone}
+            />
+          </div>,
+          document.body
+        )}
+    </>
+  );
+}
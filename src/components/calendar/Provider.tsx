@@ -1,6 +1,30 @@
-import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import React, {
+  createContext,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from 'react';
 
-import type { TCalendarEvent } from '@/types/Calendar';
+import { v4 as uuidv4 } from 'uuid';
+
+import { attachmentIdsOf, attachmentIdsOfRecords } from '@/lib/attachments';
+import { calendarOf, DEFAULT_CALENDARS, isCalendarList, isReadOnlyEvent } from '@/lib/calendars';
+import { DEFAULT_EVENT_TYPES, isEventTypeList, isPalette } from '@/lib/eventTypes';
+import { EMPTY_FILTER, matchesFilter, type EventFilter } from '@/lib/filters';
+import { isValidTimeZone, localTimeZone } from '@/lib/timeZones';
+import { filterScheduled } from '@/lib/utils';
+import {
+  defaultAttachmentStore,
+  pruneAttachments,
+  type AttachmentStore,
+} from '@/services/attachments';
+import { defaultEventStore, type EventStore } from '@/services/Events';
+import { createEventHistory, type EventHistory } from '@/services/history';
+import { createReadOnlyGuard } from '@/services/readOnly';
+import type { IAttachment, ICalendar, IEventType, TCalendarEvent } from '@/types/Calendar';
 
 type ViewBy = 'day' | 'week' | 'month' | 'year';
 
@@ -8,6 +32,13 @@ type CalendarProviderProps = {
   children: React.ReactNode;
   defaultViewBy?: ViewBy;
   storageKeyViewBy?: string;
+  storageKeyTimeZone?: string;
+  storageKeySecondaryTimeZones?: string;
+  storageKeyCalendars?: string;
+  storageKeyHiddenCalendars?: string;
+  storageKeyUserEmail?: string;
+  storageKeyEventTypes?: string;
+  storageKeyPalette?: string;
   // controlled optional props — if provided, provider acts controlled for that piece of state
   selectedDate?: Date | undefined;
   setSelectedDate?: (date: Date | undefined) => void;
@@ -19,6 +50,10 @@ type CalendarProviderProps = {
   setShowRightPanel?: (show: boolean) => void;
   // initialize events (uncontrolled state inside provider)
   initialEvents?: Record<string, TCalendarEvent[]>;
+  // persistence backend; defaults to the localStorage store
+  store?: EventStore;
+  // where attached files are kept; defaults to IndexedDB
+  attachmentStore?: AttachmentStore;
 };
 
 type CalendarProviderState = {
@@ -34,6 +69,8 @@ type CalendarProviderState = {
   setShowRightPanel?: (show: boolean) => void;
   selectedEvent: TCalendarEvent | null;
   setSelectedEvent: React.Dispatch<React.SetStateAction<TCalendarEvent | null>>;
+  // the loaded events, without those of hidden calendars or left out by `filter`
+  // (setEvents updates the full map)
   events: Record<string, TCalendarEvent[]>;
   setEvents: React.Dispatch<React.SetStateAction<Record<string, TCalendarEvent[]>>>;
   isInputToggled: boolean;
@@ -44,6 +81,43 @@ type CalendarProviderState = {
   setEndDateTime: React.Dispatch<React.SetStateAction<Date | null>>;
   isLoading: boolean;
   setIsLoading: React.Dispatch<React.SetStateAction<boolean>>;
+  // why the last change was rejected by the store (the change has been rolled back)
+  mutationError: string | null;
+  setMutationError: React.Dispatch<React.SetStateAction<string | null>>;
+  // the configured store, guarded against changes to read-only events and wrapped by
+  // `history`, so every mutation through it can be undone
+  store: EventStore;
+  history: EventHistory;
+
+  attachmentStore: AttachmentStore;
+  // store a file for the event being edited (kept until an event links to it)
+  attachFile: (file: File) => Promise<IAttachment>;
+  // delete files no event links to; with `includeUndo`, also those only undo could bring back
+  removeUnlinkedAttachments: (includeUndo?: boolean) => Promise<IAttachment[]>;
+  // remove in the background the files deleting or restoring events left unlinked
+  pruneUnlinkedAttachments: () => void;
+  // IANA zone every view renders in; event dates in `events` are wall-clock times there
+  displayTimeZone: string;
+  setDisplayTimeZone: (timeZone: string) => void;
+  // extra zones shown as gutters next to the hour labels in day/week views
+  secondaryTimeZones: string[];
+  setSecondaryTimeZones: (timeZones: string[]) => void;
+  // named calendars events belong to (never empty), and the ids of the hidden ones
+  calendars: ICalendar[];
+  setCalendars: (calendars: ICalendar[]) => void;
+  hiddenCalendarIds: string[];
+  setHiddenCalendarIds: (ids: string[]) => void;
+  // email of the person using the calendar, matched against event attendees (RSVP)
+  userEmail: string | null;
+  setUserEmail: (email: string | null) => void;
+  // the kinds of event there are (never empty), and extra colours ("#rrggbb") to pick from
+  eventTypes: IEventType[];
+  setEventTypes: (types: IEventType[]) => void;
+  palette: string[];
+  setPalette: (colours: string[]) => void;
+  // which events the views show (see `matchesFilter`); kept for the session only
+  filter: EventFilter;
+  setFilter: (filter: EventFilter) => void;
 };
 
 /**
@@ -73,6 +147,30 @@ const initialState: CalendarProviderState = {
   setEndDateTime: () => undefined,
   isLoading: false,
   setIsLoading: () => undefined,
+  mutationError: null,
+  setMutationError: () => undefined,
+  store: defaultEventStore,
+  history: createEventHistory(defaultEventStore),
+  attachmentStore: defaultAttachmentStore,
+  attachFile: () => Promise.reject(new Error('No calendar provider')),
+  removeUnlinkedAttachments: async () => [],
+  pruneUnlinkedAttachments: () => undefined,
+  displayTimeZone: localTimeZone(),
+  setDisplayTimeZone: () => undefined,
+  secondaryTimeZones: [],
+  setSecondaryTimeZones: () => undefined,
+  calendars: DEFAULT_CALENDARS,
+  setCalendars: () => undefined,
+  hiddenCalendarIds: [],
+  setHiddenCalendarIds: () => undefined,
+  userEmail: null,
+  setUserEmail: () => undefined,
+  eventTypes: DEFAULT_EVENT_TYPES,
+  setEventTypes: () => undefined,
+  palette: [],
+  setPalette: () => undefined,
+  filter: EMPTY_FILTER,
+  setFilter: () => undefined,
 };
 
 const CalendarProviderContext = createContext<CalendarProviderState>(initialState);
@@ -83,7 +181,15 @@ const DEFAULT_EVENTS: Record<string, TCalendarEvent[]> = {};
  * CalendarProvider
  *
  * - Supports controlled and uncontrolled usage for selected, month and panel visibility.
- * - Persists viewBy into localStorage (guarded for SSR).
+ * - Persists viewBy, the display/secondary time zones, the calendars and which of them are
+ *   hidden, the user's email, the event types and the custom colours into localStorage
+ *   (guarded for SSR).
+ * - Hides the events of hidden calendars from every consumer of `events`.
+ * - Exposes the configured EventStore so the same UI can run against any backend, wrapped
+ *   so read-only events and calendars cannot be changed (see `createReadOnlyGuard`) and
+ *   with an undo/redo history of its mutations (see `createEventHistory`).
+ * - Keeps attached files while an event or the undo history links to them, and deletes
+ *   the rest after events are deleted or restored and when the history lets go of them.
  * - Uses React 19's useEffectEvent to create stable callbacks for handlers.
  * - Memoizes context value to avoid unnecessary re-renders.
  */
@@ -91,6 +197,13 @@ export function CalendarProvider({
   children,
   defaultViewBy = 'day',
   storageKeyViewBy = 'atcalendar-viewby',
+  storageKeyTimeZone = 'atcalendar-timezone',
+  storageKeySecondaryTimeZones = 'atcalendar-secondary-timezones',
+  storageKeyCalendars = 'atcalendar-calendars',
+  storageKeyHiddenCalendars = 'atcalendar-hidden-calendars',
+  storageKeyUserEmail = 'atcalendar-user-email',
+  storageKeyEventTypes = 'atcalendar-event-types',
+  storageKeyPalette = 'atcalendar-palette',
   selectedDate,
   setSelectedDate,
   month,
@@ -100,6 +213,8 @@ export function CalendarProvider({
   showRightPanel,
   setShowRightPanel,
   initialEvents = DEFAULT_EVENTS,
+  store = defaultEventStore,
+  attachmentStore = defaultAttachmentStore,
   ...props
 }: CalendarProviderProps) {
   // viewBy: similar safe init
@@ -110,6 +225,88 @@ export function CalendarProvider({
   };
   const [viewBy, setViewByState] = useState<ViewBy>(getInitialViewBy);
 
+  // display time zone: stored value when still valid, else the browser's
+  const getInitialTimeZone = (): string => {
+    if (typeof window === 'undefined') return localTimeZone();
+    const stored = localStorage.getItem(storageKeyTimeZone);
+    return isValidTimeZone(stored) ? stored : localTimeZone();
+  };
+  const [displayTimeZone, setDisplayTimeZoneState] = useState<string>(getInitialTimeZone);
+
+  // secondary time zones: stored JSON list, dropping zones that are no longer valid
+  const getInitialSecondaryTimeZones = (): string[] => {
+    if (typeof window === 'undefined') return [];
+    try {
+      const stored: unknown = JSON.parse(
+        localStorage.getItem(storageKeySecondaryTimeZones) ?? '[]'
+      );
+      return Array.isArray(stored) ? stored.filter(isValidTimeZone) : [];
+    } catch {
+      return [];
+    }
+  };
+  const [secondaryTimeZones, setSecondaryTimeZonesState] = useState<string[]>(
+    getInitialSecondaryTimeZones
+  );
+
+  // calendars: stored JSON list when usable, else the defaults
+  const getInitialCalendars = (): ICalendar[] => {
+    if (typeof window === 'undefined') return DEFAULT_CALENDARS;
+    try {
+      const stored: unknown = JSON.parse(localStorage.getItem(storageKeyCalendars) ?? 'null');
+      return isCalendarList(stored) ? stored : DEFAULT_CALENDARS;
+    } catch {
+      return DEFAULT_CALENDARS;
+    }
+  };
+  const [calendars, setCalendarsState] = useState<ICalendar[]>(getInitialCalendars);
+
+  // event types: stored JSON list when usable, else the defaults
+  const getInitialEventTypes = (): IEventType[] => {
+    if (typeof window === 'undefined') return DEFAULT_EVENT_TYPES;
+    try {
+      const stored: unknown = JSON.parse(localStorage.getItem(storageKeyEventTypes) ?? 'null');
+      return isEventTypeList(stored) ? stored : DEFAULT_EVENT_TYPES;
+    } catch {
+      return DEFAULT_EVENT_TYPES;
+    }
+  };
+  const [eventTypes, setEventTypesState] = useState<IEventType[]>(getInitialEventTypes);
+
+  // custom colours: stored JSON list of "#rrggbb"
+  const getInitialPalette = (): string[] => {
+    if (typeof window === 'undefined') return [];
+    try {
+      const stored: unknown = JSON.parse(localStorage.getItem(storageKeyPalette) ?? '[]');
+      return isPalette(stored) ? stored : [];
+    } catch {
+      return [];
+    }
+  };
+  const [palette, setPaletteState] = useState<string[]>(getInitialPalette);
+
+  // hidden calendars: stored JSON list of ids
+  const getInitialHiddenCalendarIds = (): string[] => {
+    if (typeof window === 'undefined') return [];
+    try {
+      const stored: unknown = JSON.parse(localStorage.getItem(storageKeyHiddenCalendars) ?? '[]');
+      return Array.isArray(stored) ? stored.filter((id) => typeof id === 'string') : [];
+    } catch {
+      return [];
+    }
+  };
+  const [hiddenCalendarIds, setHiddenCalendarIdsState] = useState<string[]>(
+    getInitialHiddenCalendarIds
+  );
+
+  // user's email: stored value, if any
+  const [userEmail, setUserEmailState] = useState<string | null>(() =>
+    typeof window === 'undefined' ? null : localStorage.getItem(storageKeyUserEmail)
+  );
+
+  // view filter (not persisted, so a reload shows everything again)
+  const [filter, setFilter] = useState<EventFilter>(EMPTY_FILTER);
+
   // EVENTS: provider-managed (uncontrolled) events map
   const [events, setEvents] = useState<Record<string, TCalendarEvent[]>>(initialEvents ?? {});
   // keep events in sync if parent changes initialEvents prop
@@ -186,6 +383,64 @@ export function CalendarProvider({
 
   // Loading State
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [mutationError, setMutationError] = useState<string | null>(null);
+
+  // Undo/redo history over the read-only guard; a new store starts a new history
+  const guard = useMemo(() => createReadOnlyGuard(store), [store]);
+  const history = useMemo(() => createEventHistory(guard.store), [guard]);
+
+  // the guard follows the calendars' read-only flags (without restarting the history)
+  useEffect(() => {
+    guard.setCheck((event) => isReadOnlyEvent(event, calendars));
+  }, [guard, calendars]);
+
+  // ...and still takes the current user's answers to read-only events
+  useEffect(() => {
+    guard.setCurrentUser(userEmail);
+  }, [guard, userEmail]);
+
+  // Attachments: files attached in the panel are pending until a saved event links to them
+  const pendingAttachments = useRef(new Set<string>());
+  const attachFile = React.useCallback(
+    async (file: File) => {
+      const id = uuidv4();
+      pendingAttachments.current.add(id);
+      return attachmentStore.add(file, file.name, id);
+    },
+    [attachmentStore]
+  );
+
+  const removeUnlinkedAttachments = React.useCallback(
+    async (includeUndo = false) => {
+      // a store that cannot be read rejects here, so an empty list means nothing is linked
+      const [stored, quarantined] = await Promise.all([
+        history.store.getEvents(),
+        history.store.getQuarantined(),
+      ]);
+      const pending = pendingAttachments.current;
+      attachmentIdsOf(stored).forEach((id) => pending.delete(id));
+      // quarantined records still count: fixing one brings its files back into use
+      const keep = new Set([
+        ...pending,
+        ...attachmentIdsOfRecords(quarantined.map((q) => q.record)),
+      ]);
+      return pruneAttachments(
+        attachmentStore,
+        includeUndo ? stored : [...stored, ...history.retained()],
+        keep
+      );
+    },
+    [attachmentStore, history]
+  );
+
+  const pruneUnlinkedAttachments = React.useCallback(() => {
+    removeUnlinkedAttachments().catch((error) =>
+      console.error('Failed to remove unlinked attachments', error)
+    );
+  }, [removeUnlinkedAttachments]);
+
+  // files only the history kept can go once it forgets them
+  useEffect(() => history.onForget(pruneUnlinkedAttachments), [history, pruneUnlinkedAttachments]);
 
   // Handler for viewBy with persistent storage
   const setViewByAndStore = React.useCallback(
@@ -201,6 +456,127 @@ export function CalendarProvider({
     [storageKeyViewBy]
   );
 
+  // Handler for the display time zone with persistent storage
+  const setDisplayTimeZoneAndStore = React.useCallback(
+    (tz: string) => {
+      if (!isValidTimeZone(tz)) return;
+      try {
+        if (typeof window !== 'undefined') localStorage.setItem(storageKeyTimeZone, tz);
+      } catch {
+        // ignore
+      }
+      setDisplayTimeZoneState(tz);
+      setSelectedEvent(null);
+    },
+    [storageKeyTimeZone]
+  );
+
+  // Handler for secondary time zones with persistent storage (duplicates and invalid zones dropped)
+  const setSecondaryTimeZonesAndStore = React.useCallback(
+    (zones: string[]) => {
+      const unique = [...new Set(zones.filter(isValidTimeZone))];
+      try {
+        if (typeof window !== 'undefined')
+          localStorage.setItem(storageKeySecondaryTimeZones, JSON.stringify(unique));
+      } catch {
+        // ignore
+      }
+      setSecondaryTimeZonesState(unique);
+    },
+    [storageKeySecondaryTimeZones]
+  );
+
+  // Handler for calendars with persistent storage (invalid or empty lists are ignored)
+  const setCalendarsAndStore = React.useCallback(
+    (next: ICalendar[]) => {
+      if (!isCalendarList(next)) return;
+      try {
+        if (typeof window !== 'undefined')
+          localStorage.setItem(storageKeyCalendars, JSON.stringify(next));
+      } catch {
+        // ignore
+      }
+      setCalendarsState(next);
+    },
+    [storageKeyCalendars]
+  );
+
+  // Handler for event types with persistent storage (invalid or empty lists are ignored)
+  const setEventTypesAndStore = React.useCallback(
+    (next: IEventType[]) => {
+      if (!isEventTypeList(next)) return;
+      try {
+        if (typeof window !== 'undefined')
+          localStorage.setItem(storageKeyEventTypes, JSON.stringify(next));
+      } catch {
+        // ignore
+      }
+      setEventTypesState(next);
+    },
+    [storageKeyEventTypes]
+  );
+
+  // Handler for custom colours with persistent storage (duplicates dropped)
+  const setPaletteAndStore = React.useCallback(
+    (colours: string[]) => {
+      const unique = [...new Set(colours.map((c) => c.toLowerCase()))];
+      if (!isPalette(unique)) return;
+      try {
+        if (typeof window !== 'undefined')
+          localStorage.setItem(storageKeyPalette, JSON.stringify(unique));
+      } catch {
+        // ignore
+      }
+      setPaletteState(unique);
+    },
+    [storageKeyPalette]
+  );
+
+  // Handler for hidden calendars with persistent storage
+  const setHiddenCalendarIdsAndStore = React.useCallback(
+    (ids: string[]) => {
+      const unique = [...new Set(ids)];
+      try {
+        if (typeof window !== 'undefined')
+          localStorage.setItem(storageKeyHiddenCalendars, JSON.stringify(unique));
+      } catch {
+        // ignore
+      }
+      setHiddenCalendarIdsState(unique);
+      setSelectedEvent(null);
+    },
+    [storageKeyHiddenCalendars]
+  );
+
+  // Handler for the user's email with persistent storage (blank clears it)
+  const setUserEmailAndStore = React.useCallback(
+    (email: string | null) => {
+      const next = email?.trim() || null;
+      try {
+        if (typeof window !== 'undefined') {
+          if (next) localStorage.setItem(storageKeyUserEmail, next);
+          else localStorage.removeItem(storageKeyUserEmail);
+        }
+      } catch {
+        // ignore
+      }
+      setUserEmailState(next);
+    },
+    [storageKeyUserEmail]
+  );
+
+  // what consumers see: the map without the events of hidden calendars or filtered out
+  const visibleEvents = useMemo(() => {
+    if (hiddenCalendarIds.length === 0 && filter === EMPTY_FILTER) return events;
+    const hidden = new Set(hiddenCalendarIds);
+    return filterScheduled(
+      events,
+      (ev) =>
+        !hidden.has(calendarOf(ev, calendars).id) &&
+        matchesFilter(ev, filter, calendars, eventTypes)
+    );
+  }, [events, calendars, hiddenCalendarIds, filter, eventTypes]);
+
   // Memoize the context value to avoid downstream re-renders when not necessary
   const value = useMemo<CalendarProviderState>(() => {
     return {
@@ -216,7 +592,7 @@ export function CalendarProvider({
       setShowRightPanel: setShowRightValue,
       selectedEvent,
       setSelectedEvent,
-      events,
+      events: visibleEvents,
       setEvents,
       isInputToggled,
       setIsInputToggled,
@@ -226,6 +602,30 @@ export function CalendarProvider({
       setEndDateTime,
       isLoading,
       setIsLoading,
+      mutationError,
+      setMutationError,
+      store: history.store,
+      history,
+      attachmentStore,
+      attachFile,
+      removeUnlinkedAttachments,
+      pruneUnlinkedAttachments,
+      displayTimeZone,
+      setDisplayTimeZone: setDisplayTimeZoneAndStore,
+      secondaryTimeZones,
+      setSecondaryTimeZones: setSecondaryTimeZonesAndStore,
+      calendars,
+      setCalendars: setCalendarsAndStore,
+      hiddenCalendarIds,
+      setHiddenCalendarIds: setHiddenCalendarIdsAndStore,
+      userEmail,
+      setUserEmail: setUserEmailAndStore,
+      eventTypes,
+      setEventTypes: setEventTypesAndStore,
+      palette,
+      setPalette: setPaletteAndStore,
+      filter,
+      setFilter,
     };
     // Note: intentionally include handlers and state pieces; they are stable via useEvent/useState
   }, [
@@ -241,7 +641,7 @@ export function CalendarProvider({
     setShowRightValue,
     selectedEvent,
     setSelectedEvent,
-    events,
+    visibleEvents,
     setEvents,
     isInputToggled,
     setIsInputToggled,
@@ -251,6 +651,27 @@ export function CalendarProvider({
     setEndDateTime,
     isLoading,
     setIsLoading,
+    mutationError,
+    history,
+    attachmentStore,
+    attachFile,
+    removeUnlinkedAttachments,
+    pruneUnlinkedAttachments,
+    displayTimeZone,
+    setDisplayTimeZoneAndStore,
+    secondaryTimeZones,
+    setSecondaryTimeZonesAndStore,
+    calendars,
+    setCalendarsAndStore,
+    hiddenCalendarIds,
+    setHiddenCalendarIdsAndStore,
+    userEmail,
+    setUserEmailAndStore,
+    eventTypes,
+    setEventTypesAndStore,
+    palette,
+    setPaletteAndStore,
+    filter,
   ]);
 
   return (
@@ -326,3 +747,78 @@ export const useLoading = () => {
   const { isLoading, setIsLoading } = useContext(CalendarProviderContext);
   return { isLoading, setIsLoading };
 };
+
+/** Mutation error hook — the last change the store rejected, and its setter (null clears it). */
+// eslint-disable-next-line react-refresh/only-export-components
+export const useMutationError = () => {
+  const { mutationError, setMutationError } = useContext(CalendarProviderContext);
+  return { mutationError, setMutationError };
+};
+
+/** Event store hook — returns the persistence backend the provider was configured with. */
+// eslint-disable-next-line react-refresh/only-export-components
+export const useEventStore = () => {
+  const { store } = useContext(CalendarProviderContext);
+  return store;
+};
+
+/**
+ * History hook — undo/redo of event mutations made through the store.
+ * `group` records every mutation a bulk operation makes as one undo step.
+ */
+// eslint-disable-next-line react-refresh/only-export-components
+export const useHistory = () => {
+  const { history } = useContext(CalendarProviderContext);
+  const { canUndo, canRedo } = useSyncExternalStore(history.subscribe, history.getState);
+  return { canUndo, canRedo, undo: history.undo, redo: history.redo, group: history.group };
+};
+
+/**
+ * Attachments hook — the store of attached files, `attachFile` to add one to the event being
+ * edited, `removeUnlinkedAttachments` to free the space of files no event uses, and
+ * `pruneUnlinkedAttachments` to call once events are deleted or restored.
+ */
+// eslint-disable-next-line react-refresh/only-export-components
+export const useAttachments = () => {
+  const { attachmentStore, attachFile, removeUnlinkedAttachments, pruneUnlinkedAttachments } =
+    useContext(CalendarProviderContext);
+  return { attachmentStore, attachFile, removeUnlinkedAttachments, pruneUnlinkedAttachments };
+};
+
+/** Time zone hook — the zone all views render in, the extra gutter zones and their setters. */
+// eslint-disable-next-line react-refresh/only-export-components
+export const useTimeZone = () => {
+  const { displayTimeZone, setDisplayTimeZone, secondaryTimeZones, setSecondaryTimeZones } =
+    useContext(CalendarProviderContext);
+  return { displayTimeZone, setDisplayTimeZone, secondaryTimeZones, setSecondaryTimeZones };
+};
+
+/** Event types hook — the kinds of event, the custom colours, and their setters. */
+// eslint-disable-next-line react-refresh/only-export-components
+export const useEventTypes = () => {
+  const { eventTypes, setEventTypes, palette, setPalette } = useContext(CalendarProviderContext);
+  return { eventTypes, setEventTypes, palette, setPalette };
+};
+
+/** Filter hook — which events the views show, its setter, and a reset to show everything. */
+// eslint-disable-next-line react-refresh/only-export-components
+export const useFilter = () => {
+  const { filter, setFilter } = useContext(CalendarProviderContext);
+  const clearFilter = React.useCallback(() => setFilter(EMPTY_FILTER), [setFilter]);
+  return { filter, setFilter, clearFilter };
+};
+
+/** Calendars hook — the calendars events belong to, which are hidden, and their setters. */
+// eslint-disable-next-line react-refresh/only-export-components
+export const useCalendars = () => {
+  const { calendars, setCalendars, hiddenCalendarIds, setHiddenCalendarIds } =
+    useContext(CalendarProviderContext);
+  return { calendars, setCalendars, hiddenCalendarIds, setHiddenCalendarIds };
+};
+
+/** Current user hook — the email matched against attendees, and its setter. */
+// eslint-disable-next-line react-refresh/only-export-components
+export const useCurrentUser = () => {
+  const { userEmail, setUserEmail } = useContext(CalendarProviderContext);
+  return { userEmail, setUserEmail };
+};
@@ -0,0 +1,8 @@
+import { Lock } from 'lucide-react';
+
+import { cn } from '@/lib/utils';
+
+/** Lock shown next to read-only events and calendars. */
+export const ReadOnlyLock = ({ className }: { className?: string }) => (
+  <Lock role="img" aria-label="Read only" className={cn('size-3 shrink-0', className)} />
+);
@@ -0,0 +1,240 @@
+import { useId } from 'react';
+
+import { addMonths, addWeeks, endOfDay } from 'date-fns';
+
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import DateInput from './DateInput';
+
+import { describeByDay, describeRecurrence, ordinalByDayOf, WEEKDAYS } from '@/lib/recurrence';
+import { cn } from '@/lib/utils';
+import type { IRecurrenceRule, RecurrenceFrequency, Weekday } from '@/types/Calendar';
+
+type RecurrenceInputProps = {
+  value?: IRecurrenceRule;
+  onChange: (rule: IRecurrenceRule | undefined) => void;
+  // series start; drives the defaults (weekday, day of month)
+  start: Date;
+};
+
+const FREQUENCIES: { value: RecurrenceFrequency | 'none'; label: string }[] = [
+  { value: 'none', label: 'Never' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'yearly', label: 'Yearly' },
+];
+
+const UNITS: Record<RecurrenceFrequency, string> = {
+  daily: 'day(s)',
+  weekly: 'week(s)',
+  monthly: 'month(s)',
+  yearly: 'year(s)',
+};
+
+// Monday-first for the weekday toggles
+const WEEK_ORDER: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+type EndMode = 'never' | 'count' | 'until';
+
+/**
+ * RecurrenceInput
+ * - Edits the `recurrence` rule of an event: frequency, interval, weekdays (weekly),
+ *   day-of-month vs nth-weekday (monthly) and the end condition (never / COUNT / UNTIL).
+ * - Controlled: every change emits a new rule, or undefined for "Never".
+ * - EXDATEs on an existing rule are kept as-is.
+ */
+const RecurrenceInput = ({ value, onChange, start }: RecurrenceInputProps) => {
+  const idRepeat = useId();
+  const idInterval = useId();
+  const idEnds = useId();
+
+  const startWeekday = WEEKDAYS[start.getDay()];
+  // offer "last <weekday>" when the start falls in the final week of its month
+  const isLastWeekdayOfMonth = addWeeks(start, 1).getMonth() !== start.getMonth();
+  const endMode: EndMode = value?.count ? 'count' : value?.until ? 'until' : 'never';
+  const monthlyByWeekday = value?.freq === 'monthly' && (value.byDay?.length ?? 0) > 0;
+
+  const update = (patch: Partial<IRecurrenceRule>) => {
+    if (!value) return;
+    onChange({ ...value, ...patch });
+  };
+
+  const handleFrequencyChange = (freq: RecurrenceFrequency | 'none') => {
+    if (freq === 'none') {
+      onChange(undefined);
+      return;
+    }
+    onChange({
+      freq,
+      interval: value?.interval ?? 1,
+      byDay: freq === 'weekly' ? [startWeekday] : undefined,
+      count: value?.count,
+      until: value?.until,
+      exDates: value?.exDates,
+    });
+  };
+
+  const toggleWeekday = (weekday: Weekday) => {
+    const current = (value?.byDay ?? []) as Weekday[];
+    const next = current.includes(weekday)
+      ? current.filter((d) => d !== weekday)
+      : [...current, weekday];
+    // a weekly rule always needs at least one day
+    update({
+      byDay: next.length > 0 ? WEEK_ORDER.filter((d) => next.includes(d)) : [startWeekday],
+    });
+  };
+
+  const handleEndModeChange = (mode: EndMode) => {
+    if (mode === 'never') update({ count: undefined, until: undefined });
+    if (mode === 'count') update({ count: value?.count ?? 10, until: undefined });
+    if (mode === 'until') {
+      update({ count: undefined, until: endOfDay(addMonths(start, 1)).toISOString() });
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-4">
+        <Label htmlFor={idRepeat} className="w-12 justify-end">
+          repeat
+        </Label>
+        <Select
+          value={value?.freq ?? 'none'}
+          onValueChange={(v) => handleFrequencyChange(v as RecurrenceFrequency | 'none')}
+        >
+          <SelectTrigger id={idRepeat} className="w-1/2">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-(--left-background)">
+            {FREQUENCIES.map((f) => (
+              <SelectItem value={f.value} key={f.value}>
+                {f.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {value && (
+        <>
+          <div className="flex items-center gap-4">
+            <Label htmlFor={idInterval} className="w-12 justify-end">
+              every
+            </Label>
+            <Input
+              id={idInterval}
+              type="number"
+              min={1}
+              value={value.interval ?? 1}
+              onChange={(e) => update({ interval: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+              className="h-6 w-14 px-1"
+              containerClassName="w-auto"
+            />
+            <span className="text-sm">{UNITS[value.freq]}</span>
+          </div>
+
+          {value.freq === 'weekly' && (
+            <div className="flex items-center gap-4">
+              <span className="w-12" />
+              <div className="flex gap-1" role="group" aria-label="Repeat on">
+                {WEEK_ORDER.map((weekday) => {
+                  const active = value.byDay?.includes(weekday) ?? false;
+                  return (
+                    <button
+                      type="button"
+                      key={weekday}
+                      aria-pressed={active}
+                      onClick={() => toggleWeekday(weekday)}
+                      className={cn(
+                        'h-6 w-6 cursor-pointer rounded-full text-xs',
+                        active
+                          ? 'bg-primary text-primary-foreground'
+                          : 'bg-(--button-group-separator)'
+                      )}
+                    >
+                      {weekday.charAt(0)}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {value.freq === 'monthly' && (
+            <div className="flex items-center gap-4">
+              <span className="w-12" />
+              <Select
+                value={monthlyByWeekday ? String(value.byDay?.[0]) : 'day'}
+                onValueChange={(v) => update({ byDay: v === 'day' ? undefined : [v as Weekday] })}
+              >
+                <SelectTrigger className="w-2/3">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-(--left-background)">
+                  <SelectItem value="day">on day {start.getDate()}</SelectItem>
+                  <SelectItem value={ordinalByDayOf(start)}>
+                    on {describeByDay(ordinalByDayOf(start))}
+                  </SelectItem>
+                  {isLastWeekdayOfMonth && (
+                    <SelectItem value={ordinalByDayOf(start, true)}>
+                      on {describeByDay(ordinalByDayOf(start, true))}
+                    </SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="flex items-center gap-4">
+            <Label htmlFor={idEnds} className="w-12 justify-end">
+              until
+            </Label>
+            <Select value={endMode} onValueChange={(v) => handleEndModeChange(v as EndMode)}>
+              <SelectTrigger id={idEnds} className="w-1/3">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-(--left-background)">
+                <SelectItem value="never">Forever</SelectItem>
+                <SelectItem value="count">After</SelectItem>
+                <SelectItem value="until">Date</SelectItem>
+              </SelectContent>
+            </Select>
+            {endMode === 'count' && (
+              <>
+                <Input
+                  type="number"
+                  min={1}
+                  value={value.count}
+                  aria-label="Number of occurrences"
+                  onChange={(e) =>
+                    update({ count: Math.max(1, parseInt(e.target.value, 10) || 1) })
+                  }
+                  className="h-6 w-14 px-1"
+                  containerClassName="w-auto"
+                />
+                <span className="text-sm">times</span>
+              </>
+            )}
+          </div>
+
+          {endMode === 'until' && value.until && (
+            <div className="flex items-center gap-4">
+              <span className="w-12" />
+              <DateInput
+                datetime={new Date(value.until)}
+                onDateChange={(d) => update({ until: endOfDay(d).toISOString() })}
+              />
+            </div>
+          )}
+
+          <p className="text-muted-foreground pl-16 text-xs">{describeRecurrence(value)}</p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RecurrenceInput;
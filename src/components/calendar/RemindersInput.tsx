@@ -0,0 +1,94 @@
+import { useId } from 'react';
+
+import { X } from 'lucide-react';
+
+import { Label } from '../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+
+import { describeReminder, normalizeReminders, REMINDER_OPTIONS } from '@/lib/reminders';
+import { cn } from '@/lib/utils';
+
+type RemindersInputProps = {
+  // minutes before the start; undefined means `defaults` apply
+  value?: number[];
+  onChange: (reminders: number[] | undefined) => void;
+  // the calendar's defaults, shown (and offered back) while the event has no list of its own
+  defaults?: number[];
+};
+
+// ask once, when the user first sets a reminder (browsers want a click to ask)
+const requestNotificationPermission = () => {
+  if (typeof Notification !== 'undefined' && Notification.permission === 'default') {
+    Notification.requestPermission().catch(() => undefined);
+  }
+};
+
+/**
+ * RemindersInput
+ * - Edits a list of reminders: each is removable, more are added from a fixed set of
+ *   lead times.
+ * - With `defaults`, an unset list shows them; any edit turns them into the event's own list,
+ *   and "default" brings them back.
+ */
+const RemindersInput = ({ value, onChange, defaults }: RemindersInputProps) => {
+  const idRemind = useId();
+  const usingDefaults = value === undefined && defaults !== undefined;
+  const current = value ?? defaults ?? [];
+
+  const add = (minutes: number) => {
+    requestNotificationPermission();
+    onChange(normalizeReminders([...current, minutes]));
+  };
+
+  return (
+    <div className="flex items-start gap-4">
+      <Label htmlFor={idRemind} className="w-12 shrink-0 justify-end pt-1">
+        remind
+      </Label>
+      <div className="flex flex-wrap items-center gap-1">
+        {current.map((minutes) => (
+          <span
+            key={minutes}
+            className={cn(
+              'flex h-6 items-center gap-1 rounded bg-(--button-group-separator) px-2 text-xs',
+              usingDefaults && 'text-muted-foreground italic'
+            )}
+          >
+            {describeReminder(minutes)}
+            <button
+              type="button"
+              aria-label={`Remove reminder ${describeReminder(minutes)}`}
+              onClick={() => onChange(current.filter((m) => m !== minutes))}
+              className="cursor-pointer"
+            >
+              <X className="size-3" />
+            </button>
+          </span>
+        ))}
+        <Select value="" onValueChange={(v) => add(Number(v))}>
+          <SelectTrigger id={idRemind} className="h-6 w-24 text-xs">
+            <SelectValue placeholder={current.length === 0 ? 'None' : 'Add…'} />
+          </SelectTrigger>
+          <SelectContent className="bg-(--left-background)">
+            {REMINDER_OPTIONS.filter((m) => !current.includes(m)).map((minutes) => (
+              <SelectItem value={String(minutes)} key={minutes}>
+                {describeReminder(minutes)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {defaults !== undefined && !usingDefaults && (
+          <button
+            type="button"
+            onClick={() => onChange(undefined)}
+            className="text-muted-foreground hover:text-foreground cursor-pointer text-xs underline"
+          >
+            default
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RemindersInput;
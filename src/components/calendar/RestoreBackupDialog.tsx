@@ -0,0 +1,293 @@
+import { useId, useState } from 'react';
+
+import { format } from 'date-fns';
+import { ArchiveRestore } from 'lucide-react';
+
+import { useTheme } from '@/components/ThemeProvider';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import useFetchEvents from '@/hooks/useFetchEvents';
+import { isReadOnlyEvent } from '@/lib/calendars';
+import { isValidTimeZone } from '@/lib/timeZones';
+import { importAttachments } from '@/services/attachments';
+import {
+  BackupError,
+  parseBackup,
+  restoreBackup,
+  type BackupSettings,
+  type DataEnvelope,
+  type RestoreMode,
+  type RestoreResult,
+} from '@/services/backup';
+import {
+  useAttachments,
+  useCalendars,
+  useCurrentUser,
+  useEventStore,
+  useEventTypes,
+  useHistory,
+  useTimeZone,
+  useViewBy,
+} from './Provider';
+
+interface RestoreBackupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Dialog to restore a JSON backup (see `createBackup`).
+ * - The whole file is migrated and validated as soon as it is picked; restoring stays
+ *   disabled while there are problems, so nothing is written from a broken backup.
+ * - Merge keeps the current events (backup events with the same id win); replace deletes
+ *   them first. Read-only events are left as they are. Settings are applied only when
+ *   asked to. Attached files in the backup are stored again under their own ids.
+ * - The restored events can be undone in one step (settings are not part of the history).
+ */
+export function RestoreBackupDialog({ open, onOpenChange }: RestoreBackupDialogProps) {
+  const idFile = useId();
+  const idMode = useId();
+  const idSettings = useId();
+
+  const store = useEventStore();
+  const { fetchEvents } = useFetchEvents(false);
+  const { setViewBy } = useViewBy();
+  const { setDisplayTimeZone, setSecondaryTimeZones } = useTimeZone();
+  const { calendars, setCalendars, setHiddenCalendarIds } = useCalendars();
+  const { setUserEmail } = useCurrentUser();
+  const { setEventTypes, setPalette } = useEventTypes();
+  const { setTheme } = useTheme();
+  const { group } = useHistory();
+  const { attachmentStore, pruneUnlinkedAttachments } = useAttachments();
+
+  const [backup, setBackup] = useState<DataEnvelope | null>(null);
+  const [problems, setProblems] = useState<{ message: string; details: string[] } | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [withSettings, setWithSettings] = useState(true);
+  const [restoring, setRestoring] = useState(false);
+  const [result, setResult] = useState<RestoreResult | null>(null);
+  const [failure, setFailure] = useState<string | null>(null);
+
+  const reset = () => {
+    setBackup(null);
+    setProblems(null);
+    setResult(null);
+    setFailure(null);
+    setMode('merge');
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (restoring) return;
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    reset();
+    if (!file) return;
+    try {
+      setBackup(parseBackup(await file.text()));
+    } catch (error) {
+      if (error instanceof BackupError) {
+        setProblems({ message: error.message, details: error.problems });
+      } else {
+        console.error('Failed to read backup', error);
+        setProblems({ message: 'The file could not be read.', details: [] });
+      }
+    }
+  };
+
+  const applySettings = (settings: BackupSettings) => {
+    if (settings.viewBy) setViewBy(settings.viewBy);
+    if (settings.displayTimeZone && isValidTimeZone(settings.displayTimeZone)) {
+      setDisplayTimeZone(settings.displayTimeZone);
+    }
+    if (settings.secondaryTimeZones) {
+      setSecondaryTimeZones(settings.secondaryTimeZones.filter((tz) => isValidTimeZone(tz)));
+    }
+    if (settings.theme) setTheme(settings.theme);
+    if (settings.calendars) setCalendars(settings.calendars);
+    if (settings.hiddenCalendarIds) setHiddenCalendarIds(settings.hiddenCalendarIds);
+    if (settings.userEmail) setUserEmail(settings.userEmail);
+    if (settings.eventTypes) setEventTypes(settings.eventTypes);
+    if (settings.palette) setPalette(settings.palette);
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+    setRestoring(true);
+    try {
+      // files first, so the restored events never link to a missing one
+      if (backup.attachments) await importAttachments(attachmentStore, backup.attachments);
+      // one undo step for the whole restore
+      setResult(
+        await group(() =>
+          restoreBackup(store, backup, mode, (event) => isReadOnlyEvent(event, calendars))
+        )
+      );
+      pruneUnlinkedAttachments();
+      if (withSettings && backup.settings) applySettings(backup.settings);
+      await fetchEvents(true);
+    } catch (error) {
+      console.error('Failed to restore backup', error);
+      setFailure(error instanceof Error ? error.message : 'The backup could not be restored.');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const done = result !== null || failure !== null;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="text-primary flex items-center gap-2">
+            <ArchiveRestore className="h-6 w-6" />
+            Restore backup
+          </DialogTitle>
+          <DialogDescription>
+            Bring back events and settings from a backup file downloaded from this calendar.
+          </DialogDescription>
+        </DialogHeader>
+
+        {done ? (
+          <div className="flex flex-col gap-1 text-sm" role="status">
+            {failure ? (
+              <span className="text-destructive">
+                Restore failed: {failure}. Some events may already have been written.
+              </span>
+            ) : (
+              <span>
+                Restored: {result!.added} added, {result!.updated} updated, {result!.removed}{' '}
+                removed{result!.kept > 0 && `, ${result!.kept} read-only kept`}.
+              </span>
+            )}
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center gap-4">
+              <Label htmlFor={idFile} className="w-12 justify-end">
+                file
+              </Label>
+              <Input
+                id={idFile}
+                type="file"
+                accept=".json,application/json"
+                className="w-2/3"
+                disabled={restoring}
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </div>
+
+            {problems && (
+              <div className="flex flex-col gap-1 text-sm">
+                <span className="text-destructive">{problems.message}</span>
+                {problems.details.length > 0 && (
+                  <ul className="text-muted-foreground max-h-32 overflow-y-auto text-xs">
+                    {problems.details.map((problem) => (
+                      <li key={problem}>{problem}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {backup && (
+              <>
+                <span className="text-sm">
+                  {backup.events.length} event{backup.events.length === 1 ? '' : 's'}
+                  {!!backup.attachments?.length &&
+                    `, ${backup.attachments.length} attached file${backup.attachments.length === 1 ? '' : 's'}`}
+                  {backup.exportedAt &&
+                    `, saved ${format(new Date(backup.exportedAt), 'd MMM yyyy HH:mm')}`}
+                </span>
+
+                <div className="flex items-center gap-4">
+                  <Label htmlFor={idMode} className="w-12 justify-end">
+                    mode
+                  </Label>
+                  <Select value={mode} onValueChange={(value) => setMode(value as RestoreMode)}>
+                    <SelectTrigger id={idMode} className="w-2/3">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-(--left-background)">
+                      <SelectItem value="merge">Merge with current events</SelectItem>
+                      <SelectItem value="replace">Replace all current events</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {backup.settings && (
+                  <div className="flex items-center gap-4">
+                    <span className="w-12" />
+                    <Checkbox
+                      id={idSettings}
+                      checked={withSettings}
+                      onCheckedChange={(toggle: boolean) => setWithSettings(toggle)}
+                    />
+                    <Label htmlFor={idSettings}>
+                      Also restore settings (view, time zones, theme, calendars, types)
+                    </Label>
+                  </div>
+                )}
+
+                {mode === 'replace' && (
+                  <span className="text-destructive text-sm">
+                    Every event currently in the calendar will be deleted.
+                  </span>
+                )}
+              </>
+            )}
+          </>
+        )}
+
+        <DialogFooter>
+          {done ? (
+            <Button variant="default-rounded" onClick={() => handleOpenChange(false)}>
+              Done
+            </Button>
+          ) : (
+            <>
+              <Button
+                variant="outline"
+                disabled={restoring}
+                onClick={() => handleOpenChange(false)}
+              >
+                Cancel
+              </Button>
+              <Button
+                variant={mode === 'replace' ? 'destructive' : 'default-rounded'}
+                disabled={restoring || !backup}
+                onClick={handleRestore}
+              >
+                {restoring
+                  ? 'Restoring...'
+                  : mode === 'replace'
+                    ? 'Replace and restore'
+                    : 'Restore'}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
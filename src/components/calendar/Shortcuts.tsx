@@ -1,20 +1,51 @@
-import { deleteEvent as deleteEventService } from '@/services/Events';
 import { useEffect, useState } from 'react';
+
+import useEventMutations from '@/hooks/useEventMutations';
+import useFetchEvents from '@/hooks/useFetchEvents';
+import { isReadOnlyEvent } from '@/lib/calendars';
+import { seriesIdOf } from '@/lib/recurrence';
 import { DeleteEventDialog } from '../DeleteEventDialog';
-import { useEvents, useLoading } from './Provider';
+import { useCalendars, useEvents, useHistory } from './Provider';
+
+// text fields keep the browser's own undo
+const isTextField = (target: EventTarget | null) =>
+  target instanceof HTMLInputElement ||
+  target instanceof HTMLTextAreaElement ||
+  (target instanceof HTMLElement && target.isContentEditable);
 
 export function Shortcuts() {
-  const { selectedEvent, setSelectedEvent, setEvents } = useEvents();
-  const { setIsLoading } = useLoading();
+  const { selectedEvent, setSelectedEvent } = useEvents();
+  const { deleteEvent } = useEventMutations();
+  const { undo, redo } = useHistory();
+  const { calendars } = useCalendars();
+  const { fetchEvents } = useFetchEvents(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
 
   useEffect(() => {
+    // replay against the store, then resync the view with it (without the loading overlay)
+    const replay = async (step: () => Promise<boolean>) => {
+      try {
+        if (await step()) {
+          setSelectedEvent(null);
+          await fetchEvents(true, true);
+        }
+      } catch (error) {
+        console.error('Failed to undo/redo', error);
+      }
+    };
+
     const handleKeyDown = (e: KeyboardEvent) => {
-      // Check for Delete or Backspace key
-      if (e.key === 'Delete' || e.key === 'Backspace') {
-        // Only proceed if an event is selected and no input/textarea is focused
+      // Ctrl/Cmd+Z undoes, Shift+Ctrl/Cmd+Z redoes
+      if ((e.ctrlKey || e.metaKey) && !e.altKey && e.key.toLowerCase() === 'z') {
+        if (isTextField(e.target)) return;
+        e.preventDefault();
+        replay(e.shiftKey ? redo : undo);
+      } else if (e.key === 'Delete' || e.key === 'Backspace') {
+        // Check for Delete or Backspace key
+        // Only proceed if an editable event is selected and no input/textarea is focused
         if (
           selectedEvent &&
+          !isReadOnlyEvent(selectedEvent, calendars) &&
           !(e.target instanceof HTMLInputElement) &&
           !(e.target instanceof HTMLTextAreaElement)
         ) {
@@ -31,39 +62,14 @@ export function Shortcuts() {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [selectedEvent, setSelectedEvent]);
+  }, [selectedEvent, setSelectedEvent, calendars, undo, redo, fetchEvents]);
 
-  const handleDeleteConfirm = async () => {
+  const handleDeleteConfirm = () => {
     if (selectedEvent) {
-      setIsLoading(true);
-
-      try {
-        // Call service to delete
-        // We cast to any or handle the type mismatch because the service expects number but ID can be string
-        // In a real app we should unify types, but for now we just pass it if it's a number-like string or just log
-        if (typeof selectedEvent.id === 'number') {
-          await deleteEventService(selectedEvent.id);
-        } else if (!isNaN(Number(selectedEvent.id))) {
-          await deleteEventService(Number(selectedEvent.id));
-        } else {
-          console.warn('Skipping API delete for non-numeric ID:', selectedEvent.id);
-        }
-
-        // Remove from local state
-        setEvents((prev) => {
-          const newEvents = { ...prev };
-          Object.keys(newEvents).forEach((key) => {
-            newEvents[key] = newEvents[key].filter((ev) => ev.id !== selectedEvent.id);
-          });
-          return newEvents;
-        });
-
-        setSelectedEvent(null);
-      } catch (error) {
-        console.error('Failed to delete event', error);
-      } finally {
-        setIsLoading(false);
-      }
+      // Deleting an occurrence of a recurring event deletes the whole series; the event
+      // disappears at once and comes back if the store rejects the delete.
+      deleteEvent(seriesIdOf(selectedEvent));
+      setSelectedEvent(null);
     }
   };
 
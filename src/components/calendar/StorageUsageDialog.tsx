@@ -0,0 +1,160 @@
+import { useEffect, useState } from 'react';
+
+import { HardDrive } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { formatBytes } from '@/lib/attachments';
+import { attachmentUsage, type AttachmentUsage } from '@/services/attachments';
+import { useAttachments, useEventStore } from './Provider';
+
+interface StorageUsageDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Dialog reporting the space attached files take, largest first, with the events using them.
+ * - Files no stored event links to are kept while undo could bring their event back (or
+ *   while their event is being edited); they can be removed here to free the space at once.
+ */
+export function StorageUsageDialog({ open, onOpenChange }: StorageUsageDialogProps) {
+  const store = useEventStore();
+  const { attachmentStore, removeUnlinkedAttachments } = useAttachments();
+  const [usage, setUsage] = useState<AttachmentUsage[] | null>(null);
+  const [failure, setFailure] = useState<string | null>(null);
+  const [removing, setRemoving] = useState(false);
+
+  const load = async () => {
+    try {
+      setUsage(await attachmentUsage(attachmentStore, await store.getEvents()));
+    } catch (error) {
+      console.error('Failed to read attachments', error);
+      setFailure('The attached files could not be read.');
+    }
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    store
+      .getEvents()
+      .then((events) => attachmentUsage(attachmentStore, events))
+      .then((next) => {
+        if (!cancelled) setUsage(next);
+      })
+      .catch((error) => {
+        console.error('Failed to read attachments', error);
+        if (!cancelled) setFailure('The attached files could not be read.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, attachmentStore, store]);
+
+  const handleOpenChange = (next: boolean) => {
+    if (removing) return;
+    if (!next) {
+      setUsage(null);
+      setFailure(null);
+    }
+    onOpenChange(next);
+  };
+
+  const handleRemoveUnlinked = async () => {
+    setRemoving(true);
+    try {
+      await removeUnlinkedAttachments(true);
+      await load();
+    } catch (error) {
+      console.error('Failed to remove attachments', error);
+      setFailure('The unlinked files could not be removed.');
+    } finally {
+      setRemoving(false);
+    }
+  };
+
+  const total = usage?.reduce((sum, file) => sum + file.size, 0) ?? 0;
+  const unlinked = usage?.filter((file) => file.events.length === 0) ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="text-primary flex items-center gap-2">
+            <HardDrive className="h-6 w-6" />
+            Storage usage
+          </DialogTitle>
+          <DialogDescription>
+            {usage
+              ? `${usage.length} attached file${usage.length === 1 ? '' : 's'}, ${formatBytes(total)} in total.`
+              : 'Files attached to events, largest first.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {failure ? (
+          <span className="text-destructive text-sm" role="alert">
+            {failure}
+          </span>
+        ) : !usage ? (
+          <span className="text-muted-foreground text-sm">Loading...</span>
+        ) : usage.length === 0 ? (
+          <span className="text-muted-foreground text-sm">No files are attached to events.</span>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="text-muted-foreground text-left text-xs">
+              <tr>
+                <th className="font-normal">File</th>
+                <th className="font-normal">Event</th>
+                <th className="text-right font-normal">Size</th>
+              </tr>
+            </thead>
+            <tbody>
+              {usage.map((file) => (
+                <tr key={file.id} className="align-top">
+                  <td className="max-w-40 truncate pr-2" title={file.name}>
+                    {file.name}
+                  </td>
+                  <td className="max-w-40 truncate pr-2">
+                    {file.events.length > 0 ? (
+                      file.events.map((e) => e.title).join(', ')
+                    ) : (
+                      <span className="text-muted-foreground italic">not linked</span>
+                    )}
+                  </td>
+                  <td className="text-right whitespace-nowrap">{formatBytes(file.size)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {unlinked.length > 0 && (
+          <span className="text-muted-foreground text-xs">
+            Files not linked to any event are kept so deleting an event can be undone. Removing them
+            frees {formatBytes(unlinked.reduce((sum, file) => sum + file.size, 0))}; undone events
+            then come back without them.
+          </span>
+        )}
+
+        <DialogFooter>
+          {unlinked.length > 0 && (
+            <Button variant="destructive" disabled={removing} onClick={handleRemoveUnlinked}>
+              {removing ? 'Removing...' : 'Remove unlinked files'}
+            </Button>
+          )}
+          <Button variant="default-rounded" onClick={() => handleOpenChange(false)}>
+            Done
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
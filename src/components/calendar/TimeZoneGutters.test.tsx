@@ -0,0 +1,34 @@
+import { render, screen } from '@testing-library/react';
+import { describe, expect, it, vi, type Mock } from 'vitest';
+import { useTimeZone } from './Provider';
+import TimeZoneGutters from './TimeZoneGutters';
+
+// Mock the useTimeZone hook
+vi.mock('./Provider', () => ({
+  useTimeZone: vi.fn(),
+}));
+
+describe('TimeZoneGutters', () => {
+  it('renders nothing without secondary time zones', () => {
+    (useTimeZone as Mock).mockReturnValue({ displayTimeZone: 'UTC', secondaryTimeZones: [] });
+    const { container } = render(<TimeZoneGutters date={new Date(2024, 6, 1)} />);
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('labels each gutter and converts the hour lines into its zone', () => {
+    (useTimeZone as Mock).mockReturnValue({
+      displayTimeZone: 'Europe/Lisbon',
+      secondaryTimeZones: ['America/Sao_Paulo', 'Asia/Kolkata'],
+    });
+    render(<TimeZoneGutters date={new Date(2024, 6, 1)} />);
+
+    // Lisbon is UTC+1 in July: 09:00 there is 05:00 in Sao Paulo and 13:30 in Kolkata
+    expect(screen.getByTitle('America/Sao_Paulo')).toHaveTextContent('UTC-03:00');
+    expect(screen.getByTitle('Asia/Kolkata')).toHaveTextContent('UTC+05:30');
+    const saoPaulo = screen.getByTitle('America/Sao_Paulo').querySelectorAll('span.text-xs');
+    const kolkata = screen.getByTitle('Asia/Kolkata').querySelectorAll('span.text-xs');
+    // the first label marks 01:00 in the display zone
+    expect(saoPaulo[8]).toHaveTextContent(/^5$/);
+    expect(kolkata[8]).toHaveTextContent(/^13:30$/);
+  });
+});
@@ -0,0 +1,123 @@
+import React from 'react';
+
+import { addHours, format, startOfDay } from 'date-fns';
+
+import { useTimeZone } from './Provider';
+
+import useNow from '@/hooks/useNow';
+import { CELL_HEIGHT, SLOTS_PER_HOUR } from '@/lib/constants';
+import { formatUtcOffset, fromZonedTime, timeZoneAbbreviation, toZonedTime } from '@/lib/timeZones';
+
+type TimeZoneGuttersProps = {
+  // day the hour labels are converted for (offsets can differ across a DST change)
+  date: Date;
+  showCurrentTime?: boolean;
+};
+
+type TimeZoneGutterProps = TimeZoneGuttersProps & {
+  timeZone: string;
+  displayTimeZone: string;
+  now: Date;
+};
+
+/** Wall-clock label in `timeZone` for an instant: "14", or "14:30" for half-hour zones. */
+const hourLabelIn = (instant: Date, timeZone: string) => {
+  const zoned = toZonedTime(instant, timeZone);
+  return format(zoned, zoned.getMinutes() ? 'H:mm' : 'H');
+};
+
+const TimeZoneGutter: React.FC<TimeZoneGutterProps> = ({
+  date,
+  showCurrentTime,
+  timeZone,
+  displayTimeZone,
+  now,
+}) => {
+  const dayStart = startOfDay(date);
+  // the grid's hour lines 1..24, read as instants and shown in this zone
+  const labels = Array.from({ length: 24 }, (_, i) =>
+    hourLabelIn(fromZonedTime(addHours(dayStart, i + 1), displayTimeZone), timeZone)
+  );
+  const referenceInstant = fromZonedTime(addHours(dayStart, 12), displayTimeZone);
+
+  const displayNow = toZonedTime(now, displayTimeZone);
+  const nowTop =
+    displayNow.getHours() * CELL_HEIGHT * SLOTS_PER_HOUR +
+    displayNow.getMinutes() * (CELL_HEIGHT / 15);
+
+  return (
+    <div
+      className="relative flex w-(--calendar-zone-gutter-width) shrink-0 flex-col border-r border-(--calendar-hour-line)"
+      title={timeZone}
+    >
+      {/* zone label stays visible while the grid scrolls */}
+      <div className="sticky top-0 z-10 -mb-[calc(var(--calendar-hour-height)/2)] flex h-[calc(var(--calendar-hour-height)/2)] flex-col items-end justify-center bg-(--calendar-background) pr-1 leading-tight">
+        <span className="text-[0.65rem] font-medium text-(--calendar-time-colour)">
+          {timeZoneAbbreviation(timeZone, referenceInstant)}
+        </span>
+        <span className="text-[0.6rem] font-extralight text-(--calendar-time-colour)">
+          {formatUtcOffset(timeZone, referenceInstant)}
+        </span>
+      </div>
+
+      <div className="h-[calc(var(--calendar-hour-height)/2)]" />
+      {labels.map((label, i) => (
+        <div
+          key={`zone-label-${i}`}
+          className="relative flex h-(--calendar-hour-height) items-center justify-end"
+        >
+          <span className="absolute right-0 bg-(--calendar-background) px-1 text-right text-xs font-extralight text-(--calendar-time-colour)">
+            {label}
+          </span>
+        </div>
+      ))}
+
+      {showCurrentTime && (
+        <span
+          className="pointer-events-none absolute right-0 z-10 -translate-y-1/2 bg-(--main-background) px-1 text-xs text-red-500"
+          style={{ top: nowTop }}
+          aria-hidden
+        >
+          {format(toZonedTime(now, timeZone), 'HH:mm')}
+        </span>
+      )}
+    </div>
+  );
+};
+
+/**
+ * TimeZoneGutters
+ * - One hour-label column per secondary time zone, placed before the main TimeLabel gutter
+ *   inside the grid's scroll container so they scroll with it.
+ * - Each column is headed by the zone's abbreviation and UTC offset, and shows the current
+ *   time in that zone level with the CurrentTimeLine.
+ * - Views widen their left offsets by `--calendar-zone-gutters-width` (see zoneGuttersStyle).
+ */
+const TimeZoneGutters: React.FC<TimeZoneGuttersProps> = ({ date, showCurrentTime = false }) => {
+  const { displayTimeZone, secondaryTimeZones } = useTimeZone();
+  const now = useNow();
+
+  return (
+    <>
+      {secondaryTimeZones.map((timeZone) => (
+        <TimeZoneGutter
+          key={timeZone}
+          date={date}
+          showCurrentTime={showCurrentTime}
+          timeZone={timeZone}
+          displayTimeZone={displayTimeZone}
+          now={now}
+        />
+      ))}
+    </>
+  );
+};
+
+/** Style setting `--calendar-zone-gutters-width` for a view showing `count` extra gutters. */
+// eslint-disable-next-line react-refresh/only-export-components
+export const zoneGuttersStyle = (count: number) =>
+  ({
+    '--calendar-zone-gutters-width': `calc(${count} * var(--calendar-zone-gutter-width))`,
+  }) as React.CSSProperties;
+
+export default TimeZoneGutters;
@@ -0,0 +1,144 @@
+import React, { useMemo } from 'react';
+
+import { Clock, Globe, X } from 'lucide-react';
+
+import { Button } from '../ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '../ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { useTimeZone } from './Provider';
+
+import { MAX_SECONDARY_TIME_ZONES } from '@/lib/constants';
+import { formatUtcOffset, listTimeZones } from '@/lib/timeZones';
+import { cn } from '@/lib/utils';
+
+type TimeZoneSelectProps = {
+  // unset shows `placeholder` (e.g. for "add a zone" pickers)
+  value?: string;
+  onValueChange: (timeZone: string) => void;
+  placeholder?: string;
+  // zones left out of the list
+  exclude?: string[];
+  id?: string;
+  className?: string;
+  disabled?: boolean;
+};
+
+const cityOf = (timeZone: string) => timeZone.split('/').pop()!.replace(/_/g, ' ');
+
+/**
+ * TimeZoneSelect
+ * - Picks an IANA zone; the browser's zone is listed first.
+ * - Items show the zone's current UTC offset, so "Lisbon" and "Sao Paulo" are easy to tell apart.
+ */
+const TimeZoneSelect: React.FC<TimeZoneSelectProps> = ({
+  value,
+  onValueChange,
+  placeholder,
+  exclude,
+  id,
+  className,
+  disabled,
+}) => {
+  const timeZones = useMemo(() => {
+    const zones = listTimeZones().filter((tz) => !exclude?.includes(tz));
+    // keep zones Intl accepts but does not list (e.g. "UTC" on some engines) selectable
+    return !value || zones.includes(value) ? zones : [value, ...zones];
+  }, [value, exclude]);
+
+  return (
+    <Select value={value ?? ''} onValueChange={onValueChange} disabled={disabled}>
+      <SelectTrigger id={id} className={cn('w-2/3', className)} aria-label="Time zone">
+        <SelectValue placeholder={placeholder}>{value ? cityOf(value) : undefined}</SelectValue>
+      </SelectTrigger>
+      <SelectContent className="max-h-80 bg-(--left-background)">
+        {timeZones.map((tz) => (
+          <SelectItem value={tz} key={tz}>
+            <span className="text-muted-foreground w-20 text-xs">{formatUtcOffset(tz)}</span>
+            {tz.replace(/_/g, ' ')}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+/**
+ * Popover listing the secondary time zones shown as extra gutters in day/week views,
+ * with a picker to add one (up to MAX_SECONDARY_TIME_ZONES) and a remove button per zone.
+ */
+const SecondaryTimeZonesMenu: React.FC = () => {
+  const { displayTimeZone, secondaryTimeZones, setSecondaryTimeZones } = useTimeZone();
+  const exclude = useMemo(
+    () => [displayTimeZone, ...secondaryTimeZones],
+    [displayTimeZone, secondaryTimeZones]
+  );
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-muted-foreground h-8 gap-1 px-2"
+          aria-label="Secondary time zones"
+          title="Secondary time zones"
+        >
+          <Clock className="h-4 w-4" />
+          {secondaryTimeZones.length > 0 && (
+            <span className="text-xs">+{secondaryTimeZones.length}</span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="flex w-72 flex-col gap-2 p-3">
+        <span className="text-sm font-medium">Secondary time zones</span>
+        <span className="text-muted-foreground text-xs">
+          Shown next to the hour labels in day and week views.
+        </span>
+        {secondaryTimeZones.map((tz) => (
+          <div key={tz} className="flex items-center justify-between gap-2 text-sm">
+            <span className="truncate">
+              <span className="text-muted-foreground mr-2 text-xs">{formatUtcOffset(tz)}</span>
+              {tz.replace(/_/g, ' ')}
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              aria-label={`Remove ${tz}`}
+              onClick={() => setSecondaryTimeZones(secondaryTimeZones.filter((z) => z !== tz))}
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        ))}
+        {secondaryTimeZones.length < MAX_SECONDARY_TIME_ZONES && (
+          <TimeZoneSelect
+            placeholder="Add a time zone"
+            exclude={exclude}
+            onValueChange={(tz) => setSecondaryTimeZones([...secondaryTimeZones, tz])}
+            className="w-full"
+          />
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+/** TimeZoneSelect bound to the provider's display time zone (used in the top bar). */
+export const DisplayTimeZoneSelect: React.FC = () => {
+  const { displayTimeZone, setDisplayTimeZone } = useTimeZone();
+
+  return (
+    <div className="flex items-center gap-1" title={`Showing times in ${displayTimeZone}`}>
+      <Globe className="text-muted-foreground h-4 w-4" />
+      <TimeZoneSelect
+        value={displayTimeZone}
+        onValueChange={setDisplayTimeZone}
+        className="h-8 w-auto max-w-44 border-none shadow-none"
+      />
+      <SecondaryTimeZonesMenu />
+    </div>
+  );
+};
+
+export default TimeZoneSelect;
@@ -3,17 +3,19 @@ import React from 'react';
 import { addDays, addMonths, addYears } from 'date-fns';
 import { ChevronLeftIcon, ChevronRightIcon } from 'lucide-react';
 
-import { useMonth, useSelectedDate, useViewBy } from './Provider';
+import { useMonth, useSelectedDate, useTimeZone, useViewBy } from './Provider';
 
 import { Button } from '@/components/ui/button';
+import { nowIn } from '@/lib/timeZones';
 
 const TodayNav: React.FC = () => {
   const { viewBy } = useViewBy();
   const { selectedDate, setSelectedDate } = useSelectedDate();
   const { setMonth } = useMonth();
+  const { displayTimeZone } = useTimeZone();
 
   const handleTodayClick = () => {
-    const today = new Date();
+    const today = nowIn(displayTimeZone);
     if (setSelectedDate) {
       setSelectedDate(today);
     }
@@ -0,0 +1,60 @@
+import {
+  Bell,
+  Briefcase,
+  Cake,
+  Dumbbell,
+  GraduationCap,
+  HeartPulse,
+  House,
+  type LucideIcon,
+  Music,
+  Plane,
+  SquareCheck,
+  Star,
+  Tag,
+  TreePalm,
+  User,
+  Users,
+  Utensils,
+} from 'lucide-react';
+
+import { typeOf } from '@/lib/eventTypes';
+import { cn } from '@/lib/utils';
+import { useEventTypes } from './Provider';
+
+// one per TYPE_ICON_NAMES entry
+const ICONS: Record<string, LucideIcon> = {
+  tag: Tag,
+  cake: Cake,
+  'tree-palm': TreePalm,
+  users: Users,
+  user: User,
+  bell: Bell,
+  'square-check': SquareCheck,
+  briefcase: Briefcase,
+  'heart-pulse': HeartPulse,
+  plane: Plane,
+  dumbbell: Dumbbell,
+  'graduation-cap': GraduationCap,
+  utensils: Utensils,
+  music: Music,
+  star: Star,
+  house: House,
+};
+
+/** The icon of an event type, by name (see TYPE_ICON_NAMES); unknown names show a tag. */
+export const TypeIcon = ({ icon, className }: { icon: string; className?: string }) => {
+  const Icon = ICONS[icon] ?? Tag;
+  return <Icon aria-hidden={true} className={cn('size-3 shrink-0', className)} />;
+};
+
+/** The icon of an event's type, labelled with the type's name (shown on the event cards). */
+export const EventTypeIcon = ({ type, className }: { type?: string; className?: string }) => {
+  const { eventTypes } = useEventTypes();
+  const { icon, name } = typeOf(type, eventTypes);
+  return (
+    <span role="img" aria-label={name} title={name} className={cn('flex shrink-0', className)}>
+      <TypeIcon icon={icon} />
+    </span>
+  );
+};
@@ -1,13 +1,14 @@
 import React, { useMemo } from 'react';
 
 import { useDroppable } from '@dnd-kit/core';
-import { isToday } from 'date-fns';
 
 import type { CalendarCellProps, TCalendarEvent } from '@/types/Calendar';
 import { DraggableEvent } from './DraggableEvent';
-import { useSelectedDate } from './Provider';
+import { useSelectedDate, useTimeZone } from './Provider';
 
 import { CELL_HEIGHT } from '@/lib/constants';
+import { dragIdOf } from '@/lib/daySegments';
+import { isTodayIn } from '@/lib/timeZones';
 
 /**
  * Extract events that belong to a specific year-month-day-hour key.
@@ -63,6 +64,7 @@ const WeekCell: React.FC<CalendarCellProps> = ({
 
   // Get the selected date from provider
   const { selectedDate, setSelectedDate } = useSelectedDate();
+  const { displayTimeZone } = useTimeZone();
 
   // Build a Date object for this cell; memoized for stable comparisons
   const cellDate = useMemo(() => new Date(`${year}-${month}-${day}`), [year, month, day]);
@@ -91,12 +93,12 @@ const WeekCell: React.FC<CalendarCellProps> = ({
     if (slot === 2) return 'border-t-1 border-t-(--calendar-half-hour-line)';
     if (isSelectedColumn) {
       // preserve original behaviour: check if the selected date is today
-      return isToday(selectedDate ?? new Date())
+      return isTodayIn(selectedDate ?? new Date(), displayTimeZone)
         ? 'border-t-1 border-t-(--colour-4-10)'
         : 'border-t-1 border-t-(--grey-4)';
     }
     return 'border-t-1 border-t-transparent';
-  }, [slot, isSelectedColumn, selectedDate]);
+  }, [slot, isSelectedColumn, selectedDate, displayTimeZone]);
 
   /**
    * Compute background class only for selected column.
@@ -104,8 +106,10 @@ const WeekCell: React.FC<CalendarCellProps> = ({
    */
   const backgroundClass = useMemo(() => {
     if (!isSelectedColumn) return '';
-    return isToday(selectedDate ?? new Date()) ? 'bg-[var(--colour-4-10)]' : 'bg-[var(--grey-4)]';
-  }, [isSelectedColumn, selectedDate]);
+    return isTodayIn(selectedDate ?? new Date(), displayTimeZone)
+      ? 'bg-[var(--colour-4-10)]'
+      : 'bg-[var(--grey-4)]';
+  }, [isSelectedColumn, selectedDate, displayTimeZone]);
 
   // Consolidate the final className for the cell
   const cellClassName = [
@@ -153,7 +157,7 @@ const WeekCell: React.FC<CalendarCellProps> = ({
                 }}
                 className="pointer-events-auto"
                 data-events-per-hour={Math.round(100 / width)}
-                data-id={event.id}
+                data-id={dragIdOf(event)}
               >
                 <DraggableEvent event={event} />
               </div>
@@ -177,7 +181,7 @@ const WeekCell: React.FC<CalendarCellProps> = ({
                 left: `calc(${posLeft}% + 2px)`,
               }}
               data-events-per-hour={lenEventsThisHour}
-              data-id={event.id}
+              data-id={dragIdOf(event)}
             >
               <DraggableEvent event={event} />
             </div>
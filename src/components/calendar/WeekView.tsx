@@ -16,16 +16,26 @@ import { AnimatePresence, motion } from 'motion/react';
 import AllDaySection from './AllDaySection';
 import CurrentTimeLine from './CurrentTimeLine';
 import Header from './Header';
-import { useEvents, useNewEvent, usePanels, useSelectedDate, useViewBy } from './Provider';
+import {
+  useEvents,
+  useNewEvent,
+  usePanels,
+  useSelectedDate,
+  useTimeZone,
+  useViewBy,
+} from './Provider';
 import TimeLabel from './TimeLabel';
+import TimeZoneGutters, { zoneGuttersStyle } from './TimeZoneGutters';
 import WeekCell from './WeekCell';
 
 import { CELL_HEIGHT, CELL_WIDTH, HOURS, SLOTS_PER_HOUR } from '@/lib/constants';
 import snapToQuarterHour from '@/lib/snapToQuarterHour';
+import { nowIn } from '@/lib/timeZones';
 
 import useCalendarDrag, { type DragOverCellType } from '@/hooks/useCalendarDrag';
 import useFetchEvents from '@/hooks/useFetchEvents';
 import useScrollbarSize from '@/hooks/useScrollbarSize';
+import { colourCss } from '@/lib/colours';
 import { layoutEvents, type EventLayout } from '@/lib/layoutEvents';
 import type { TCalendarEvent } from '@/types/Calendar';
 
@@ -33,6 +43,7 @@ const WeekView: React.FC = () => {
   useScrollbarSize();
   const { viewBy } = useViewBy();
   const { selectedDate } = useSelectedDate();
+  const { displayTimeZone, secondaryTimeZones } = useTimeZone();
   const { events } = useEvents();
   const { showLeftPanel, showRightPanel } = usePanels();
   const { setIsInputToggled, setStartDateTime, setEndDateTime } = useNewEvent();
@@ -79,8 +90,8 @@ const WeekView: React.FC = () => {
 
   const showCurrentTime = useMemo(() => {
     if (!selectedDate) return false;
-    return isSameWeek(selectedDate, new Date(), { weekStartsOn: 1 });
-  }, [selectedDate]);
+    return isSameWeek(selectedDate, nowIn(displayTimeZone), { weekStartsOn: 1 });
+  }, [selectedDate, displayTimeZone]);
 
   const scrollContainerRef = useRef<HTMLDivElement | null>(null);
   const initialScrollTopRef = useRef(0);
@@ -115,8 +126,8 @@ const WeekView: React.FC = () => {
     (node: HTMLDivElement | null) => {
       if (node) {
         requestAnimationFrame(() => {
-          if (isSameWeek(selectedDate ?? new Date(), new Date(), { weekStartsOn: 1 })) {
-            const now = new Date();
+          const now = nowIn(displayTimeZone);
+          if (isSameWeek(selectedDate ?? now, now, { weekStartsOn: 1 })) {
             const top =
               now.getHours() * CELL_HEIGHT * SLOTS_PER_HOUR + now.getMinutes() * (CELL_HEIGHT / 15);
             const containerHeight = node.clientHeight;
@@ -131,7 +142,7 @@ const WeekView: React.FC = () => {
         scrollContainerRef.current = node;
       }
     },
-    [weekKey, selectedDate]
+    [weekKey, selectedDate, displayTimeZone]
   );
 
   const handleDragStart = useCallback(
@@ -187,6 +198,7 @@ const WeekView: React.FC = () => {
             ? 'w-[calc(100vw-var(--left-width))]'
             : 'w-full'
       } flex flex-col`}
+      style={zoneGuttersStyle(secondaryTimeZones.length)}
     >
       <Header
         selectedDate={selectedDate}
@@ -220,6 +232,10 @@ const WeekView: React.FC = () => {
               className="scrollbar scrollbar-corner-custom scrollbar-thumb-custom-light scrollbar-track-custom scrollbar-hover:bg-(--scroll-thumb-hover-colour) relative flex min-h-0 w-full flex-1 flex-row items-start overflow-y-scroll border-r border-(--scroll-border-colour)"
               onScroll={() => window.dispatchEvent(new Event('calendar-scroll'))}
             >
+              <TimeZoneGutters
+                date={selectedDate ?? new Date()}
+                showCurrentTime={showCurrentTime}
+              />
               <TimeLabel />
 
               {showCurrentTime && <CurrentTimeLine />}
@@ -267,7 +283,7 @@ const WeekView: React.FC = () => {
                   <div
                     className="pointer-events-none relative min-w-[120px] rounded text-left text-base font-semibold opacity-95"
                     style={{
-                      background: `var(--event-default-colour-${activeEvent.colour}-70)`,
+                      background: colourCss(activeEvent.colour, '70'),
                       color: '#222',
                     }}
                   >
@@ -275,7 +291,7 @@ const WeekView: React.FC = () => {
                       <div
                         className="pointer-events-none absolute w-full min-w-[120px] rounded text-left text-xs font-semibold opacity-95"
                         style={{
-                          backgroundColor: `var(--event-default-colour-${activeEvent.colour})`,
+                          backgroundColor: colourCss(activeEvent.colour),
                           color: `white`,
                           height: activeEvent.duration ? `${activeEvent.duration}px` : 'auto',
                           width: `${activeEventElement ? activeEventElement.offsetWidth * parseInt(activeEventElement.dataset.eventsPerHour ?? '1') : 0}px`,
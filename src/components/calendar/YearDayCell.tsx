@@ -1,8 +1,11 @@
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { DECLINED_CLASS, isDeclinedBy } from '@/lib/attendees';
+import { colourCss } from '@/lib/colours';
+import { isTodayIn } from '@/lib/timeZones';
 import type { TCalendarEvent } from '@/types/Calendar';
-import { format, getDate, isToday } from 'date-fns';
+import { format, getDate } from 'date-fns';
 import React, { useState } from 'react';
-import { useSelectedDate } from './Provider';
+import { useCurrentUser, useSelectedDate, useTimeZone } from './Provider';
 
 const BG_SCALES_DARK = [
   'bg-yellow-500/80',
@@ -38,7 +41,9 @@ const YearDayCell: React.FC<YearDayCellProps> = ({
 }) => {
   const [isOpen, setIsOpen] = useState(false);
   const { setSelectedDate } = useSelectedDate();
-  const today = isToday(date);
+  const { displayTimeZone } = useTimeZone();
+  const { userEmail } = useCurrentUser();
+  const today = isTodayIn(date, displayTimeZone);
   const sortedEvents = [...events].sort((a, b) => {
     if (a.allDay && !b.allDay) return -1;
     if (!a.allDay && b.allDay) return 1;
@@ -118,10 +123,10 @@ const YearDayCell: React.FC<YearDayCellProps> = ({
               {sortedEvents.map((event) => (
                 <div
                   key={event.id}
-                  className={`hover:bg-accent hover:text-accent-foreground cursor-pointer p-1 pb-1 text-xs transition-colors ${event.allDay ? `flex h-6 items-center justify-start rounded-md` : ``}`}
+                  className={`hover:bg-accent hover:text-accent-foreground cursor-pointer p-1 pb-1 text-xs transition-colors ${event.allDay ? `flex h-6 items-center justify-start rounded-md` : ``} ${isDeclinedBy(event, userEmail) ? DECLINED_CLASS : ``}`}
                   style={{
                     backgroundColor: event.allDay
-                      ? `var(--event-default-colour-${event.colour}-marker)`
+                      ? colourCss(event.colour, 'marker')
                       : `transparent`,
                   }}
                 >
@@ -130,7 +135,7 @@ const YearDayCell: React.FC<YearDayCellProps> = ({
                       <div
                         className={`mr-2 h-3 w-2 rotate-60 transform rounded`}
                         style={{
-                          backgroundColor: `var(--event-default-colour-${event.colour}-marker)`,
+                          backgroundColor: colourCss(event.colour, 'marker'),
                         }}
                       />
                       <span className="mr-1 font-semibold text-(--button-group-text-default-colour)">
@@ -0,0 +1,211 @@
+import React, { useMemo } from 'react';
+
+import { format } from 'date-fns';
+
+import { colourCss } from '@/lib/colours';
+import { generateMonthMatrix } from '@/lib/monthMatrix';
+import { cn } from '@/lib/utils';
+import {
+  buildColourLegend,
+  eventDaySpan,
+  isBarEvent,
+  isShadedDay,
+  layoutWeekBars,
+  PLANNER_FORMATS,
+  type PlannerFormat,
+} from '@/lib/yearPlanner';
+import type { IEvent } from '@/types/Calendar';
+
+const WEEK_DAYS = ['M', 'T', 'W', 'T', 'F', 'S', 'S'];
+
+// row geometry (in em so it scales with the poster's font size)
+const DAY_NUMBER_HEIGHT = 1.2;
+const BAR_HEIGHT = 1;
+const DOT_ROW_HEIGHT = 0.5;
+
+type YearPlannerProps = {
+  year: number;
+  events: IEvent[];
+  plannerFormat: PlannerFormat;
+  // zone days are read in (the display zone)
+  timeZone: string;
+  className?: string;
+};
+
+/**
+ * YearPlanner
+ * - Print layout of a full year built on the same month grid as YearView.
+ * - All-day and multi-day events are labelled bars, single-day timed events small dots.
+ * - Weekends and holiday-type events shade their days; a colour legend closes each page.
+ * - Pages are split per PLANNER_FORMATS (one poster, or one page per quarter).
+ */
+const YearPlanner: React.FC<YearPlannerProps> = ({
+  year,
+  events,
+  plannerFormat,
+  timeZone,
+  className,
+}) => {
+  const config = PLANNER_FORMATS[plannerFormat];
+  const legend = useMemo(() => buildColourLegend(events), [events]);
+  const rowHeight = DAY_NUMBER_HEIGHT + config.maxLanes * BAR_HEIGHT + DOT_ROW_HEIGHT;
+
+  // single-day timed events per yyyy-MM-dd, drawn as dots
+  const dotsByDay = useMemo(() => {
+    const map = new Map<string, IEvent[]>();
+    events
+      .filter((e) => !isBarEvent(e, timeZone))
+      .forEach((e) => {
+        const span = eventDaySpan(e, timeZone);
+        if (!span) return;
+        const key = format(span.first, 'yyyy-MM-dd');
+        map.set(key, [...(map.get(key) ?? []), e]);
+      });
+    return map;
+  }, [events, timeZone]);
+
+  const pages = Array.from({ length: 12 / config.monthsPerPage }, (_, page) =>
+    Array.from({ length: config.monthsPerPage }, (_, i) => page * config.monthsPerPage + i)
+  );
+
+  const renderMonth = (monthIndex: number) => {
+    const weeks = generateMonthMatrix(year, monthIndex);
+
+    return (
+      <div key={monthIndex} className="flex min-w-0 flex-col">
+        <div className="mb-1 text-[1.3em] font-light">
+          {format(new Date(year, monthIndex, 1), 'MMMM')}
+        </div>
+
+        <div className="grid grid-cols-7 border-b border-neutral-400 text-center text-[0.75em] text-neutral-500">
+          {WEEK_DAYS.map((d, i) => (
+            <span key={i}>{d}</span>
+          ))}
+        </div>
+
+        {weeks.map((week, wi) => {
+          const { bars, hidden } = layoutWeekBars(week, events, config.maxLanes, timeZone);
+
+          return (
+            <div
+              key={wi}
+              className="relative grid grid-cols-7 border-b border-neutral-300"
+              style={{ height: `${rowHeight}em` }}
+            >
+              {week.map((cell, di) => {
+                const dots = cell.inMonth
+                  ? (dotsByDay.get(format(cell.date, 'yyyy-MM-dd')) ?? [])
+                  : [];
+
+                return (
+                  <div
+                    key={di}
+                    className={cn(
+                      'relative border-r border-neutral-200 px-0.5 last:border-r-0',
+                      cell.inMonth && isShadedDay(cell.date, events, timeZone) && 'bg-neutral-200'
+                    )}
+                  >
+                    {cell.inMonth && (
+                      <>
+                        <span className="text-[0.8em]">{format(cell.date, 'd')}</span>
+                        {hidden[di] > 0 && (
+                          <span className="absolute top-0 right-0.5 text-[0.65em] text-neutral-500">
+                            +{hidden[di]}
+                          </span>
+                        )}
+                        <div className="absolute right-0.5 bottom-0.5 left-0.5 flex gap-px">
+                          {dots.slice(0, 4).map((e) => (
+                            <span
+                              key={e.id}
+                              className="h-[0.35em] w-[0.35em] rounded-full"
+                              style={{ backgroundColor: colourCss(e.colour) }}
+                            />
+                          ))}
+                        </div>
+                      </>
+                    )}
+                  </div>
+                );
+              })}
+
+              {bars.map((bar) => (
+                <div
+                  key={`${bar.event.id}-${wi}`}
+                  className={cn(
+                    'absolute flex items-center truncate px-1',
+                    !bar.continuesBefore && 'rounded-l-sm',
+                    !bar.continuesAfter && 'rounded-r-sm'
+                  )}
+                  style={{
+                    left: `calc(${(bar.startCol / 7) * 100}% + 1px)`,
+                    width: `calc(${(bar.span / 7) * 100}% - 2px)`,
+                    top: `${DAY_NUMBER_HEIGHT + bar.lane * BAR_HEIGHT}em`,
+                    height: `${BAR_HEIGHT * 0.9}em`,
+                    backgroundColor: colourCss(bar.event.colour, '30'),
+                    borderLeft: bar.continuesBefore
+                      ? undefined
+                      : `2px solid ${colourCss(bar.event.colour)}`,
+                  }}
+                  title={bar.event.title}
+                >
+                  {/* label every row a bar appears on, marking continuations */}
+                  <span className="truncate text-[0.7em]">
+                    {bar.continuesBefore ? `… ${bar.event.title}` : bar.event.title}
+                  </span>
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const renderLegend = () => (
+    <div className="mt-3 flex flex-wrap items-center gap-x-5 gap-y-1 text-[0.8em]">
+      {legend.map(({ colour, types }) => (
+        <span key={colour} className="flex items-center gap-1.5">
+          <span
+            className="h-[0.9em] w-[1.6em] rounded-sm"
+            style={{ backgroundColor: colourCss(colour) }}
+          />
+          {types.map((t) => t.charAt(0).toUpperCase() + t.slice(1)).join(', ')}
+        </span>
+      ))}
+      <span className="flex items-center gap-1.5">
+        <span className="h-[0.9em] w-[1.6em] rounded-sm border border-neutral-300 bg-neutral-200" />
+        Weekend / holiday
+      </span>
+    </div>
+  );
+
+  return (
+    <div className={cn('bg-white text-neutral-900', className)}>
+      {pages.map((months, page) => (
+        <section
+          key={page}
+          className="flex break-after-page flex-col p-2 last:break-after-auto"
+          style={{ fontSize: plannerFormat === 'a2' ? '14px' : '10px' }}
+        >
+          <header className="mb-2 flex items-baseline justify-between border-b border-neutral-400 pb-1">
+            <span className="text-[2.4em] font-extralight">{year}</span>
+            {config.monthsPerPage < 12 && (
+              <span className="text-[1.2em] text-neutral-500">Q{page + 1}</span>
+            )}
+          </header>
+
+          <div
+            className="grid gap-x-4 gap-y-3"
+            style={{ gridTemplateColumns: `repeat(${config.columns}, minmax(0, 1fr))` }}
+          >
+            {months.map(renderMonth)}
+          </div>
+
+          {renderLegend()}
+        </section>
+      ))}
+    </div>
+  );
+};
+
+export default YearPlanner;
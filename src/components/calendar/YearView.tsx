@@ -1,22 +1,18 @@
-import React, { useMemo } from 'react';
-
-import {
-  addDays,
-  eachDayOfInterval,
-  format,
-  getDay,
-  getMonth,
-  getYear,
-  isSameMonth,
-  startOfMonth,
-  startOfWeek,
-} from 'date-fns';
+import React, { useMemo, useState } from 'react';
+
+import { format, getDay, getMonth, getYear } from 'date-fns';
+import { Printer } from 'lucide-react';
 import { AnimatePresence, motion } from 'motion/react';
 
 import useFetchEvents from '@/hooks/useFetchEvents';
+import { isContinuation } from '@/lib/daySegments';
+import { generateMonthMatrix } from '@/lib/monthMatrix';
+import { nowIn } from '@/lib/timeZones';
 import type { TCalendarEvent } from '@/types/Calendar';
 import { useTheme } from '../ThemeProvider';
-import { useEvents, useSelectedDate, useViewBy } from './Provider';
+import { Button } from '../ui/button';
+import { PrintYearPlannerDialog } from './PrintYearPlannerDialog';
+import { useEvents, useSelectedDate, useTimeZone, useViewBy } from './Provider';
 import YearDayCell from './YearDayCell';
 
 const MONTH_NAMES = [
@@ -35,35 +31,13 @@ const MONTH_NAMES = [
 ];
 const WEEK_DAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
 
-// Use full Date in cells and a boolean flag for inMonth
-type Cell = { date: Date; inMonth: boolean };
-
-function generateMonthMatrix(year: number, monthIndex: number): Cell[][] {
-  const monthStart = startOfMonth(new Date(year, monthIndex, 1));
-  // weekStartsOn: 1 -> Monday-first
-  const rangeStart = startOfWeek(monthStart, { weekStartsOn: 1 });
-  // always show 6 weeks (6 * 7 = 42 days)
-  const days = eachDayOfInterval({
-    start: rangeStart,
-    end: addDays(rangeStart, 42 - 1),
-  });
-
-  const weeks: Cell[][] = [];
-  for (let i = 0; i < days.length; i += 7) {
-    const week = days.slice(i, i + 7).map((d) => ({
-      date: d,
-      inMonth: isSameMonth(d, monthStart),
-    }));
-    weeks.push(week);
-  }
-  return weeks;
-}
-
 export const YearView: React.FC = () => {
   const { selectedDate, setSelectedDate } = useSelectedDate();
   const { setViewBy } = useViewBy();
   const { events } = useEvents();
+  const { displayTimeZone } = useTimeZone();
   const { theme } = useTheme();
+  const [printOpen, setPrintOpen] = useState(false);
 
   useFetchEvents();
 
@@ -86,7 +60,7 @@ export const YearView: React.FC = () => {
     })();
 
     iterableEvents.forEach((ev: TCalendarEvent) => {
-      if (!ev) return;
+      if (!ev || isContinuation(ev)) return;
       const dt = ev?.start;
       if (!dt) return;
       const d = new Date(dt);
@@ -115,9 +89,19 @@ export const YearView: React.FC = () => {
         transition={{ duration: 0.2 }}
         className="h-full w-full overflow-hidden"
       >
-        <div className="mt-5.5 ml-5 flex w-full justify-start gap-1.5 border-b border-[var(--calendar-hour-line)] pb-2">
+        <div className="mt-5.5 ml-5 flex w-full items-center justify-start gap-1.5 border-b border-[var(--calendar-hour-line)] pb-2">
           <span className="text-primary text-3xl font-extralight">{currentYear}</span>
+          <Button
+            variant="ghost"
+            size="smdr"
+            className="mr-5 ml-auto"
+            onClick={() => setPrintOpen(true)}
+          >
+            <Printer />
+            Print planner
+          </Button>
         </div>
+        <PrintYearPlannerDialog year={year} open={printOpen} onOpenChange={setPrintOpen} />
         <div className="grid h-[calc(100dvh-var(--headers-height))] min-h-0 auto-rows-fr grid-cols-4 gap-2 p-5 pb-10 sm:gap-4 md:gap-6 lg:gap-8 xl:gap-10">
           {months.map((monthIndex) => {
             const weeks = generateMonthMatrix(year, monthIndex);
@@ -135,7 +119,7 @@ export const YearView: React.FC = () => {
                     <thead>
                       <tr>
                         {(() => {
-                          const now = new Date();
+                          const now = nowIn(displayTimeZone);
                           const todayIndex = (getDay(now) + 6) % 7; // Monday=0..Sunday=6
                           const isThisMonth =
                             getYear(now) === getYear(selectedDate ?? year) &&
@@ -1,12 +1,20 @@
 import React, { useCallback, useState } from 'react';
 
 import type { DragEndEvent, DragStartEvent, Over } from '@dnd-kit/core';
-import { addMinutes, differenceInMinutes, format } from 'date-fns';
+import {
+  addDays,
+  addMinutes,
+  differenceInCalendarDays,
+  differenceInMinutes,
+  format,
+} from 'date-fns';
 
 import { CELL_HEIGHT, CELL_WIDTH, EVENT_ROW_HEIGHT } from '@/lib/constants';
-import { updatedEvent } from '@/lib/utils';
+import { displayRange } from '@/lib/daySegments';
+import { toApiEvent } from '@/lib/utils';
 
-import { useEvents, useSelectedDate } from '@/components/calendar/Provider';
+import { useEvents, useSelectedDate, useTimeZone } from '@/components/calendar/Provider';
+import useEventMutations from '@/hooks/useEventMutations';
 import type { TCalendarEvent } from '@/types/Calendar';
 
 /*
@@ -24,6 +32,8 @@ import type { TCalendarEvent } from '@/types/Calendar';
   - Added explanatory comments and used useCallback to stabilize handler identities.
   - Use explicit parseInt radix for clarity.
   - Use 24-hour format in date comparisons to avoid AM/PM pitfalls.
+  - Drops are saved optimistically through useEventMutations, which places the moved event
+    (every occurrence, for a series) and rolls it back if the store rejects the move.
 */
 
 export interface DragOverCellType {
@@ -59,6 +69,8 @@ export default function useCalendarDrag(params: {
 
   const { events, setEvents, setSelectedEvent } = useEvents();
   const { selectedDate } = useSelectedDate();
+  const { displayTimeZone } = useTimeZone();
+  const { changeEvent } = useEventMutations();
 
   // Keep track of where the drag started (calendar cell key or 'event-list')
   const [activeFrom, setActiveFrom] = useState<string | null>(null);
@@ -83,6 +95,17 @@ export default function useCalendarDrag(params: {
     []
   );
 
+  /*
+    Show and persist a moved event. Moving an occurrence shifts its whole series, so every
+    occurrence moves with it.
+  */
+  const persistMove = useCallback(
+    (moved: TCalendarEvent) => {
+      changeEvent(toApiEvent(moved, displayTimeZone));
+    },
+    [changeEvent, displayTimeZone]
+  );
+
   /*
     Handler: drag start
     - mark active event
@@ -148,16 +171,20 @@ export default function useCalendarDrag(params: {
   /*
     Immutable move: given a target datetime & optional preserved duration,
     return a new event object (do not mutate the input activeEvent).
+    The day segment of a multi-day event is dropped; it is re-split when placed.
   */
   const makeMovedEvent = useCallback((src: TCalendarEvent, newStart: Date, preserveEnd = true) => {
     const originalStart = src.start ? new Date(src.start) : new Date();
     const originalEnd = src.end ? new Date(src.end) : new Date();
     const duration = differenceInMinutes(originalEnd, originalStart);
 
+    const { segment, ...event } = src;
+    void segment;
     const moved: TCalendarEvent = {
-      ...src,
+      ...event,
       start: newStart,
       end: preserveEnd ? addMinutes(newStart, duration) : src.end,
+      duration: preserveEnd ? Math.max(0, duration) : src.duration,
     };
     return moved;
   }, []);
@@ -191,13 +218,17 @@ export default function useCalendarDrag(params: {
         // build new datetime precisely for this cell/slot
         const newDateTime = buildDateTime(yearStr, monthStr, dayStr, hourStr, slotStr);
 
-        // compare using 24-hour format to avoid AM/PM ambiguity
-        const originalStart = activeEvent.start ?? newDateTime;
-        if (format(newDateTime, 'yyyyMMddHHmmss') !== format(originalStart, 'yyyyMMddHHmmss')) {
+        // compare using 24-hour format to avoid AM/PM ambiguity; a day segment of a
+        // multi-day event is dragged by its own top, so compare against that
+        const shownStart = displayRange(activeEvent).start ?? newDateTime;
+        if (format(newDateTime, 'yyyyMMddHHmmss') !== format(shownStart, 'yyyyMMddHHmmss')) {
+          // shift the whole event by as much as the dragged part moved
+          const newStart = activeEvent.segment
+            ? addMinutes(activeEvent.start, differenceInMinutes(newDateTime, shownStart))
+            : newDateTime;
           // create a moved copy and persist into scheduled events
-          const moved = makeMovedEvent(activeEvent, newDateTime, !activeEvent.allDay);
-          const newSlot = parseInt(slotStr, 10);
-          moved.slot = newSlot;
+          const moved = makeMovedEvent(activeEvent, newStart, !activeEvent.allDay);
+          moved.slot = Math.floor(newStart.getMinutes() / 15);
 
           // If was all-day, it is no longer
           if (activeEvent.allDay) {
@@ -207,25 +238,8 @@ export default function useCalendarDrag(params: {
             moved.duration = 60;
           }
 
-          setEvents((prev) => {
-            const newScheduled: Record<string, TCalendarEvent[]> = { ...prev };
-
-            // remove from previous cell if applicable
-            if (activeFrom && activeFrom !== 'event-list') {
-              newScheduled[activeFrom] = (newScheduled[activeFrom] || []).filter(
-                (ev) => ev.id !== activeEvent.id
-              );
-              if (newScheduled[activeFrom].length === 0) delete newScheduled[activeFrom];
-            }
-
-            const cellKey = `event-${yearStr}-${monthStr}-${dayStr}-${hourStr}-${slotStr}`;
-            newScheduled[cellKey] = [...(newScheduled[cellKey] || []), moved];
-
-            // persist change to external storage / API
-            updatedEvent(moved);
-
-            return newScheduled;
-          });
+          // lands in the dropped-on cell, split again if it now runs past midnight
+          persistMove(moved);
         }
       } else if (typeof over.id === 'string' && over.id.startsWith('all-day-')) {
         // Dropped on an all-day section
@@ -247,25 +261,10 @@ export default function useCalendarDrag(params: {
             end: newDate, // End date doesn't matter much for all-day, but keep it consistent
             allDay: true,
             slot: undefined, // Clear slot
+            segment: undefined,
           };
 
-          setEvents((prev) => {
-            const newScheduled: Record<string, TCalendarEvent[]> = { ...prev };
-
-            // remove from previous cell if applicable
-            if (activeFrom && activeFrom !== 'event-list') {
-              newScheduled[activeFrom] = (newScheduled[activeFrom] || []).filter(
-                (ev) => ev.id !== activeEvent.id
-              );
-              if (newScheduled[activeFrom].length === 0) delete newScheduled[activeFrom];
-            }
-
-            const newKey = `all-day-${yearStr}-${monthStr}-${dayStr}`;
-            newScheduled[newKey] = [...(newScheduled[newKey] || []), moved];
-
-            updatedEvent(moved);
-            return newScheduled;
-          });
+          persistMove(moved);
         }
       } else if (over.id === 'event-list') {
         // remove event from any scheduled cells (back to unscheduled list)
@@ -286,13 +285,13 @@ export default function useCalendarDrag(params: {
     },
     [
       activeEvent,
-      activeFrom,
       buildDateTime,
       makeMovedEvent,
       setEvents,
       setActiveEvent,
       setActiveFrom,
       setDragOverCell,
+      persistMove,
     ]
   );
 
@@ -342,46 +341,36 @@ export default function useCalendarDrag(params: {
             return d;
           })();
 
-          const originalStart = activeEvent.start ?? newDateOnly;
+          // a day segment of a multi-day event is compared against its own day
+          const originalStart = displayRange(activeEvent).start ?? newDateOnly;
           if (format(newDateOnly, 'yyyyMMdd') === format(originalStart, 'yyyyMMdd')) {
             // same day -> nothing to do
             return;
           }
 
-          setEvents((prev) => {
-            const newScheduled: Record<string, TCalendarEvent[]> = { ...prev };
-
-            // remove from previous cell if applicable
-            if (activeFrom && activeFrom !== 'event-list') {
-              newScheduled[activeFrom] = (newScheduled[activeFrom] || []).filter(
-                (ev) => ev.id !== activeEvent.id
-              );
-              if (newScheduled[activeFrom].length === 0) delete newScheduled[activeFrom];
-            }
-
-            // if activeFrom looks like an event key, prefer preserving its hour/slot
-            const prevParts = activeFrom?.split('-') ?? [];
-            let newHour = hourStr;
-            let newSlot = slotStr;
-            if (prevParts.length >= 6) {
-              newHour = prevParts[4];
-              newSlot = prevParts[5];
-            }
-
-            // build datetime using possibly preserved hour/slot
-            const newDateTime = buildDateTime(yearStr, monthStr, dayStr, newHour, newSlot);
+          if (activeEvent.segment) {
+            // shift the whole event by the number of days the segment moved
+            const days = differenceInCalendarDays(newDateOnly, originalStart);
+            persistMove(makeMovedEvent(activeEvent, addDays(activeEvent.start, days), true));
+            return;
+          }
 
-            const moved = makeMovedEvent(activeEvent, newDateTime, true);
-            moved.slot = parseInt(newSlot, 10);
+          // if activeFrom looks like an event key, prefer preserving its hour/slot
+          const prevParts = activeFrom?.split('-') ?? [];
+          let newHour = hourStr;
+          let newSlot = slotStr;
+          if (prevParts.length >= 6) {
+            newHour = prevParts[4];
+            newSlot = prevParts[5];
+          }
 
-            const newCellKeyStr = `event-${yearStr}-${monthStr}-${dayStr}-${newHour}-${newSlot}`;
-            newScheduled[newCellKeyStr] = [...(newScheduled[newCellKeyStr] || []), moved];
+          // build datetime using possibly preserved hour/slot
+          const newDateTime = buildDateTime(yearStr, monthStr, dayStr, newHour, newSlot);
 
-            // persist change
-            updatedEvent(moved);
+          const moved = makeMovedEvent(activeEvent, newDateTime, true);
+          moved.slot = parseInt(newSlot, 10);
 
-            return newScheduled;
-          });
+          persistMove(moved);
         } else if (over.id === 'event-list') {
           // moved back to unscheduled list
           setEvents((prev) => {
@@ -412,6 +401,7 @@ export default function useCalendarDrag(params: {
       setActiveEvent,
       setActiveFrom,
       setDragOverCell,
+      persistMove,
     ]
   );
 
@@ -0,0 +1,139 @@
+import { useCallback } from 'react';
+
+import { v4 as uuidv4 } from 'uuid';
+
+import {
+  useAttachments,
+  useEventStore,
+  useEvents,
+  useMutationError,
+  useSelectedDate,
+  useTimeZone,
+  useViewBy,
+} from '@/components/calendar/Provider';
+import { toSeriesEvent } from '@/lib/recurrence';
+import { fromZonedTime, nowIn } from '@/lib/timeZones';
+import {
+  groupApiEventsToScheduled,
+  mergeScheduled,
+  partitionSeries,
+  viewRangeOf,
+} from '@/lib/utils';
+import { filterByRange } from '@/services/stores/EventStore';
+import type { IEvent, TCalendarEvent } from '@/types/Calendar';
+
+/*
+  Hook: useEventMutations
+
+  Optimistic add/change/delete: the provider's `events` map shows the result at once and
+  the store is written in the background, so a slow backend never blocks the UI (and the
+  map is not cleared and refetched, which flashed the loading overlay).
+  If the store rejects a change, only the series it touched is put back as it was and the
+  reason is shown through `useMutationError`. Each call resolves to null on failure.
+*/
+
+const useEventMutations = () => {
+  const store = useEventStore();
+  const { events, setEvents } = useEvents();
+  const { setMutationError } = useMutationError();
+  const { viewBy } = useViewBy();
+  const { selectedDate } = useSelectedDate();
+  const { displayTimeZone } = useTimeZone();
+  const { pruneUnlinkedAttachments } = useAttachments();
+
+  // place API events in the map as a fetch of the current view would
+  const toScheduled = useCallback(
+    (apiEvents: IEvent[]) => {
+      const range = viewRangeOf(viewBy, selectedDate ?? nowIn(displayTimeZone));
+      return groupApiEventsToScheduled(
+        filterByRange(
+          apiEvents,
+          fromZonedTime(range.from, displayTimeZone),
+          fromZonedTime(range.to, displayTimeZone)
+        ),
+        undefined,
+        displayTimeZone
+      );
+    },
+    [viewBy, selectedDate, displayTimeZone]
+  );
+
+  const replaceSeries = useCallback(
+    (seriesId: number | string, replacement: Record<string, TCalendarEvent[]>) =>
+      setEvents((prev) => mergeScheduled(partitionSeries(prev, [seriesId]).rest, replacement)),
+    [setEvents]
+  );
+
+  /** Show `optimistic` in place of the series, persist, and put the series back on failure. */
+  const mutate = useCallback(
+    async <T>(
+      seriesId: number | string,
+      optimistic: IEvent[],
+      persist: () => Promise<T>,
+      failure: string
+    ): Promise<T | null> => {
+      const previous = partitionSeries(events, [seriesId]).matching;
+      replaceSeries(seriesId, toScheduled(optimistic));
+      setMutationError(null);
+      try {
+        return await persist();
+      } catch (error) {
+        console.error(failure, error);
+        replaceSeries(seriesId, previous);
+        setMutationError(`${failure}: ${error instanceof Error ? error.message : String(error)}`);
+        return null;
+      }
+    },
+    [events, replaceSeries, toScheduled, setMutationError]
+  );
+
+  const addEvent = useCallback(
+    async (event: Omit<IEvent, 'id'>) => {
+      // shown under a temporary id until the store assigns the real one
+      const tempId = `pending-${uuidv4()}`;
+      const created = await mutate(
+        tempId,
+        [{ ...event, id: tempId }],
+        () => store.addEvent(event),
+        'Could not add the event'
+      );
+      if (created) replaceSeries(tempId, toScheduled([created]));
+      return created;
+    },
+    [mutate, replaceSeries, toScheduled, store]
+  );
+
+  /** Save an event; an occurrence saves its whole series (see `toSeriesEvent`). */
+  const changeEvent = useCallback(
+    (event: IEvent) => {
+      const series = toSeriesEvent(event);
+      return mutate(
+        series.id,
+        [series],
+        () => store.changeEvent(series),
+        'Could not save the event'
+      );
+    },
+    [mutate, store]
+  );
+
+  /** Delete an event by its series id (every occurrence goes with it). */
+  const deleteEvent = useCallback(
+    (seriesId: number | string) =>
+      mutate(
+        seriesId,
+        [],
+        async () => {
+          await store.deleteEvent(seriesId);
+          pruneUnlinkedAttachments();
+          return true;
+        },
+        'Could not delete the event'
+      ),
+    [mutate, store, pruneUnlinkedAttachments]
+  );
+
+  return { addEvent, changeEvent, deleteEvent };
+};
+
+export default useEventMutations;
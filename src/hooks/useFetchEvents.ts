@@ -1,9 +1,26 @@
-import { endOfWeek, endOfYear, getYear, startOfWeek, startOfYear } from 'date-fns';
+import {
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  endOfYear,
+  getYear,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  startOfYear,
+} from 'date-fns';
 import { useCallback, useEffect, useRef } from 'react';
 
-import { useEvents, useLoading, useSelectedDate, useViewBy } from '@/components/calendar/Provider';
+import {
+  useEventStore,
+  useEvents,
+  useLoading,
+  useSelectedDate,
+  useTimeZone,
+  useViewBy,
+} from '@/components/calendar/Provider';
+import { fromZonedTime } from '@/lib/timeZones';
 import { groupApiEventsToScheduled } from '@/lib/utils';
-import { getEventsByDate, getEventsByMonth, getEventsByRange } from '@/services/Events';
 import type { IEvent, TCalendarEvent } from '@/types/Calendar';
 
 const useFetchEvents = (autoFetch = true) => {
@@ -11,25 +28,55 @@ const useFetchEvents = (autoFetch = true) => {
   const { selectedDate } = useSelectedDate();
   const { setEvents } = useEvents();
   const { setIsLoading } = useLoading();
+  const store = useEventStore();
+  const { displayTimeZone } = useTimeZone();
 
   // Refs to track previously fetched ranges to avoid redundant calls
   const fetchedRangeRef = useRef<{ start: number; end: number } | null>(null);
   const prevSelectedMonthRef = useRef<number | null>(null);
   const prevSelectedYearRef = useRef<number | null>(null);
-
+  const prevTimeZoneRef = useRef<string | null>(null);
+
+  /*
+    Load the current view's events into the provider's map.
+    `force` refetches even when the range was already loaded. A `quiet` fetch keeps the
+    current map and the loading overlay off until the new map replaces it (used to resync
+    after changes the map already shows).
+  */
   const fetchEvents = useCallback(
-    async (force = false) => {
+    async (force = false, quiet = false) => {
       if (!selectedDate) return;
 
+      const startLoading = () => {
+        if (quiet) return;
+        setIsLoading(true);
+        setEvents({});
+      };
+
+      // view windows are wall-clock times in the display zone; stores query by instant
+      const getEventsByRange = (from: Date, to: Date) =>
+        store.getEventsByRange(
+          fromZonedTime(from, displayTimeZone),
+          fromZonedTime(to, displayTimeZone)
+        );
+      // a new display zone moves every event, so the cached ranges no longer apply
+      if (prevTimeZoneRef.current !== displayTimeZone) {
+        prevTimeZoneRef.current = displayTimeZone;
+        force = true;
+      }
+
       let events: IEvent[] = [];
       let gEvents: Record<string, TCalendarEvent[]> = {};
+      // window the view shows; recurring events are expanded within it
+      let range: { from: Date; to: Date } | undefined;
 
       try {
         switch (viewBy) {
           case 'day':
-            setIsLoading(true);
-            setEvents({});
-            events = await getEventsByDate(selectedDate);
+            startLoading();
+            range = { from: startOfDay(selectedDate), to: endOfDay(selectedDate) };
+            // the day, including events that started earlier and run into it
+            events = await getEventsByRange(range.from, range.to);
             break;
 
           case 'week': {
@@ -49,9 +96,9 @@ const useFetchEvents = (autoFetch = true) => {
               return;
             }
 
-            setIsLoading(true);
-            setEvents({});
+            startLoading();
             events = await getEventsByRange(weekStart, weekEnd);
+            range = { from: weekStart, to: weekEnd };
 
             // Update the ref only after a successful fetch (or before, if we want to block immediate refetches)
             fetchedRangeRef.current = { start: startMs, end: endMs };
@@ -63,10 +110,10 @@ const useFetchEvents = (autoFetch = true) => {
             if (!force && prevSelectedMonthRef.current === selectedDate?.getMonth()) {
               return;
             }
-            setIsLoading(true);
-            setEvents({});
+            startLoading();
             prevSelectedMonthRef.current = selectedDate?.getMonth() ?? null;
-            events = await getEventsByMonth(selectedDate);
+            range = { from: startOfMonth(selectedDate), to: endOfMonth(selectedDate) };
+            events = await getEventsByRange(range.from, range.to);
 
             break;
           }
@@ -79,13 +126,13 @@ const useFetchEvents = (autoFetch = true) => {
               return;
             }
 
-            setIsLoading(true);
-            setEvents({});
+            startLoading();
             // get the first day of the year
             const firstDayOfYear = startOfYear(selectedDate);
             // get the last day of the year
             const lastDayOfYear = endOfYear(selectedDate);
             events = await getEventsByRange(firstDayOfYear, lastDayOfYear);
+            range = { from: firstDayOfYear, to: lastDayOfYear };
 
             // Update the ref only after a successful fetch
             prevSelectedYearRef.current = year;
@@ -97,15 +144,15 @@ const useFetchEvents = (autoFetch = true) => {
             break;
         }
 
-        gEvents = groupApiEventsToScheduled(events);
+        gEvents = groupApiEventsToScheduled(events, range, displayTimeZone);
         setEvents(gEvents);
       } catch (error) {
         console.error('Error fetching events:', error);
       } finally {
-        setIsLoading(false);
+        if (!quiet) setIsLoading(false);
       }
     },
-    [selectedDate, viewBy, setEvents, setIsLoading]
+    [selectedDate, viewBy, setEvents, setIsLoading, store, displayTimeZone]
   );
 
   useEffect(() => {
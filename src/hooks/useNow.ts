@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Current instant, refreshed every `intervalMs` (15s by default).
+ * Only the component using it re-renders on each tick; convert with toZonedTime to read
+ * it in a given zone.
+ */
+export default function useNow(intervalMs = 15000) {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const id = setInterval(() => setNow(new Date()), intervalMs);
+    return () => clearInterval(id);
+  }, [intervalMs]);
+
+  return now;
+}
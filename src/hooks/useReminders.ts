@@ -0,0 +1,68 @@
+import { useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+
+import {
+  useCalendars,
+  useEvents,
+  useEventStore,
+  useTimeZone,
+} from '@/components/calendar/Provider';
+import { remindersOf } from '@/lib/calendars';
+import { formatAlertStart } from '@/lib/reminders';
+import { createReminderScheduler } from '@/services/reminders';
+
+// how long the loaded events must stay unchanged before reminders are rescheduled (ms)
+const RESCHEDULE_DELAY = 1000;
+
+/**
+ * Reminders of the stored events (see `createReminderScheduler`).
+ * - Scheduled from the store on startup (and by the scheduler itself as time moves on), then
+ *   rescheduled once the loaded events stop changing, so a burst of edits or moving through
+ *   the views reads the store once.
+ * - Shows a browser notification for each reminder when the user allowed them; the
+ *   returned `active` list is for the in-app alerts, which carry snooze and dismiss.
+ */
+export default function useReminders() {
+  const store = useEventStore();
+  const { calendars } = useCalendars();
+  const { events } = useEvents();
+  const { displayTimeZone } = useTimeZone();
+
+  const scheduler = useMemo(
+    () =>
+      createReminderScheduler({
+        store,
+        reminders: (event) => remindersOf(event, calendars),
+        notify: (alert) => {
+          if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+          try {
+            new Notification(alert.title, {
+              body: `Starts ${formatAlertStart(alert, displayTimeZone)}`,
+              tag: alert.key,
+            });
+          } catch {
+            // some browsers only allow notifications from a service worker
+          }
+        },
+      }),
+    [store, calendars, displayTimeZone]
+  );
+
+  useEffect(() => {
+    scheduler.start().catch((error) => console.error('Failed to schedule reminders', error));
+    return () => scheduler.stop();
+  }, [scheduler]);
+
+  // events is only a trigger: any change to them may have added, moved or removed reminders
+  const scheduledFor = useRef(events);
+  useEffect(() => {
+    if (scheduledFor.current === events) return;
+    const timer = setTimeout(() => {
+      scheduledFor.current = events;
+      scheduler.start().catch((error) => console.error('Failed to schedule reminders', error));
+    }, RESCHEDULE_DELAY);
+    return () => clearTimeout(timer);
+  }, [scheduler, events]);
+
+  const active = useSyncExternalStore(scheduler.subscribe, scheduler.getActive);
+  return { active, snooze: scheduler.snooze, dismiss: scheduler.dismiss };
+}
@@ -0,0 +1,56 @@
+import type { IAttachment, IEvent } from '../types/Calendar';
+
+/* -------------------------
+   Attachments
+   ------------------------- */
+
+/** Largest file that can be attached, in bytes (browsers cap what a site may store). */
+export const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024;
+
+/** True when `value` is a well-formed attachment list (see IAttachment). */
+export const isAttachmentList = (value: unknown): value is IAttachment[] =>
+  Array.isArray(value) &&
+  value.every(
+    (a) =>
+      a !== null &&
+      typeof a === 'object' &&
+      typeof a.id === 'string' &&
+      a.id !== '' &&
+      typeof a.name === 'string' &&
+      typeof a.type === 'string' &&
+      typeof a.size === 'number' &&
+      Number.isFinite(a.size) &&
+      a.size >= 0
+  );
+
+/** Ids of the files `events` link to. */
+export const attachmentIdsOf = (events: Pick<IEvent, 'attachments'>[]) =>
+  new Set(events.flatMap((e) => e.attachments?.map((a) => a.id) ?? []));
+
+/** Ids of the files stored records link to, however malformed the rest of them is. */
+export const attachmentIdsOfRecords = (records: unknown[]) =>
+  new Set(
+    records.flatMap((record) => {
+      const attachments = (record as { attachments?: unknown } | null)?.attachments;
+      return Array.isArray(attachments)
+        ? attachments.map((a) => a?.id).filter((id): id is string => typeof id === 'string')
+        : [];
+    })
+  );
+
+/** How a file can be previewed in the page: as an image, a PDF frame, or not at all. */
+export const previewKindOf = (type: string): 'image' | 'pdf' | null =>
+  type.startsWith('image/') ? 'image' : type === 'application/pdf' ? 'pdf' : null;
+
+/** "512 B", "1.5 KB", "12 MB"... */
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value < 10 ? value.toFixed(1).replace(/\.0$/, '') : Math.round(value)} ${units[unit]}`;
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+
+import type { IAttendee } from '@/types/Calendar';
+import {
+  attendeeOf,
+  cleanAttendees,
+  createAttendee,
+  isDeclinedBy,
+  organizerOf,
+  withResponse,
+} from './attendees';
+import { eventProblems } from './eventSchema';
+
+const attendees: IAttendee[] = [
+  { name: 'Ana', email: 'ana@example.com', status: 'accepted', organizer: true },
+  { name: 'Bruno', email: 'Bruno@Example.com', status: 'needs-action', optional: true },
+];
+
+describe('attendees', () => {
+  it('finds attendees by email, whatever the case', () => {
+    expect(attendeeOf({ attendees }, ' bruno@example.com')?.name).toBe('Bruno');
+    expect(attendeeOf({ attendees }, null)).toBeUndefined();
+    expect(organizerOf({ attendees })?.name).toBe('Ana');
+  });
+
+  it('records an answer and tells when it was declined', () => {
+    const answered = withResponse(attendees, 'bruno@example.com', 'declined');
+    expect(answered.map((a) => a.status)).toEqual(['accepted', 'declined']);
+    expect(isDeclinedBy({ attendees: answered }, 'bruno@example.com')).toBe(true);
+    expect(isDeclinedBy({ attendees: answered }, 'ana@example.com')).toBe(false);
+    expect(isDeclinedBy({}, 'bruno@example.com')).toBe(false);
+  });
+
+  it('drops blank rows when saving', () => {
+    expect(cleanAttendees([createAttendee(), createAttendee(' Carla ', '')])).toEqual([
+      { name: 'Carla', email: '', status: 'needs-action' },
+    ]);
+    expect(cleanAttendees([createAttendee()])).toBeUndefined();
+  });
+
+  it('is checked by the event schema', () => {
+    const event = {
+      id: 1,
+      title: 'Sync',
+      start: '2024-03-04T09:00:00Z',
+      end: '2024-03-04T10:00:00Z',
+    };
+    expect(eventProblems({ ...event, attendees })).toEqual([]);
+    expect(
+      eventProblems({ ...event, attendees: [...attendees, { name: 'X', status: 'maybe' }] })
+    ).toEqual(['invalid attendee 3']);
+  });
+});
@@ -0,0 +1,54 @@
+import type { AttendeeStatus, IAttendee, IEvent, TCalendarEvent } from '../types/Calendar';
+
+/* -------------------------
+   Attendees
+   ------------------------- */
+
+/** Answers in the order the RSVP buttons show them, with their labels. */
+export const ATTENDEE_STATUSES: { value: AttendeeStatus; label: string }[] = [
+  { value: 'needs-action', label: 'No answer' },
+  { value: 'accepted', label: 'Accepted' },
+  { value: 'tentative', label: 'Maybe' },
+  { value: 'declined', label: 'Declined' },
+];
+
+/** Classes for events the current user declined, in every view. */
+export const DECLINED_CLASS = 'line-through opacity-60';
+
+type WithAttendees = Pick<IEvent | TCalendarEvent, 'attendees'>;
+
+/** Emails match whatever their case and surrounding spaces. */
+export const isSameEmail = (a: string, b: string) =>
+  a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/** A blank attendee, not yet answered. */
+export const createAttendee = (name = '', email = ''): IAttendee => ({
+  name,
+  email,
+  status: 'needs-action',
+});
+
+/** The attendee with `email`, if invited. */
+export const attendeeOf = (event: WithAttendees, email: string | null) =>
+  email ? event.attendees?.find((a) => isSameEmail(a.email, email)) : undefined;
+
+export const organizerOf = (event: WithAttendees) => event.attendees?.find((a) => a.organizer);
+
+/** True when the user with `email` declined the event. */
+export const isDeclinedBy = (event: WithAttendees, email: string | null) =>
+  attendeeOf(event, email)?.status === 'declined';
+
+/** The list with the answer of the attendee with `email` replaced. */
+export const withResponse = (attendees: IAttendee[], email: string, status: AttendeeStatus) =>
+  attendees.map((a) => (isSameEmail(a.email, email) ? { ...a, status } : a));
+
+/** Name to show for an attendee: the name, or the email when unnamed. */
+export const attendeeLabel = (attendee: IAttendee) => attendee.name.trim() || attendee.email;
+
+/** The list as saved: blank rows dropped, fields trimmed; undefined when nobody is left. */
+export const cleanAttendees = (attendees: IAttendee[]): IAttendee[] | undefined => {
+  const kept = attendees
+    .map((a) => ({ ...a, name: a.name.trim(), email: a.email.trim() }))
+    .filter((a) => a.name || a.email);
+  return kept.length > 0 ? kept : undefined;
+};
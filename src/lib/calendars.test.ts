@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+
+import { calendarOf, createCalendar, DEFAULT_CALENDARS, isCalendarList } from './calendars';
+
+describe('isCalendarList', () => {
+  it('accepts the defaults and new calendars', () => {
+    expect(isCalendarList(DEFAULT_CALENDARS)).toBe(true);
+    expect(isCalendarList([...DEFAULT_CALENDARS, createCalendar('  Gym ', '5')])).toBe(true);
+  });
+
+  it('rejects empty lists, bad entries and duplicate ids', () => {
+    expect(isCalendarList([])).toBe(false);
+    expect(isCalendarList('personal')).toBe(false);
+    expect(isCalendarList([{ id: '', name: 'X', colour: '1' }])).toBe(false);
+    expect(isCalendarList([{ id: 'a', name: 'X', colour: '9' }])).toBe(false);
+    expect(
+      isCalendarList([
+        { id: 'a', name: 'X', colour: '1' },
+        { id: 'a', name: 'Y', colour: '2' },
+      ])
+    ).toBe(false);
+  });
+});
+
+describe('calendarOf', () => {
+  it('finds the calendar, falling back to the first one', () => {
+    expect(calendarOf({ calendarId: 'work' }, DEFAULT_CALENDARS).name).toBe('Work');
+    expect(calendarOf({}, DEFAULT_CALENDARS)).toBe(DEFAULT_CALENDARS[0]);
+    expect(calendarOf({ calendarId: 'deleted' }, DEFAULT_CALENDARS)).toBe(DEFAULT_CALENDARS[0]);
+  });
+});
+
+describe('createCalendar', () => {
+  it('trims the name and assigns an id', () => {
+    expect(createCalendar('  Gym ', '5')).toEqual({
+      id: expect.any(String),
+      name: 'Gym',
+      colour: '5',
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { v4 as uuidv4 } from 'uuid';
+
+import type { ICalendar, IEvent, TCalendarEvent } from '../types/Calendar';
+import { isColourValue } from './colours';
+import { isReminderList } from './reminders';
+
+/* -------------------------
+   Calendars
+   ------------------------- */
+
+/** Calendars a new install starts with. */
+export const DEFAULT_CALENDARS: ICalendar[] = [
+  { id: 'personal', name: 'Personal', colour: '2' },
+  { id: 'work', name: 'Work', colour: '1' },
+  { id: 'team', name: 'Team', colour: '4' },
+  { id: 'holidays', name: 'Holidays', colour: '3' },
+];
+
+/** True when `value` is a usable calendar list: non-empty, well-formed, unique ids. */
+export function isCalendarList(value: unknown): value is ICalendar[] {
+  if (!Array.isArray(value) || value.length === 0) return false;
+  const ids = new Set<string>();
+  return value.every((c) => {
+    const ok =
+      c !== null &&
+      typeof c === 'object' &&
+      typeof c.id === 'string' &&
+      c.id !== '' &&
+      !ids.has(c.id) &&
+      typeof c.name === 'string' &&
+      isColourValue(c.colour) &&
+      (c.readOnly === undefined || typeof c.readOnly === 'boolean') &&
+      (c.defaultReminders === undefined || isReminderList(c.defaultReminders));
+    if (ok) ids.add(c.id);
+    return ok;
+  });
+}
+
+/** A new calendar with a fresh id. */
+export const createCalendar = (name: string, colour: string): ICalendar => ({
+  id: uuidv4(),
+  name: name.trim(),
+  colour,
+});
+
+/**
+ * Calendar an event belongs to. Events without a calendar, or whose calendar was deleted,
+ * belong to the first one, so every event always has a calendar.
+ */
+export const calendarOf = (
+  event: Pick<IEvent | TCalendarEvent, 'calendarId'>,
+  calendars: ICalendar[]
+): ICalendar => calendars.find((c) => c.id === event.calendarId) ?? calendars[0];
+
+/** True when the event cannot be changed: it is read-only itself, or its calendar is. */
+export const isReadOnlyEvent = (
+  event: Pick<IEvent | TCalendarEvent, 'calendarId' | 'readOnly'>,
+  calendars: ICalendar[]
+) => !!event.readOnly || !!calendarOf(event, calendars).readOnly;
+
+/** Calendar new events go into: the first one that is not read-only. */
+export const defaultCalendarOf = (calendars: ICalendar[]) =>
+  calendars.find((c) => !c.readOnly) ?? calendars[0];
+
+/**
+ * Reminders that apply to an event: its own list when it has one (an empty list turns them
+ * off), else its calendar's defaults.
+ */
+export const remindersOf = (
+  event: Pick<IEvent, 'reminders' | 'calendarId'>,
+  calendars: ICalendar[]
+): number[] => event.reminders ?? calendarOf(event, calendars).defaultReminders ?? [];
@@ -0,0 +1,42 @@
+import { COLOURS } from './constants';
+
+/* -------------------------
+   Colours
+   ------------------------- */
+
+/*
+  An event, calendar or type colour is either the index ("1".."n") of a built-in colour,
+  which has light/dark variants in the stylesheet, or any "#rrggbb" value. `colourCss` turns
+  either into a CSS colour, so nothing else needs to tell them apart.
+*/
+
+/** The lighter or text variants a colour is drawn in (see the --event-default-colour-* vars). */
+export type ColourShade = '70' | '30' | '10' | 'marker' | 'text';
+
+const HEX_COLOUR = /^#[0-9a-f]{6}$/i;
+
+// opacity of the translucent shades, in percent
+const SHADE_OPACITY: Partial<Record<ColourShade, number>> = { '70': 70, '30': 30, '10': 10 };
+
+export const isHexColour = (value: unknown): value is string =>
+  typeof value === 'string' && HEX_COLOUR.test(value);
+
+/** True for a built-in colour index or a "#rrggbb" value. */
+export const isColourValue = (value: unknown): value is string =>
+  isHexColour(value) ||
+  (typeof value === 'string' &&
+    Number.isInteger(Number(value)) &&
+    Number(value) >= 1 &&
+    Number(value) <= COLOURS.length);
+
+/** The built-in colours, as stored ("1".."n"). */
+export const BUILT_IN_COLOURS = COLOURS.map((_, i) => `${i + 1}`);
+
+/** CSS for `colour` in `shade` (the plain colour when omitted); unset means the first built-in. */
+export const colourCss = (colour: string | undefined, shade?: ColourShade) => {
+  if (isHexColour(colour)) {
+    const opacity = shade && SHADE_OPACITY[shade];
+    return opacity ? `color-mix(in srgb, ${colour} ${opacity}%, transparent)` : colour;
+  }
+  return `var(--event-default-colour-${colour || '1'}${shade ? `-${shade}` : ''})`;
+};
@@ -12,16 +12,6 @@ export const COLOURS = [
   '--event-default-colour-5',
 ];
 export const DEFAULT_START_HOUR = 9;
-export const EVENT_TYPE = [
-  'birthday',
-  'holiday',
-  'meeting',
-  'other',
-  'personal',
-  'reminder',
-  'task',
-  'work',
-];
 export const PREDEFINED_DURATIONS = [
   { label: '15 minutes', value: 15 },
   { label: '30 minutes', value: 30 },
@@ -32,3 +22,5 @@ export const PREDEFINED_DURATIONS = [
   { label: '2.5 hours', value: 150 },
   { label: '3 hours', value: 180 },
 ];
+// extra time-zone gutters shown next to the hour labels in day/week views
+export const MAX_SECONDARY_TIME_ZONES = 3;
@@ -0,0 +1,181 @@
+import { describe, expect, it } from 'vitest';
+
+import type { IEvent } from '../types/Calendar';
+import {
+  csvRowsToEvents,
+  detectDelimiter,
+  guessMapping,
+  parseCsv,
+  parseCsvDate,
+  serializeEventsCsv,
+} from './csv';
+
+const LISBON = 'Europe/Lisbon';
+
+describe('parseCsv', () => {
+  it('handles quoted cells with delimiters, quotes and line breaks', () => {
+    const rows = parseCsv('title;notes\r\n"A; B";"say ""hi""\nthere"\r\n\r\nC;\n', ';');
+
+    expect(rows).toEqual([
+      { cells: ['title', 'notes'], line: 1 },
+      { cells: ['A; B', 'say "hi"\nthere'], line: 2 },
+      { cells: ['C', ''], line: 5 },
+    ]);
+  });
+
+  it('detects the delimiter', () => {
+    expect(detectDelimiter('a;b;c\n1;2,5;3')).toBe(';');
+    expect(detectDelimiter('a\tb\n1\t2')).toBe('\t');
+    expect(detectDelimiter('a,b\n"x;y",2')).toBe(',');
+  });
+});
+
+describe('parseCsvDate', () => {
+  it('reads the configured formats in the given zone', () => {
+    expect(parseCsvDate('31/07/2024 14:30', 'dd/MM/yyyy', LISBON)).toEqual({
+      date: new Date('2024-07-31T13:30:00Z'),
+      hasTime: true,
+    });
+    expect(parseCsvDate('07/31/2024 2:30 PM', 'MM/dd/yyyy', LISBON)?.date).toEqual(
+      new Date('2024-07-31T13:30:00Z')
+    );
+    expect(parseCsvDate('2024-07-31', 'iso', LISBON)).toEqual({
+      date: new Date('2024-07-30T23:00:00Z'),
+      hasTime: false,
+    });
+    expect(parseCsvDate('2024-07-31T09:00:00-03:00', 'iso', LISBON)?.date).toEqual(
+      new Date('2024-07-31T12:00:00Z')
+    );
+    expect(parseCsvDate('2024-02-31', 'iso', LISBON)).toBeNull();
+    expect(parseCsvDate('31/07/2024', 'MM/dd/yyyy', LISBON)).toBeNull();
+  });
+});
+
+describe('csvRowsToEvents', () => {
+  it('maps columns, applies defaults and reports failing rows by line', () => {
+    const [header, ...rows] = parseCsv(
+      [
+        'Subject,Start Date,End Date,Category,Notes',
+        'Review,31/07/2024 14:30,31/07/2024 15:00,work,Bring slides',
+        'Offsite,01/08/2024,02/08/2024,,',
+        'Broken,tomorrow,,,',
+        'Backwards,31/07/2024 15:00,31/07/2024 14:00,,',
+        'Party,31/07/2024 20:00,,fiesta,',
+      ].join('\n'),
+      ','
+    );
+    const mapping = guessMapping(header.cells);
+
+    expect(mapping).toEqual({ title: 0, start: 1, end: 2, type: 3, description: 4 });
+
+    const { events, errors } = csvRowsToEvents(rows, {
+      mapping,
+      dateFormat: 'dd/MM/yyyy',
+      timeZone: LISBON,
+      defaultType: 'other',
+      defaultColour: '2',
+    });
+
+    expect(events).toEqual([
+      {
+        title: 'Review',
+        description: 'Bring slides',
+        start: '2024-07-31T13:30:00.000Z',
+        end: '2024-07-31T14:00:00.000Z',
+        allDay: false,
+        type: 'work',
+        colour: '2',
+        timeZone: LISBON,
+        recurrence: undefined,
+      },
+      // dates without times are all-day; the last day is inclusive in the sheet
+      expect.objectContaining({
+        title: 'Offsite',
+        allDay: true,
+        start: '2024-07-31T23:00:00.000Z',
+        end: '2024-08-02T23:00:00.000Z',
+        type: 'other',
+      }),
+    ]);
+    expect(errors).toEqual([
+      { line: 4, reason: 'invalid start "tomorrow"' },
+      { line: 5, reason: 'end is before start' },
+      { line: 6, reason: 'unknown type "fiesta"' },
+    ]);
+  });
+});
+
+describe('serializeEventsCsv', () => {
+  it('round-trips through the importer', () => {
+    const events: Omit<IEvent, 'id'>[] = [
+      {
+        title: 'Standup, daily',
+        description: 'Line one\nLine two',
+        location: 'Room 4, floor 2',
+        start: '2024-01-01T09:00:00.000Z',
+        end: '2024-01-01T09:15:00.000Z',
+        timeZone: 'America/Sao_Paulo',
+        type: 'meeting',
+        colour: '3',
+        recurrence: { freq: 'weekly', byDay: ['MO'], count: 4 },
+      },
+      {
+        title: 'Holiday',
+        start: '2024-06-09T23:00:00.000Z',
+        end: '2024-06-12T23:00:00.000Z',
+        allDay: true,
+        timeZone: LISBON,
+      },
+    ];
+    const text = serializeEventsCsv(events.map((event, i) => ({ ...event, id: i })));
+
+    expect(text.split('\r\n')[2]).toBe('Holiday,2024-06-10,2024-06-12,true,,,,,Europe/Lisbon,');
+
+    const [header, ...rows] = parseCsv(text, detectDelimiter(text));
+    const { events: imported, errors } = csvRowsToEvents(rows, {
+      mapping: guessMapping(header.cells),
+      dateFormat: 'iso',
+    });
+
+    expect(errors).toEqual([]);
+    expect(imported).toEqual(events.map((event) => expect.objectContaining(event)));
+  });
+
+  it('lists an all-day event ending at its start on that one day', () => {
+    const text = serializeEventsCsv([
+      {
+        id: 1,
+        title: 'Holiday',
+        start: '2024-06-09T23:00:00.000Z',
+        end: '2024-06-09T23:00:00.000Z',
+        allDay: true,
+        timeZone: LISBON,
+      },
+    ]);
+
+    expect(text.split('\r\n')[1]).toBe('Holiday,2024-06-10,2024-06-10,true,,,,,Europe/Lisbon,');
+  });
+
+  it('writes formula-like cells as text and reads them back', () => {
+    const event: Omit<IEvent, 'id'> = {
+      title: '=HYPERLINK("http://example.com","Click")',
+      description: '+1 555 0100',
+      location: '@home',
+      start: '2024-01-01T09:00:00.000Z',
+      end: '2024-01-01T10:00:00.000Z',
+      timeZone: 'UTC',
+    };
+    const text = serializeEventsCsv([{ ...event, id: 1 }]);
+
+    expect(text.split('\r\n')[1]).toBe(
+      `"'=HYPERLINK(""http://example.com"",""Click"")",2024-01-01T09:00:00+00:00,2024-01-01T10:00:00+00:00,false,,,'+1 555 0100,'@home,UTC,`
+    );
+
+    const [header, ...rows] = parseCsv(text, detectDelimiter(text));
+    const { events: imported } = csvRowsToEvents(rows, {
+      mapping: guessMapping(header.cells),
+      dateFormat: 'iso',
+    });
+    expect(imported).toEqual([expect.objectContaining(event)]);
+  });
+});
@@ -0,0 +1,405 @@
+import { addDays, addHours, format, isValid, parse, startOfDay } from 'date-fns';
+
+import type { IEvent, IEventType, IRecurrenceRule } from '../types/Calendar';
+import { isColourValue } from './colours';
+import { COLOURS } from './constants';
+import { DEFAULT_EVENT_TYPES, findEventType } from './eventTypes';
+import { formatRRule, parseRRule } from './ical';
+import { isRecurring } from './recurrence';
+import {
+  formatUtcOffset,
+  fromZonedTime,
+  isValidTimeZone,
+  localTimeZone,
+  toZonedTime,
+} from './timeZones';
+
+/*
+  CSV import/export of events, for spreadsheets.
+  Export writes one row per stored event; import maps arbitrary columns onto event fields
+  and reports problems per row instead of failing the whole file.
+*/
+
+/* -------------------------
+   Reading and writing CSV
+   ------------------------- */
+
+export const CSV_DELIMITERS = [',', ';', '\t', '|'] as const;
+export type CsvDelimiter = (typeof CSV_DELIMITERS)[number];
+
+export type CsvRow = {
+  cells: string[];
+  // 1-based line in the source where the row starts
+  line: number;
+};
+
+/**
+ * Split CSV text into rows (RFC 4180: quoted cells may hold delimiters, doubled quotes and
+ * line breaks). Blank lines are dropped.
+ */
+export function parseCsv(text: string, delimiter: CsvDelimiter): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.length > 1 || cells[0].trim() !== '') rows.push({ cells, line: rowLine });
+    cells = [];
+    cell = '';
+  };
+
+  const source = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (inQuotes) {
+      if (ch === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        if (ch === '\n') line++;
+        cell += ch;
+      }
+    } else if (ch === '"' && cell === '') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (ch === '\r' || ch === '\n') {
+      if (ch === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== '' || cells.length > 0) endRow();
+
+  return rows;
+}
+
+/**
+ * Guess the delimiter from the first lines: the candidate that splits them into the same,
+ * largest number of cells. Falls back to a comma.
+ */
+export function detectDelimiter(text: string): CsvDelimiter {
+  const sample = text.split(/\r\n|\n|\r/, 20).join('\n');
+  let best: CsvDelimiter = ',';
+  let bestScore = 0;
+
+  CSV_DELIMITERS.forEach((delimiter) => {
+    const counts = parseCsv(sample, delimiter)
+      .slice(0, 10)
+      .map((row) => row.cells.length);
+    if (counts.length === 0 || counts[0] < 2) return;
+    // rows that agree with the header count for more than a delimiter seen once
+    const score = counts.filter((c) => c === counts[0]).length * counts[0];
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+
+  return best;
+}
+
+/**
+ * Quote a cell when it holds the delimiter, quotes, line breaks or edge spaces.
+ * Cells a spreadsheet would run as a formula get a leading apostrophe first, so an event
+ * titled "=HYPERLINK(...)" opens as text.
+ */
+const quoteCell = (text: string, delimiter: string) => {
+  const value = /^[=+\-@]/.test(text) ? `'${text}` : text;
+  return value.includes(delimiter) || /["\r\n]/.test(value) || value.trim() !== value
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+};
+
+/** Write rows as CSV text (CRLF line endings, as spreadsheets expect). */
+export function toCsv(rows: string[][], delimiter: CsvDelimiter = ','): string {
+  return rows.map((row) => row.map((c) => quoteCell(c, delimiter)).join(delimiter)).join('\r\n');
+}
+
+/* -------------------------
+   Fields and formats
+   ------------------------- */
+
+export const CSV_FIELDS = [
+  'title',
+  'start',
+  'end',
+  'allDay',
+  'type',
+  'colour',
+  'description',
+  'location',
+  'timeZone',
+  'recurrence',
+] as const;
+export type CsvField = (typeof CSV_FIELDS)[number];
+
+// column index per field; unmapped fields are left out
+export type CsvMapping = Partial<Record<CsvField, number>>;
+
+// header names (lower case, without spaces/punctuation) recognised for each field
+const FIELD_ALIASES: Record<CsvField, string[]> = {
+  title: ['title', 'subject', 'summary', 'name', 'event'],
+  start: ['start', 'starts', 'startdate', 'startdatetime', 'begin', 'from', 'date'],
+  end: ['end', 'ends', 'enddate', 'enddatetime', 'finish', 'to', 'until'],
+  allDay: ['allday', 'alldayevent', 'fullday'],
+  type: ['type', 'category', 'kind'],
+  colour: ['colour', 'color'],
+  description: ['description', 'details', 'notes', 'body'],
+  location: ['location', 'where', 'place', 'venue', 'room'],
+  timeZone: ['timezone', 'tz', 'zone', 'tzid'],
+  recurrence: ['recurrence', 'rrule', 'repeat', 'repeats'],
+};
+
+const normaliseHeader = (header: string) => header.toLowerCase().replace(/[^a-z]/g, '');
+
+/** Map header names onto fields (case and punctuation are ignored; first match wins). */
+export function guessMapping(headers: string[]): CsvMapping {
+  const mapping: CsvMapping = {};
+  const names = headers.map(normaliseHeader);
+  CSV_FIELDS.forEach((field) => {
+    const index = names.findIndex(
+      (name, i) => FIELD_ALIASES[field].includes(name) && !Object.values(mapping).includes(i)
+    );
+    if (index !== -1) mapping[field] = index;
+  });
+  return mapping;
+}
+
+// date part of the supported formats; times (HH:mm, HH:mm:ss, h:mm a) may follow
+export const CSV_DATE_FORMATS = [
+  { value: 'iso', label: 'ISO 8601 (2024-07-31 14:30)' },
+  { value: 'dd/MM/yyyy', label: 'Day first (31/07/2024 14:30)' },
+  { value: 'MM/dd/yyyy', label: 'Month first (07/31/2024 2:30 PM)' },
+  { value: 'dd.MM.yyyy', label: 'Dotted (31.07.2024 14:30)' },
+  { value: 'yyyy/MM/dd', label: 'Year first (2024/07/31 14:30)' },
+] as const;
+export type CsvDateFormat = (typeof CSV_DATE_FORMATS)[number]['value'];
+
+const TIME_PATTERNS = ['HH:mm:ss', 'HH:mm', 'H:mm', 'h:mm a', 'h:mma', 'h a'];
+
+type CsvDate = { date: Date; hasTime: boolean };
+
+/**
+ * Parse a date cell in `dateFormat`. Values without an explicit offset are wall-clock times
+ * in `timeZone`; ISO values with `Z` or an offset are taken as-is. Null when unreadable.
+ */
+export function parseCsvDate(
+  value: string,
+  dateFormat: CsvDateFormat,
+  timeZone: string
+): CsvDate | null {
+  const text = value.trim();
+  if (text === '') return null;
+
+  if (dateFormat === 'iso') {
+    const match =
+      /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/.exec(
+        text
+      );
+    if (!match) return null;
+    const [, y, mo, d, h, mi, s, offset] = match;
+    if (offset) {
+      const date = new Date(text.replace(' ', 'T').replace(/([+-]\d{2})(\d{2})$/, '$1:$2'));
+      return isValid(date) ? { date, hasTime: true } : null;
+    }
+    const wallClock = new Date(+y, +mo - 1, +d, +(h ?? 0), +(mi ?? 0), +(s ?? 0));
+    // reject overflowing values such as 2024-02-31
+    if (!isValid(wallClock) || wallClock.getDate() !== +d || wallClock.getMonth() !== +mo - 1) {
+      return null;
+    }
+    return { date: fromZonedTime(wallClock, timeZone), hasTime: h !== undefined };
+  }
+
+  const reference = new Date(2000, 0, 1);
+  for (const pattern of [dateFormat, ...TIME_PATTERNS.map((t) => `${dateFormat} ${t}`)]) {
+    const wallClock = parse(text, pattern, reference);
+    if (isValid(wallClock)) {
+      return { date: fromZonedTime(wallClock, timeZone), hasTime: pattern !== dateFormat };
+    }
+  }
+  return null;
+}
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'x'];
+const FALSE_VALUES = ['false', 'no', 'n', '0', ''];
+
+/* -------------------------
+   Import
+   ------------------------- */
+
+export type CsvRowError = { line: number; reason: string };
+
+export type CsvImportOptions = {
+  mapping: CsvMapping;
+  dateFormat: CsvDateFormat;
+  // zone for wall-clock dates, and for rows without a time zone column
+  timeZone?: string;
+  // types a row's type can name (by id or name); the built-in ones by default
+  types?: IEventType[];
+  // values for rows that leave type/colour empty
+  defaultType?: string;
+  defaultColour?: string;
+};
+
+export type CsvImportResult = {
+  events: Omit<IEvent, 'id'>[];
+  errors: CsvRowError[];
+};
+
+/** Build one event from a row; throws with a readable reason when the row is invalid. */
+function rowToEvent(
+  cells: string[],
+  options: CsvImportOptions & { timeZone: string }
+): Omit<IEvent, 'id'> {
+  const { mapping, dateFormat } = options;
+  const cell = (field: CsvField) => {
+    const index = mapping[field];
+    // drop the apostrophe the exporter puts before formula-like cells
+    return index === undefined ? '' : (cells[index] ?? '').trim().replace(/^'(?=[=+\-@])/, '');
+  };
+
+  const timeZone = cell('timeZone') || options.timeZone;
+  if (!isValidTimeZone(timeZone)) throw new Error(`unknown time zone "${timeZone}"`);
+
+  const startText = cell('start');
+  if (!startText) throw new Error('missing start');
+  const start = parseCsvDate(startText, dateFormat, timeZone);
+  if (!start) throw new Error(`invalid start "${startText}"`);
+
+  const endText = cell('end');
+  const end = endText ? parseCsvDate(endText, dateFormat, timeZone) : null;
+  if (endText && !end) throw new Error(`invalid end "${endText}"`);
+
+  const allDayText = cell('allDay').toLowerCase();
+  let allDay: boolean;
+  if (mapping.allDay === undefined) allDay = !start.hasTime && (!end || !end.hasTime);
+  else if (TRUE_VALUES.includes(allDayText)) allDay = true;
+  else if (FALSE_VALUES.includes(allDayText)) allDay = false;
+  else throw new Error(`invalid all-day value "${cell('allDay')}"`);
+
+  let startDate = start.date;
+  let endDate: Date;
+  if (allDay) {
+    // spreadsheets list the last day; events store the (exclusive) day after it
+    const startDay = startOfDay(toZonedTime(start.date, timeZone));
+    const lastDay = end ? startOfDay(toZonedTime(end.date, timeZone)) : startDay;
+    startDate = fromZonedTime(startDay, timeZone);
+    endDate = fromZonedTime(addDays(lastDay, 1), timeZone);
+  } else {
+    endDate = end ? end.date : addHours(start.date, 1);
+  }
+  if (endDate < startDate) throw new Error('end is before start');
+
+  let type = options.defaultType;
+  if (cell('type')) {
+    type = findEventType(cell('type'), options.types ?? DEFAULT_EVENT_TYPES)?.id;
+    if (!type) throw new Error(`unknown type "${cell('type')}"`);
+  }
+
+  const colour = cell('colour') || options.defaultColour;
+  if (colour && !isColourValue(colour)) {
+    throw new Error(`invalid colour "${colour}" (use 1 to ${COLOURS.length} or #rrggbb)`);
+  }
+
+  let recurrence: IRecurrenceRule | undefined;
+  const rrule = cell('recurrence').replace(/^RRULE:/i, '');
+  if (rrule) {
+    try {
+      recurrence = parseRRule(rrule, timeZone);
+    } catch (error) {
+      throw new Error(`invalid recurrence: ${(error as Error).message}`);
+    }
+  }
+
+  return {
+    title: cell('title') || '(No title)',
+    description: cell('description') || undefined,
+    location: cell('location') || undefined,
+    start: startDate.toISOString(),
+    end: endDate.toISOString(),
+    allDay,
+    type,
+    colour,
+    timeZone,
+    recurrence,
+  };
+}
+
+/**
+ * Turn data rows (header excluded) into events ready for `addEventsBulk`.
+ * Invalid rows are reported with their line number and left out.
+ */
+export function csvRowsToEvents(rows: CsvRow[], options: CsvImportOptions): CsvImportResult {
+  const timeZone =
+    options.timeZone && isValidTimeZone(options.timeZone) ? options.timeZone : localTimeZone();
+  const result: CsvImportResult = { events: [], errors: [] };
+
+  rows.forEach(({ cells, line }) => {
+    try {
+      result.events.push(rowToEvent(cells, { ...options, timeZone }));
+    } catch (error) {
+      result.errors.push({ line, reason: (error as Error).message });
+    }
+  });
+
+  return result;
+}
+
+/* -------------------------
+   Export
+   ------------------------- */
+
+/**
+ * Write stored events as CSV, one row per event (recurring events once, with their RRULE;
+ * EXDATEs are not kept).
+ * Dates are ISO 8601 in the event's zone with its offset, so they read naturally and import
+ * back unambiguously; all-day events list their first and last day.
+ */
+export function serializeEventsCsv(events: IEvent[]): string {
+  const header: string[] = [...CSV_FIELDS];
+
+  const rows = [...events]
+    .sort((a, b) => a.start.localeCompare(b.start))
+    .map((event) => {
+      const timeZone = isValidTimeZone(event.timeZone) ? event.timeZone : localTimeZone();
+      const start = new Date(event.start);
+      const end = new Date(event.end);
+      const formatDate = (date: Date) =>
+        event.allDay
+          ? format(toZonedTime(date, timeZone), 'yyyy-MM-dd')
+          : format(toZonedTime(date, timeZone), "yyyy-MM-dd'T'HH:mm:ss") +
+            formatUtcOffset(timeZone, date).replace('UTC', '');
+      // the last day an all-day event covers (its stored end is exclusive)
+      const last = event.allDay && end > start ? new Date(end.getTime() - 1) : end;
+
+      const values: Record<CsvField, string> = {
+        title: event.title,
+        start: formatDate(start),
+        end: isValid(last) ? formatDate(last) : '',
+        allDay: event.allDay ? 'true' : 'false',
+        type: event.type ?? '',
+        colour: event.colour ?? '',
+        description: event.description ?? '',
+        location: event.location ?? '',
+        timeZone,
+        recurrence:
+          event.recurrence && isRecurring(event)
+            ? formatRRule(event.recurrence, !!event.allDay, timeZone)
+            : '',
+      };
+      return CSV_FIELDS.map((field) => values[field]);
+    });
+
+  return toCsv([header, ...rows]) + '\r\n';
+}
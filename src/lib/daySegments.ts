@@ -0,0 +1,47 @@
+import { addDays, differenceInMinutes, isSameDay, startOfDay } from 'date-fns';
+
+import type { TCalendarEvent } from '../types/Calendar';
+
+/** The part of an event drawn in a day column: its segment, or the whole event. */
+export const displayRange = (event: TCalendarEvent) =>
+  event.segment ?? { start: event.start, end: event.end };
+
+/** True for the pieces of a multi-day event after the day it starts on. */
+export const isContinuation = (event: TCalendarEvent) => !!event.segment && event.segment.index > 0;
+
+/**
+ * Id used for drag-and-drop and DOM lookups. Segments keep their event's id (so editing,
+ * selecting and deleting act on the event) but need distinct draggable ids.
+ */
+export const dragIdOf = (event: TCalendarEvent) =>
+  event.segment ? `${event.id}#${event.segment.index}` : event.id;
+
+/**
+ * Split a timed event that runs past midnight into one segment per day it covers.
+ * The first segment keeps the real start, the others start at midnight; an end exactly at
+ * midnight is exclusive. Each segment's `duration` and `slot` describe that day's piece,
+ * while `start`/`end` stay those of the whole event.
+ * All-day and single-day events are returned unchanged.
+ */
+export function splitIntoDaySegments(event: TCalendarEvent): TCalendarEvent[] {
+  const { start, end } = event;
+  if (event.allDay || end <= start || isSameDay(start, new Date(end.getTime() - 1))) {
+    return [event];
+  }
+
+  const days: Date[] = [];
+  for (let day = startOfDay(start); day < end; day = addDays(day, 1)) {
+    days.push(day);
+  }
+
+  return days.map((day, index) => {
+    const segmentStart = index === 0 ? start : day;
+    const segmentEnd = index === days.length - 1 ? end : addDays(day, 1);
+    return {
+      ...event,
+      duration: differenceInMinutes(segmentEnd, segmentStart),
+      slot: Math.floor(segmentStart.getMinutes() / 15),
+      segment: { start: segmentStart, end: segmentEnd, index, count: days.length },
+    };
+  });
+}
@@ -0,0 +1,12 @@
+/** Save `content` as a file through a temporary object URL (browser only). */
+export function downloadFile(fileName: string, content: BlobPart, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // let the click start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+
+import { eventProblems, isEvent } from './eventSchema';
+
+const valid = {
+  id: 1,
+  title: 'Standup',
+  start: '2024-03-04T09:00:00.000Z',
+  end: '2024-03-04T09:15:00.000Z',
+};
+
+describe('eventProblems', () => {
+  it('accepts valid events, with nulls and unknown fields', () => {
+    expect(eventProblems(valid)).toEqual([]);
+    expect(
+      isEvent({
+        ...valid,
+        id: 'abc',
+        allDay: false,
+        description: null,
+        timeZone: 'Europe/Lisbon',
+        recurrence: { freq: 'weekly', interval: 2, byDay: ['MO', 'WE'] },
+        futureField: 42,
+      })
+    ).toBe(true);
+  });
+
+  it('lists every problem', () => {
+    expect(eventProblems(null)).toEqual(['not an object']);
+    expect(eventProblems({ id: '', start: 'soon', end: 3, allDay: 'yes' })).toEqual([
+      'missing id',
+      'missing title',
+      'invalid start',
+      'invalid end',
+      'invalid all-day flag',
+    ]);
+    expect(eventProblems({ ...valid, colour: 3, timeZone: 'Mars/Olympus' })).toEqual([
+      'invalid colour',
+      'unknown time zone "Mars/Olympus"',
+    ]);
+  });
+
+  it('checks recurrence rules', () => {
+    expect(
+      eventProblems({
+        ...valid,
+        recurrence: { freq: 'hourly', interval: 0, byDay: ['XX'], exDates: ['never'] },
+      })
+    ).toEqual([
+      'invalid recurrence frequency',
+      'invalid recurrence interval',
+      'invalid recurrence weekdays',
+      'invalid recurrence exceptions',
+    ]);
+    expect(eventProblems({ ...valid, recurrence: 'weekly' })).toEqual(['invalid recurrence']);
+  });
+
+  it('refuses reminders further ahead than the scheduler looks', () => {
+    expect(eventProblems({ ...valid, reminders: [0, 10080] })).toEqual([]);
+    expect(eventProblems({ ...valid, reminders: [20160] })).toEqual(['invalid reminders']);
+  });
+});
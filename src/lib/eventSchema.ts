@@ -0,0 +1,133 @@
+import type { ByDay, IEvent } from '../types/Calendar';
+import { isAttachmentList } from './attachments';
+import { parseByDay } from './recurrence';
+import { isReminderList } from './reminders';
+import { isValidTimeZone } from './timeZones';
+
+/*
+  Runtime schema for IEvent. Stored and incoming data is only JSON that claims to be an
+  event; these checks make sure every field the views read is usable before it gets there.
+  Unknown extra fields are allowed (newer versions may add some), and optional fields may
+  be null as well as missing (servers often send null).
+*/
+
+const FREQUENCIES = ['daily', 'weekly', 'monthly', 'yearly'];
+const ATTENDEE_STATUSES = ['needs-action', 'accepted', 'tentative', 'declined'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isAbsent = (value: unknown) => value === undefined || value === null;
+
+const isDateString = (value: unknown) =>
+  typeof value === 'string' && value !== '' && Number.isFinite(new Date(value).getTime());
+
+const isPositiveInteger = (value: unknown) =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+const isId = (value: unknown) =>
+  (typeof value === 'string' && value.trim() !== '') ||
+  (typeof value === 'number' && Number.isFinite(value));
+
+/** Problems with an attendee list, or an empty list when it is usable. */
+function attendeesProblems(attendees: unknown): string[] {
+  if (!Array.isArray(attendees)) return ['invalid attendees'];
+  const problems: string[] = [];
+  attendees.forEach((a, i) => {
+    if (
+      !isObject(a) ||
+      typeof a.name !== 'string' ||
+      typeof a.email !== 'string' ||
+      !ATTENDEE_STATUSES.includes(a.status as string) ||
+      (!isAbsent(a.optional) && typeof a.optional !== 'boolean') ||
+      (!isAbsent(a.organizer) && typeof a.organizer !== 'boolean')
+    ) {
+      problems.push(`invalid attendee ${i + 1}`);
+    }
+  });
+  return problems;
+}
+
+/** Problems with a recurrence rule, or an empty list when it is usable. */
+function recurrenceProblems(rule: unknown): string[] {
+  if (!isObject(rule)) return ['invalid recurrence'];
+
+  const problems: string[] = [];
+  if (!FREQUENCIES.includes(rule.freq as string)) problems.push('invalid recurrence frequency');
+  if (!isAbsent(rule.interval) && !isPositiveInteger(rule.interval)) {
+    problems.push('invalid recurrence interval');
+  }
+  if (!isAbsent(rule.count) && !isPositiveInteger(rule.count)) {
+    problems.push('invalid recurrence count');
+  }
+  if (!isAbsent(rule.until) && !isDateString(rule.until)) {
+    problems.push('invalid recurrence end date');
+  }
+  if (
+    !isAbsent(rule.byDay) &&
+    (!Array.isArray(rule.byDay) ||
+      rule.byDay.some((d) => typeof d !== 'string' || parseByDay(d as ByDay) === null))
+  ) {
+    problems.push('invalid recurrence weekdays');
+  }
+  if (
+    !isAbsent(rule.exDates) &&
+    (!Array.isArray(rule.exDates) || !rule.exDates.every(isDateString))
+  ) {
+    problems.push('invalid recurrence exceptions');
+  }
+  return problems;
+}
+
+/**
+ * Everything wrong with a value that should be an IEvent, as short phrases
+ * ("missing title", "invalid start"); an empty list means it is a valid event.
+ */
+export function eventProblems(value: unknown): string[] {
+  if (!isObject(value)) return ['not an object'];
+
+  const problems: string[] = [];
+  if (!isId(value.id)) problems.push('missing id');
+  if (typeof value.title !== 'string') problems.push('missing title');
+  if (!isDateString(value.start)) problems.push('invalid start');
+  if (!isDateString(value.end)) problems.push('invalid end');
+
+  if (!isAbsent(value.allDay) && typeof value.allDay !== 'boolean') {
+    problems.push('invalid all-day flag');
+  }
+  if (!isAbsent(value.readOnly) && typeof value.readOnly !== 'boolean') {
+    problems.push('invalid read-only flag');
+  }
+  (['description', 'location', 'type', 'colour', 'calendarId'] as const).forEach((field) => {
+    if (!isAbsent(value[field]) && typeof value[field] !== 'string') {
+      problems.push(`invalid ${field}`);
+    }
+  });
+  if (
+    !isAbsent(value.timeZone) &&
+    (typeof value.timeZone !== 'string' || !isValidTimeZone(value.timeZone))
+  ) {
+    problems.push(`unknown time zone "${String(value.timeZone)}"`);
+  }
+  if (!isAbsent(value.recurrence)) problems.push(...recurrenceProblems(value.recurrence));
+  if (!isAbsent(value.attendees)) problems.push(...attendeesProblems(value.attendees));
+  if (!isAbsent(value.reminders) && !isReminderList(value.reminders)) {
+    problems.push('invalid reminders');
+  }
+  if (!isAbsent(value.attachments) && !isAttachmentList(value.attachments)) {
+    problems.push('invalid attachments');
+  }
+  if (
+    !isAbsent(value.occurrenceOf) &&
+    (!isObject(value.occurrenceOf) ||
+      !isId(value.occurrenceOf.id) ||
+      typeof value.occurrenceOf.offset !== 'number')
+  ) {
+    problems.push('invalid occurrence reference');
+  }
+
+  return problems;
+}
+
+/** True when `value` can safely be used as an IEvent. */
+export const isEvent = (value: unknown): value is IEvent => eventProblems(value).length === 0;
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+
+import type { IEventType } from '@/types/Calendar';
+import { colourCss } from './colours';
+import {
+  createEventType,
+  DEFAULT_EVENT_TYPES,
+  findEventType,
+  isEventTypeList,
+  orphanTypesOf,
+  typeOf,
+} from './eventTypes';
+
+const types: IEventType[] = [
+  { id: 'work', name: 'Work', icon: 'briefcase', colour: '1' },
+  { id: 'other', name: 'Other', icon: 'tag', colour: '#ff8800' },
+];
+
+describe('event types', () => {
+  it('gives new types unique ids that survive renames, and finds them by name or id', () => {
+    const gym = createEventType('  Gym & Sport ', types, 'dumbbell', '#00aa00');
+    expect(gym).toEqual({
+      id: 'gym-sport',
+      name: 'Gym & Sport',
+      icon: 'dumbbell',
+      colour: '#00aa00',
+    });
+    expect(createEventType('work', types).id).toBe('work-2');
+    expect(createEventType('!!!', types).id).toBe('type');
+
+    expect(findEventType('WORK', types)?.id).toBe('work');
+    expect(findEventType('gym & sport', [...types, gym])?.id).toBe('gym-sport');
+    expect(findEventType('Travel', types)).toBeUndefined();
+
+    expect(isEventTypeList(DEFAULT_EVENT_TYPES)).toBe(true);
+    expect(isEventTypeList([...types, types[0]])).toBe(false);
+    expect(isEventTypeList([{ ...types[0], colour: 'red' }])).toBe(false);
+    expect(isEventTypeList([])).toBe(false);
+  });
+
+  it('keeps events with unknown types showing and counts them for migration', () => {
+    expect(typeOf(undefined, types).name).toBe('Other');
+    expect(typeOf('health', types)).toEqual({
+      id: 'health',
+      name: 'health',
+      icon: 'tag',
+      colour: '1',
+    });
+    expect(
+      orphanTypesOf(
+        [{ type: 'health' }, { type: 'work' }, { type: 'health' }, { type: 'trip' }],
+        types
+      )
+    ).toEqual([
+      { id: 'health', count: 2 },
+      { id: 'trip', count: 1 },
+    ]);
+  });
+
+  it('draws built-in and custom colours', () => {
+    expect(colourCss('3', '30')).toBe('var(--event-default-colour-3-30)');
+    expect(colourCss(undefined)).toBe('var(--event-default-colour-1)');
+    expect(colourCss('#ff8800')).toBe('#ff8800');
+    expect(colourCss('#ff8800', '30')).toBe('color-mix(in srgb, #ff8800 30%, transparent)');
+  });
+});
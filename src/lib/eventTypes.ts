@@ -0,0 +1,120 @@
+import type { IEvent, IEventType } from '../types/Calendar';
+import { isColourValue } from './colours';
+
+/* -------------------------
+   Event types
+   ------------------------- */
+
+/** Icons a type can have (drawn by `TypeIcon`); unknown names show the first one. */
+export const TYPE_ICON_NAMES = [
+  'tag',
+  'cake',
+  'tree-palm',
+  'users',
+  'user',
+  'bell',
+  'square-check',
+  'briefcase',
+  'heart-pulse',
+  'plane',
+  'dumbbell',
+  'graduation-cap',
+  'utensils',
+  'music',
+  'star',
+  'house',
+];
+
+/** Types a new install starts with; the ids are the type names events were stored with. */
+export const DEFAULT_EVENT_TYPES: IEventType[] = [
+  { id: 'birthday', name: 'Birthday', icon: 'cake', colour: '4' },
+  { id: 'holiday', name: 'Holiday', icon: 'tree-palm', colour: '3' },
+  { id: 'meeting', name: 'Meeting', icon: 'users', colour: '1' },
+  { id: 'other', name: 'Other', icon: 'tag', colour: '1' },
+  { id: 'personal', name: 'Personal', icon: 'user', colour: '2' },
+  { id: 'reminder', name: 'Reminder', icon: 'bell', colour: '5' },
+  { id: 'task', name: 'Task', icon: 'square-check', colour: '5' },
+  { id: 'work', name: 'Work', icon: 'briefcase', colour: '1' },
+];
+
+/** Type events without one are shown as. */
+export const FALLBACK_TYPE_ID = 'other';
+
+/** True when `value` is a usable type list: non-empty, well-formed, unique ids. */
+export function isEventTypeList(value: unknown): value is IEventType[] {
+  if (!Array.isArray(value) || value.length === 0) return false;
+  const ids = new Set<string>();
+  return value.every((t) => {
+    const ok =
+      t !== null &&
+      typeof t === 'object' &&
+      typeof t.id === 'string' &&
+      t.id !== '' &&
+      !ids.has(t.id) &&
+      typeof t.name === 'string' &&
+      typeof t.icon === 'string' &&
+      isColourValue(t.colour);
+    if (ok) ids.add(t.id);
+    return ok;
+  });
+}
+
+/** True when `value` is a list of custom colours ("#rrggbb"). */
+export const isPalette = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((c) => isColourValue(c) && c.startsWith('#'));
+
+/**
+ * The type with id `id`. Ids missing from the list (types deleted, or imported from
+ * elsewhere) get a stand-in named after the id, so events keep rendering until they are
+ * moved to a known type (see `orphanTypesOf`).
+ */
+export const typeOf = (id: string | undefined, types: IEventType[]): IEventType =>
+  types.find((t) => t.id === (id || FALLBACK_TYPE_ID)) ?? {
+    id: id || FALLBACK_TYPE_ID,
+    name: id || 'Other',
+    icon: 'tag',
+    colour: '1',
+  };
+
+/** Display name of the type with id `id` (see `typeOf`). */
+export const typeName = (id: string | undefined, types: IEventType[]) => typeOf(id, types).name;
+
+const slug = (name: string) =>
+  name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '') || 'type';
+
+/**
+ * A new type named `name`. Its id is derived from the name (readable in exports), made
+ * unique among `types`; it stays the same when the type is renamed.
+ */
+export const createEventType = (
+  name: string,
+  types: IEventType[],
+  icon = 'tag',
+  colour = '1'
+): IEventType => {
+  const base = slug(name);
+  let id = base;
+  for (let n = 2; types.some((t) => t.id === id); n++) id = `${base}-${n}`;
+  return { id, name: name.trim(), icon, colour };
+};
+
+/** Type ids used by `events` that are not in `types`, with how many events use each. */
+export const orphanTypesOf = (events: Pick<IEvent, 'type'>[], types: IEventType[]) => {
+  const known = new Set(types.map((t) => t.id));
+  const counts = new Map<string, number>();
+  events.forEach((e) => {
+    const id = e.type || FALLBACK_TYPE_ID;
+    if (!known.has(id)) counts.set(id, (counts.get(id) ?? 0) + 1);
+  });
+  return [...counts.entries()].map(([id, count]) => ({ id, count }));
+};
+
+/** The type whose `name` or id is `text` (ignoring case), if any. */
+export const findEventType = (text: string, types: IEventType[]) => {
+  const wanted = text.trim().toLowerCase();
+  return types.find((t) => t.id.toLowerCase() === wanted || t.name.toLowerCase() === wanted);
+};
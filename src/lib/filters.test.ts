@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+
+import type { ICalendar, TCalendarEvent } from '@/types/Calendar';
+import { activeFilterCount, cycleFacet, EMPTY_FILTER, matchesFilter } from './filters';
+
+const calendars: ICalendar[] = [
+  { id: 'personal', name: 'Personal', colour: '1' },
+  { id: 'work', name: 'Work', colour: '2' },
+];
+
+const event = (overrides: Partial<TCalendarEvent>): TCalendarEvent => ({
+  id: '1',
+  title: 'Event',
+  start: new Date(2024, 2, 4, 9),
+  end: new Date(2024, 2, 4, 10),
+  type: 'other',
+  colour: '1',
+  ...overrides,
+});
+
+const standup = event({ title: 'Standup', type: 'meeting', colour: '2', calendarId: 'work' });
+const birthday = event({
+  title: 'Ana',
+  description: 'Cake at noon',
+  type: 'birthday',
+  allDay: true,
+});
+
+describe('view filters', () => {
+  it('lets everything through when empty', () => {
+    expect(matchesFilter(standup, EMPTY_FILTER, calendars)).toBe(true);
+    expect(activeFilterCount(EMPTY_FILTER)).toBe(0);
+  });
+
+  it('cycles a value through include, exclude and back', () => {
+    const included = cycleFacet(EMPTY_FILTER.types, 'meeting');
+    expect(included).toEqual({ include: ['meeting'], exclude: [] });
+    const excluded = cycleFacet(included, 'meeting');
+    expect(excluded).toEqual({ include: [], exclude: ['meeting'] });
+    expect(cycleFacet(excluded, 'meeting')).toEqual({ include: [], exclude: [] });
+  });
+
+  it('combines facets, timing and the text query', () => {
+    const onlyMeetings = { ...EMPTY_FILTER, types: { include: ['meeting'], exclude: [] } };
+    expect(matchesFilter(standup, onlyMeetings, calendars)).toBe(true);
+    expect(matchesFilter(birthday, onlyMeetings, calendars)).toBe(false);
+
+    // events without a calendar belong to the first one
+    const noPersonal = { ...EMPTY_FILTER, calendars: { include: [], exclude: ['personal'] } };
+    expect(matchesFilter(birthday, noPersonal, calendars)).toBe(false);
+    expect(matchesFilter(standup, noPersonal, calendars)).toBe(true);
+
+    const timedOnly = { ...EMPTY_FILTER, timing: 'timed' as const };
+    expect(matchesFilter(birthday, timedOnly, calendars)).toBe(false);
+
+    const cake = { ...EMPTY_FILTER, query: 'cake', colours: { include: ['1'], exclude: [] } };
+    expect(matchesFilter(birthday, cake, calendars)).toBe(true);
+    expect(matchesFilter(standup, cake, calendars)).toBe(false);
+    expect(activeFilterCount(cake)).toBe(2);
+  });
+});
@@ -0,0 +1,74 @@
+import type { ICalendar, IEventType, TCalendarEvent } from '../types/Calendar';
+import { calendarOf } from './calendars';
+import { DEFAULT_EVENT_TYPES, FALLBACK_TYPE_ID, typeName } from './eventTypes';
+import { matchesSearch, searchTerms } from './search';
+
+/* -------------------------
+   View filters
+   ------------------------- */
+
+/** Values picked for one property: only `include` ones are shown (when any), never `exclude` ones. */
+export type FacetFilter = { include: string[]; exclude: string[] };
+
+export type EventFilter = {
+  types: FacetFilter;
+  // colour indexes ("1".."n")
+  colours: FacetFilter;
+  // calendar ids
+  calendars: FacetFilter;
+  timing: 'any' | 'all-day' | 'timed';
+  // words that must all appear in the title, description, location or type
+  query: string;
+};
+
+/** The state a facet value is in, in the order a click cycles through them. */
+export type FacetState = 'none' | 'include' | 'exclude';
+
+const emptyFacet = (): FacetFilter => ({ include: [], exclude: [] });
+
+/** A filter that lets every event through. */
+export const EMPTY_FILTER: EventFilter = {
+  types: emptyFacet(),
+  colours: emptyFacet(),
+  calendars: emptyFacet(),
+  timing: 'any',
+  query: '',
+};
+
+const facetPasses = ({ include, exclude }: FacetFilter, value: string) =>
+  (include.length === 0 || include.includes(value)) && !exclude.includes(value);
+
+/** True when `event` passes every part of `filter`. */
+export const matchesFilter = (
+  event: TCalendarEvent,
+  filter: EventFilter,
+  calendars: ICalendar[],
+  types: IEventType[] = DEFAULT_EVENT_TYPES
+) =>
+  facetPasses(filter.types, event.type || FALLBACK_TYPE_ID) &&
+  facetPasses(filter.colours, event.colour ?? '') &&
+  facetPasses(filter.calendars, calendarOf(event, calendars).id) &&
+  (filter.timing === 'any' || (filter.timing === 'all-day') === !!event.allDay) &&
+  matchesSearch(event, filter.query, (type) => typeName(type, types));
+
+/** How many parts of the filter are set (each picked value, the timing and the query count). */
+export const activeFilterCount = (filter: EventFilter) =>
+  [filter.types, filter.colours, filter.calendars].reduce(
+    (n, facet) => n + facet.include.length + facet.exclude.length,
+    0
+  ) +
+  (filter.timing === 'any' ? 0 : 1) +
+  (searchTerms(filter.query).length > 0 ? 1 : 0);
+
+export const facetStateOf = (facet: FacetFilter, value: string): FacetState =>
+  facet.include.includes(value) ? 'include' : facet.exclude.includes(value) ? 'exclude' : 'none';
+
+/** The facet with `value` moved to its next state: none → include → exclude → none. */
+export const cycleFacet = (facet: FacetFilter, value: string): FacetFilter => {
+  const state = facetStateOf(facet, value);
+  const include = facet.include.filter((v) => v !== value);
+  const exclude = facet.exclude.filter((v) => v !== value);
+  if (state === 'none') include.push(value);
+  if (state === 'include') exclude.push(value);
+  return { include, exclude };
+};
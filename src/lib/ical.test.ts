@@ -0,0 +1,241 @@
+import { describe, expect, it } from 'vitest';
+
+import type { IEvent } from '../types/Calendar';
+import { parseICalDuration, parseICalendar, parseRRule, serializeICalendar } from './ical';
+import { expandOccurrences } from './recurrence';
+
+const LISBON = 'Europe/Lisbon';
+
+const calendar = (...events: string[][]) =>
+  [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    ...events.flatMap((e) => ['BEGIN:VEVENT', ...e, 'END:VEVENT']),
+    'END:VCALENDAR',
+  ].join('\r\n');
+
+describe('parseICalendar', () => {
+  it('reads timed events with TZID, UTC and floating times', () => {
+    const { events, skipped, errors } = parseICalendar(
+      calendar(
+        [
+          'DTSTART;TZID=America/Sao_Paulo:20240701T090000',
+          'DTEND;TZID=America/Sao_Paulo:20240701T100000',
+          'SUMMARY:Planning\\, Q3',
+          'DESCRIPTION:Agenda:\\nreview',
+        ],
+        ['DTSTART:20240702T120000Z', 'DURATION:PT30M', 'SUMMARY:Call'],
+        ['DTSTART:20240703T090000', 'SUMMARY:Floating']
+      ),
+      { timeZone: LISBON }
+    );
+
+    expect(skipped).toEqual([]);
+    expect(errors).toEqual([]);
+    expect(events).toEqual([
+      {
+        title: 'Planning, Q3',
+        description: 'Agenda:\nreview',
+        start: '2024-07-01T12:00:00.000Z',
+        end: '2024-07-01T13:00:00.000Z',
+        allDay: false,
+        timeZone: 'America/Sao_Paulo',
+        recurrence: undefined,
+      },
+      expect.objectContaining({
+        title: 'Call',
+        start: '2024-07-02T12:00:00.000Z',
+        end: '2024-07-02T12:30:00.000Z',
+        timeZone: LISBON,
+      }),
+      // floating times are read in the chosen zone (Lisbon is UTC+1 in July)
+      expect.objectContaining({
+        start: '2024-07-03T08:00:00.000Z',
+        end: '2024-07-03T08:00:00.000Z',
+      }),
+    ]);
+  });
+
+  it('reads all-day events with an exclusive DTEND', () => {
+    const { events } = parseICalendar(
+      calendar(['DTSTART;VALUE=DATE:20240610', 'DTEND;VALUE=DATE:20240613', 'SUMMARY:Conference']),
+      { timeZone: LISBON }
+    );
+
+    expect(events[0]).toMatchObject({
+      allDay: true,
+      start: '2024-06-09T23:00:00.000Z',
+      end: '2024-06-12T23:00:00.000Z',
+    });
+  });
+
+  it('maps RRULE and EXDATE onto the recurrence rule', () => {
+    const { events } = parseICalendar(
+      calendar([
+        'DTSTART;TZID=Europe/Lisbon:20240101T090000',
+        'DTEND;TZID=Europe/Lisbon:20240101T091500',
+        'RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=20240331T235959Z;WKST=MO',
+        'EXDATE;TZID=Europe/Lisbon:20240103T090000,20240115T090000',
+        'EXDATE;TZID=Europe/Lisbon:20240117T090000',
+        'SUMMARY:Standup',
+      ])
+    );
+
+    expect(events[0].recurrence).toEqual({
+      freq: 'weekly',
+      interval: 2,
+      byDay: ['MO', 'WE'],
+      until: '2024-03-31T23:59:59.000Z',
+      exDates: ['2024-01-03T09:00:00.000Z', '2024-01-15T09:00:00.000Z', '2024-01-17T09:00:00.000Z'],
+    });
+  });
+
+  it('unfolds long lines and ignores nested alarms', () => {
+    const text = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'DTSTART:20240702T120000Z',
+      'SUMMARY:A very long',
+      '  title',
+      'BEGIN:VALARM',
+      'TRIGGER:-PT15M',
+      'DESCRIPTION:Reminder',
+      'END:VALARM',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\n');
+
+    const { events } = parseICalendar(text);
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ title: 'A very long title', description: undefined });
+  });
+
+  it('reports skipped and unreadable events with their line', () => {
+    const { events, skipped, errors } = parseICalendar(
+      calendar(
+        ['DTSTART:20240702T120000Z', 'RRULE:FREQ=HOURLY', 'SUMMARY:Ping'],
+        ['DTSTART:20240702T120000Z', 'STATUS:CANCELLED', 'SUMMARY:Gone'],
+        ['DTSTART:tomorrow', 'SUMMARY:Broken'],
+        ['SUMMARY:No start']
+      )
+    );
+
+    expect(events).toEqual([]);
+    expect(skipped).toEqual([
+      { line: 3, summary: 'Ping', reason: 'unsupported recurrence frequency "HOURLY"' },
+      { line: 8, summary: 'Gone', reason: 'cancelled' },
+    ]);
+    expect(errors).toEqual([
+      { line: 13, summary: 'Broken', reason: 'invalid DTSTART "tomorrow"' },
+      { line: 17, summary: 'No start', reason: 'missing DTSTART' },
+    ]);
+  });
+});
+
+describe('value parsers', () => {
+  it('parses durations', () => {
+    expect(parseICalDuration('PT1H30M')).toBe(90 * 60000);
+    expect(parseICalDuration('P1W2D')).toBe(9 * 86400000);
+    expect(parseICalDuration('P')).toBeNull();
+  });
+
+  it('rejects rule parts the calendar cannot represent', () => {
+    expect(() => parseRRule('FREQ=MONTHLY;BYMONTHDAY=15', LISBON)).toThrow('BYMONTHDAY');
+    expect(parseRRule('FREQ=DAILY;COUNT=5', LISBON)).toEqual({ freq: 'daily', count: 5 });
+  });
+});
+
+describe('serializeICalendar', () => {
+  const standup: IEvent = {
+    id: 'a1',
+    title: 'Standup; daily, short',
+    description: 'Line one\nLine two',
+    location: 'Room 4; floor 2',
+    start: '2024-01-01T09:00:00.000Z',
+    end: '2024-01-01T09:15:00.000Z',
+    timeZone: LISBON,
+    type: 'meeting',
+    colour: '3',
+    recurrence: {
+      freq: 'weekly',
+      byDay: ['MO', 'WE'],
+      until: '2024-06-30T22:59:59.999Z',
+      exDates: ['2024-01-03T09:00:00.000Z'],
+    },
+  };
+  const holiday: IEvent = {
+    id: 2,
+    title: 'Holiday',
+    start: '2024-06-09T23:00:00.000Z',
+    end: '2024-06-12T23:00:00.000Z',
+    allDay: true,
+    timeZone: LISBON,
+  };
+
+  it('writes series once, with TZID, RRULE, EXDATE and our X- properties', () => {
+    const occurrences = expandOccurrences(
+      standup,
+      new Date('2024-01-01T00:00:00Z'),
+      new Date('2024-01-31T00:00:00Z')
+    );
+    const text = serializeICalendar([...occurrences, holiday], {
+      now: new Date('2024-02-01T10:00:00Z'),
+    });
+    const lines = text.split('\r\n');
+
+    expect(lines.filter((l) => l === 'BEGIN:VEVENT')).toHaveLength(2);
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        'UID:a1@atcalendar',
+        'DTSTAMP:20240201T100000Z',
+        'DTSTART;TZID=Europe/Lisbon:20240101T090000',
+        'DTEND;TZID=Europe/Lisbon:20240101T091500',
+        'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20240630T225959Z',
+        'EXDATE;TZID=Europe/Lisbon:20240103T090000',
+        'SUMMARY:Standup\\; daily\\, short',
+        'DESCRIPTION:Line one\\nLine two',
+        'LOCATION:Room 4\\; floor 2',
+        'X-ATCALENDAR-TYPE:meeting',
+        'DTSTART;VALUE=DATE:20240610',
+        'DTEND;VALUE=DATE:20240613',
+        'TZID:Europe/Lisbon',
+        // Lisbon moves to summer time at 01:00 UTC on 31 March
+        'DTSTART:20240331T010000',
+        'TZOFFSETTO:+0100',
+      ])
+    );
+  });
+
+  it('round-trips through parseICalendar', () => {
+    // all-day dates are floating, so they are read back in the importing zone
+    const { events, errors } = parseICalendar(serializeICalendar([standup, holiday]), {
+      timeZone: LISBON,
+    });
+
+    expect(errors).toEqual([]);
+    expect(events).toEqual([
+      expect.objectContaining({
+        title: standup.title,
+        description: standup.description,
+        location: standup.location,
+        start: standup.start,
+        end: standup.end,
+        timeZone: LISBON,
+        type: 'meeting',
+        colour: '3',
+        recurrence: { ...standup.recurrence, until: '2024-06-30T22:59:59.000Z' },
+      }),
+      expect.objectContaining({ allDay: true, start: holiday.start, end: holiday.end }),
+    ]);
+  });
+
+  it('folds long lines at 75 octets', () => {
+    const text = serializeICalendar([{ ...holiday, title: 'é'.repeat(60) }]);
+    const lines = text.split('\r\n');
+    const encoder = new TextEncoder();
+
+    expect(lines.every((l) => encoder.encode(l).length <= 75)).toBe(true);
+    expect(parseICalendar(text).events[0].title).toBe('é'.repeat(60));
+  });
+});
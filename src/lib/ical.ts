@@ -0,0 +1,622 @@
+import { addDays, addYears, format, startOfDay } from 'date-fns';
+
+import type { ByDay, IEvent, IRecurrenceRule, RecurrenceFrequency } from '../types/Calendar';
+import { isRecurring, parseByDay, toSeriesEvent } from './recurrence';
+import {
+  fromZonedTime,
+  isValidTimeZone,
+  localTimeZone,
+  timeZoneAbbreviation,
+  timeZoneOffset,
+  toZonedTime,
+} from './timeZones';
+
+/*
+  iCalendar (RFC 5545) support: the VEVENT subset the calendar can represent.
+  Parsing is lenient about line endings and unknown properties, strict about the values
+  it relies on (DTSTART, RRULE).
+*/
+
+/* -------------------------
+   Content lines
+   ------------------------- */
+
+type ContentLine = {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+  // 1-based line in the source where the (unfolded) line starts
+  line: number;
+};
+
+/**
+ * Split a document into unfolded content lines.
+ * Continuation lines start with a space or tab (RFC 5545 §3.1).
+ */
+function unfoldLines(text: string): { text: string; line: number }[] {
+  const lines: { text: string; line: number }[] = [];
+  text.split(/\r\n|\n|\r/).forEach((raw, i) => {
+    if ((raw.startsWith(' ') || raw.startsWith('\t')) && lines.length > 0) {
+      lines[lines.length - 1].text += raw.slice(1);
+    } else if (raw.trim() !== '') {
+      lines.push({ text: raw, line: i + 1 });
+    }
+  });
+  return lines;
+}
+
+/** Parse `NAME;PARAM=value;PARAM="quoted:value":VALUE`; null when there is no colon. */
+function parseContentLine(text: string, line: number): ContentLine | null {
+  let i = 0;
+  let inQuotes = false;
+  const parts: string[] = [];
+  let current = '';
+
+  for (; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"') inQuotes = !inQuotes;
+    if (!inQuotes && (ch === ';' || ch === ':')) {
+      parts.push(current);
+      current = '';
+      if (ch === ':') break;
+      continue;
+    }
+    current += ch;
+  }
+  if (i >= text.length) return null;
+
+  const [name, ...rawParams] = parts;
+  const params: Record<string, string> = {};
+  rawParams.forEach((p) => {
+    const eq = p.indexOf('=');
+    if (eq > 0) params[p.slice(0, eq).toUpperCase()] = p.slice(eq + 1).replace(/^"|"$/g, '');
+  });
+
+  return { name: name.toUpperCase(), params, value: text.slice(i + 1), line };
+}
+
+/** Undo TEXT escaping (\\n, \\, \\; \\\\). */
+const unescapeText = (value: string) =>
+  value.replace(/\\([nN,;\\])/g, (_, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch));
+
+/** TEXT escaping for SUMMARY/DESCRIPTION values. */
+const escapeText = (value: string) =>
+  value.replace(/[\\;,]/g, (ch) => `\\${ch}`).replace(/\r\n|\n|\r/g, '\\n');
+
+/** Fold a content line to 75 octets per line (RFC 5545 §3.1), never splitting a character. */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const ch of line) {
+    const size = encoder.encode(ch).length;
+    // continuation lines spend one octet on the leading space
+    if (octets + size > (lines.length === 0 ? 75 : 74)) {
+      lines.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += ch;
+    octets += size;
+  }
+  lines.push(current);
+  return lines.join('\r\n ');
+}
+
+/* -------------------------
+   Values
+   ------------------------- */
+
+/**
+ * Map a TZID onto an IANA zone. Accepts IANA names as-is and the
+ * "/vendor.org/.../Europe/Lisbon" form some exporters use; null otherwise.
+ */
+export function resolveTzid(tzid: string | undefined): string | null {
+  if (!tzid) return null;
+  if (isValidTimeZone(tzid)) return tzid;
+  const match = /([A-Za-z]+\/[A-Za-z_+-]+(?:\/[A-Za-z_+-]+)?)$/.exec(tzid);
+  return match && isValidTimeZone(match[1]) ? match[1] : null;
+}
+
+type ICalDate = { date: Date; allDay: boolean };
+
+/**
+ * Parse a DATE (`20240315`) or DATE-TIME (`20240315T090000`, `...Z`) value into an instant.
+ * Dates and floating times are read in `timeZone`. Returns null for malformed values.
+ */
+export function parseICalDate(value: string, timeZone: string): ICalDate | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(value.trim());
+  if (!match) return null;
+
+  const [, y, mo, d, h, mi, s, utc] = match;
+  const fields = [Number(y), Number(mo) - 1, Number(d)] as const;
+  if (h === undefined) {
+    const date = fromZonedTime(new Date(...fields), timeZone);
+    return { date, allDay: true };
+  }
+
+  const time = [Number(h), Number(mi), Number(s ?? 0)] as const;
+  const date = utc
+    ? new Date(Date.UTC(...fields, ...time))
+    : fromZonedTime(new Date(...fields, ...time), timeZone);
+  return Number.isFinite(date.getTime()) ? { date, allDay: false } : null;
+}
+
+/** Parse a DURATION (`PT1H30M`, `P1D`, `P2W`) into milliseconds; null when malformed. */
+export function parseICalDuration(value: string): number | null {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(
+    value.trim()
+  );
+  if (!match || value.trim() === 'P' || value.trim().endsWith('T')) return null;
+  const [, sign, w, d, h, m, s] = match;
+  const ms =
+    ((Number(w ?? 0) * 7 + Number(d ?? 0)) * 86400 +
+      Number(h ?? 0) * 3600 +
+      Number(m ?? 0) * 60 +
+      Number(s ?? 0)) *
+    1000;
+  return sign === '-' ? -ms : ms;
+}
+
+const FREQUENCIES: Record<string, RecurrenceFrequency> = {
+  DAILY: 'daily',
+  WEEKLY: 'weekly',
+  MONTHLY: 'monthly',
+  YEARLY: 'yearly',
+};
+
+// RRULE parts the calendar ignores without changing which days occur
+const HARMLESS_RRULE_PARTS = new Set(['WKST']);
+
+/**
+ * Parse an RRULE value into an IRecurrenceRule.
+ * Throws with a readable reason when the rule uses parts the calendar cannot represent
+ * (e.g. FREQ=HOURLY or BYMONTHDAY), so the caller can skip the event rather than import
+ * it with the wrong dates.
+ */
+export function parseRRule(value: string, timeZone: string): IRecurrenceRule {
+  const parts = new Map<string, string>();
+  value.split(';').forEach((part) => {
+    const eq = part.indexOf('=');
+    if (eq > 0) parts.set(part.slice(0, eq).toUpperCase(), part.slice(eq + 1));
+  });
+
+  const freq = FREQUENCIES[(parts.get('FREQ') ?? '').toUpperCase()];
+  if (!freq) throw new Error(`unsupported recurrence frequency "${parts.get('FREQ') ?? ''}"`);
+
+  const rule: IRecurrenceRule = { freq };
+  parts.forEach((partValue, key) => {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        rule.interval = Math.max(1, parseInt(partValue, 10) || 1);
+        break;
+      case 'COUNT':
+        rule.count = Math.max(1, parseInt(partValue, 10) || 1);
+        break;
+      case 'UNTIL': {
+        const until = parseICalDate(partValue, timeZone);
+        if (!until) throw new Error(`invalid UNTIL "${partValue}"`);
+        // a date-only UNTIL includes that whole day
+        const last = until.allDay ? addDays(until.date, 1).getTime() - 1 : until.date.getTime();
+        rule.until = new Date(last).toISOString();
+        break;
+      }
+      case 'BYDAY': {
+        const byDay = partValue.split(',').map((d) => d.trim().toUpperCase() as ByDay);
+        if (byDay.some((d) => parseByDay(d) === null)) {
+          throw new Error(`invalid BYDAY "${partValue}"`);
+        }
+        rule.byDay = byDay;
+        break;
+      }
+      default:
+        if (!HARMLESS_RRULE_PARTS.has(key)) throw new Error(`unsupported recurrence part ${key}`);
+    }
+  });
+
+  if (rule.byDay && freq === 'yearly') throw new Error('unsupported recurrence part BYDAY');
+  return rule;
+}
+
+/* -------------------------
+   Parsing
+   ------------------------- */
+
+export type ICalIssue = {
+  // line of the VEVENT's BEGIN in the source
+  line: number;
+  summary?: string;
+  reason: string;
+};
+
+export type ICalParseResult = {
+  events: Omit<IEvent, 'id'>[];
+  // VEVENTs left out on purpose (cancelled, unsupported recurrence, ...)
+  skipped: ICalIssue[];
+  // VEVENTs that could not be read
+  errors: ICalIssue[];
+};
+
+// our own properties, so type and colour survive an export/import round trip
+const TYPE_PROPERTY = 'X-ATCALENDAR-TYPE';
+const COLOUR_PROPERTY = 'X-ATCALENDAR-COLOUR';
+
+type ParseOptions = {
+  // zone for floating times and dates, and for events without a usable TZID
+  timeZone?: string;
+};
+
+/** Build one event from a VEVENT's properties, or the reason to skip it; throws when unreadable. */
+function toEvent(
+  props: ContentLine[],
+  defaultTimeZone: string
+): { event: Omit<IEvent, 'id'> } | { skip: string } {
+  const first = (name: string) => props.find((p) => p.name === name);
+
+  if (first('RECURRENCE-ID')) return { skip: 'changed occurrence of a recurring event' };
+  if ((first('STATUS')?.value ?? '').toUpperCase() === 'CANCELLED') {
+    return { skip: 'cancelled' };
+  }
+
+  const dtStart = first('DTSTART');
+  if (!dtStart) throw new Error('missing DTSTART');
+  const timeZone = resolveTzid(dtStart.params.TZID) ?? defaultTimeZone;
+  const start = parseICalDate(dtStart.value, timeZone);
+  if (!start) throw new Error(`invalid DTSTART "${dtStart.value}"`);
+  const allDay = start.allDay || dtStart.params.VALUE?.toUpperCase() === 'DATE';
+
+  let end: Date;
+  const dtEnd = first('DTEND');
+  const duration = first('DURATION');
+  if (dtEnd) {
+    const parsed = parseICalDate(
+      dtEnd.value,
+      resolveTzid(dtEnd.params.TZID) ?? (dtEnd.value.endsWith('Z') ? 'UTC' : timeZone)
+    );
+    if (!parsed) throw new Error(`invalid DTEND "${dtEnd.value}"`);
+    end = parsed.date;
+  } else if (duration) {
+    const ms = parseICalDuration(duration.value);
+    if (ms === null) throw new Error(`invalid DURATION "${duration.value}"`);
+    end = new Date(start.date.getTime() + ms);
+  } else {
+    // RFC 5545: a date lasts one day, a date-time has no duration
+    end = allDay ? addDays(start.date, 1) : start.date;
+  }
+  if (end.getTime() < start.date.getTime()) end = start.date;
+
+  const rrule = first('RRULE');
+  let recurrence: IRecurrenceRule | undefined;
+  if (rrule) {
+    try {
+      recurrence = parseRRule(rrule.value, timeZone);
+    } catch (error) {
+      return { skip: (error as Error).message };
+    }
+
+    const exDates = props
+      .filter((p) => p.name === 'EXDATE')
+      .flatMap((p) =>
+        p.value.split(',').map((v) => parseICalDate(v, resolveTzid(p.params.TZID) ?? timeZone))
+      )
+      .filter((d): d is ICalDate => d !== null)
+      .map((d) => d.date.toISOString());
+    if (exDates.length > 0) recurrence.exDates = exDates;
+  }
+
+  const type = first(TYPE_PROPERTY);
+  const colour = first(COLOUR_PROPERTY);
+
+  const summary = first('SUMMARY');
+  const description = first('DESCRIPTION');
+  const location = first('LOCATION');
+  return {
+    event: {
+      title: summary ? unescapeText(summary.value).trim() || '(No title)' : '(No title)',
+      description: description ? unescapeText(description.value) : undefined,
+      start: start.date.toISOString(),
+      end: end.toISOString(),
+      allDay,
+      timeZone,
+      recurrence,
+      ...(location && { location: unescapeText(location.value) }),
+      ...(type && { type: unescapeText(type.value) }),
+      ...(colour && { colour: unescapeText(colour.value) }),
+    },
+  };
+}
+
+/**
+ * Parse an iCalendar document into events ready for `addEventsBulk`.
+ * - Reads VEVENTs: DTSTART/DTEND (TZID, VALUE=DATE, UTC or floating), DURATION, SUMMARY,
+ *   DESCRIPTION, RRULE and EXDATE. Nested components (VALARM) are ignored.
+ * - Each event keeps the IANA zone it was defined in (`timeZone`), falling back to
+ *   `options.timeZone` (the browser's zone by default) for floating times.
+ * - Problems are reported per event instead of failing the whole file.
+ */
+export function parseICalendar(text: string, options: ParseOptions = {}): ICalParseResult {
+  const defaultTimeZone =
+    options.timeZone && isValidTimeZone(options.timeZone) ? options.timeZone : localTimeZone();
+  const result: ICalParseResult = { events: [], skipped: [], errors: [] };
+
+  let current: { line: number; props: ContentLine[] } | null = null;
+  // depth of components nested in the current VEVENT (VALARM, ...)
+  let nested = 0;
+
+  for (const { text: raw, line } of unfoldLines(text)) {
+    const content = parseContentLine(raw, line);
+    if (!content) continue;
+    const value = content.value.trim().toUpperCase();
+
+    if (content.name === 'BEGIN') {
+      if (current) nested++;
+      else if (value === 'VEVENT') current = { line, props: [] };
+      continue;
+    }
+
+    if (content.name === 'END') {
+      if (!current) continue;
+      if (nested > 0) {
+        nested--;
+        continue;
+      }
+      if (value !== 'VEVENT') continue;
+
+      const summaryLine = current.props.find((p) => p.name === 'SUMMARY');
+      const summary = summaryLine ? unescapeText(summaryLine.value) : undefined;
+      try {
+        const built = toEvent(current.props, defaultTimeZone);
+        if ('skip' in built)
+          result.skipped.push({ line: current.line, summary, reason: built.skip });
+        else result.events.push(built.event);
+      } catch (error) {
+        result.errors.push({ line: current.line, summary, reason: (error as Error).message });
+      }
+      current = null;
+      continue;
+    }
+
+    if (current && nested === 0) current.props.push(content);
+  }
+
+  if (current) {
+    result.errors.push({ line: current.line, reason: 'VEVENT is not closed (missing END:VEVENT)' });
+  }
+
+  return result;
+}
+
+/* -------------------------
+   Serializing
+   ------------------------- */
+
+const REVERSE_FREQUENCIES: Record<RecurrenceFrequency, string> = {
+  daily: 'DAILY',
+  weekly: 'WEEKLY',
+  monthly: 'MONTHLY',
+  yearly: 'YEARLY',
+};
+
+// how far ahead VTIMEZONE rules are written for series without an end
+const OPEN_SERIES_YEARS = 10;
+
+const DAY_MS = 86400000;
+
+/** DATE value of a wall-clock Date (`20240315`). */
+const formatDateValue = (wallClock: Date) => format(wallClock, 'yyyyMMdd');
+
+/** Local DATE-TIME value of a wall-clock Date (`20240315T090000`). */
+const formatLocalDateTime = (wallClock: Date) => format(wallClock, "yyyyMMdd'T'HHmmss");
+
+/** UTC DATE-TIME value of an instant (`20240315T090000Z`). */
+const formatUtcDateTime = (date: Date) =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+
+/** UTC offset value (`+0100`, `-0330`). */
+function formatOffset(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  const abs = Math.abs(minutes);
+  const hh = String(Math.floor(abs / 60)).padStart(2, '0');
+  const mm = String(abs % 60).padStart(2, '0');
+  return `${minutes < 0 ? '-' : '+'}${hh}${mm}`;
+}
+
+/** Instants (to the minute) in [from, to] at which `timeZone` changes its UTC offset. */
+function offsetTransitions(timeZone: string, from: Date, to: Date): Date[] {
+  const transitions: Date[] = [];
+  // minute-aligned, so the search below lands on the minute of the change
+  let before = Math.floor(from.getTime() / 60000) * 60000;
+  let offset = timeZoneOffset(from, timeZone);
+
+  for (let t = before + DAY_MS; t <= to.getTime() + DAY_MS; t += DAY_MS) {
+    const next = timeZoneOffset(new Date(t), timeZone);
+    if (next !== offset) {
+      // narrow the change down to the minute
+      let lo = before;
+      let hi = t;
+      while (hi - lo > 60000) {
+        const mid = lo + Math.floor((hi - lo) / 120000) * 60000;
+        if (timeZoneOffset(new Date(mid), timeZone) === offset) lo = mid;
+        else hi = mid;
+      }
+      transitions.push(new Date(hi));
+      offset = next;
+    }
+    before = t;
+  }
+
+  return transitions;
+}
+
+/**
+ * VTIMEZONE for `timeZone`, with one observance per offset change in [from, to].
+ * Intl does not expose a zone's rules, so the changes are found by sampling; readers keep
+ * using the last observance after `to`.
+ */
+function vTimeZoneLines(timeZone: string, from: Date, to: Date): string[] {
+  const observance = (at: Date, offsetFrom: number, offsetTo: number, initial = false) => {
+    const kind = offsetTo > offsetFrom ? 'DAYLIGHT' : 'STANDARD';
+    return [
+      `BEGIN:${kind}`,
+      // DTSTART is the onset in local time before the change (e.g. 01:00 -> 02:00 starts 01:00)
+      `DTSTART:${initial ? '19700101T000000' : formatUtcDateTime(new Date(at.getTime() + offsetFrom)).slice(0, -1)}`,
+      `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(offsetTo)}`,
+      `TZNAME:${escapeText(timeZoneAbbreviation(timeZone, at))}`,
+      `END:${kind}`,
+    ];
+  };
+
+  const initialOffset = timeZoneOffset(from, timeZone);
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+  lines.push(...observance(from, initialOffset, initialOffset, true));
+
+  let offset = initialOffset;
+  offsetTransitions(timeZone, from, to).forEach((at) => {
+    const next = timeZoneOffset(at, timeZone);
+    lines.push(...observance(at, offset, next));
+    offset = next;
+  });
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+/** Zone an event is written in: its own, or the browser's when unset. */
+const exportZoneOf = (event: IEvent) =>
+  isValidTimeZone(event.timeZone) ? event.timeZone : localTimeZone();
+
+/** Last instant a stored event (or its series) can cover, for the VTIMEZONE range. */
+function lastInstantOf(event: IEvent): Date {
+  const end = new Date(event.end);
+  const rule = event.recurrence;
+  if (!rule || !isRecurring(event)) return end;
+  if (rule.until) return new Date(Math.max(end.getTime(), new Date(rule.until).getTime()));
+  // COUNT series are bounded too, but estimating their end is not worth it here
+  return addYears(end, OPEN_SERIES_YEARS);
+}
+
+/** RRULE value for a rule; UNTIL uses the same value type as DTSTART. */
+export function formatRRule(rule: IRecurrenceRule, allDay: boolean, timeZone: string): string {
+  const parts = [`FREQ=${REVERSE_FREQUENCIES[rule.freq]}`];
+  if (rule.interval && rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.join(',')}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  else if (rule.until) {
+    const until = new Date(rule.until);
+    parts.push(
+      `UNTIL=${allDay ? formatDateValue(toZonedTime(until, timeZone)) : formatUtcDateTime(until)}`
+    );
+  }
+  return parts.join(';');
+}
+
+/** Content lines of one VEVENT. */
+function vEventLines(event: IEvent, stamp: string): string[] {
+  const timeZone = exportZoneOf(event);
+  const start = new Date(event.start);
+  const end = new Date(event.end);
+  const lines = ['BEGIN:VEVENT', `UID:${escapeText(`${event.id}@atcalendar`)}`, `DTSTAMP:${stamp}`];
+
+  if (event.allDay) {
+    const startDay = startOfDay(toZonedTime(start, timeZone));
+    const zonedEnd = Number.isFinite(end.getTime()) ? toZonedTime(end, timeZone) : startDay;
+    // DTEND is exclusive: an end during a day covers that whole day
+    let endDay = startOfDay(zonedEnd);
+    if (zonedEnd > endDay) endDay = addDays(endDay, 1);
+    if (endDay <= startDay) endDay = addDays(startDay, 1);
+    lines.push(
+      `DTSTART;VALUE=DATE:${formatDateValue(startDay)}`,
+      `DTEND;VALUE=DATE:${formatDateValue(endDay)}`
+    );
+  } else {
+    const safeEnd = Number.isFinite(end.getTime()) && end >= start ? end : start;
+    lines.push(
+      `DTSTART;TZID=${timeZone}:${formatLocalDateTime(toZonedTime(start, timeZone))}`,
+      `DTEND;TZID=${timeZone}:${formatLocalDateTime(toZonedTime(safeEnd, timeZone))}`
+    );
+  }
+
+  if (event.recurrence && isRecurring(event)) {
+    lines.push(`RRULE:${formatRRule(event.recurrence, !!event.allDay, timeZone)}`);
+    const exDates = (event.recurrence.exDates ?? []).map((d) => toZonedTime(new Date(d), timeZone));
+    if (exDates.length > 0) {
+      lines.push(
+        event.allDay
+          ? `EXDATE;VALUE=DATE:${exDates.map(formatDateValue).join(',')}`
+          : `EXDATE;TZID=${timeZone}:${exDates.map(formatLocalDateTime).join(',')}`
+      );
+    }
+  }
+
+  lines.push(`SUMMARY:${escapeText(event.title)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.type) lines.push(`${TYPE_PROPERTY}:${escapeText(event.type)}`);
+  if (event.colour) lines.push(`${COLOUR_PROPERTY}:${escapeText(event.colour)}`);
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+type SerializeOptions = {
+  // calendar name shown by apps that support X-WR-CALNAME
+  name?: string;
+  // DTSTAMP of every event (defaults to now)
+  now?: Date;
+};
+
+/**
+ * Write events as an iCalendar document (CRLF line endings, folded lines).
+ * - Occurrences expanded from a series are written once, as the series with its RRULE and
+ *   EXDATEs, so the output of a range query can be passed straight in.
+ * - All-day events use DATE values with an exclusive DTEND; timed events use the event's
+ *   zone as TZID, with a VTIMEZONE per zone used.
+ * - `type` and `colour` are kept in X-ATCALENDAR-* properties, which `parseICalendar`
+ *   reads back and other apps ignore.
+ */
+export function serializeICalendar(events: IEvent[], options: SerializeOptions = {}): string {
+  const stamp = formatUtcDateTime(options.now ?? new Date());
+
+  const series = new Map<string, IEvent>();
+  events.forEach((event) => {
+    const stored = toSeriesEvent(event);
+    const key = String(stored.id);
+    if (!series.has(key)) series.set(key, stored);
+  });
+  const sorted = [...series.values()].sort((a, b) => a.start.localeCompare(b.start));
+
+  // span each zone's VTIMEZONE over the timed events written in it
+  const zoneRanges = new Map<string, { from: Date; to: Date }>();
+  sorted
+    .filter((event) => !event.allDay)
+    .forEach((event) => {
+      const timeZone = exportZoneOf(event);
+      const from = new Date(new Date(event.start).getTime() - DAY_MS);
+      const to = lastInstantOf(event);
+      const range = zoneRanges.get(timeZone);
+      zoneRanges.set(timeZone, {
+        from: range && range.from < from ? range.from : from,
+        to: range && range.to > to ? range.to : to,
+      });
+    });
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//atcalendar//atcalendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+  if (options.name) lines.push(`X-WR-CALNAME:${escapeText(options.name)}`);
+  zoneRanges.forEach(({ from, to }, timeZone) => lines.push(...vTimeZoneLines(timeZone, from, to)));
+  sorted.forEach((event) => lines.push(...vEventLines(event, stamp)));
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -1,5 +1,6 @@
 import type { TCalendarEvent } from '@/types/Calendar';
 import { describe, expect, it } from 'vitest';
+import { splitIntoDaySegments } from './daySegments';
 import { layoutEvents } from './layoutEvents';
 
 // Helper to create mock events
@@ -85,4 +86,22 @@ describe('layoutEvents', () => {
     expect(layout['A'].width).toBe(50);
     expect(layout['B'].width).toBe(50);
   });
+
+  it('should pack a multi-day segment by the part shown in the day', () => {
+    // A: yesterday 22:00 - today 02:00, B: today 01:00 - 03:00, C: today 09:00 - 10:00
+    const a = createEvent('A', 22, 0, 2, 0);
+    a.start.setDate(a.start.getDate() - 1);
+    const [, continuation] = splitIntoDaySegments(a);
+
+    const layout = layoutEvents([
+      continuation,
+      createEvent('B', 1, 0, 3, 0),
+      createEvent('C', 9, 0, 10, 0),
+    ]);
+
+    expect(layout['A']).toEqual({ width: 50, left: 0 });
+    expect(layout['B']).toEqual({ width: 50, left: 50 });
+    // the whole event ends at 02:00, so it does not reach C
+    expect(layout['C']).toEqual({ width: 100, left: 0 });
+  });
 });
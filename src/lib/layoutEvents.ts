@@ -1,21 +1,26 @@
 import type { TCalendarEvent } from '@/types/Calendar';
+import { displayRange } from './daySegments';
 
 export interface EventLayout {
   width: number; // percentage 0-100
   left: number; // percentage 0-100
 }
 
+// segments of multi-day events are packed by the part shown in the day, not the whole event
+const startOf = (event: TCalendarEvent) => displayRange(event).start?.getTime() ?? 0;
+const endOf = (event: TCalendarEvent) => displayRange(event).end?.getTime() ?? 0;
+
 /**
- * Calculates the layout for a list of events, handling overlaps.
+ * Calculates the layout for a list of events of one day, handling overlaps.
  * Returns a map of event ID to layout properties (width, left).
  */
 export function layoutEvents(events: TCalendarEvent[]): Record<string, EventLayout> {
   const sortedEvents = [...events].sort((a, b) => {
     if (!a.start || !b.start) return 0;
-    const startDiff = a.start.getTime() - b.start.getTime();
+    const startDiff = startOf(a) - startOf(b);
     if (startDiff !== 0) return startDiff;
-    const durationA = (a.end?.getTime() ?? 0) - a.start.getTime();
-    const durationB = (b.end?.getTime() ?? 0) - b.start.getTime();
+    const durationA = endOf(a) - startOf(a);
+    const durationB = endOf(b) - startOf(b);
     return durationB - durationA;
   });
 
@@ -27,8 +32,8 @@ export function layoutEvents(events: TCalendarEvent[]): Record<string, EventLayo
   let clusterEnd = -1;
 
   for (const event of sortedEvents) {
-    const eventStart = event.start?.getTime() ?? 0;
-    const eventEnd = event.end?.getTime() ?? 0;
+    const eventStart = startOf(event);
+    const eventEnd = endOf(event);
 
     if (currentCluster.length === 0) {
       currentCluster.push(event);
@@ -71,7 +76,7 @@ function layoutCluster(cluster: TCalendarEvent[], layoutMap: Record<string, Even
       const column = columns[i];
       const lastEventInColumn = column[column.length - 1];
 
-      if ((event.start?.getTime() ?? 0) >= (lastEventInColumn.end?.getTime() ?? 0)) {
+      if (startOf(event) >= endOf(lastEventInColumn)) {
         column.push(event);
         placed = true;
         break;
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+
+import { canonicalLocation, cleanLocation, rankLocations, suggestLocations } from './locations';
+
+const used = [
+  'Room Aurora',
+  'room  aurora',
+  'Room Aurora ',
+  'Boardroom',
+  'Café Roma',
+  'Boardroom',
+  undefined,
+  '  ',
+  'Room Borealis',
+].map((location) => ({ location }));
+
+describe('locations', () => {
+  it('ranks used locations by frequency, merging spellings', () => {
+    expect(cleanLocation('  Room   4 ')).toBe('Room 4');
+    expect(cleanLocation('   ')).toBeUndefined();
+    expect(rankLocations(used)).toEqual(['Room Aurora', 'Boardroom', 'Café Roma', 'Room Borealis']);
+  });
+
+  it('suggests matches, those starting with the text first', () => {
+    const ranked = rankLocations(used);
+    expect(suggestLocations(ranked, 'ro')).toEqual([
+      'Room Aurora',
+      'Room Borealis',
+      'Boardroom',
+      'Café Roma',
+    ]);
+    expect(suggestLocations(ranked, 'ROOM aurora')).toEqual([]);
+    expect(suggestLocations(ranked, '', 2)).toEqual(['Room Aurora', 'Boardroom']);
+
+    expect(canonicalLocation(' boardROOM ', ranked)).toBe('Boardroom');
+    expect(canonicalLocation('Lab  3', ranked)).toBe('Lab 3');
+    expect(canonicalLocation(' ', ranked)).toBeUndefined();
+  });
+});
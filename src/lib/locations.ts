@@ -0,0 +1,57 @@
+import type { IEvent } from '../types/Calendar';
+
+/* -------------------------
+   Event locations
+   ------------------------- */
+
+/** `text` trimmed, with runs of spaces collapsed; undefined when nothing is left. */
+export const cleanLocation = (text: string | undefined) =>
+  text?.trim().replace(/\s+/g, ' ') || undefined;
+
+// locations differing only in case or spacing are the same place
+const keyOf = (location: string) => cleanLocation(location)?.toLowerCase() ?? '';
+
+/**
+ * Locations used by `events`, most used first (ties alphabetically). Spellings differing only
+ * in case or spacing count as one place, written the way it is written most often.
+ */
+export function rankLocations(events: Pick<IEvent, 'location'>[]): string[] {
+  const places = new Map<string, { count: number; spellings: Map<string, number> }>();
+  events.forEach((event) => {
+    const location = cleanLocation(event.location);
+    if (!location) return;
+    const key = keyOf(location);
+    const place = places.get(key) ?? { count: 0, spellings: new Map<string, number>() };
+    place.count++;
+    place.spellings.set(location, (place.spellings.get(location) ?? 0) + 1);
+    places.set(key, place);
+  });
+
+  return [...places.values()]
+    .map(({ count, spellings }) => ({
+      count,
+      // the first spelling seen wins a tie
+      name: [...spellings.entries()].reduce((best, next) => (next[1] > best[1] ? next : best))[0],
+    }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+    .map(({ name }) => name);
+}
+
+/**
+ * Up to `limit` of the `ranked` locations (see `rankLocations`) containing `text`, ignoring
+ * case: those starting with it first, each group kept in rank order. The location `text`
+ * already names is left out. Empty `text` suggests the most used ones.
+ */
+export function suggestLocations(ranked: string[], text: string, limit = 6): string[] {
+  const wanted = keyOf(text);
+  const matches = ranked.filter((l) => keyOf(l).includes(wanted) && keyOf(l) !== wanted);
+  const starting = matches.filter((l) => keyOf(l).startsWith(wanted));
+  return [...starting, ...matches.filter((l) => !starting.includes(l))].slice(0, limit);
+}
+
+/** `text` cleaned, in the spelling already used for that place when it is one of `ranked`. */
+export const canonicalLocation = (text: string, ranked: string[]) => {
+  const location = cleanLocation(text);
+  if (!location) return undefined;
+  return ranked.find((l) => keyOf(l) === keyOf(location)) ?? location;
+};
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+  insertLink,
+  markdownToPlainText,
+  parseInline,
+  parseMarkdown,
+  toggleList,
+  toggleWrap,
+} from './markdown';
+
+describe('parseMarkdown', () => {
+  it('reads headings, paragraphs, lists, check lists, quotes, code and rules', () => {
+    const blocks = parseMarkdown(
+      [
+        '## Agenda',
+        'Bring the **Q3** numbers',
+        'and *slides*',
+        '',
+        '1. Review',
+        '2. Plan',
+        '- [ ] Book room',
+        '- [x] Send invite',
+        '> quoted',
+        '```',
+        '**not bold**',
+        '```',
+        '---',
+      ].join('\n')
+    );
+
+    expect(blocks).toEqual([
+      { kind: 'heading', level: 2, children: [{ kind: 'text', text: 'Agenda' }] },
+      {
+        kind: 'paragraph',
+        lines: [
+          [
+            { kind: 'text', text: 'Bring the ' },
+            { kind: 'strong', children: [{ kind: 'text', text: 'Q3' }] },
+            { kind: 'text', text: ' numbers' },
+          ],
+          [
+            { kind: 'text', text: 'and ' },
+            { kind: 'em', children: [{ kind: 'text', text: 'slides' }] },
+          ],
+        ],
+      },
+      {
+        kind: 'list',
+        ordered: true,
+        start: 1,
+        items: [
+          { children: [{ kind: 'text', text: 'Review' }] },
+          { children: [{ kind: 'text', text: 'Plan' }] },
+        ],
+      },
+      {
+        kind: 'list',
+        ordered: false,
+        start: 1,
+        items: [
+          { checked: false, children: [{ kind: 'text', text: 'Book room' }] },
+          { checked: true, children: [{ kind: 'text', text: 'Send invite' }] },
+        ],
+      },
+      { kind: 'quote', lines: [[{ kind: 'text', text: 'quoted' }]] },
+      { kind: 'code', text: '**not bold**' },
+      { kind: 'rule' },
+    ]);
+  });
+
+  it('keeps only safe links', () => {
+    expect(parseInline('[docs](https://example.com/a_b) or see http://x.org/page.')).toEqual([
+      { kind: 'link', href: 'https://example.com/a_b', children: [{ kind: 'text', text: 'docs' }] },
+      { kind: 'text', text: ' or see ' },
+      {
+        kind: 'link',
+        href: 'http://x.org/page',
+        children: [{ kind: 'text', text: 'http://x.org/page' }],
+      },
+      { kind: 'text', text: '.' },
+    ]);
+    expect(parseInline('[click](javascript:alert(1))')).toEqual([
+      { kind: 'text', text: 'click' },
+      { kind: 'text', text: ')' },
+    ]);
+    expect(parseInline('<img src=x onerror=alert(1)> snake_case_name ~~old~~ `a*b*`')).toEqual([
+      { kind: 'text', text: '<img src=x onerror=alert(1)> snake_case_name ' },
+      { kind: 'strike', children: [{ kind: 'text', text: 'old' }] },
+      { kind: 'text', text: ' ' },
+      { kind: 'code', text: 'a*b*' },
+    ]);
+    expect(markdownToPlainText('# Plan\n- [ ] **Book** [room](https://r.example)')).toBe(
+      'Plan\nBook room'
+    );
+  });
+});
+
+describe('editing', () => {
+  it('wraps and unwraps the selection', () => {
+    expect(toggleWrap('say hi', 4, 6, '**')).toEqual({
+      text: 'say **hi**',
+      selectionStart: 6,
+      selectionEnd: 8,
+    });
+    expect(toggleWrap('say **hi**', 6, 8, '**')).toEqual({
+      text: 'say hi',
+      selectionStart: 4,
+      selectionEnd: 6,
+    });
+    expect(insertLink('see docs', 4, 8)).toEqual({
+      text: 'see [docs](https://)',
+      selectionStart: 11,
+      selectionEnd: 19,
+    });
+  });
+
+  it('turns the selected lines into a list and back', () => {
+    const text = 'Intro\nReview\n- Plan\nEnd';
+    const numbered = toggleList(text, 8, 16, 'numbered');
+    expect(numbered.text).toBe('Intro\n1. Review\n2. Plan\nEnd');
+    expect(numbered.text.slice(numbered.selectionStart, numbered.selectionEnd)).toBe(
+      '1. Review\n2. Plan'
+    );
+    expect(toggleList(numbered.text, 6, 23, 'numbered').text).toBe(text.replace('- Plan', 'Plan'));
+    expect(toggleList('Book room', 0, 0, 'check').text).toBe('- [ ] Book room');
+    expect(toggleList('- [x] Book room', 3, 3, 'check').text).toBe('Book room');
+  });
+});
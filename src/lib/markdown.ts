@@ -0,0 +1,263 @@
+/* -------------------------
+   Markdown (event descriptions)
+   ------------------------- */
+
+/*
+  The subset of Markdown descriptions are written in: headings (#, ##, ###), paragraphs
+  (single line breaks kept), bullet, numbered and check lists ("- [ ]", "- [x]"), quotes,
+  fenced code and rules; inside a line **bold**, *italic*, ~~struck~~, `code`, [links](url)
+  and bare http(s) addresses. Text is parsed into nodes that the view renders as elements,
+  never as HTML, and links keep only http(s) and mailto addresses, so nothing typed into a
+  description (or imported with it) can run or inject markup.
+*/
+
+export type MarkdownInline =
+  | { kind: 'text'; text: string }
+  | { kind: 'code'; text: string }
+  | { kind: 'strong' | 'em' | 'strike'; children: MarkdownInline[] }
+  | { kind: 'link'; href: string; children: MarkdownInline[] };
+
+export type MarkdownListItem = {
+  // set on check list items: whether it is ticked
+  checked?: boolean;
+  children: MarkdownInline[];
+};
+
+export type MarkdownBlock =
+  | { kind: 'heading'; level: 1 | 2 | 3; children: MarkdownInline[] }
+  // one entry per source line
+  | { kind: 'paragraph'; lines: MarkdownInline[][] }
+  | { kind: 'quote'; lines: MarkdownInline[][] }
+  | { kind: 'list'; ordered: boolean; start: number; items: MarkdownListItem[] }
+  | { kind: 'code'; text: string }
+  | { kind: 'rule' };
+
+/** `url` when it is an http(s) or mailto address, undefined for anything else. */
+export const safeHref = (url: string): string | undefined =>
+  /^(https?:\/\/|mailto:)[^\s]+$/i.test(url.trim()) ? url.trim() : undefined;
+
+// the first match decides; groups: 1 code, 2-3 link, 4-5 strong, 6 strike, 7-8 em, 9 address
+const INLINE =
+  /`([^`]+)`|\[([^\]]+)\]\(([^)\s]+)\)|\*\*(.+?)\*\*|__(.+?)__|~~(.+?)~~|\*([^*\s](?:.*?[^*\s])?)\*|(?<![\w])_([^_\s](?:.*?[^_\s])?)_(?![\w])|(https?:\/\/[^\s<]*[^\s<.,;:!?)\]'"])/;
+
+/** The inline nodes of one line of text. */
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let rest = text;
+  while (rest) {
+    const match = INLINE.exec(rest);
+    if (!match) {
+      nodes.push({ kind: 'text', text: rest });
+      break;
+    }
+    if (match.index > 0) nodes.push({ kind: 'text', text: rest.slice(0, match.index) });
+    const [whole, code, label, url, strong, strong2, strike, em, em2, address] = match;
+    if (code !== undefined) {
+      nodes.push({ kind: 'code', text: code });
+    } else if (label !== undefined) {
+      const href = safeHref(url);
+      // a link to anything else keeps its text only
+      if (href) nodes.push({ kind: 'link', href, children: parseInline(label) });
+      else nodes.push(...parseInline(label));
+    } else if (strong !== undefined || strong2 !== undefined) {
+      nodes.push({ kind: 'strong', children: parseInline(strong ?? strong2) });
+    } else if (strike !== undefined) {
+      nodes.push({ kind: 'strike', children: parseInline(strike) });
+    } else if (em !== undefined || em2 !== undefined) {
+      nodes.push({ kind: 'em', children: parseInline(em ?? em2) });
+    } else {
+      nodes.push({ kind: 'link', href: address, children: [{ kind: 'text', text: address }] });
+    }
+    rest = rest.slice(match.index + whole.length);
+  }
+  return nodes;
+}
+
+const HEADING = /^(#{1,3})\s+(.*)$/;
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED = /^\s*(\d+)[.)]\s+(.*)$/;
+const TASK = /^\[([ xX])\]\s+(.*)$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const FENCE = /^\s*```/;
+
+/** The blocks of a description. */
+export function parseMarkdown(text: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  // the block the next line may continue
+  let open: MarkdownBlock | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (FENCE.test(line)) {
+      const body: string[] = [];
+      for (i++; i < lines.length && !FENCE.test(lines[i]); i++) body.push(lines[i]);
+      blocks.push({ kind: 'code', text: body.join('\n') });
+      open = null;
+      continue;
+    }
+    if (!line.trim()) {
+      open = null;
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      const level = heading[1].length as 1 | 2 | 3;
+      blocks.push({ kind: 'heading', level, children: parseInline(heading[2]) });
+      open = null;
+      continue;
+    }
+    if (RULE.test(line)) {
+      blocks.push({ kind: 'rule' });
+      open = null;
+      continue;
+    }
+
+    const bullet = BULLET.exec(line);
+    const numbered = bullet ? null : NUMBERED.exec(line);
+    if (bullet || numbered) {
+      const ordered = !bullet;
+      const content = bullet?.[1] ?? numbered?.[2] ?? '';
+      const task = TASK.exec(content);
+      const item: MarkdownListItem = task
+        ? { checked: task[1] !== ' ', children: parseInline(task[2]) }
+        : { children: parseInline(content) };
+      if (open?.kind === 'list' && open.ordered === ordered) {
+        open.items.push(item);
+      } else {
+        open = { kind: 'list', ordered, start: Number(numbered?.[1] ?? 1), items: [item] };
+        blocks.push(open);
+      }
+      continue;
+    }
+
+    const quote = QUOTE.exec(line);
+    if (quote) {
+      if (open?.kind === 'quote') {
+        open.lines.push(parseInline(quote[1]));
+      } else {
+        open = { kind: 'quote', lines: [parseInline(quote[1])] };
+        blocks.push(open);
+      }
+      continue;
+    }
+
+    // a plain line continues a paragraph or quote, and ends a list
+    if (open?.kind === 'paragraph' || open?.kind === 'quote') {
+      open.lines.push(parseInline(line.trim()));
+    } else {
+      open = { kind: 'paragraph', lines: [parseInline(line.trim())] };
+      blocks.push(open);
+    }
+  }
+  return blocks;
+}
+
+const inlineText = (nodes: MarkdownInline[]): string =>
+  nodes.map((n) => ('children' in n ? inlineText(n.children) : n.text)).join('');
+
+/** The words of a description without its Markdown syntax (for search and previews). */
+export function markdownToPlainText(text: string): string {
+  return parseMarkdown(text)
+    .map((block) => {
+      switch (block.kind) {
+        case 'heading':
+          return inlineText(block.children);
+        case 'paragraph':
+        case 'quote':
+          return block.lines.map(inlineText).join('\n');
+        case 'list':
+          return block.items.map((item) => inlineText(item.children)).join('\n');
+        case 'code':
+          return block.text;
+        case 'rule':
+          return '';
+      }
+    })
+    .filter(Boolean)
+    .join('\n');
+}
+
+/* -------------------------
+   Editing
+   ------------------------- */
+
+/** Text after an edit, with the selection to restore in the editor. */
+export type TextEdit = { text: string; selectionStart: number; selectionEnd: number };
+
+/**
+ * Wrap the selection in `marker` (e.g. "**"), or unwrap it when already wrapped. Without a
+ * selection the markers are inserted with the cursor between them.
+ */
+export function toggleWrap(text: string, start: number, end: number, marker: string): TextEdit {
+  const size = marker.length;
+  const before = text.slice(start - size, start);
+  const after = text.slice(end, end + size);
+  if (before === marker && after === marker) {
+    return {
+      text: text.slice(0, start - size) + text.slice(start, end) + text.slice(end + size),
+      selectionStart: start - size,
+      selectionEnd: end - size,
+    };
+  }
+  return {
+    text: text.slice(0, start) + marker + text.slice(start, end) + marker + text.slice(end),
+    selectionStart: start + size,
+    selectionEnd: end + size,
+  };
+}
+
+// list markers a line may already start with, replaced when switching list kinds
+const LINE_MARKER = /^(\s*)(?:[-*+]\s+\[[ xX]\]\s+|[-*+]\s+|\d+[.)]\s+)?/;
+
+/**
+ * Turn the lines the selection touches into a bullet ("- "), numbered ("1. ") or check list
+ * ("- [ ] "), replacing any other list marker; when they all are that kind already, turn
+ * them back into plain lines. The whole lines end up selected.
+ */
+export function toggleList(
+  text: string,
+  start: number,
+  end: number,
+  kind: 'bullet' | 'numbered' | 'check'
+): TextEdit {
+  const from = text.lastIndexOf('\n', start - 1) + 1;
+  const lineEnd = text.indexOf('\n', Math.max(end - (end > start ? 1 : 0), start));
+  const to = lineEnd === -1 ? text.length : lineEnd;
+  const lines = text.slice(from, to).split('\n');
+
+  const pattern = {
+    bullet: /^\s*[-*+]\s+(?!\[[ xX]\])/,
+    numbered: /^\s*\d+[.)]\s+/,
+    check: /^\s*[-*+]\s+\[[ xX]\]\s+/,
+  }[kind];
+  const remove = lines.every((line) => pattern.test(line));
+  const changed = lines
+    .map((line, i) => {
+      const marker = { bullet: '- ', numbered: `${i + 1}. `, check: '- [ ] ' }[kind];
+      return line.replace(LINE_MARKER, (_, indent: string) => (remove ? indent : indent + marker));
+    })
+    .join('\n');
+
+  return {
+    text: text.slice(0, from) + changed + text.slice(to),
+    selectionStart: from,
+    selectionEnd: from + changed.length,
+  };
+}
+
+/** Make the selection a link's text ("link" without one), selecting the address to type. */
+export function insertLink(text: string, start: number, end: number): TextEdit {
+  const label = text.slice(start, end) || 'link';
+  const url = 'https://';
+  const inserted = `[${label}](${url})`;
+  const urlStart = start + label.length + 3;
+  return {
+    text: text.slice(0, start) + inserted + text.slice(end),
+    selectionStart: urlStart,
+    selectionEnd: urlStart + url.length,
+  };
+}
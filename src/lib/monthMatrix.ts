@@ -0,0 +1,29 @@
+import { addDays, eachDayOfInterval, isSameMonth, startOfMonth, startOfWeek } from 'date-fns';
+
+// Use full Date in cells and a boolean flag for inMonth
+export type MonthMatrixCell = { date: Date; inMonth: boolean };
+
+/**
+ * Weeks of a month as a fixed 6x7 grid (Monday-first), padded with days of the
+ * neighbouring months so every month has the same height.
+ */
+export function generateMonthMatrix(year: number, monthIndex: number): MonthMatrixCell[][] {
+  const monthStart = startOfMonth(new Date(year, monthIndex, 1));
+  // weekStartsOn: 1 -> Monday-first
+  const rangeStart = startOfWeek(monthStart, { weekStartsOn: 1 });
+  // always show 6 weeks (6 * 7 = 42 days)
+  const days = eachDayOfInterval({
+    start: rangeStart,
+    end: addDays(rangeStart, 42 - 1),
+  });
+
+  const weeks: MonthMatrixCell[][] = [];
+  for (let i = 0; i < days.length; i += 7) {
+    const week = days.slice(i, i + 7).map((d) => ({
+      date: d,
+      inMonth: isSameMonth(d, monthStart),
+    }));
+    weeks.push(week);
+  }
+  return weeks;
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+
+import type { IEvent, IRecurrenceRule } from '@/types/Calendar';
+
+import { describeRecurrence, expandOccurrences, toSeriesEvent } from './recurrence';
+
+// local times, so expectations hold in any time zone
+const local = (y: number, m: number, d: number, h = 9, min = 0) => new Date(y, m - 1, d, h, min);
+
+const series = (recurrence: IRecurrenceRule, start = local(2024, 1, 1)): IEvent => ({
+  id: 7,
+  title: 'Standup',
+  start: start.toISOString(),
+  end: new Date(start.getTime() + 15 * 60000).toISOString(),
+  recurrence,
+});
+
+const startsOf = (events: IEvent[]) => events.map((e) => new Date(e.start).getTime());
+
+describe('expandOccurrences', () => {
+  it('expands weekly rules on the BYDAY weekdays', () => {
+    // 2024-01-01 is a Monday
+    const occurrences = expandOccurrences(
+      series({ freq: 'weekly', byDay: ['MO', 'WE'] }),
+      local(2024, 1, 1, 0),
+      local(2024, 1, 10, 23)
+    );
+
+    expect(startsOf(occurrences)).toEqual(
+      [local(2024, 1, 1), local(2024, 1, 3), local(2024, 1, 8), local(2024, 1, 10)].map((d) =>
+        d.getTime()
+      )
+    );
+    expect(occurrences[1].occurrenceOf).toEqual({
+      id: 7,
+      offset: local(2024, 1, 3).getTime() - local(2024, 1, 1).getTime(),
+    });
+    expect(new Set(occurrences.map((e) => e.id)).size).toBe(4);
+  });
+
+  it('supports nth-weekday and skips missing days in monthly rules', () => {
+    const lastFriday = expandOccurrences(
+      series({ freq: 'monthly', byDay: ['-1FR'] }, local(2024, 1, 26)),
+      local(2024, 1, 1),
+      local(2024, 3, 31)
+    );
+    expect(startsOf(lastFriday)).toEqual(
+      [local(2024, 1, 26), local(2024, 2, 23), local(2024, 3, 29)].map((d) => d.getTime())
+    );
+
+    const on31st = expandOccurrences(
+      series({ freq: 'monthly' }, local(2024, 1, 31)),
+      local(2024, 1, 1),
+      local(2024, 4, 30)
+    );
+    expect(startsOf(on31st)).toEqual(
+      [local(2024, 1, 31), local(2024, 3, 31)].map((d) => d.getTime())
+    );
+  });
+
+  it('applies COUNT, UNTIL and EXDATE', () => {
+    const window = [local(2024, 1, 1, 0), local(2024, 12, 31)] as const;
+
+    expect(expandOccurrences(series({ freq: 'daily', count: 3 }), ...window)).toHaveLength(3);
+    expect(
+      expandOccurrences(
+        series({ freq: 'daily', until: local(2024, 1, 5, 23).toISOString() }),
+        ...window
+      )
+    ).toHaveLength(5);
+
+    // the excluded occurrence still counts towards COUNT
+    const withExDate = expandOccurrences(
+      series({ freq: 'daily', count: 3, exDates: [local(2024, 1, 2).toISOString()] }),
+      ...window
+    );
+    expect(startsOf(withExDate)).toEqual(
+      [local(2024, 1, 1), local(2024, 1, 3)].map((d) => d.getTime())
+    );
+  });
+
+  it('only counts occurrences from the series start when the window starts later', () => {
+    const occurrences = expandOccurrences(
+      series({ freq: 'yearly', interval: 2, count: 3 }),
+      local(2025, 1, 1),
+      local(2030, 12, 31)
+    );
+
+    expect(startsOf(occurrences)).toEqual(
+      [local(2026, 1, 1), local(2028, 1, 1)].map((d) => d.getTime())
+    );
+  });
+
+  it('leaves plain events alone', () => {
+    const plain: IEvent = {
+      id: 1,
+      title: 'One-off',
+      start: local(2024, 1, 2).toISOString(),
+      end: '',
+    };
+
+    expect(expandOccurrences(plain, local(2024, 1, 1), local(2024, 1, 3))).toEqual([plain]);
+    expect(expandOccurrences(plain, local(2024, 2, 1), local(2024, 2, 3))).toEqual([]);
+  });
+});
+
+describe('toSeriesEvent', () => {
+  it('maps a moved occurrence back onto its series', () => {
+    const [, second] = expandOccurrences(
+      series({ freq: 'daily' }),
+      local(2024, 1, 1, 0),
+      local(2024, 1, 2, 23)
+    );
+    const moved = {
+      ...second,
+      start: local(2024, 1, 2, 10).toISOString(),
+      end: local(2024, 1, 2, 10, 15).toISOString(),
+    };
+
+    const updated = toSeriesEvent(moved);
+
+    expect(updated.id).toBe(7);
+    expect(updated.occurrenceOf).toBeUndefined();
+    expect(updated.start).toBe(local(2024, 1, 1, 10).toISOString());
+    expect(updated.end).toBe(local(2024, 1, 1, 10, 15).toISOString());
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('summarises a rule', () => {
+    expect(
+      describeRecurrence({ freq: 'weekly', interval: 2, byDay: ['MO', 'WE'], count: 10 })
+    ).toBe('Every 2 weeks on Mon, Wed, 10 times');
+    expect(describeRecurrence({ freq: 'monthly', byDay: ['-1FR'] })).toBe(
+      'Every month on the last Fri'
+    );
+  });
+});
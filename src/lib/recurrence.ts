@@ -0,0 +1,267 @@
+import { addDays, addWeeks, format, startOfWeek } from 'date-fns';
+
+import type { ByDay, IEvent, IRecurrenceRule, Weekday } from '../types/Calendar';
+import { fromZonedTime, isValidTimeZone, toZonedTime } from './timeZones';
+
+/* -------------------------
+   Rule helpers
+   ------------------------- */
+
+// indexed like Date#getDay()
+export const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// safety net for rules that never produce a candidate (e.g. "5th Friday" with a short COUNT)
+const MAX_PERIODS = 50000;
+
+/**
+ * Split a BYDAY entry into its weekday (0 = Sunday) and optional ordinal ("-1FR" -> last Friday).
+ * Returns null for malformed entries.
+ */
+export function parseByDay(entry: ByDay): { weekday: number; ordinal: number | null } | null {
+  const match = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/.exec(entry);
+  if (!match) return null;
+  return {
+    weekday: WEEKDAYS.indexOf(match[2] as Weekday),
+    ordinal: match[1] ? parseInt(match[1], 10) : null,
+  };
+}
+
+/** BYDAY entry for "the nth <weekday> of the month" of a date, e.g. 2TU or -1FR for the last one. */
+export function ordinalByDayOf(date: Date, fromEnd = false): ByDay {
+  const weekday = WEEKDAYS[date.getDay()];
+  if (fromEnd) return `-1${weekday}`;
+  return `${Math.ceil(date.getDate() / 7)}${weekday}`;
+}
+
+/** Keep the calendar day of `day` and the wall-clock time of `time`. */
+const atTimeOf = (day: Date, time: Date) =>
+  new Date(
+    day.getFullYear(),
+    day.getMonth(),
+    day.getDate(),
+    time.getHours(),
+    time.getMinutes(),
+    time.getSeconds(),
+    time.getMilliseconds()
+  );
+
+/** Days of a month matching the BYDAY entries, in date order. */
+function monthDaysMatching(year: number, month: number, byDay: ByDay[]): Date[] {
+  const lastDay = new Date(year, month + 1, 0).getDate();
+  const days = new Set<number>();
+
+  byDay.forEach((entry) => {
+    const parsed = parseByDay(entry);
+    if (!parsed) return;
+
+    const matching: number[] = [];
+    for (let d = 1; d <= lastDay; d++) {
+      if (new Date(year, month, d).getDay() === parsed.weekday) matching.push(d);
+    }
+
+    if (parsed.ordinal === null) {
+      matching.forEach((d) => days.add(d));
+    } else {
+      const d = parsed.ordinal > 0 ? matching[parsed.ordinal - 1] : matching.at(parsed.ordinal);
+      if (d !== undefined) days.add(d);
+    }
+  });
+
+  return [...days].sort((a, b) => a - b).map((d) => new Date(year, month, d));
+}
+
+/**
+ * Candidate occurrence starts of a rule, in chronological order, beginning with the series start.
+ * COUNT/UNTIL/EXDATE are applied by the caller. Wall-clock time is preserved across DST changes.
+ * - DAILY: every `interval` days; BYDAY (plain weekdays) filters the days.
+ * - WEEKLY: the BYDAY weekdays (default: the start's weekday) of every `interval` weeks,
+ *   weeks starting on Monday.
+ * - MONTHLY: the start's day of month (months without it are skipped), or the BYDAY days.
+ * - YEARLY: the start's month and day (Feb 29 only occurs in leap years); BYDAY is ignored.
+ */
+function* occurrenceStarts(rule: IRecurrenceRule, start: Date): Generator<Date> {
+  const interval = Math.max(1, Math.floor(rule.interval ?? 1));
+  const byDay = (rule.byDay ?? []).filter((entry) => parseByDay(entry) !== null);
+  const plainWeekdays = byDay
+    .map((entry) => parseByDay(entry))
+    .filter((parsed) => parsed && parsed.ordinal === null)
+    .map((parsed) => parsed!.weekday);
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    let candidates: Date[] = [];
+
+    switch (rule.freq) {
+      case 'daily': {
+        const day = addDays(start, period * interval);
+        if (plainWeekdays.length === 0 || plainWeekdays.includes(day.getDay())) {
+          candidates = [atTimeOf(day, start)];
+        }
+        break;
+      }
+
+      case 'weekly': {
+        const weekStart = addWeeks(startOfWeek(start, { weekStartsOn: 1 }), period * interval);
+        const weekdays = plainWeekdays.length > 0 ? plainWeekdays : [start.getDay()];
+        candidates = [...new Set(weekdays)]
+          // Monday-first order within the week
+          .sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7))
+          .map((weekday) => atTimeOf(addDays(weekStart, (weekday + 6) % 7), start));
+        break;
+      }
+
+      case 'monthly': {
+        const monthIndex = start.getMonth() + period * interval;
+        const year = start.getFullYear() + Math.floor(monthIndex / 12);
+        const month = monthIndex % 12;
+        if (byDay.length > 0) {
+          candidates = monthDaysMatching(year, month, byDay).map((day) => atTimeOf(day, start));
+        } else {
+          const day = new Date(year, month, start.getDate());
+          // skip months that do not have this day (e.g. the 31st)
+          if (day.getMonth() === month) candidates = [atTimeOf(day, start)];
+        }
+        break;
+      }
+
+      case 'yearly': {
+        const year = start.getFullYear() + period * interval;
+        const day = new Date(year, start.getMonth(), start.getDate());
+        if (day.getMonth() === start.getMonth()) candidates = [atTimeOf(day, start)];
+        break;
+      }
+
+      default:
+        return;
+    }
+
+    for (const candidate of candidates) {
+      if (candidate.getTime() >= start.getTime()) yield candidate;
+    }
+  }
+}
+
+/* -------------------------
+   Expansion
+   ------------------------- */
+
+/** True for stored recurring events (occurrences already expanded from one are not). */
+export const isRecurring = (event: IEvent) => !!event.recurrence && !event.occurrenceOf;
+
+/** Id of the stored event an event or occurrence belongs to. */
+export const seriesIdOf = (event: Pick<IEvent, 'id' | 'occurrenceOf'>) =>
+  event.occurrenceOf?.id ?? event.id;
+
+/**
+ * Expand a recurring event into the occurrences that start within [from, to] (inclusive).
+ * Non-recurring events are returned as-is when they start in the window.
+ * Occurrences keep the series' wall-clock time in `event.timeZone` (the browser's zone
+ * when unset).
+ * Each occurrence keeps the series fields, gets a unique id and records its series in
+ * `occurrenceOf`, so edits can be mapped back with `toSeriesEvent`.
+ */
+export function expandOccurrences(event: IEvent, from: Date, to: Date): IEvent[] {
+  const start = new Date(event.start);
+  if (!Number.isFinite(start.getTime())) return [];
+
+  if (!isRecurring(event)) {
+    return start >= from && start <= to ? [event] : [];
+  }
+
+  const rule = event.recurrence!;
+  const end = new Date(event.end);
+  const duration = Number.isFinite(end.getTime()) ? end.getTime() - start.getTime() : 0;
+  const until = rule.until ? new Date(rule.until).getTime() : Infinity;
+  const excluded = new Set((rule.exDates ?? []).map((d) => new Date(d).getTime()));
+
+  // generate in the event's own zone so wall-clock time holds across its DST changes
+  const timeZone = isValidTimeZone(event.timeZone) ? event.timeZone : null;
+  const toInstant = (wallClock: Date) =>
+    timeZone ? fromZonedTime(wallClock, timeZone) : wallClock;
+  const wallClockStart = timeZone ? toZonedTime(start, timeZone) : start;
+
+  const occurrences: IEvent[] = [];
+  let generated = 0;
+
+  for (const candidate of occurrenceStarts(rule, wallClockStart)) {
+    const occurrence = toInstant(candidate);
+    const time = occurrence.getTime();
+    if (rule.count && generated >= rule.count) break;
+    if (time > until || time > to.getTime()) break;
+    // EXDATEs still count towards COUNT (RFC 5545 applies them after generation)
+    generated++;
+    if (time < from.getTime() || excluded.has(time)) continue;
+
+    occurrences.push({
+      ...event,
+      id: `${event.id}@${occurrence.toISOString()}`,
+      start: occurrence.toISOString(),
+      end: new Date(time + duration).toISOString(),
+      occurrenceOf: { id: event.id, offset: time - start.getTime() },
+    });
+  }
+
+  return occurrences;
+}
+
+/**
+ * Map an edited occurrence back onto its stored series: restore the series id and shift
+ * start/end by the occurrence's offset, so moving one occurrence moves the whole series.
+ * Plain events are returned unchanged.
+ */
+export function toSeriesEvent(event: IEvent): IEvent {
+  if (!event.occurrenceOf) return event;
+
+  const { occurrenceOf, ...series } = event;
+  const shift = (iso: string) =>
+    new Date(new Date(iso).getTime() - occurrenceOf.offset).toISOString();
+  return { ...series, id: occurrenceOf.id, start: shift(event.start), end: shift(event.end) };
+}
+
+/* -------------------------
+   Display
+   ------------------------- */
+
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MO: 'Mon',
+  TU: 'Tue',
+  WE: 'Wed',
+  TH: 'Thu',
+  FR: 'Fri',
+  SA: 'Sat',
+  SU: 'Sun',
+};
+
+const ORDINAL_LABELS: Record<string, string> = {
+  '1': 'first',
+  '2': 'second',
+  '3': 'third',
+  '4': 'fourth',
+  '5': 'fifth',
+  '-1': 'last',
+};
+
+/** BYDAY entry as text: "TU" -> "Tue", "2TU" -> "the second Tue" ("" when malformed). */
+export function describeByDay(entry: ByDay): string {
+  const parsed = parseByDay(entry);
+  if (!parsed) return '';
+  const label = WEEKDAY_LABELS[WEEKDAYS[parsed.weekday]];
+  if (parsed.ordinal === null) return label;
+  return `the ${ORDINAL_LABELS[String(parsed.ordinal)] ?? `${parsed.ordinal}th`} ${label}`;
+}
+
+const UNIT_LABELS = { daily: 'day', weekly: 'week', monthly: 'month', yearly: 'year' } as const;
+
+/** Short human summary of a rule, e.g. "Every 2 weeks on Mon, Wed, 10 times". */
+export function describeRecurrence(rule: IRecurrenceRule): string {
+  const interval = Math.max(1, rule.interval ?? 1);
+  const unit = UNIT_LABELS[rule.freq];
+  const parts = [interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`];
+
+  const days = (rule.byDay ?? []).map(describeByDay).filter(Boolean);
+  if (days.length > 0 && rule.freq !== 'yearly') parts[0] += ` on ${days.join(', ')}`;
+
+  if (rule.count) parts.push(rule.count === 1 ? 'once' : `${rule.count} times`);
+  else if (rule.until) parts.push(`until ${format(new Date(rule.until), 'd MMM yyyy')}`);
+
+  return parts.join(', ');
+}
@@ -0,0 +1,83 @@
+import { format } from 'date-fns';
+
+import type { IEvent } from '../types/Calendar';
+import { toZonedTime } from './timeZones';
+
+/* -------------------------
+   Reminders
+   ------------------------- */
+
+/** Reminder lead times offered in the pickers, in minutes before the start. */
+export const REMINDER_OPTIONS = [0, 5, 10, 15, 30, 60, 120, 1440, 2880, 10080];
+
+/** Longest lead time a reminder may have; the scheduler looks no further ahead. */
+export const MAX_REMINDER_MINUTES = Math.max(...REMINDER_OPTIONS);
+
+/** Snooze lengths offered on an alert, in minutes. */
+export const SNOOZE_OPTIONS = [5, 10, 15];
+
+/** "At start", "10 minutes before", "1 day before"... */
+export const describeReminder = (minutes: number) => {
+  if (minutes === 0) return 'At start';
+  const [value, unit] =
+    minutes % 10080 === 0
+      ? [minutes / 10080, 'week']
+      : minutes % 1440 === 0
+        ? [minutes / 1440, 'day']
+        : minutes % 60 === 0
+          ? [minutes / 60, 'hour']
+          : [minutes, 'minute'];
+  return `${value} ${unit}${value === 1 ? '' : 's'} before`;
+};
+
+/** True when `value` is a usable reminder list (minutes before the start, 0 to a week). */
+export const isReminderList = (value: unknown): value is number[] =>
+  Array.isArray(value) &&
+  value.every(
+    (m) => typeof m === 'number' && Number.isFinite(m) && m >= 0 && m <= MAX_REMINDER_MINUTES
+  );
+
+/** A reminder list sorted soonest-to-start first, without duplicates. */
+export const normalizeReminders = (minutes: number[]) =>
+  [...new Set(minutes)].sort((a, b) => a - b);
+
+/** One reminder of one occurrence. */
+export type ReminderAlert = {
+  // stable across reloads: series id, occurrence start and lead time
+  key: string;
+  eventId: number | string;
+  title: string;
+  // ISO times
+  start: string;
+  end: string;
+  fireAt: string;
+  minutes: number;
+};
+
+/**
+ * Every reminder of the given events (occurrences already expanded), ordered by when it
+ * fires.
+ */
+export const alertsOf = (
+  events: IEvent[],
+  reminders: (event: IEvent) => number[]
+): ReminderAlert[] =>
+  events
+    .flatMap((event) => {
+      const eventId = event.occurrenceOf?.id ?? event.id;
+      const start = new Date(event.start);
+      return reminders(event).map((minutes) => ({
+        key: `${eventId}@${start.toISOString()}-${minutes}`,
+        eventId,
+        title: event.title,
+        start: start.toISOString(),
+        end: new Date(event.end).toISOString(),
+        fireAt: new Date(start.getTime() - minutes * 60_000).toISOString(),
+        minutes,
+      }));
+    })
+    .sort((a, b) => a.fireAt.localeCompare(b.fireAt));
+
+/** When the reminded occurrence starts, in `timeZone` ("Tue 12 Mar, 10:00"). */
+export const formatAlertStart = (alert: ReminderAlert, timeZone: string) =>
+  format(toZonedTime(new Date(alert.start), timeZone), 'EEE d MMM, HH:mm');
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+
+import type { IEvent } from '@/types/Calendar';
+import { highlightParts, searchEvents } from './search';
+
+const events: IEvent[] = [
+  {
+    id: 1,
+    title: 'Dentist',
+    description: 'Check-up at the clinic',
+    start: '2024-05-02T09:00:00.000Z',
+    end: '2024-05-02T10:00:00.000Z',
+    type: 'personal',
+  },
+  {
+    id: 2,
+    title: 'Sprint review',
+    location: 'Room Aurora',
+    start: '2024-03-04T14:00:00.000Z',
+    end: '2024-03-04T15:00:00.000Z',
+    type: 'meeting',
+  },
+  {
+    id: 3,
+    title: 'Team lunch',
+    description: 'After the review',
+    start: '2024-04-10T12:00:00.000Z',
+    end: '2024-04-10T13:00:00.000Z',
+    type: 'work',
+  },
+];
+
+describe('searchEvents', () => {
+  it('matches every word in title, description, location or type, ordered by start', () => {
+    expect(searchEvents(events, 'REVIEW').map((e) => e.id)).toEqual([2, 3]);
+    expect(searchEvents(events, 'review meeting').map((e) => e.id)).toEqual([2]);
+    expect(searchEvents(events, 'clinic personal').map((e) => e.id)).toEqual([1]);
+    expect(searchEvents(events, 'aurora').map((e) => e.id)).toEqual([2]);
+    expect(searchEvents(events, 'dentist lunch')).toEqual([]);
+    expect(searchEvents(events, '   ')).toEqual([]);
+  });
+
+  it('splits text into highlighted parts', () => {
+    expect(highlightParts('Sprint review', 'rev spr')).toEqual([
+      { text: 'Spr', match: true },
+      { text: 'int ', match: false },
+      { text: 'rev', match: true },
+      { text: 'iew', match: false },
+    ]);
+    expect(highlightParts('a+b (c)', '(c)')).toEqual([
+      { text: 'a+b ', match: false },
+      { text: '(c)', match: true },
+    ]);
+    expect(highlightParts('Lunch', '')).toEqual([{ text: 'Lunch', match: false }]);
+  });
+});
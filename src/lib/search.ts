@@ -0,0 +1,62 @@
+import type { IEvent } from '../types/Calendar';
+import { markdownToPlainText } from './markdown';
+
+/* -------------------------
+   Event search
+   ------------------------- */
+
+type Searchable = Pick<IEvent, 'title' | 'description' | 'location' | 'type'>;
+
+/** How a type id reads to the user (see `typeName`); the id itself by default. */
+type TypeLabel = (type: string | undefined) => string;
+
+const typeId: TypeLabel = (type) => type ?? '';
+
+/** The fields an event is found by (the description's words, not its Markdown syntax). */
+const searchableText = (event: Searchable, typeLabel: TypeLabel) => [
+  event.title,
+  markdownToPlainText(event.description ?? ''),
+  event.location ?? '',
+  typeLabel(event.type),
+];
+
+/** Lower-cased words of a query; empty when there is nothing to search for. */
+export const searchTerms = (query: string) =>
+  query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+
+/** True when every word of `query` appears in one of the searched fields (case-insensitive). */
+export const matchesSearch = (event: Searchable, query: string, typeLabel = typeId) => {
+  const terms = searchTerms(query);
+  if (terms.length === 0) return true;
+  const text = searchableText(event, typeLabel).join('\n').toLowerCase();
+  return terms.every((term) => text.includes(term));
+};
+
+/**
+ * Events where every word of `query` appears in one of the searched fields (title,
+ * description, location, type), case-insensitively, ordered by start. An empty query matches nothing.
+ */
+export const searchEvents = (events: IEvent[], query: string, typeLabel = typeId): IEvent[] => {
+  if (searchTerms(query).length === 0) return [];
+  return events
+    .filter((event) => matchesSearch(event, query, typeLabel))
+    .sort((a, b) => Date.parse(a.start) - Date.parse(b.start));
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** `text` split into the parts that match a word of `query` and those in between. */
+export const highlightParts = (text: string, query: string) => {
+  const terms = searchTerms(query);
+  if (terms.length === 0 || !text) return [{ text, match: false }];
+  // longest first, so a word is not cut short by a shorter one it starts with
+  const pattern = terms
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|');
+  // with a capturing group, split keeps the matches at the odd indexes
+  return text
+    .split(new RegExp(`(${pattern})`, 'gi'))
+    .map((part, index) => ({ text: part, match: index % 2 === 1 }))
+    .filter((part) => part.text !== '');
+};
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+
+import type { IEvent } from '@/types/Calendar';
+
+import { expandOccurrences } from './recurrence';
+import {
+  formatUtcOffset,
+  fromZonedTime,
+  isValidTimeZone,
+  timeZoneOffset,
+  toZonedTime,
+} from './timeZones';
+import { groupApiEventsToScheduled } from './utils';
+
+const LISBON = 'Europe/Lisbon';
+const SAO_PAULO = 'America/Sao_Paulo';
+
+// wall-clock fields of a zoned Date, independent of the machine's zone
+const fieldsOf = (d: Date) => [
+  d.getFullYear(),
+  d.getMonth() + 1,
+  d.getDate(),
+  d.getHours(),
+  d.getMinutes(),
+];
+
+describe('time zone conversion', () => {
+  it('reads an instant as wall-clock time in a zone', () => {
+    const instant = new Date('2024-07-01T12:30:00Z');
+
+    expect(fieldsOf(toZonedTime(instant, LISBON))).toEqual([2024, 7, 1, 13, 30]);
+    expect(fieldsOf(toZonedTime(instant, SAO_PAULO))).toEqual([2024, 7, 1, 9, 30]);
+  });
+
+  it('turns wall-clock time back into the same instant', () => {
+    const wallClock = new Date(2024, 0, 15, 9, 0);
+
+    expect(fromZonedTime(wallClock, LISBON).toISOString()).toBe('2024-01-15T09:00:00.000Z');
+    expect(fromZonedTime(wallClock, SAO_PAULO).toISOString()).toBe('2024-01-15T12:00:00.000Z');
+    // summer time in Lisbon
+    expect(fromZonedTime(new Date(2024, 6, 1, 9), LISBON).toISOString()).toBe(
+      '2024-07-01T08:00:00.000Z'
+    );
+  });
+
+  it('reports offsets and validates names', () => {
+    expect(timeZoneOffset(new Date('2024-07-01T00:00:00Z'), LISBON)).toBe(3600000);
+    expect(formatUtcOffset(SAO_PAULO, new Date('2024-07-01T00:00:00Z'))).toBe('UTC-03:00');
+    expect(isValidTimeZone(LISBON)).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    expect(isValidTimeZone(undefined)).toBe(false);
+  });
+});
+
+describe('zoned scheduling', () => {
+  it('keys timed events by wall-clock time in the display zone', () => {
+    const events: IEvent[] = [
+      { id: 1, title: 'Sync', start: '2024-07-01T12:00:00Z', end: '2024-07-01T12:30:00Z' },
+    ];
+
+    expect(Object.keys(groupApiEventsToScheduled(events, undefined, LISBON))).toEqual([
+      'event-2024-07-01-13-0',
+    ]);
+    expect(Object.keys(groupApiEventsToScheduled(events, undefined, SAO_PAULO))).toEqual([
+      'event-2024-07-01-9-0',
+    ]);
+  });
+
+  it('keeps the date of all-day events defined in another zone', () => {
+    const holiday: IEvent = {
+      id: 1,
+      title: 'Holiday',
+      allDay: true,
+      timeZone: LISBON,
+      // midnight in Lisbon, still the previous evening in Sao Paulo
+      start: '2024-06-13T23:00:00Z',
+      end: '2024-06-13T23:00:00Z',
+    };
+
+    expect(Object.keys(groupApiEventsToScheduled([holiday], undefined, SAO_PAULO))).toEqual([
+      'all-day-2024-06-14',
+    ]);
+  });
+});
+
+describe('recurrence across DST', () => {
+  it("keeps the series' wall-clock time in its own zone", () => {
+    // 9:00 in Lisbon every day; clocks go forward on Sunday 31 March 2024
+    const standup: IEvent = {
+      id: 7,
+      title: 'Standup',
+      start: '2024-03-29T09:00:00Z',
+      end: '2024-03-29T09:15:00Z',
+      timeZone: LISBON,
+      recurrence: { freq: 'daily' },
+    };
+
+    const occurrences = expandOccurrences(
+      standup,
+      new Date('2024-03-29T00:00:00Z'),
+      new Date('2024-04-02T00:00:00Z')
+    );
+
+    expect(occurrences.map((e) => e.start)).toEqual([
+      '2024-03-29T09:00:00.000Z',
+      '2024-03-30T09:00:00.000Z',
+      '2024-03-31T08:00:00.000Z',
+      '2024-04-01T08:00:00.000Z',
+    ]);
+    expect(occurrences.map((e) => fieldsOf(toZonedTime(new Date(e.start), LISBON))[3])).toEqual([
+      9, 9, 9, 9,
+    ]);
+  });
+});
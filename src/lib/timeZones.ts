@@ -0,0 +1,141 @@
+import { isSameDay } from 'date-fns';
+
+/*
+  Time zone helpers built on Intl, no tz database of our own.
+
+  The views work on plain Dates and read them with getHours()/format(), so events are shown
+  in another zone by converting them into "wall-clock" Dates: a Date whose local fields hold
+  the time as seen in that zone (toZonedTime). fromZonedTime turns such a Date back into the
+  real instant before anything is stored.
+*/
+
+/** The browser's IANA time zone. */
+export const localTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+/** True for a zone name Intl understands (e.g. "Europe/Lisbon", "UTC"). */
+export function isValidTimeZone(timeZone: string | undefined | null): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** IANA zones offered in pickers, the browser's own first. */
+export function listTimeZones(): string[] {
+  const local = localTimeZone();
+  const supported =
+    typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+  return [local, ...supported.filter((tz) => tz !== local)];
+}
+
+// formatting is the slow part, so keep one formatter per zone
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const partsFormatter = (timeZone: string) => {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    partsFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/** Calendar fields of an instant as seen in `timeZone` (month is 1-12). */
+function zonedFields(date: Date, timeZone: string) {
+  const fields: Record<string, number> = {};
+  partsFormatter(timeZone)
+    .formatToParts(date)
+    .forEach(({ type, value }) => {
+      if (type !== 'literal') fields[type] = parseInt(value, 10);
+    });
+  return {
+    year: fields.year,
+    month: fields.month,
+    day: fields.day,
+    hour: fields.hour,
+    minute: fields.minute,
+    second: fields.second,
+    millisecond: date.getMilliseconds(),
+  };
+}
+
+/** Offset of `timeZone` from UTC at the given instant, in ms (UTC+1 -> 3600000). */
+export function timeZoneOffset(date: Date, timeZone: string): number {
+  const f = zonedFields(date, timeZone);
+  const asUtc = Date.UTC(f.year, f.month - 1, f.day, f.hour, f.minute, f.second, f.millisecond);
+  return asUtc - date.getTime();
+}
+
+/**
+ * Wall-clock Date for an instant in `timeZone`: its local fields (getHours() etc.) are the
+ * time shown on a clock in that zone. Invalid dates are returned as-is.
+ */
+export function toZonedTime(date: Date, timeZone: string): Date {
+  if (!Number.isFinite(date.getTime())) return date;
+  const f = zonedFields(date, timeZone);
+  return new Date(f.year, f.month - 1, f.day, f.hour, f.minute, f.second, f.millisecond);
+}
+
+/**
+ * Instant for a wall-clock Date read in `timeZone` (the inverse of toZonedTime).
+ * A time skipped by a DST change resolves like the platform does for local times.
+ */
+export function fromZonedTime(date: Date, timeZone: string): Date {
+  if (!Number.isFinite(date.getTime())) return date;
+  const asUtc = Date.UTC(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds(),
+    date.getMilliseconds()
+  );
+  const offset = timeZoneOffset(new Date(asUtc), timeZone);
+  // the offset at the guess may differ from the one at the result around DST changes
+  const corrected = timeZoneOffset(new Date(asUtc - offset), timeZone);
+  return new Date(asUtc - corrected);
+}
+
+/** Current wall-clock time in `timeZone`. */
+export const nowIn = (timeZone: string) => toZonedTime(new Date(), timeZone);
+
+/** True when a wall-clock Date falls on today's date in `timeZone`. */
+export const isTodayIn = (date: Date, timeZone: string) => isSameDay(date, nowIn(timeZone));
+
+/**
+ * Zone an event's dates are expressed in on screen. Timed events follow the display zone;
+ * all-day events keep their calendar date, read in their own zone (or the browser's).
+ */
+export const wallClockZoneOf = (
+  event: { allDay?: boolean; timeZone?: string },
+  displayTimeZone: string
+) => (event.allDay ? (event.timeZone ?? localTimeZone()) : displayTimeZone);
+
+/** Short zone name at an instant, e.g. "WEST" or "GMT-3". */
+export function timeZoneAbbreviation(timeZone: string, date = new Date()): string {
+  const part = new Intl.DateTimeFormat('en-GB', { timeZone, timeZoneName: 'short' })
+    .formatToParts(date)
+    .find((p) => p.type === 'timeZoneName');
+  return part?.value ?? timeZone;
+}
+
+/** UTC offset label at an instant, e.g. "UTC+01:00" or "UTC-03:00". */
+export function formatUtcOffset(timeZone: string, date = new Date()): string {
+  const minutes = Math.round(timeZoneOffset(date, timeZone) / 60000);
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `UTC${sign}${String(Math.floor(abs / 60)).padStart(2, '0')}:${String(abs % 60).padStart(2, '0')}`;
+}
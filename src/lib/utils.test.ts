@@ -2,7 +2,7 @@ import { describe, expect, it } from 'vitest';
 
 import type { IEvent } from '@/types/Calendar';
 
-import { groupApiEventsToScheduled } from './utils';
+import { groupApiEventsToScheduled, mergeScheduled, partitionSeries, toApiEvent } from './utils';
 
 describe('groupApiEventsToScheduled', () => {
   it('should group events by 15-minute slots', () => {
@@ -85,4 +85,97 @@ describe('groupApiEventsToScheduled', () => {
     expect(grouped[key][0].title).toBe('All Day Event');
     expect(grouped[key][0].allDay).toBe(true);
   });
+
+  it('should add a segment on every day a timed event covers', () => {
+    const apiEvents: Partial<IEvent>[] = [
+      {
+        id: 1,
+        title: 'Conference',
+        start: '2023-10-27T22:00:00',
+        end: '2023-10-29T02:30:00',
+      },
+    ];
+
+    const grouped = groupApiEventsToScheduled(apiEvents as IEvent[]);
+
+    expect(Object.keys(grouped)).toEqual([
+      'event-2023-10-27-22-0',
+      'event-2023-10-28-0-0',
+      'event-2023-10-29-0-0',
+    ]);
+    const segments = Object.values(grouped).flat();
+    // segments keep the event's id and times, durations cover each day's piece
+    expect(segments.map((e) => e.id)).toEqual(['1', '1', '1']);
+    expect(segments.map((e) => e.duration)).toEqual([120, 24 * 60, 150]);
+    expect(segments.map((e) => e.segment?.index)).toEqual([0, 1, 2]);
+    expect(segments[1].start).toEqual(new Date('2023-10-27T22:00:00'));
+  });
+
+  it('should not split an event ending at midnight', () => {
+    const apiEvents: Partial<IEvent>[] = [
+      {
+        id: 1,
+        title: 'Late shift',
+        start: '2023-10-27T20:00:00',
+        end: '2023-10-28T00:00:00',
+      },
+    ];
+
+    const grouped = groupApiEventsToScheduled(apiEvents as IEvent[]);
+
+    expect(Object.keys(grouped)).toEqual(['event-2023-10-27-20-0']);
+    expect(grouped['event-2023-10-27-20-0'][0].segment).toBeUndefined();
+  });
+
+  it('should keep the optional fields through toApiEvent', () => {
+    const event: IEvent = {
+      id: '7',
+      title: 'Planning',
+      description: 'Agenda',
+      location: 'Room Aurora',
+      start: '2023-10-27T09:00:00.000Z',
+      end: '2023-10-27T10:00:00.000Z',
+      allDay: false,
+      type: 'meeting',
+      colour: '2',
+      timeZone: 'Europe/Lisbon',
+      calendarId: 'work',
+      readOnly: true,
+      attendees: [{ name: 'Ana', email: 'ana@example.com', status: 'accepted' }],
+      reminders: [10],
+      attachments: [{ id: 'f1', name: 'agenda.pdf', type: 'application/pdf', size: 2048 }],
+    };
+
+    const [scheduled] = Object.values(groupApiEventsToScheduled([event], undefined, 'UTC')).flat();
+
+    expect(toApiEvent(scheduled, 'UTC')).toEqual(event);
+  });
+});
+
+describe('partitionSeries', () => {
+  it('should split out every occurrence and segment of a series and merge back', () => {
+    const scheduled = groupApiEventsToScheduled([
+      { id: 1, title: 'Overnight', start: '2023-10-27T22:00:00', end: '2023-10-28T02:00:00' },
+      { id: 2, title: 'Other', start: '2023-10-27T22:00:00', end: '2023-10-27T23:00:00' },
+      {
+        id: '1-occurrence',
+        title: 'Occurrence',
+        start: '2023-10-29T09:00:00',
+        end: '2023-10-29T10:00:00',
+        occurrenceOf: { id: 1, offset: 0 },
+      },
+    ]);
+
+    const { matching, rest } = partitionSeries(scheduled, ['1']);
+
+    expect(Object.values(matching).flat()).toHaveLength(3);
+    expect(
+      Object.values(rest)
+        .flat()
+        .map((e) => e.title)
+    ).toEqual(['Other']);
+    expect(mergeScheduled(rest, matching)['event-2023-10-27-22-0']).toHaveLength(2);
+    // inputs are left untouched
+    expect(Object.values(scheduled).flat()).toHaveLength(4);
+  });
 });
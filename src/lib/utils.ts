@@ -1,9 +1,23 @@
 import { type ClassValue, clsx } from 'clsx';
-import { addMinutes, differenceInMinutes } from 'date-fns';
+import {
+  addMinutes,
+  differenceInMinutes,
+  endOfDay,
+  endOfMonth,
+  endOfWeek,
+  endOfYear,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  startOfYear,
+} from 'date-fns';
 import { twMerge } from 'tailwind-merge';
 
-import { changeEvent } from '../services/Events';
+import { defaultEventStore, type EventStore } from '../services/Events';
 import type { IEvent, TCalendarEvent } from '../types/Calendar';
+import { displayRange, splitIntoDaySegments } from './daySegments';
+import { expandOccurrences, isRecurring, seriesIdOf, toSeriesEvent } from './recurrence';
+import { fromZonedTime, localTimeZone, toZonedTime, wallClockZoneOf } from './timeZones';
 
 /**
  * Small helper that composes clsx and tailwind-merge. Use instead of `clsx(...)`
@@ -33,6 +47,7 @@ const pad2 = (n: number) => String(n).padStart(2, '0');
  * Create a deterministic key for grouping events into 15-minute slots.
  * Format: event-YYYY-MM-DD-H-SLOT where hour H intentionally has no leading zero
  * to preserve the existing key shape.
+ * `dt` is a wall-clock Date in the display time zone (see `toZonedTime`).
  */
 function makeEventKey(dt: Date) {
   const year = dt.getFullYear();
@@ -48,34 +63,50 @@ function makeEventKey(dt: Date) {
  * - Skips events with invalid or missing start dates.
  * - Ensures end defaults to start + 15 minutes when missing/invalid.
  * - Duration is non-negative (minutes between start and end).
+ * - Timed events running past midnight get a segment on every day they cover.
+ * - When `range` is given, recurring events still in series form are expanded into their
+ *   occurrences within it (stores normally hand back occurrences already).
+ * - Times are converted to wall-clock times in `timeZone` (the display zone); `range` is
+ *   given in that zone too. All-day events keep their date (see `wallClockZoneOf`).
  */
-export function groupApiEventsToScheduled(apiEvents: IEvent[]): Record<string, TCalendarEvent[]> {
-  return apiEvents.reduce<Record<string, TCalendarEvent[]>>((acc, ev) => {
-    const start = parseSafeDate(ev.start);
-    if (!start) {
+export function groupApiEventsToScheduled(
+  apiEvents: IEvent[],
+  range?: { from: Date; to: Date },
+  timeZone: string = localTimeZone()
+): Record<string, TCalendarEvent[]> {
+  const events = range
+    ? apiEvents.flatMap((ev) =>
+        isRecurring(ev)
+          ? expandOccurrences(
+              ev,
+              fromZonedTime(range.from, timeZone),
+              fromZonedTime(range.to, timeZone)
+            )
+          : [ev]
+      )
+    : apiEvents;
+
+  return events.reduce<Record<string, TCalendarEvent[]>>((acc, ev) => {
+    const zone = wallClockZoneOf(ev, timeZone);
+    const instant = parseSafeDate(ev.start);
+    if (!instant) {
       // Skip entries that lack a valid start date (cannot place them on calendar)
       return acc;
     }
+    const start = toZonedTime(instant, zone);
 
     // Use provided end if valid, otherwise default to start + 15 minutes.
-    const end = parseSafeDate(ev.end) ?? addMinutes(start, 15);
+    const endInstant = parseSafeDate(ev.end);
+    const end = endInstant ? toZonedTime(endInstant, zone) : addMinutes(start, 15);
 
     // Defensive: ensure duration >= 0
     const duration = Math.max(0, differenceInMinutes(end, start));
 
-    let key = makeEventKey(start);
-    if (ev.allDay) {
-      const year = start.getFullYear();
-      const month = pad2(start.getMonth() + 1);
-      const day = pad2(start.getDate());
-      key = `all-day-${year}-${month}-${day}`;
-    }
-
     const item: TCalendarEvent = {
       id: String(ev.id),
       title: ev.title,
-      // prefer explicit description when available
-      description: ev.description ?? ev.title,
+      description: ev.description,
+      location: ev.location,
       start,
       end,
       duration,
@@ -83,33 +114,153 @@ export function groupApiEventsToScheduled(apiEvents: IEvent[]): Record<string, T
       colour: String(ev.colour ?? ''),
       slot: Math.floor(start.getMinutes() / 15),
       allDay: !!ev.allDay,
+      recurrence: ev.recurrence,
+      occurrenceOf: ev.occurrenceOf,
+      timeZone: ev.timeZone,
+      calendarId: ev.calendarId,
+      readOnly: ev.readOnly,
+      attendees: ev.attendees,
+      reminders: ev.reminders,
+      attachments: ev.attachments,
     };
 
-    if (!acc[key]) acc[key] = [];
-    acc[key].push(item);
+    return scheduleEvent(acc, item);
+  }, {});
+}
+
+/**
+ * Add an event to a slot-keyed map (assigns into and returns `scheduled`).
+ * All-day events go under `all-day-YYYY-MM-DD`; timed events running past midnight are split
+ * into day segments (see `splitIntoDaySegments`), each keyed at the slot it starts in.
+ */
+export function scheduleEvent(
+  scheduled: Record<string, TCalendarEvent[]>,
+  event: TCalendarEvent
+): Record<string, TCalendarEvent[]> {
+  // copy the list rather than push, so maps shallow-copied from React state stay untouched
+  const add = (key: string, item: TCalendarEvent) => {
+    scheduled[key] = [...(scheduled[key] ?? []), item];
+  };
+
+  if (event.allDay) {
+    const { start } = event;
+    add(
+      `all-day-${start.getFullYear()}-${pad2(start.getMonth() + 1)}-${pad2(start.getDate())}`,
+      event
+    );
+    return scheduled;
+  }
+
+  splitIntoDaySegments(event).forEach((item) => add(makeEventKey(displayRange(item).start), item));
+  return scheduled;
+}
+
+/**
+ * Split a slot-keyed map into the entries (occurrences and day segments) of the given
+ * series and everything else. Neither input map nor its lists are modified.
+ */
+export function partitionSeries(
+  scheduled: Record<string, TCalendarEvent[]>,
+  seriesIds: (number | string)[]
+): { matching: Record<string, TCalendarEvent[]>; rest: Record<string, TCalendarEvent[]> } {
+  const ids = new Set(seriesIds.map(String));
+  const matching: Record<string, TCalendarEvent[]> = {};
+  const rest: Record<string, TCalendarEvent[]> = {};
+  Object.entries(scheduled).forEach(([key, list]) => {
+    list.forEach((ev) => {
+      const target = ids.has(String(seriesIdOf(ev))) ? matching : rest;
+      target[key] = [...(target[key] ?? []), ev];
+    });
+  });
+  return { matching, rest };
+}
+
+/** Copy of a slot-keyed map keeping only the entries `keep` accepts (empty keys dropped). */
+export function filterScheduled(
+  scheduled: Record<string, TCalendarEvent[]>,
+  keep: (event: TCalendarEvent) => boolean
+): Record<string, TCalendarEvent[]> {
+  const filtered: Record<string, TCalendarEvent[]> = {};
+  Object.entries(scheduled).forEach(([key, list]) => {
+    const kept = list.filter(keep);
+    if (kept.length > 0) filtered[key] = kept;
+  });
+  return filtered;
+}
 
+/** Combine slot-keyed maps into a new one, concatenating lists that share a key. */
+export function mergeScheduled(
+  ...maps: Record<string, TCalendarEvent[]>[]
+): Record<string, TCalendarEvent[]> {
+  return maps.reduce<Record<string, TCalendarEvent[]>>((acc, map) => {
+    Object.entries(map).forEach(([key, list]) => {
+      acc[key] = [...(acc[key] ?? []), ...list];
+    });
     return acc;
   }, {});
 }
 
+/** Wall-clock window a view shows around `date` (weeks start on Monday, as in the views). */
+export function viewRangeOf(
+  viewBy: 'day' | 'week' | 'month' | 'year',
+  date: Date
+): { from: Date; to: Date } {
+  switch (viewBy) {
+    case 'week':
+      return {
+        from: startOfWeek(date, { weekStartsOn: 1 }),
+        to: endOfWeek(date, { weekStartsOn: 1 }),
+      };
+    case 'month':
+      return { from: startOfMonth(date), to: endOfMonth(date) };
+    case 'year':
+      return { from: startOfYear(date), to: endOfYear(date) };
+    default:
+      return { from: startOfDay(date), to: endOfDay(date) };
+  }
+}
+
 /**
- * Convert a TCalendarEvent back into the API shape and send the update.
- * Awaits the changeEvent call and returns the payload so callers can await
- * and inspect the value or handle errors.
+ * Convert a TCalendarEvent back into the API shape (an occurrence stays an occurrence).
+ * `timeZone` is the display zone the event's wall-clock start/end are expressed in.
  */
-export const updatedEvent = async (event: TCalendarEvent): Promise<IEvent> => {
-  const payload: IEvent = {
+export const toApiEvent = (event: TCalendarEvent, timeZone: string = localTimeZone()): IEvent => {
+  const zone = wallClockZoneOf(event, timeZone);
+  return {
     id: event.id,
     title: event.title,
     description: event.description,
-    start: event.start ? event.start.toISOString() : new Date().toISOString(),
-    end: event.end ? event.end.toISOString() : new Date().toISOString(),
+    location: event.location,
+    start: event.start ? fromZonedTime(event.start, zone).toISOString() : new Date().toISOString(),
+    end: event.end ? fromZonedTime(event.end, zone).toISOString() : new Date().toISOString(),
     type: event.type,
     colour: event.colour,
     allDay: event.allDay,
+    recurrence: event.recurrence,
+    occurrenceOf: event.occurrenceOf,
+    timeZone: event.timeZone,
+    calendarId: event.calendarId,
+    readOnly: event.readOnly,
+    attendees: event.attendees,
+    reminders: event.reminders,
+    attachments: event.attachments,
   };
+};
+
+/**
+ * Convert a TCalendarEvent back into the API shape and send the update.
+ * Occurrences of a recurring event update their series (shifted by the same amount).
+ * Awaits the store's changeEvent call and returns the payload so callers can await
+ * and inspect the value or handle errors.
+ */
+export const updatedEvent = async (
+  event: TCalendarEvent,
+  store: EventStore = defaultEventStore,
+  timeZone: string = localTimeZone()
+): Promise<IEvent> => {
+  const payload = toApiEvent(event, timeZone);
 
   // Allow upstream to catch/rethrow errors from the service
-  await changeEvent(payload);
+  await store.changeEvent(toSeriesEvent(payload));
   return payload;
 };
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+
+import type { IEvent } from '@/types/Calendar';
+
+import { generateMonthMatrix } from './monthMatrix';
+import {
+  buildColourLegend,
+  eventDaySpan,
+  isBarEvent,
+  isShadedDay,
+  layoutWeekBars,
+} from './yearPlanner';
+
+const local = (y: number, m: number, d: number, h = 0) => new Date(y, m - 1, d, h).toISOString();
+
+const event = (id: number, start: string, end: string, extra: Partial<IEvent> = {}): IEvent => ({
+  id,
+  title: `Event ${id}`,
+  start,
+  end,
+  ...extra,
+});
+
+// March 2024: the 1st is a Friday, so the first grid row is Mon 26 Feb .. Sun 3 Mar
+const march = generateMonthMatrix(2024, 2);
+
+describe('isBarEvent', () => {
+  it('treats all-day and multi-day events as bars', () => {
+    expect(isBarEvent(event(1, local(2024, 3, 4), local(2024, 3, 4), { allDay: true }))).toBe(true);
+    expect(isBarEvent(event(2, local(2024, 3, 4, 22), local(2024, 3, 5, 2)))).toBe(true);
+    expect(isBarEvent(event(3, local(2024, 3, 4, 9), local(2024, 3, 4, 10)))).toBe(false);
+    // an end at midnight does not spill into the next day
+    expect(isBarEvent(event(4, local(2024, 3, 4, 9), local(2024, 3, 5)))).toBe(false);
+  });
+});
+
+describe('eventDaySpan', () => {
+  it('reads the days in the display time zone', () => {
+    const late = event(1, '2024-03-04T23:30:00.000Z', '2024-03-05T00:30:00.000Z');
+
+    expect(eventDaySpan(late, 'Asia/Tokyo')).toEqual({
+      first: new Date(2024, 2, 5),
+      last: new Date(2024, 2, 5),
+    });
+    expect(eventDaySpan(late, 'America/New_York')).toEqual({
+      first: new Date(2024, 2, 4),
+      last: new Date(2024, 2, 4),
+    });
+    expect(isBarEvent(late, 'UTC')).toBe(true);
+  });
+});
+
+describe('layoutWeekBars', () => {
+  it('clips bars to in-month days and marks continuations', () => {
+    const trip = event(1, local(2024, 2, 27), local(2024, 3, 2, 12));
+
+    const { bars } = layoutWeekBars(march[0], [trip]);
+
+    // Fri 1 and Sat 2 March are columns 4 and 5
+    expect(bars).toHaveLength(1);
+    expect(bars[0]).toMatchObject({
+      startCol: 4,
+      span: 2,
+      lane: 0,
+      continuesBefore: true,
+      continuesAfter: false,
+    });
+  });
+
+  it('packs overlapping bars into lanes and counts the overflow', () => {
+    // second row: Mon 4 .. Sun 10 March
+    const events = [
+      event(1, local(2024, 3, 4), local(2024, 3, 7, 12)),
+      event(2, local(2024, 3, 5), local(2024, 3, 6, 12)),
+      event(3, local(2024, 3, 8), local(2024, 3, 8), { allDay: true }),
+      event(4, local(2024, 3, 6), local(2024, 3, 6), { allDay: true }),
+    ];
+
+    const { bars, hidden } = layoutWeekBars(march[1], events, 2);
+
+    expect(bars.map((b) => [b.event.id, b.lane])).toEqual([
+      [1, 0],
+      [2, 1],
+      [3, 0],
+    ]);
+    expect(hidden).toEqual([0, 0, 1, 0, 0, 0, 0]);
+  });
+});
+
+describe('isShadedDay', () => {
+  it('shades weekends and holidays', () => {
+    const holiday = event(1, local(2024, 3, 29), local(2024, 3, 29), {
+      allDay: true,
+      type: 'holiday',
+    });
+
+    expect(isShadedDay(new Date(2024, 2, 30), [])).toBe(true);
+    expect(isShadedDay(new Date(2024, 2, 29), [holiday])).toBe(true);
+    expect(isShadedDay(new Date(2024, 2, 28), [holiday])).toBe(false);
+  });
+});
+
+describe('buildColourLegend', () => {
+  it('groups event types by colour', () => {
+    const legend = buildColourLegend([
+      event(1, local(2024, 3, 1), '', { colour: '2', type: 'work' }),
+      event(2, local(2024, 3, 1), '', { colour: '2', type: 'meeting' }),
+      event(3, local(2024, 3, 1), '', { type: 'birthday' }),
+    ]);
+
+    expect(legend).toEqual([
+      { colour: '1', types: ['birthday'] },
+      { colour: '2', types: ['meeting', 'work'] },
+    ]);
+  });
+});
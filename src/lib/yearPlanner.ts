@@ -0,0 +1,169 @@
+import { isSameDay, isWeekend, startOfDay } from 'date-fns';
+
+import type { IEvent } from '../types/Calendar';
+import type { MonthMatrixCell } from './monthMatrix';
+import { localTimeZone, toZonedTime, wallClockZoneOf } from './timeZones';
+
+/* -------------------------
+   Event spans
+   ------------------------- */
+
+/**
+ * First and last calendar day an event covers, as wall-clock days in `timeZone` (the display
+ * zone; all-day events keep their own, see `wallClockZoneOf`).
+ * An end exactly at midnight belongs to the previous day (exclusive end), and an end before
+ * the start is treated as a single-day event.
+ */
+export function eventDaySpan(
+  event: IEvent,
+  timeZone = localTimeZone()
+): { first: Date; last: Date } | null {
+  const start = new Date(event.start);
+  if (!Number.isFinite(start.getTime())) return null;
+
+  const zone = wallClockZoneOf(event, timeZone);
+  const end = new Date(event.end);
+  const first = startOfDay(toZonedTime(start, zone));
+  if (!Number.isFinite(end.getTime()) || end.getTime() <= start.getTime()) {
+    return { first, last: first };
+  }
+  return { first, last: startOfDay(toZonedTime(new Date(end.getTime() - 1), zone)) };
+}
+
+/** All-day and multi-day events are drawn as bars; single-day timed events as dots. */
+export const isBarEvent = (event: IEvent, timeZone?: string) => {
+  const span = eventDaySpan(event, timeZone);
+  return !!event.allDay || (!!span && !isSameDay(span.first, span.last));
+};
+
+export const isHoliday = (event: IEvent) => event.type === 'holiday';
+
+const coversDay = (event: IEvent, day: Date, timeZone?: string) => {
+  const span = eventDaySpan(event, timeZone);
+  return !!span && day >= span.first && day <= span.last;
+};
+
+/** True when the day should be shaded: a weekend or covered by a holiday event. */
+export const isShadedDay = (day: Date, events: IEvent[], timeZone?: string) =>
+  isWeekend(day) || events.some((e) => isHoliday(e) && coversDay(e, day, timeZone));
+
+/* -------------------------
+   Bar layout
+   ------------------------- */
+
+export type PlannerBar = {
+  event: IEvent;
+  // first column (0 = Monday) and number of columns covered in this week row
+  startCol: number;
+  span: number;
+  // vertical slot, 0 = top
+  lane: number;
+  // the event also covers days before/after this row (drawn without rounded ends)
+  continuesBefore: boolean;
+  continuesAfter: boolean;
+};
+
+/**
+ * Lay out bar events over one week row of a month grid, with days read in `timeZone`.
+ * - Only in-month cells get bars, so padding days from neighbouring months stay empty.
+ * - Bars are packed greedily into lanes: earlier start first, then longer span.
+ * - Bars that do not fit in `maxLanes` are dropped and counted in `hidden` per column.
+ */
+export function layoutWeekBars(
+  week: MonthMatrixCell[],
+  events: IEvent[],
+  maxLanes = Infinity,
+  timeZone?: string
+): { bars: PlannerBar[]; hidden: number[] } {
+  const candidates: Omit<PlannerBar, 'lane'>[] = [];
+
+  events
+    .filter((event) => isBarEvent(event, timeZone))
+    .forEach((event) => {
+      const span = eventDaySpan(event, timeZone);
+      if (!span) return;
+
+      const cols = week
+        .map((cell, col) => (cell.inMonth && coversDay(event, cell.date, timeZone) ? col : -1))
+        .filter((col) => col !== -1);
+      if (cols.length === 0) return;
+
+      const startCol = cols[0];
+      const endCol = cols[cols.length - 1];
+      candidates.push({
+        event,
+        startCol,
+        span: endCol - startCol + 1,
+        continuesBefore: span.first < startOfDay(week[startCol].date),
+        continuesAfter: span.last > startOfDay(week[endCol].date),
+      });
+    });
+
+  candidates.sort((a, b) => a.startCol - b.startCol || b.span - a.span);
+
+  // lanes[lane] = first free column in that lane
+  const lanes: number[] = [];
+  const bars: PlannerBar[] = [];
+  const hidden = new Array(week.length).fill(0);
+
+  candidates.forEach((candidate) => {
+    let lane = lanes.findIndex((freeCol) => freeCol <= candidate.startCol);
+    if (lane === -1) lane = lanes.length;
+
+    if (lane >= maxLanes) {
+      for (let col = candidate.startCol; col < candidate.startCol + candidate.span; col++) {
+        hidden[col]++;
+      }
+      return;
+    }
+
+    lanes[lane] = candidate.startCol + candidate.span;
+    bars.push({ ...candidate, lane });
+  });
+
+  return { bars, hidden };
+}
+
+/* -------------------------
+   Legend
+   ------------------------- */
+
+/**
+ * Colours used by the events, each with the event types that use it, ordered by colour.
+ * Events without a colour fall under colour "1" (the default in EventPanel).
+ */
+export function buildColourLegend(events: IEvent[]): { colour: string; types: string[] }[] {
+  const byColour = new Map<string, Set<string>>();
+
+  events.forEach((event) => {
+    const colour = event.colour || '1';
+    const types = byColour.get(colour) ?? new Set<string>();
+    types.add(event.type || 'other');
+    byColour.set(colour, types);
+  });
+
+  return [...byColour.entries()]
+    .sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }))
+    .map(([colour, types]) => ({ colour, types: [...types].sort() }));
+}
+
+/* -------------------------
+   Print formats
+   ------------------------- */
+
+export type PlannerFormat = 'a3' | 'a2' | 'quarters';
+
+export const PLANNER_FORMATS: Record<
+  PlannerFormat,
+  { label: string; pageSize: string; monthsPerPage: number; columns: number; maxLanes: number }
+> = {
+  a3: { label: 'A3 poster', pageSize: 'A3 landscape', monthsPerPage: 12, columns: 4, maxLanes: 3 },
+  a2: { label: 'A2 poster', pageSize: 'A2 landscape', monthsPerPage: 12, columns: 4, maxLanes: 5 },
+  quarters: {
+    label: 'A4, one page per quarter',
+    pageSize: 'A4 landscape',
+    monthsPerPage: 3,
+    columns: 3,
+    maxLanes: 4,
+  },
+};
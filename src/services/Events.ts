@@ -1,84 +1,79 @@
 import { addDays, addHours, startOfDay, subDays } from 'date-fns';
-import { v4 as uuidv4 } from 'uuid';
 
 import type { IEvent } from '@/types/Calendar';
-
-const STORAGE_KEY = 'at-calendar-events';
+import type { EventStore } from './stores/EventStore';
+import { createIndexedDbEventStore } from './stores/indexedDbEventStore';
+import { createLocalStorageEventStore, DEFAULT_STORAGE_KEY } from './stores/localStorageEventStore';
+import { createRestEventStore } from './stores/restEventStore';
 
 const today = new Date();
 
 const MOCK_EVENTS: IEvent[] = [
   {
     id: 1,
-    title: 'Team Meeting (read only)',
+    title: 'Team Meeting',
     description: 'Weekly sync with the team',
     start: addHours(startOfDay(today), 10).toISOString(),
     end: addHours(startOfDay(today), 11).toISOString(),
     type: 'work',
     colour: '1',
+    readOnly: true,
   },
   {
     id: 2,
-    title: 'Lunch Break (read only)',
+    title: 'Lunch Break',
     description: 'Time to eat',
     start: addHours(startOfDay(today), 12).toISOString(),
     end: addHours(startOfDay(today), 13).toISOString(),
     type: 'personal',
     colour: '2',
+    readOnly: true,
   },
   {
     id: 3,
-    title: 'Project Review (read only)',
+    title: 'Project Review',
     description: 'Reviewing the latest changes',
     start: addHours(startOfDay(addDays(today, 1)), 14).toISOString(),
     end: addHours(startOfDay(addDays(today, 1)), 15).toISOString(),
     type: 'work',
     colour: '4',
+    readOnly: true,
   },
   {
     id: 4,
-    title: 'Dentist Appointment (read only)',
+    title: 'Dentist Appointment',
     description: 'Routine checkup',
     start: addHours(startOfDay(subDays(today, 2)), 9).toISOString(),
     end: addHours(startOfDay(subDays(today, 2)), 10).toISOString(),
     type: 'health',
     colour: '3',
+    readOnly: true,
   },
 ];
 
-const getStoredEvents = (): IEvent[] => {
-  try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      return JSON.parse(stored);
-    }
-  } catch (error) {
-    console.error('Failed to parse events from localStorage', error);
-  }
-  // Initialize with mock data if empty
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(MOCK_EVENTS));
-  return MOCK_EVENTS;
-};
+/**
+ * Default store used by the app when CalendarProvider is not given one:
+ * - the REST API at `VITE_EVENTS_API_URL`, when that env var is set;
+ * - otherwise IndexedDB where available (migrating any `at-calendar-events` localStorage
+ *   data on first load), falling back to localStorage under `at-calendar-events`.
+ * The local stores seed mock data when there is nothing stored yet.
+ */
+const createDefaultEventStore = (): EventStore => {
+  const apiUrl = import.meta.env.VITE_EVENTS_API_URL;
+  if (apiUrl) return createRestEventStore({ baseURL: apiUrl });
 
-const setStoredEvents = (events: IEvent[]) => {
-  try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(events));
-  } catch (error) {
-    console.error('Failed to save events to localStorage', error);
-  }
+  return typeof indexedDB !== 'undefined'
+    ? createIndexedDbEventStore({ migrateFromStorageKey: DEFAULT_STORAGE_KEY, seed: MOCK_EVENTS })
+    : createLocalStorageEventStore({ storageKey: DEFAULT_STORAGE_KEY, seed: MOCK_EVENTS });
 };
 
+export const defaultEventStore: EventStore = createDefaultEventStore();
+
 /**
  * Fetch all events.
  * @returns Promise resolving to an array of events.
  */
-export const getEvents = async (): Promise<IEvent[]> => {
-  return new Promise((resolve) => {
-    setTimeout(() => {
-      resolve(getStoredEvents());
-    }, 200); // Simulate network delay
-  });
-};
+export const getEvents = (): Promise<IEvent[]> => defaultEventStore.getEvents();
 
 /**
  * Fetch events for a specific date.
@@ -86,40 +81,17 @@ export const getEvents = async (): Promise<IEvent[]> => {
  * @param date Date or date string to fetch events for.
  * @returns Promise resolving to an array of events for that date.
  */
-export const getEventsByDate = async (date: string | Date): Promise<IEvent[]> => {
-  const targetDate =
-    date instanceof Date ? date.toISOString().split('T')[0] : String(date).split('T')[0];
-  const events = getStoredEvents();
-  const filtered = events.filter((e) => e.start.startsWith(targetDate));
-  return new Promise((resolve) => setTimeout(() => resolve(filtered), 200));
-};
+export const getEventsByDate = (date: string | Date): Promise<IEvent[]> =>
+  defaultEventStore.getEventsByDate(date);
 
 /**
  * Fetch events for a specific month.
- * Accepts a month number (1-12), a zero-based month (0-11), a string ("3" or "03"), or a Date.
- * Normalizes to a two-digit month string e.g. "03".
+ * Accepts a month number (1-12), a string ("3" or "03"), or a Date.
  * @param month number | string | Date Month to fetch events for.
  * @returns Promise resolving to an array of events for that month.
  */
-export const getEventsByMonth = async (month: number | string | Date): Promise<IEvent[]> => {
-  let m: number;
-
-  if (month instanceof Date) {
-    m = month.getMonth() + 1;
-  } else if (typeof month === 'number') {
-    m = month;
-  } else {
-    m = parseInt(String(month), 10);
-  }
-
-  const events = getStoredEvents();
-  const filtered = events.filter((e) => {
-    const eventDate = new Date(e.start);
-    return eventDate.getMonth() + 1 === m;
-  });
-
-  return new Promise((resolve) => setTimeout(() => resolve(filtered), 200));
-};
+export const getEventsByMonth = (month: number | string | Date): Promise<IEvent[]> =>
+  defaultEventStore.getEventsByMonth(month);
 
 /**
  * Fetch events for a specific date range.
@@ -128,21 +100,8 @@ export const getEventsByMonth = async (month: number | string | Date): Promise<I
  * @param to end date (inclusive)
  * @returns Promise resolving to an array of events within the range
  */
-export const getEventsByRange = async (
-  from: string | Date,
-  to: string | Date
-): Promise<IEvent[]> => {
-  const start = new Date(from);
-  const end = new Date(to);
-
-  const events = getStoredEvents();
-  const filtered = events.filter((e) => {
-    const eventStart = new Date(e.start);
-    return eventStart >= start && eventStart <= end;
-  });
-
-  return new Promise((resolve) => setTimeout(() => resolve(filtered), 200));
-};
+export const getEventsByRange = (from: string | Date, to: string | Date): Promise<IEvent[]> =>
+  defaultEventStore.getEventsByRange(from, to);
 
 /**
  * Add a new event.
@@ -150,39 +109,22 @@ export const getEventsByRange = async (
  * @param event Event data without id.
  * @returns Promise resolving to the created event (with id).
  */
-export const addEvent = async (event: Omit<IEvent, 'id'>): Promise<IEvent> => {
-  const newEvent = { ...event, id: uuidv4() } as unknown as IEvent;
-  const events = getStoredEvents();
-  events.push(newEvent);
-  setStoredEvents(events);
-  return new Promise((resolve) => setTimeout(() => resolve(newEvent), 200));
-};
+export const addEvent = (event: Omit<IEvent, 'id'>): Promise<IEvent> =>
+  defaultEventStore.addEvent(event);
 
 /**
  * Delete an event by id.
  * @param id Event id to delete.
  */
-export const deleteEvent = async (id: number | string): Promise<void> => {
-  const events = getStoredEvents();
-  const updated = events.filter((e) => e.id !== id);
-  setStoredEvents(updated);
-  return new Promise((resolve) => setTimeout(() => resolve(), 200));
-};
+export const deleteEvent = (id: number | string): Promise<void> =>
+  defaultEventStore.deleteEvent(id);
 
 /**
  * Replace/update an event.
  * @param event Full event object (must include id).
  * @returns Promise resolving to the updated event.
  */
-export const changeEvent = async (event: IEvent): Promise<IEvent> => {
-  const events = getStoredEvents();
-  const index = events.findIndex((e) => e.id === event.id);
-  if (index !== -1) {
-    events[index] = event;
-    setStoredEvents(events);
-  }
-  return new Promise((resolve) => setTimeout(() => resolve(event), 200));
-};
+export const changeEvent = (event: IEvent): Promise<IEvent> => defaultEventStore.changeEvent(event);
 
 /**
  * Add multiple events in a single request.
@@ -190,10 +132,13 @@ export const changeEvent = async (event: IEvent): Promise<IEvent> => {
  * @param events Array of events without ids.
  * @returns Promise resolving to created events (with ids).
  */
-export const addEventsBulk = async (events: Omit<IEvent, 'id'>[]): Promise<IEvent[]> => {
-  const newEvents = events.map((e) => ({ ...e, id: uuidv4() }) as unknown as IEvent);
-  const stored = getStoredEvents();
-  const updated = [...stored, ...newEvents];
-  setStoredEvents(updated);
-  return new Promise((resolve) => setTimeout(() => resolve(newEvents), 200));
-};
+export const addEventsBulk = (events: Omit<IEvent, 'id'>[]): Promise<IEvent[]> =>
+  defaultEventStore.addEventsBulk(events);
+
+export { EventStoreError } from './stores/EventStore';
+export type { EventStore, EventStoreErrorKind } from './stores/EventStore';
+export { createIndexedDbEventStore } from './stores/indexedDbEventStore';
+export { createLocalStorageEventStore } from './stores/localStorageEventStore';
+export { createMemoryEventStore } from './stores/memoryEventStore';
+export { createRestEventStore } from './stores/restEventStore';
+export { createRestStubAdapter } from './stores/restStubAdapter';
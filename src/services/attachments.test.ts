@@ -0,0 +1,121 @@
+import { IDBFactory } from 'fake-indexeddb';
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+
+import { attachmentIdsOfRecords } from '@/lib/attachments';
+import type { IEvent } from '@/types/Calendar';
+import {
+  attachmentUsage,
+  createIndexedDbAttachmentStore,
+  createMemoryAttachmentStore,
+  exportAttachments,
+  importAttachments,
+  pruneAttachments,
+} from './attachments';
+
+const event = (id: number, title: string, attachments: IEvent['attachments']): IEvent => ({
+  id,
+  title,
+  start: '2024-03-04T09:00:00.000Z',
+  end: '2024-03-04T10:00:00.000Z',
+  attachments,
+});
+
+const textOf = (blob: Blob | null) =>
+  new Promise<string>((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsText(blob ?? new Blob());
+  });
+
+const pdf = () => new Blob(['%PDF-1.4 agenda'], { type: 'application/pdf' });
+
+describe('createIndexedDbAttachmentStore', () => {
+  it('stores, reads back, lists and removes files', async () => {
+    const store = createIndexedDbAttachmentStore({ factory: new IDBFactory() });
+
+    const agenda = await store.add(pdf(), 'agenda.pdf');
+    const photo = await store.add(new Blob(['png'], { type: 'image/png' }), 'room.png', 'p1');
+    expect(agenda).toEqual({
+      id: expect.any(String),
+      name: 'agenda.pdf',
+      type: 'application/pdf',
+      size: 15,
+    });
+    expect(photo.id).toBe('p1');
+
+    const blob = await store.get(agenda.id);
+    expect(blob?.type).toBe('application/pdf');
+    expect(await textOf(blob)).toBe('%PDF-1.4 agenda');
+    expect((await store.list()).map((a) => a.name).sort()).toEqual(['agenda.pdf', 'room.png']);
+
+    await store.remove([agenda.id, 'unknown']);
+    expect(await store.get(agenda.id)).toBeNull();
+    expect(await store.list()).toEqual([photo]);
+  });
+});
+
+describe('pruneAttachments', () => {
+  it('removes only the files no event links to and none being edited', async () => {
+    const store = createMemoryAttachmentStore();
+    const linked = await store.add(pdf(), 'agenda.pdf');
+    const editing = await store.add(pdf(), 'draft.pdf');
+    const orphan = await store.add(pdf(), 'old.pdf');
+
+    const removed = await pruneAttachments(
+      store,
+      [event(1, 'Review', [linked])],
+      new Set([editing.id])
+    );
+
+    expect(removed).toEqual([orphan]);
+    expect((await store.list()).map((a) => a.name)).toEqual(['agenda.pdf', 'draft.pdf']);
+  });
+
+  it('keeps the files of records that fail validation', async () => {
+    const store = createMemoryAttachmentStore();
+    const kept = await store.add(pdf(), 'agenda.pdf');
+    await store.add(pdf(), 'old.pdf');
+    const records = [{ id: 7, title: 42, attachments: [{ id: kept.id }, null] }, null, 'junk'];
+
+    await pruneAttachments(store, [], attachmentIdsOfRecords(records));
+
+    expect(await store.list()).toEqual([kept]);
+  });
+});
+
+describe('attachmentUsage', () => {
+  it('lists files largest first with the events using them', async () => {
+    const store = createMemoryAttachmentStore();
+    const small = await store.add(new Blob(['a']), 'a.txt');
+    const large = await store.add(new Blob(['a'.repeat(100)]), 'b.txt');
+
+    const usage = await attachmentUsage(store, [
+      event(1, 'Review', [small, large]),
+      event(2, 'Retro', [large]),
+    ]);
+
+    expect(usage.map((f) => [f.name, f.events.map((e) => e.title)])).toEqual([
+      ['b.txt', ['Review', 'Retro']],
+      ['a.txt', ['Review']],
+    ]);
+  });
+});
+
+describe('exportAttachments / importAttachments', () => {
+  it('carries the linked files into another store under the same ids', async () => {
+    const source = createMemoryAttachmentStore();
+    const agenda = await source.add(pdf(), 'agenda.pdf');
+    await source.add(pdf(), 'unlinked.pdf');
+    const events = [event(1, 'Review', [agenda])];
+
+    const files = await exportAttachments(source, events);
+    expect(files).toEqual([{ ...agenda, data: btoa('%PDF-1.4 agenda') }]);
+
+    const target = createMemoryAttachmentStore();
+    expect(await importAttachments(target, files)).toBe(1);
+    expect(await importAttachments(target, files)).toBe(0);
+    expect(await target.list()).toEqual([agenda]);
+    expect(await textOf(await target.get(agenda.id))).toBe('%PDF-1.4 agenda');
+  });
+});
@@ -0,0 +1,252 @@
+import { v4 as uuidv4 } from 'uuid';
+
+import { attachmentIdsOf, isAttachmentList } from '@/lib/attachments';
+import type { IAttachment, IEvent } from '@/types/Calendar';
+
+/*
+  Storage for the files attached to events.
+  Events only carry each file's id, name, type and size (see IAttachment); the bytes live
+  here, so event queries, backups of other stores and the undo history never copy them.
+  Files are kept until `pruneAttachments` finds no event linking to them, which lets undoing
+  a delete bring an event back with its files.
+*/
+
+export interface AttachmentStore {
+  /** Store a file under a new id (or `id`, when restoring one) and describe it. */
+  add: (file: Blob, name: string, id?: string) => Promise<IAttachment>;
+  /** The stored file, or null when there is none with that id. */
+  get: (id: string) => Promise<Blob | null>;
+  /** Every stored file, without its contents. */
+  list: () => Promise<IAttachment[]>;
+  /** Delete the files with these ids (unknown ids are ignored). */
+  remove: (ids: string[]) => Promise<void>;
+}
+
+// FileReader rather than Blob.arrayBuffer, which older browsers lack
+const readBytes = (blob: Blob) =>
+  new Promise<ArrayBuffer>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+const describe = (file: Blob, name: string, id?: string): IAttachment => ({
+  id: id ?? uuidv4(),
+  name,
+  type: file.type,
+  size: file.size,
+});
+
+/* -------------------------
+   Adapters
+   ------------------------- */
+
+/** AttachmentStore in memory (tests, and browsers without IndexedDB). */
+export const createMemoryAttachmentStore = (): AttachmentStore => {
+  const files = new Map<string, { meta: IAttachment; data: ArrayBuffer }>();
+  return {
+    add: async (file, name, id) => {
+      const meta = describe(file, name, id);
+      files.set(meta.id, { meta, data: await readBytes(file) });
+      return meta;
+    },
+    get: async (id) => {
+      const stored = files.get(id);
+      return stored ? new Blob([stored.data], { type: stored.meta.type }) : null;
+    },
+    list: async () => [...files.values()].map((f) => f.meta),
+    remove: async (ids) => ids.forEach((id) => files.delete(id)),
+  };
+};
+
+export type IndexedDbAttachmentStoreOptions = {
+  /** IndexedDB database name. */
+  dbName?: string;
+  /** IDBFactory to use; defaults to the global `indexedDB`. */
+  factory?: IDBFactory;
+};
+
+const DB_VERSION = 1;
+// descriptions and contents are kept apart, so listing files does not read them
+const META_STORE = 'meta';
+const DATA_STORE = 'data';
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+/**
+ * AttachmentStore backed by IndexedDB, in a database of its own so it works next to any
+ * event store. Contents are stored as ArrayBuffers, which every browser can clone.
+ */
+export const createIndexedDbAttachmentStore = ({
+  dbName = 'at-calendar-attachments',
+  factory,
+}: IndexedDbAttachmentStoreOptions = {}): AttachmentStore => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDb = () => {
+    dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = (factory ?? indexedDB).open(dbName, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(META_STORE, { keyPath: 'id' });
+        request.result.createObjectStore(DATA_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+    return dbPromise;
+  };
+
+  return {
+    add: async (file, name, id) => {
+      const meta = describe(file, name, id);
+      const data = await readBytes(file);
+      const db = await openDb();
+      const tx = db.transaction([META_STORE, DATA_STORE], 'readwrite');
+      tx.objectStore(META_STORE).put(meta);
+      tx.objectStore(DATA_STORE).put(data, meta.id);
+      await transactionDone(tx);
+      return meta;
+    },
+
+    get: async (id) => {
+      const db = await openDb();
+      const tx = db.transaction([META_STORE, DATA_STORE], 'readonly');
+      const [meta, data] = await Promise.all([
+        requestToPromise(tx.objectStore(META_STORE).get(id) as IDBRequest<IAttachment>),
+        requestToPromise(tx.objectStore(DATA_STORE).get(id) as IDBRequest<ArrayBuffer>),
+      ]);
+      return meta && data ? new Blob([data], { type: meta.type }) : null;
+    },
+
+    list: async () => {
+      const db = await openDb();
+      const tx = db.transaction(META_STORE, 'readonly');
+      return requestToPromise(tx.objectStore(META_STORE).getAll() as IDBRequest<IAttachment[]>);
+    },
+
+    remove: async (ids) => {
+      if (ids.length === 0) return;
+      const db = await openDb();
+      const tx = db.transaction([META_STORE, DATA_STORE], 'readwrite');
+      ids.forEach((id) => {
+        tx.objectStore(META_STORE).delete(id);
+        tx.objectStore(DATA_STORE).delete(id);
+      });
+      await transactionDone(tx);
+    },
+  };
+};
+
+/** Store used when CalendarProvider is not given one: IndexedDB where available. */
+export const defaultAttachmentStore: AttachmentStore =
+  typeof indexedDB !== 'undefined'
+    ? createIndexedDbAttachmentStore()
+    : createMemoryAttachmentStore();
+
+/* -------------------------
+   Cleanup and usage
+   ------------------------- */
+
+/**
+ * Delete the stored files that none of `events` links to, except those in `keep` (files
+ * attached to an event that is still being edited); resolves to their descriptions.
+ * Pass every event that can still come back (the stored ones, and those the undo history
+ * holds), or undoing a delete restores an event without its files.
+ */
+export const pruneAttachments = async (
+  store: AttachmentStore,
+  events: IEvent[],
+  keep: ReadonlySet<string> = new Set()
+) => {
+  const linked = attachmentIdsOf(events);
+  const unlinked = (await store.list()).filter((a) => !linked.has(a.id) && !keep.has(a.id));
+  await store.remove(unlinked.map((a) => a.id));
+  return unlinked;
+};
+
+/** A stored file with the events linking to it (none once they are deleted). */
+export type AttachmentUsage = IAttachment & { events: Pick<IEvent, 'id' | 'title'>[] };
+
+/** Every stored file, largest first, with the events that link to it. */
+export const attachmentUsage = async (
+  store: AttachmentStore,
+  events: IEvent[]
+): Promise<AttachmentUsage[]> =>
+  (await store.list())
+    .map((file) => ({
+      ...file,
+      events: events
+        .filter((e) => e.attachments?.some((a) => a.id === file.id))
+        .map(({ id, title }) => ({ id, title })),
+    }))
+    .sort((a, b) => b.size - a.size || a.name.localeCompare(b.name));
+
+/* -------------------------
+   Backups
+   ------------------------- */
+
+/** A file as carried in a backup: its description and base64 contents. */
+export type BackupAttachment = IAttachment & { data: string };
+
+// String.fromCharCode takes arguments, so encode in slices well below engine limits
+const CHUNK = 0x8000;
+
+const toBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (data: string) => Uint8Array.from(atob(data), (c) => c.charCodeAt(0));
+
+/** True when `value` is a list of backed-up files. */
+export const isBackupAttachmentList = (value: unknown): value is BackupAttachment[] =>
+  isAttachmentList(value) && value.every((a) => typeof (a as { data?: unknown }).data === 'string');
+
+/** The stored files `events` link to, ready to be written into a backup. */
+export const exportAttachments = async (
+  store: AttachmentStore,
+  events: IEvent[]
+): Promise<BackupAttachment[]> => {
+  const linked = attachmentIdsOf(events);
+  const files: BackupAttachment[] = [];
+  for (const meta of await store.list()) {
+    if (!linked.has(meta.id)) continue;
+    const blob = await store.get(meta.id);
+    if (blob) files.push({ ...meta, data: toBase64(await readBytes(blob)) });
+  }
+  return files;
+};
+
+/**
+ * Store a backup's files under their own ids, so restored events link to them again. Files
+ * already stored are left as they are. Resolves to how many were added.
+ */
+export const importAttachments = async (store: AttachmentStore, files: BackupAttachment[]) => {
+  const stored = new Set((await store.list()).map((a) => a.id));
+  let added = 0;
+  for (const { data, ...meta } of files) {
+    if (stored.has(meta.id)) continue;
+    await store.add(new Blob([fromBase64(data)], { type: meta.type }), meta.name, meta.id);
+    added++;
+  }
+  return added;
+};
@@ -0,0 +1,189 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import type { IEvent } from '@/types/Calendar';
+import { createMemoryAttachmentStore } from './attachments';
+import {
+  BackupError,
+  createBackup,
+  migrateData,
+  parseBackup,
+  restoreBackup,
+  SCHEMA_VERSION,
+} from './backup';
+import { EventStoreError } from './stores/EventStore';
+import { createLocalStorageEventStore } from './stores/localStorageEventStore';
+import { createMemoryEventStore } from './stores/memoryEventStore';
+
+const baseEvents: IEvent[] = [
+  {
+    id: 1,
+    title: 'Standup',
+    start: '2024-03-04T09:00:00.000Z',
+    end: '2024-03-04T09:15:00.000Z',
+  },
+  {
+    id: 2,
+    title: 'Review',
+    start: '2024-03-05T14:00:00.000Z',
+    end: '2024-03-05T15:00:00.000Z',
+  },
+];
+
+describe('migrateData', () => {
+  it('upgrades the legacy bare array', () => {
+    const data = migrateData([{ ...baseEvents[0], colour: 3 }]);
+
+    expect(data).toEqual({
+      schemaVersion: SCHEMA_VERSION,
+      events: [{ ...baseEvents[0], colour: '3' }],
+    });
+  });
+
+  it('refuses data from a newer version', () => {
+    expect(() => migrateData({ schemaVersion: SCHEMA_VERSION + 1, events: [] })).toThrow(
+      BackupError
+    );
+  });
+});
+
+describe('parseBackup', () => {
+  it('lists every problem before anything is written', () => {
+    const text = JSON.stringify({
+      schemaVersion: SCHEMA_VERSION,
+      events: [baseEvents[0], { id: 1, title: 'Copy', start: 'soon' }],
+      settings: { viewBy: 'fortnight' },
+    });
+
+    expect(() => parseBackup(text)).toThrow(
+      expect.objectContaining({
+        problems: [
+          'event 2: invalid start',
+          'event 2: invalid end',
+          'event 2: duplicate id 1',
+          'settings: invalid viewBy',
+        ],
+      })
+    );
+    expect(() => parseBackup('{oops')).toThrow('The file is not valid JSON.');
+  });
+});
+
+describe('restoreBackup', () => {
+  it('round-trips a backup and merges by id', async () => {
+    const store = createMemoryEventStore({ initialEvents: baseEvents });
+    const backup = parseBackup(
+      JSON.stringify(await createBackup(store, { viewBy: 'week', theme: 'dark' }))
+    );
+    expect(backup.settings).toEqual({ viewBy: 'week', theme: 'dark' });
+
+    const target = createMemoryEventStore({
+      initialEvents: [{ ...baseEvents[0], title: 'Old standup' }],
+    });
+    const result = await restoreBackup(target, backup, 'merge');
+
+    expect(result).toMatchObject({ added: 1, updated: 1, removed: 0 });
+    expect((await target.getEvents()).map((e) => e.title)).toEqual(['Standup', 'Review']);
+    expect(result.idMap.get('1')).toBe(1);
+  });
+
+  it('carries the files events link to', async () => {
+    const files = createMemoryAttachmentStore();
+    const agenda = await files.add(new Blob(['agenda'], { type: 'text/plain' }), 'agenda.txt');
+    const store = createMemoryEventStore({
+      initialEvents: [{ ...baseEvents[0], attachments: [agenda] }],
+    });
+
+    const backup = parseBackup(JSON.stringify(await createBackup(store, {}, new Date(), files)));
+    expect(backup.attachments).toEqual([{ ...agenda, data: btoa('agenda') }]);
+    expect(() =>
+      parseBackup(JSON.stringify({ ...backup, attachments: [{ ...agenda, data: 1 }] }))
+    ).toThrow(expect.objectContaining({ problems: ['invalid attachments'] }));
+    // no files, no list
+    expect(
+      await createBackup(store, {}, new Date(), createMemoryAttachmentStore())
+    ).not.toHaveProperty('attachments');
+  });
+
+  it('replaces every stored event', async () => {
+    const target = createMemoryEventStore({ initialEvents: baseEvents });
+    const backup = parseBackup(
+      JSON.stringify({ schemaVersion: SCHEMA_VERSION, events: [{ ...baseEvents[1], id: 9 }] })
+    );
+
+    const result = await restoreBackup(target, backup, 'replace');
+    const events = await target.getEvents();
+
+    expect(result).toMatchObject({ added: 1, updated: 0, removed: 2 });
+    expect(events.map((e) => e.title)).toEqual(['Review']);
+    expect(result.idMap.get('9')).toBe(events[0].id);
+  });
+
+  it('keeps the stored events when the backup cannot be added', async () => {
+    const target = createMemoryEventStore({ initialEvents: baseEvents });
+    const failing = {
+      ...target,
+      addEventsBulk: () => Promise.reject(new EventStoreError('server', 'Bulk insert failed')),
+    };
+    const backup = parseBackup(
+      JSON.stringify({ schemaVersion: SCHEMA_VERSION, events: [{ ...baseEvents[1], id: 9 }] })
+    );
+
+    await expect(restoreBackup(failing, backup, 'replace')).rejects.toThrow('Bulk insert failed');
+    expect(await target.getEvents()).toEqual(baseEvents);
+  });
+
+  it('keeps read-only events as they are', async () => {
+    const target = createMemoryEventStore({
+      initialEvents: [{ ...baseEvents[0], readOnly: true }, baseEvents[1]],
+    });
+    const backup = parseBackup(
+      JSON.stringify({
+        schemaVersion: SCHEMA_VERSION,
+        events: [{ ...baseEvents[0], title: 'New standup' }],
+      })
+    );
+
+    expect(await restoreBackup(target, backup, 'merge')).toMatchObject({ updated: 0, kept: 1 });
+    const result = await restoreBackup(target, backup, 'replace');
+
+    expect(result).toMatchObject({ added: 0, removed: 1, kept: 1 });
+    expect((await target.getEvents()).map((e) => e.title)).toEqual(['Standup']);
+  });
+});
+
+describe('localStorage envelope', () => {
+  const KEY = 'backup-test-events';
+
+  beforeEach(() => localStorage.clear());
+
+  it('migrates a legacy array on load and writes the envelope back', async () => {
+    localStorage.setItem(KEY, JSON.stringify(baseEvents));
+    const store = createLocalStorageEventStore({ storageKey: KEY, latency: 0 });
+
+    expect(await store.getEvents()).toEqual(baseEvents);
+    expect(JSON.parse(localStorage.getItem(KEY)!)).toEqual({
+      schemaVersion: SCHEMA_VERSION,
+      events: baseEvents,
+    });
+  });
+
+  it('leaves data from a newer version untouched', async () => {
+    const newer = JSON.stringify({ schemaVersion: SCHEMA_VERSION + 1, events: [] });
+    localStorage.setItem(KEY, newer);
+    const store = createLocalStorageEventStore({ storageKey: KEY, latency: 0 });
+
+    await expect(store.getEvents()).rejects.toMatchObject({ kind: 'conflict' });
+    expect(localStorage.getItem(KEY)).toBe(newer);
+  });
+
+  it('refuses writes over data it cannot read', async () => {
+    const newer = JSON.stringify({ schemaVersion: SCHEMA_VERSION + 1, events: [baseEvents[0]] });
+    localStorage.setItem(KEY, newer);
+    const store = createLocalStorageEventStore({ storageKey: KEY, latency: 0 });
+    await expect(
+      store.addEvent({ title: 'New', start: baseEvents[1].start, end: baseEvents[1].end })
+    ).rejects.toBeInstanceOf(EventStoreError);
+    await expect(store.deleteEvent(1)).rejects.toMatchObject({ kind: 'conflict' });
+    expect(localStorage.getItem(KEY)).toBe(newer);
+  });
+});
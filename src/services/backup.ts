@@ -0,0 +1,283 @@
+import { isCalendarList } from '@/lib/calendars';
+import { eventProblems } from '@/lib/eventSchema';
+import { isEventTypeList, isPalette } from '@/lib/eventTypes';
+import type { ICalendar, IEvent, IEventType } from '@/types/Calendar';
+import {
+  exportAttachments,
+  isBackupAttachmentList,
+  type AttachmentStore,
+  type BackupAttachment,
+} from './attachments';
+import { isSameId, type EventStore } from './stores/EventStore';
+
+/*
+  Versioned data envelope shared by the local stores and backup files.
+  Stored data and backups carry `schemaVersion`; anything older is brought up to date by
+  running the migrations in order, so a field change never has to be handled by readers.
+*/
+
+/* -------------------------
+   Envelope
+   ------------------------- */
+
+/** Current schema version. Bump it and add a migration when the stored shape changes. */
+export const SCHEMA_VERSION = 2;
+
+/** User settings carried in backups (everything optional: older backups may lack some). */
+export type BackupSettings = {
+  viewBy?: 'day' | 'week' | 'month' | 'year';
+  displayTimeZone?: string;
+  secondaryTimeZones?: string[];
+  theme?: 'dark' | 'light' | 'system';
+  calendars?: ICalendar[];
+  hiddenCalendarIds?: string[];
+  userEmail?: string;
+  eventTypes?: IEventType[];
+  palette?: string[];
+};
+
+export type DataEnvelope = {
+  schemaVersion: number;
+  events: IEvent[];
+  settings?: BackupSettings;
+  // files the events link to (backups only; see services/attachments)
+  attachments?: BackupAttachment[];
+  // ISO time the backup was written (backups only)
+  exportedAt?: string;
+};
+
+/** Error for data that cannot be read; `problems` lists what is wrong, for display. */
+export class BackupError extends Error {
+  readonly problems: string[];
+
+  constructor(message: string, problems: string[] = []) {
+    super(message);
+    this.name = 'BackupError';
+    this.problems = problems;
+  }
+}
+
+/* -------------------------
+   Migrations
+   ------------------------- */
+
+type Migration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * MIGRATIONS[n] turns version n data into version n + 1.
+ * Version 1 is the original format: a bare JSON array of events, with numeric colours
+ * in some early data.
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  1: (data) => ({
+    ...data,
+    schemaVersion: 2,
+    events: (data.events as Record<string, unknown>[]).map((event) =>
+      typeof event?.colour === 'number' ? { ...event, colour: String(event.colour) } : event
+    ),
+  }),
+};
+
+/**
+ * Bring stored or backed-up data up to SCHEMA_VERSION.
+ * Accepts the legacy bare array (version 1) or an envelope. Throws a BackupError for data
+ * written by a newer version or that is not calendar data at all. Does not validate events.
+ */
+export function migrateData(raw: unknown): DataEnvelope {
+  let data: Record<string, unknown>;
+  if (Array.isArray(raw)) {
+    data = { schemaVersion: 1, events: raw };
+  } else if (raw && typeof raw === 'object' && 'schemaVersion' in raw) {
+    data = raw as Record<string, unknown>;
+  } else {
+    throw new BackupError('This is not a calendar backup.');
+  }
+
+  const declared = data.schemaVersion;
+  if (typeof declared !== 'number' || !Number.isInteger(declared) || declared < 1) {
+    throw new BackupError(`Unknown schema version "${String(declared)}".`);
+  }
+  let version = declared;
+  if (version > SCHEMA_VERSION) {
+    throw new BackupError(
+      `This backup was written by a newer version of the calendar (schema ${version}).`
+    );
+  }
+  if (!Array.isArray(data.events)) throw new BackupError('The backup has no event list.');
+
+  while (version < SCHEMA_VERSION) {
+    data = MIGRATIONS[version](data);
+    version = data.schemaVersion as number;
+  }
+
+  return data as DataEnvelope;
+}
+
+/* -------------------------
+   Validation
+   ------------------------- */
+
+const isDateString = (value: unknown) =>
+  typeof value === 'string' && Number.isFinite(new Date(value).getTime());
+
+/** Problems with one event, labelled for a person ("event 3: missing title"). */
+const labelledProblems = (event: unknown, index: number) =>
+  eventProblems(event).map((problem) => `event ${index + 1}: ${problem}`);
+
+const SETTINGS_CHECKS: Record<keyof BackupSettings, (value: unknown) => boolean> = {
+  viewBy: (v) => ['day', 'week', 'month', 'year'].includes(v as string),
+  displayTimeZone: (v) => typeof v === 'string',
+  secondaryTimeZones: (v) => Array.isArray(v) && v.every((tz) => typeof tz === 'string'),
+  theme: (v) => ['dark', 'light', 'system'].includes(v as string),
+  calendars: isCalendarList,
+  hiddenCalendarIds: (v) => Array.isArray(v) && v.every((id) => typeof id === 'string'),
+  userEmail: (v) => typeof v === 'string',
+  eventTypes: isEventTypeList,
+  palette: isPalette,
+};
+
+/**
+ * Migrate and check a whole envelope. Throws a BackupError listing every problem, so
+ * nothing is written unless all of it can be restored.
+ */
+export function readBackup(raw: unknown): DataEnvelope {
+  const data = migrateData(raw);
+
+  const problems = data.events.flatMap(labelledProblems);
+  const ids = new Set<string>();
+  data.events.forEach((event, i) => {
+    const id = String(event?.id);
+    if (ids.has(id)) problems.push(`event ${i + 1}: duplicate id ${id}`);
+    ids.add(id);
+  });
+
+  if (data.exportedAt !== undefined && !isDateString(data.exportedAt)) {
+    problems.push('invalid exportedAt');
+  }
+  if (data.settings !== undefined) {
+    if (typeof data.settings !== 'object' || data.settings === null) {
+      problems.push('settings: not an object');
+    } else {
+      Object.entries(data.settings).forEach(([key, value]) => {
+        const check = SETTINGS_CHECKS[key as keyof BackupSettings];
+        if (check && value !== undefined && !check(value))
+          problems.push(`settings: invalid ${key}`);
+      });
+    }
+  }
+
+  if (data.attachments !== undefined && !isBackupAttachmentList(data.attachments)) {
+    problems.push('invalid attachments');
+  }
+
+  if (problems.length > 0) {
+    throw new BackupError('The backup contains invalid data.', problems);
+  }
+  return data;
+}
+
+/** Parse a backup file's text; see readBackup. */
+export function parseBackup(text: string): DataEnvelope {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new BackupError('The file is not valid JSON.');
+  }
+  return readBackup(raw);
+}
+
+/* -------------------------
+   Backup and restore
+   ------------------------- */
+
+/**
+ * Build a backup envelope of every stored event and the given settings, with the files the
+ * events link to when `attachments` is given (left out when there are none).
+ */
+export async function createBackup(
+  store: EventStore,
+  settings: BackupSettings,
+  now = new Date(),
+  attachments?: AttachmentStore
+): Promise<DataEnvelope> {
+  const events = await store.getEvents();
+  const backup: DataEnvelope = {
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: now.toISOString(),
+    events,
+    settings,
+  };
+  const files = attachments ? await exportAttachments(attachments, events) : [];
+  return files.length > 0 ? { ...backup, attachments: files } : backup;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export type RestoreResult = {
+  added: number;
+  updated: number;
+  removed: number;
+  // read-only stored events left as they were
+  kept: number;
+  // backup id -> id the store gave the restored event
+  idMap: Map<string, number | string>;
+};
+
+/**
+ * Write a validated backup into a store.
+ * - `replace` adds the backup's events, then deletes the ones stored before; a failed add
+ *   leaves the stored events as they were.
+ * - `merge` overwrites stored events that share an id with the backup and adds the rest.
+ * Read-only stored events (`isReadOnly`, by default their own flag) are kept as they are, and
+ * the backup's events with their ids are skipped. Added events get new ids from the store
+ * (see `idMap`).
+ */
+export async function restoreBackup(
+  store: EventStore,
+  backup: DataEnvelope,
+  mode: RestoreMode,
+  isReadOnly: (event: IEvent) => boolean = (event) => !!event.readOnly
+): Promise<RestoreResult> {
+  const existing = await store.getEvents();
+  const result: RestoreResult = { added: 0, updated: 0, removed: 0, kept: 0, idMap: new Map() };
+
+  const locked = existing.filter(isReadOnly);
+  const isLocked = (event: IEvent) => locked.some((e) => isSameId(e.id, event.id));
+  result.kept = locked.length;
+
+  let toAdd = backup.events.filter((event) => !isLocked(event));
+  if (mode === 'merge') {
+    toAdd = [];
+    for (const event of backup.events) {
+      if (isLocked(event)) continue;
+      if (existing.some((e) => isSameId(e.id, event.id))) {
+        await store.changeEvent(event);
+        result.idMap.set(String(event.id), event.id);
+        result.updated++;
+      } else {
+        toAdd.push(event);
+      }
+    }
+  }
+
+  if (toAdd.length > 0) {
+    const created = await store.addEventsBulk(
+      toAdd.map(({ id, ...event }) => {
+        void id;
+        return event;
+      })
+    );
+    created.forEach((event, i) => result.idMap.set(String(toAdd[i].id), event.id));
+    result.added = created.length;
+  }
+
+  if (mode === 'replace') {
+    for (const event of existing) {
+      if (!isLocked(event)) await store.deleteEvent(event.id);
+    }
+    result.removed = existing.length - locked.length;
+  }
+
+  return result;
+}
@@ -0,0 +1,137 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import type { IEvent } from '@/types/Calendar';
+import { createEventHistory } from './history';
+import { createReadOnlyGuard } from './readOnly';
+import { createMemoryEventStore } from './stores/memoryEventStore';
+
+const baseEvents: IEvent[] = [
+  {
+    id: 1,
+    title: 'Standup',
+    start: '2024-03-04T09:00:00.000Z',
+    end: '2024-03-04T09:15:00.000Z',
+  },
+  {
+    id: 2,
+    title: 'Review',
+    start: '2024-03-05T14:00:00.000Z',
+    end: '2024-03-05T15:00:00.000Z',
+  },
+];
+
+const titles = async (history: ReturnType<typeof createEventHistory>) =>
+  (await history.store.getEvents()).map((e) => e.title);
+
+describe('createEventHistory', () => {
+  it('undoes and redoes changes, adds and deletes', async () => {
+    const history = createEventHistory(createMemoryEventStore({ initialEvents: baseEvents }));
+    const { store } = history;
+
+    await store.changeEvent({ ...baseEvents[0], start: '2024-03-04T10:00:00.000Z' });
+    await store.addEvent({ title: 'Lunch', start: baseEvents[0].start, end: baseEvents[0].end });
+    await store.deleteEvent(2);
+    expect(await titles(history)).toEqual(['Standup', 'Lunch']);
+
+    expect(await history.undo()).toBe(true);
+    expect(await titles(history)).toEqual(['Standup', 'Lunch', 'Review']);
+    await history.undo();
+    await history.undo();
+    // a re-created event gets a new id from the store
+    expect(await store.getEvents()).toEqual([
+      baseEvents[0],
+      { ...baseEvents[1], id: expect.any(String) },
+    ]);
+    expect(history.getState()).toEqual({ canUndo: false, canRedo: true });
+    expect(await history.undo()).toBe(false);
+
+    await history.redo();
+    await history.redo();
+    await history.redo();
+    expect(await titles(history)).toEqual(['Standup', 'Lunch']);
+    expect((await store.getEvents())[0].start).toBe('2024-03-04T10:00:00.000Z');
+  });
+
+  it('does not read the whole store again for events it has seen', async () => {
+    const inner = createMemoryEventStore({ initialEvents: baseEvents });
+    const getEvents = vi.spyOn(inner, 'getEvents');
+    // as the provider stacks them: history over the read-only guard
+    const { store, undo } = createEventHistory(createReadOnlyGuard(inner).store);
+
+    await store.getEventsByRange('2024-03-04T00:00:00.000Z', '2024-03-06T00:00:00.000Z');
+    await store.changeEvent({ ...baseEvents[0], title: 'Daily' });
+    await store.deleteEvent(2);
+    await undo();
+    await store.changeEvent({ ...baseEvents[0], title: 'Daily standup' });
+    expect(getEvents).not.toHaveBeenCalled();
+
+    await undo();
+    await undo();
+    expect((await store.getEvents()).map((e) => e.title)).toEqual(['Standup', 'Review']);
+  });
+
+  it('keeps older entries working after a deleted event comes back with a new id', async () => {
+    const history = createEventHistory(createMemoryEventStore({ initialEvents: baseEvents }));
+    const { store } = history;
+
+    await store.changeEvent({ ...baseEvents[1], title: 'Design review' });
+    await store.deleteEvent(2);
+    await history.undo(); // re-created under a new id
+    await history.undo(); // must still find it to restore the title
+
+    const events = await store.getEvents();
+    expect(events.map((e) => e.title)).toEqual(['Standup', 'Review']);
+    expect(events[1].id).not.toBe(2);
+  });
+
+  it('records a group as one entry and clears redo on new changes', async () => {
+    const history = createEventHistory(createMemoryEventStore({ initialEvents: baseEvents }));
+    const { store } = history;
+
+    await history.group(async () => {
+      await store.deleteEvent(1);
+      await store.deleteEvent(2);
+      await store.addEventsBulk([{ ...baseEvents[0], title: 'Imported' }]);
+    });
+    expect(await titles(history)).toEqual(['Imported']);
+
+    await history.undo();
+    expect((await titles(history)).sort()).toEqual(['Review', 'Standup']);
+    expect(history.getState()).toEqual({ canUndo: false, canRedo: true });
+
+    await store.deleteEvent((await store.getEvents())[0].id);
+    expect(history.getState()).toEqual({ canUndo: true, canRedo: false });
+  });
+
+  it('lists the events undo and redo can bring back', async () => {
+    const history = createEventHistory(createMemoryEventStore({ initialEvents: baseEvents }));
+
+    await history.store.deleteEvent(2);
+    expect(history.retained()).toEqual([baseEvents[1]]);
+
+    history.clear();
+    expect(history.retained()).toEqual([]);
+  });
+
+  it('tells listeners when entries can no longer come back', async () => {
+    const history = createEventHistory(createMemoryEventStore({ initialEvents: baseEvents }), {
+      limit: 1,
+    });
+    const forgotten = vi.fn();
+    history.onForget(forgotten);
+
+    await history.store.deleteEvent(2);
+    expect(forgotten).not.toHaveBeenCalled();
+    // pushed off the undo stack
+    await history.store.changeEvent({ ...baseEvents[0], title: 'Daily' });
+    expect(forgotten).toHaveBeenCalledTimes(1);
+    // a redo entry cleared by a new change
+    await history.undo();
+    await history.store.changeEvent({ ...baseEvents[0], title: 'Sync' });
+    expect(forgotten).toHaveBeenCalledTimes(2);
+
+    history.clear();
+    history.clear();
+    expect(forgotten).toHaveBeenCalledTimes(3);
+  });
+});
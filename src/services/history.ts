@@ -0,0 +1,271 @@
+import type { IEvent } from '@/types/Calendar';
+import { isSameId, type EventStore } from './stores/EventStore';
+
+/*
+  Undo/redo history for event mutations.
+  The history wraps an EventStore: every add, change, delete and bulk add made through the
+  wrapped store is recorded as before/after snapshots of the events it touched, so any
+  caller (drag and drop, the event panel, shortcuts, imports) is covered without doing
+  anything. Undo and redo replay the snapshots against the underlying store.
+*/
+
+/** One event's state before and after a mutation (null: it did not exist). */
+export type EventChange = { before: IEvent | null; after: IEvent | null };
+
+export type HistoryState = { canUndo: boolean; canRedo: boolean };
+
+export type EventHistory = {
+  /** The wrapped store; mutations made through it are recorded. */
+  store: EventStore;
+  /** Revert the latest recorded entry. Resolves to false when there was nothing to undo. */
+  undo: () => Promise<boolean>;
+  /** Re-apply the latest undone entry. Resolves to false when there was nothing to redo. */
+  redo: () => Promise<boolean>;
+  /** Record every mutation `fn` makes as a single entry (for bulk operations). */
+  group: <T>(fn: () => Promise<T>) => Promise<T>;
+  clear: () => void;
+  /** Every event state undo or redo can bring back (to keep what they still need). */
+  retained: () => IEvent[];
+  /** Current state; a new object whenever it changes. */
+  getState: () => HistoryState;
+  /** Listen for state changes; returns the unsubscribe function. */
+  subscribe: (listener: () => void) => () => void;
+  /**
+   * Listen for entries leaving both stacks (pushed off the undo stack, redo cleared by a new
+   * change, or `clear`): the states they held can no longer come back. Returns the
+   * unsubscribe function.
+   */
+  onForget: (listener: () => void) => () => void;
+};
+
+export type EventHistoryOptions = {
+  /** Most entries kept on the undo stack. */
+  limit?: number;
+};
+
+const withoutId = ({ id, ...event }: IEvent): Omit<IEvent, 'id'> => {
+  void id;
+  return event;
+};
+
+/**
+ * Wrap `inner` with an undo/redo history.
+ * - Changes and deletes need the stored event's previous state. The history remembers the
+ *   events read and written through it, so only an event it has not seen costs a
+ *   `getEvents` call (one per group).
+ * - Re-creating a deleted event gives it a new id; the id is updated in every entry, so
+ *   older entries still apply to it.
+ * - A failed replay is rethrown and leaves the entry where it was.
+ */
+export const createEventHistory = (
+  inner: EventStore,
+  { limit = 100 }: EventHistoryOptions = {}
+): EventHistory => {
+  let undoStack: EventChange[][] = [];
+  let redoStack: EventChange[][] = [];
+  let state: HistoryState = { canUndo: false, canRedo: false };
+  const listeners = new Set<() => void>();
+  const forgetListeners = new Set<() => void>();
+
+  // open group: the entry being collected and the stored events it has seen
+  let pending: { changes: EventChange[]; events: IEvent[] | null; depth: number } | null = null;
+  let replaying = false;
+
+  // the events read or written through the history, by id (occurrences are not stored)
+  const seen = new Map<string, IEvent>();
+  const remember = (events: IEvent[]) => {
+    events.forEach((event) => {
+      if (!event.occurrenceOf) seen.set(String(event.id), event);
+    });
+    return events;
+  };
+
+  const notify = () => {
+    const next = { canUndo: undoStack.length > 0, canRedo: redoStack.length > 0 };
+    if (next.canUndo === state.canUndo && next.canRedo === state.canRedo) return;
+    state = next;
+    listeners.forEach((listener) => listener());
+  };
+
+  const record = (changes: EventChange[]) => {
+    if (changes.length === 0) return;
+    if (pending) {
+      pending.changes.push(...changes);
+      return;
+    }
+    const entries = [...undoStack, changes];
+    const forgotten = entries.length > limit || redoStack.length > 0;
+    undoStack = entries.slice(-limit);
+    redoStack = [];
+    notify();
+    if (forgotten) forgetListeners.forEach((listener) => listener());
+  };
+
+  /** The stored event with `id`, as it is now. */
+  const lookup = async (id: number | string) => {
+    const known = seen.get(String(id));
+    if (known) return known;
+    if (!pending) return remember(await inner.getEvents()).find((e) => isSameId(e.id, id)) ?? null;
+    pending.events ??= remember(await inner.getEvents());
+    return pending.events.find((e) => isSameId(e.id, id)) ?? null;
+  };
+
+  // keep the remembered events (and a group's) in step with the history's own writes
+  const track = (changes: EventChange[]) => {
+    changes.forEach(({ before, after }) => {
+      const id = (before ?? after)!.id;
+      seen.delete(String(id));
+      if (after) seen.set(String(after.id), after);
+      if (!pending?.events) return;
+      pending.events = pending.events.filter((e) => !isSameId(e.id, id));
+      if (after) pending.events.push(after);
+    });
+  };
+
+  const renameId = (from: IEvent['id'], to: IEvent['id']) => {
+    const rename = (event: IEvent | null) =>
+      event && isSameId(event.id, from) ? { ...event, id: to } : event;
+    const renameAll = (stack: EventChange[][]) =>
+      stack.map((changes) =>
+        changes.map(({ before, after }) => ({ before: rename(before), after: rename(after) }))
+      );
+    undoStack = renameAll(undoStack);
+    redoStack = renameAll(redoStack);
+  };
+
+  /** Move the store from each change's `from` state to its `to` state. */
+  const apply = async (transitions: { from: IEvent | null; to: IEvent | null }[]) => {
+    const creations: IEvent[] = [];
+    for (const { from, to } of transitions) {
+      if (!to) await inner.deleteEvent(from!.id);
+      else if (!from) creations.push(to);
+      else await inner.changeEvent(to);
+      if (from) track([{ before: from, after: to }]);
+    }
+    if (creations.length === 0) return;
+    const created = await inner.addEventsBulk(creations.map(withoutId));
+    created.forEach((event, i) => renameId(creations[i].id, event.id));
+    remember(created);
+  };
+
+  const replay = async (direction: 'undo' | 'redo') => {
+    const source = direction === 'undo' ? undoStack : redoStack;
+    const entry = source[source.length - 1];
+    if (!entry || replaying || pending) return false;
+
+    replaying = true;
+    try {
+      await apply(
+        direction === 'undo'
+          ? [...entry].reverse().map(({ before, after }) => ({ from: after, to: before }))
+          : entry.map(({ before, after }) => ({ from: before, to: after }))
+      );
+      // take the entry again: applying may have renamed ids in it
+      const moved = (direction === 'undo' ? undoStack : redoStack).at(-1)!;
+      if (direction === 'undo') {
+        undoStack = undoStack.slice(0, -1);
+        redoStack = [...redoStack, moved];
+      } else {
+        redoStack = redoStack.slice(0, -1);
+        undoStack = [...undoStack, moved];
+      }
+      notify();
+      return true;
+    } finally {
+      replaying = false;
+    }
+  };
+
+  const store: EventStore = {
+    ...inner,
+
+    getEvents: async () => remember(await inner.getEvents()),
+    getEventsByDate: async (date) => remember(await inner.getEventsByDate(date)),
+    getEventsByMonth: async (month) => remember(await inner.getEventsByMonth(month)),
+    getEventsByRange: async (from, to) => remember(await inner.getEventsByRange(from, to)),
+
+    addEvent: async (event) => {
+      const created = await inner.addEvent(event);
+      const changes = [{ before: null, after: created }];
+      track(changes);
+      record(changes);
+      return created;
+    },
+
+    changeEvent: async (event) => {
+      const before = await lookup(event.id);
+      const changed = await inner.changeEvent(event);
+      if (before) {
+        const changes = [{ before, after: { ...event, id: before.id } }];
+        track(changes);
+        record(changes);
+      }
+      return changed;
+    },
+
+    deleteEvent: async (id) => {
+      const before = await lookup(id);
+      await inner.deleteEvent(id);
+      if (before) {
+        const changes = [{ before, after: null }];
+        track(changes);
+        record(changes);
+      }
+    },
+
+    addEventsBulk: async (events) => {
+      const created = await inner.addEventsBulk(events);
+      const changes = created.map((after) => ({ before: null, after }));
+      track(changes);
+      record(changes);
+      return created;
+    },
+  };
+
+  return {
+    store,
+    undo: () => replay('undo'),
+    redo: () => replay('redo'),
+
+    group: async (fn) => {
+      pending ??= { changes: [], events: null, depth: 0 };
+      pending.depth++;
+      try {
+        return await fn();
+      } finally {
+        if (--pending.depth === 0) {
+          const { changes } = pending;
+          pending = null;
+          record(changes);
+        }
+      }
+    },
+
+    clear: () => {
+      const forgotten = undoStack.length > 0 || redoStack.length > 0;
+      undoStack = [];
+      redoStack = [];
+      notify();
+      if (forgotten) forgetListeners.forEach((listener) => listener());
+    },
+
+    retained: () =>
+      [...undoStack, ...redoStack]
+        .flat()
+        .flatMap(({ before, after }) =>
+          [before, after].filter((event): event is IEvent => event !== null)
+        ),
+
+    getState: () => state,
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+
+    onForget: (listener) => {
+      forgetListeners.add(listener);
+      return () => forgetListeners.delete(listener);
+    },
+  };
+};
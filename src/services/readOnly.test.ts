@@ -0,0 +1,105 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import type { IEvent } from '@/types/Calendar';
+import { createReadOnlyGuard } from './readOnly';
+import { createMemoryEventStore } from './stores/memoryEventStore';
+
+const baseEvents: IEvent[] = [
+  {
+    id: 1,
+    title: 'Standup',
+    start: '2024-03-04T09:00:00.000Z',
+    end: '2024-03-04T09:15:00.000Z',
+    readOnly: true,
+  },
+  {
+    id: 2,
+    title: 'Review',
+    start: '2024-03-05T14:00:00.000Z',
+    end: '2024-03-05T15:00:00.000Z',
+    calendarId: 'work',
+  },
+];
+
+describe('createReadOnlyGuard', () => {
+  it('refuses to change or delete read-only events', async () => {
+    const { store } = createReadOnlyGuard(createMemoryEventStore({ initialEvents: baseEvents }));
+
+    await expect(store.changeEvent({ ...baseEvents[0], readOnly: false })).rejects.toMatchObject({
+      kind: 'forbidden',
+    });
+    await expect(store.deleteEvent(1)).rejects.toMatchObject({ kind: 'forbidden' });
+    await store.changeEvent({ ...baseEvents[1], title: 'Code review' });
+
+    expect((await store.getEvents()).map((e) => e.title)).toEqual(['Standup', 'Code review']);
+  });
+
+  it('checks events it has already read without reading them again', async () => {
+    const inner = createMemoryEventStore({ initialEvents: baseEvents });
+    const getEvents = vi.spyOn(inner, 'getEvents');
+    const { store } = createReadOnlyGuard(inner);
+
+    await store.getEventsByDate('2024-03-04');
+    await expect(store.deleteEvent(1)).rejects.toMatchObject({ kind: 'forbidden' });
+    expect(getEvents).not.toHaveBeenCalled();
+
+    // an event it has not seen is looked up
+    await store.changeEvent({ ...baseEvents[1], title: 'Code review' });
+    await store.deleteEvent(2);
+    expect(getEvents).toHaveBeenCalledTimes(1);
+  });
+
+  it("takes the current user's answer to a read-only event, and nothing else", async () => {
+    const invite = {
+      ...baseEvents[0],
+      attendees: [
+        { name: 'Ana', email: 'ana@example.com', status: 'needs-action' as const },
+        { name: 'Rui', email: 'rui@example.com', status: 'needs-action' as const },
+      ],
+    };
+    const guard = createReadOnlyGuard(createMemoryEventStore({ initialEvents: [invite] }));
+    const { store } = guard;
+    const reply = (email: string) => ({
+      ...invite,
+      title: 'Renamed',
+      attendees: invite.attendees.map((a) =>
+        a.email === email ? { ...a, status: 'accepted' as const } : a
+      ),
+    });
+
+    // nobody signed in, or someone not invited
+    await expect(store.changeEvent(reply('ana@example.com'))).rejects.toMatchObject({
+      kind: 'forbidden',
+    });
+    guard.setCurrentUser('eve@example.com');
+    await expect(store.changeEvent(reply('eve@example.com'))).rejects.toMatchObject({
+      kind: 'forbidden',
+    });
+
+    guard.setCurrentUser('ANA@example.com');
+    await store.changeEvent(reply('ana@example.com'));
+
+    const [stored] = await store.getEvents();
+    expect(stored.title).toBe('Standup');
+    expect(stored.attendees?.map((a) => a.status)).toEqual(['accepted', 'needs-action']);
+  });
+
+  it('follows the check for read-only calendars', async () => {
+    const guard = createReadOnlyGuard(createMemoryEventStore({ initialEvents: baseEvents }));
+    guard.setCheck((event) => !!event.readOnly || event.calendarId === 'holidays');
+    const { store } = guard;
+
+    await expect(
+      store.addEvent({ ...baseEvents[1], calendarId: 'holidays' })
+    ).rejects.toMatchObject({ kind: 'forbidden' });
+    await expect(
+      store.changeEvent({ ...baseEvents[1], calendarId: 'holidays' })
+    ).rejects.toMatchObject({ kind: 'forbidden' });
+
+    guard.setCheck((event) => !!event.readOnly || event.calendarId === 'work');
+    await expect(store.deleteEvent(2)).rejects.toMatchObject({ kind: 'forbidden' });
+    // read-only events can still be added, as imports and restores do
+    await store.addEventsBulk([{ ...baseEvents[0], calendarId: 'personal' }]);
+    expect(await store.getEvents()).toHaveLength(3);
+  });
+});
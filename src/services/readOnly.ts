@@ -0,0 +1,126 @@
+import { attendeeOf, withResponse } from '@/lib/attendees';
+import type { IEvent } from '@/types/Calendar';
+import { EventStoreError, isSameId, type EventStore } from './stores/EventStore';
+
+/*
+  Read-only enforcement for event mutations.
+  The guard wraps an EventStore and refuses, with a 'forbidden' error, to change or delete
+  events that are read-only, to move events into a read-only calendar and to add events to
+  one. The one change a read-only event takes is the current user's answer to it. Reads pass
+  straight through. What counts as read-only is decided by the caller (the event's own flag
+  and its calendar's, see `isReadOnlyEvent`), so the same guard works in front of any
+  adapter.
+*/
+
+/** Decides whether an event (or, given only `calendarId`, a calendar) is read-only. */
+export type ReadOnlyCheck = (event: Pick<IEvent, 'calendarId' | 'readOnly'>) => boolean;
+
+export type ReadOnlyGuard = {
+  /** The wrapped store; mutations of read-only events through it are refused. */
+  store: EventStore;
+  /** Replace the check (when the calendars change). */
+  setCheck: (isReadOnly: ReadOnlyCheck) => void;
+  /** Email of the user whose answers read-only events still take (null: nobody's). */
+  setCurrentUser: (email: string | null) => void;
+};
+
+const refuse = (message: string): never => {
+  throw new EventStoreError('forbidden', message);
+};
+
+/**
+ * Wrap `inner` so mutations of read-only events are refused. Until `setCheck` is called only
+ * the events' own flag counts.
+ * - Changes and deletes check the stored event, so a read-only event cannot be unlocked by
+ *   writing over it. The guard remembers the events read and written through it, so only
+ *   an event it has not seen costs a `getEvents` call.
+ * - A change to a read-only event the current user is invited to stores their answer from
+ *   it on the stored event, and nothing else.
+ * - Events may be added with their own `readOnly` flag set (imports, restores), but not
+ *   into a read-only calendar.
+ */
+export const createReadOnlyGuard = (inner: EventStore): ReadOnlyGuard => {
+  let isReadOnly: ReadOnlyCheck = (event) => !!event.readOnly;
+  let userEmail: string | null = null;
+
+  // what the checks need of every event seen, by id
+  const known = new Map<string, Pick<IEvent, 'calendarId' | 'readOnly' | 'title'>>();
+  const remember = <T extends IEvent[]>(events: T) => {
+    events.forEach(({ id, calendarId, readOnly, title }) =>
+      known.set(String(id), { calendarId, readOnly, title })
+    );
+    return events;
+  };
+
+  const stored = async (id: number | string) => {
+    if (!known.has(String(id))) {
+      const current = (await inner.getEvents()).find((e) => isSameId(e.id, id));
+      if (current) remember([current]);
+    }
+    return known.get(String(id)) ?? null;
+  };
+
+  const assertCalendarWritable = (events: Pick<IEvent, 'calendarId' | 'title'>[]) => {
+    const locked = events.find((e) => isReadOnly({ calendarId: e.calendarId }));
+    if (locked) refuse(`"${locked.title}" cannot be put in a read-only calendar`);
+  };
+
+  /** The stored event with only the current user's answer taken from `event`, if invited. */
+  const answered = async (event: IEvent) => {
+    const answer = attendeeOf(event, userEmail)?.status;
+    if (!userEmail || !answer) return null;
+    // read afresh: what the guard remembers of an event is not all of it
+    const current = (await inner.getEvents()).find((e) => isSameId(e.id, event.id));
+    if (!current || !attendeeOf(current, userEmail)) return null;
+    return { ...current, attendees: withResponse(current.attendees ?? [], userEmail, answer) };
+  };
+
+  const store: EventStore = {
+    ...inner,
+
+    getEvents: async () => remember(await inner.getEvents()),
+    getEventsByDate: async (date) => remember(await inner.getEventsByDate(date)),
+    getEventsByMonth: async (month) => remember(await inner.getEventsByMonth(month)),
+    getEventsByRange: async (from, to) => remember(await inner.getEventsByRange(from, to)),
+
+    addEvent: async (event) => {
+      assertCalendarWritable([event]);
+      const [created] = remember([await inner.addEvent(event)]);
+      return created;
+    },
+
+    changeEvent: async (event) => {
+      const current = await stored(event.id);
+      if (current && isReadOnly(current)) {
+        const answer = await answered(event);
+        if (!answer) refuse(`"${current.title}" is read-only`);
+        else return remember([await inner.changeEvent(answer)])[0];
+      }
+      assertCalendarWritable([event]);
+      const [changed] = remember([await inner.changeEvent(event)]);
+      return changed;
+    },
+
+    deleteEvent: async (id) => {
+      const current = await stored(id);
+      if (current && isReadOnly(current)) refuse(`"${current.title}" is read-only`);
+      await inner.deleteEvent(id);
+      known.delete(String(id));
+    },
+
+    addEventsBulk: async (events) => {
+      assertCalendarWritable(events);
+      return remember(await inner.addEventsBulk(events));
+    },
+  };
+
+  return {
+    store,
+    setCheck: (check) => {
+      isReadOnly = check;
+    },
+    setCurrentUser: (email) => {
+      userEmail = email;
+    },
+  };
+};
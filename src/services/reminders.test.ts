@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { IEvent } from '@/types/Calendar';
+import { createReminderScheduler } from './reminders';
+import { createMemoryEventStore } from './stores/memoryEventStore';
+
+const storageKey = 'test-reminders';
+
+const baseEvents: IEvent[] = [
+  {
+    id: 1,
+    title: 'Standup',
+    start: '2024-03-04T09:00:00.000Z',
+    end: '2024-03-04T09:15:00.000Z',
+    reminders: [10],
+  },
+  {
+    id: 2,
+    title: 'Review',
+    start: '2024-03-04T14:00:00.000Z',
+    end: '2024-03-04T15:00:00.000Z',
+  },
+];
+
+const setup = () => {
+  const notify = vi.fn();
+  const scheduler = createReminderScheduler({
+    store: createMemoryEventStore({ initialEvents: baseEvents }),
+    // Review falls back to a 1 hour "calendar default"
+    reminders: (event) => event.reminders ?? [60],
+    notify,
+    storageKey,
+  });
+  return { scheduler, notify };
+};
+
+describe('createReminderScheduler', () => {
+  beforeEach(() => {
+    localStorage.removeItem(storageKey);
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-03-04T08:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('fires reminders when they are due, then snoozes and dismisses them', async () => {
+    const { scheduler, notify } = setup();
+    await scheduler.start();
+    expect(scheduler.getActive()).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(50 * 60_000);
+    expect(notify).toHaveBeenCalledTimes(1);
+    const [alert] = scheduler.getActive();
+    expect(alert).toMatchObject({ eventId: 1, title: 'Standup', minutes: 10 });
+
+    scheduler.snooze(alert.key, 5);
+    expect(scheduler.getActive()).toEqual([]);
+    await vi.advanceTimersByTimeAsync(5 * 60_000);
+    expect(notify).toHaveBeenCalledTimes(2);
+    expect(scheduler.getActive().map((a) => a.key)).toEqual([alert.key]);
+
+    scheduler.dismiss(alert.key);
+    expect(scheduler.getActive()).toEqual([]);
+
+    // the calendar default of the other event
+    await vi.advanceTimersByTimeAsync(5 * 60 * 60_000);
+    expect(notify).toHaveBeenCalledTimes(3);
+    expect(scheduler.getActive().map((a) => a.title)).toEqual(['Review']);
+    scheduler.stop();
+  });
+
+  it('logs a failed reload when the horizon runs out', async () => {
+    const store = createMemoryEventStore({ initialEvents: baseEvents });
+    const scheduler = createReminderScheduler({
+      store,
+      reminders: () => [10],
+      storageKey,
+      horizon: 60_000,
+    });
+    const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    await scheduler.start();
+
+    vi.spyOn(store, 'getEventsByRange').mockRejectedValue(new Error('offline'));
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(error).toHaveBeenCalledWith('Failed to schedule reminders', expect.any(Error));
+    scheduler.stop();
+    vi.restoreAllMocks();
+  });
+
+  it('brings back fired reminders after a restart without notifying again', async () => {
+    const first = setup();
+    await first.scheduler.start();
+    await vi.advanceTimersByTimeAsync(55 * 60_000);
+    expect(first.notify).toHaveBeenCalledTimes(1);
+    first.scheduler.stop();
+
+    const second = setup();
+    await second.scheduler.start();
+    expect(second.scheduler.getActive().map((a) => a.title)).toEqual(['Standup']);
+    expect(second.notify).not.toHaveBeenCalled();
+
+    second.scheduler.dismiss(second.scheduler.getActive()[0].key);
+    second.scheduler.stop();
+
+    const third = setup();
+    await third.scheduler.start();
+    expect(third.scheduler.getActive()).toEqual([]);
+    third.scheduler.stop();
+  });
+});
@@ -0,0 +1,198 @@
+import { alertsOf, MAX_REMINDER_MINUTES, type ReminderAlert } from '@/lib/reminders';
+import type { IEvent } from '@/types/Calendar';
+import type { EventStore } from './stores/EventStore';
+
+/*
+  Reminder scheduler.
+  `start` loads the events that can have a reminder firing within the horizon from the
+  store, works out when each reminder fires and sets a timer for it; it runs again when the
+  horizon runs out. Which reminders fired, were dismissed or snoozed is kept in
+  localStorage, so a reload reschedules everything from the store: reminders that fired while
+  the page was closed come back (until their event is over) without notifying twice.
+*/
+
+export type ReminderSchedulerOptions = {
+  store: Pick<EventStore, 'getEventsByRange'>;
+  /** Reminders of an event, in minutes before its start (see `remindersOf`). */
+  reminders: (event: IEvent) => number[];
+  /** Called once per reminder when it fires (or when a snooze runs out). */
+  notify?: (alert: ReminderAlert) => void;
+  storageKey?: string;
+  /** How far ahead timers are set (ms). */
+  horizon?: number;
+  now?: () => Date;
+};
+
+export type ReminderScheduler = {
+  /** (Re)load the events and schedule their reminders; cancels earlier timers. */
+  start: () => Promise<void>;
+  /** Cancel every timer. */
+  stop: () => void;
+  /** Reminders that fired and were not dismissed or snoozed yet; a new array on change. */
+  getActive: () => ReminderAlert[];
+  /** Listen for changes of the active reminders; returns the unsubscribe function. */
+  subscribe: (listener: () => void) => () => void;
+  /** Fire the reminder again `minutes` from now. */
+  snooze: (key: string, minutes: number) => void;
+  dismiss: (key: string) => void;
+};
+
+// what happened to each reminder, by key: the event's end (to forget it once the event is
+// long over), or the time a snooze runs out
+type ReminderLog = {
+  fired: Record<string, string>;
+  dismissed: Record<string, string>;
+  snoozed: Record<string, string>;
+};
+
+export const DEFAULT_REMINDER_STORAGE_KEY = 'atcalendar-reminders';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const MAX_LEAD = MAX_REMINDER_MINUTES * 60_000;
+
+const emptyLog = (): ReminderLog => ({ fired: {}, dismissed: {}, snoozed: {} });
+
+/** Create a scheduler; nothing is loaded or scheduled until `start`. */
+export const createReminderScheduler = ({
+  store,
+  reminders,
+  notify = () => undefined,
+  storageKey = DEFAULT_REMINDER_STORAGE_KEY,
+  horizon = 6 * HOUR,
+  now = () => new Date(),
+}: ReminderSchedulerOptions): ReminderScheduler => {
+  let active: ReminderAlert[] = [];
+  let timers: ReturnType<typeof setTimeout>[] = [];
+  // bumped by start/stop, so a load that finishes late does not schedule anything
+  let generation = 0;
+  const listeners = new Set<() => void>();
+
+  const readLog = (): ReminderLog => {
+    try {
+      const stored = JSON.parse(localStorage.getItem(storageKey) ?? 'null');
+      return stored && typeof stored === 'object' ? { ...emptyLog(), ...stored } : emptyLog();
+    } catch {
+      return emptyLog();
+    }
+  };
+
+  const writeLog = (log: ReminderLog) => {
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(log));
+    } catch {
+      // ignore
+    }
+  };
+
+  const updateLog = (fn: (log: ReminderLog) => void) => {
+    const log = readLog();
+    fn(log);
+    writeLog(log);
+  };
+
+  // forget reminders of events that ended over a day ago
+  const pruneLog = (log: ReminderLog) => {
+    const cutoff = now().getTime() - DAY;
+    const keep = (entries: Record<string, string>) =>
+      Object.fromEntries(Object.entries(entries).filter(([, iso]) => Date.parse(iso) > cutoff));
+    return { fired: keep(log.fired), dismissed: keep(log.dismissed), snoozed: keep(log.snoozed) };
+  };
+
+  const setActive = (next: ReminderAlert[]) => {
+    active = next;
+    listeners.forEach((listener) => listener());
+  };
+
+  const fire = (alert: ReminderAlert, silent: boolean) => {
+    if (!active.some((a) => a.key === alert.key)) {
+      setActive([...active, alert].sort((a, b) => a.start.localeCompare(b.start)));
+    }
+    if (silent) return;
+    updateLog((log) => {
+      log.fired[alert.key] = alert.end;
+      delete log.snoozed[alert.key];
+    });
+    notify(alert);
+  };
+
+  const schedule = (alert: ReminderAlert, at: number, silent: boolean) => {
+    const delay = at - now().getTime();
+    if (delay <= 0) fire(alert, silent);
+    else timers.push(setTimeout(() => fire(alert, false), delay));
+  };
+
+  const clearTimers = () => {
+    timers.forEach((timer) => clearTimeout(timer));
+    timers = [];
+  };
+
+  const findAlert = (key: string) => active.find((a) => a.key === key);
+
+  const start = async () => {
+    clearTimers();
+    const run = ++generation;
+    const log = pruneLog(readLog());
+    writeLog(log);
+
+    const from = now();
+    const until = from.getTime() + horizon;
+    const events = await store.getEventsByRange(from, new Date(until + MAX_LEAD));
+    if (run !== generation) return;
+
+    const due: ReminderAlert[] = [];
+    alertsOf(events, reminders).forEach((alert) => {
+      if (log.dismissed[alert.key] || Date.parse(alert.end) < from.getTime()) return;
+      const at = Date.parse(log.snoozed[alert.key] ?? alert.fireAt);
+      if (at > until) return;
+      if (at <= from.getTime()) due.push(alert);
+      schedule(alert, at, !!log.fired[alert.key] && !log.snoozed[alert.key]);
+    });
+    // drop active reminders whose event was deleted or changed
+    const keys = new Set(due.map((a) => a.key));
+    setActive(active.filter((a) => keys.has(a.key)));
+    timers.push(
+      setTimeout(
+        () => start().catch((error) => console.error('Failed to schedule reminders', error)),
+        horizon
+      )
+    );
+  };
+
+  return {
+    start,
+
+    stop: () => {
+      generation++;
+      clearTimers();
+    },
+
+    getActive: () => active,
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+
+    snooze: (key, minutes) => {
+      const alert = findAlert(key);
+      if (!alert) return;
+      const at = now().getTime() + minutes * 60_000;
+      updateLog((log) => {
+        log.snoozed[key] = new Date(at).toISOString();
+      });
+      setActive(active.filter((a) => a.key !== key));
+      schedule(alert, at, false);
+    },
+
+    dismiss: (key) => {
+      const alert = findAlert(key);
+      if (!alert) return;
+      updateLog((log) => {
+        log.dismissed[key] = alert.end;
+        delete log.snoozed[key];
+      });
+      setActive(active.filter((a) => a.key !== key));
+    },
+  };
+};
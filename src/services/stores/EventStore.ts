@@ -0,0 +1,301 @@
+import { endOfMonth, startOfMonth } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+
+import { eventProblems, isEvent } from '@/lib/eventSchema';
+import { expandOccurrences, isRecurring } from '@/lib/recurrence';
+import type { IEvent } from '@/types/Calendar';
+
+/**
+ * Storage-agnostic contract for event persistence.
+ * Every adapter (localStorage, in-memory, REST, ...) implements the same API so the
+ * UI can be pointed at a different backend by handing another instance to CalendarProvider.
+ *
+ * `getEvents` returns events as stored. The date, month and range queries expand recurring
+ * events into their occurrences within the queried window (see `expandOccurrences`).
+ *
+ * Every adapter checks data against the event schema at its boundaries: stored records that
+ * fail it are quarantined (kept in storage, left out of every query, listed by
+ * `getQuarantined`), and writes of invalid events are rejected with a 'validation' error.
+ */
+export interface EventStore {
+  /** Fetch all events. */
+  getEvents: () => Promise<IEvent[]>;
+  /** Fetch events covering a specific UTC day (Date or ISO / YYYY-MM-DD string). */
+  getEventsByDate: (date: string | Date) => Promise<IEvent[]>;
+  /**
+   * Fetch events in a specific month (1-12, "03" or a Date).
+   * A Date selects the events covering that month of that year; a bare month number matches
+   * events starting in it in any year (recurring events are expanded within that month of
+   * the current year).
+   */
+  getEventsByMonth: (month: number | string | Date) => Promise<IEvent[]>;
+  /**
+   * Fetch events overlapping [from, to] (both inclusive), so multi-day events that started
+   * before `from` are included.
+   */
+  getEventsByRange: (from: string | Date, to: string | Date) => Promise<IEvent[]>;
+  /** Add a new event; the store assigns the id. */
+  addEvent: (event: Omit<IEvent, 'id'>) => Promise<IEvent>;
+  /** Replace an existing event (matched by id). */
+  changeEvent: (event: IEvent) => Promise<IEvent>;
+  /** Delete an event by id. */
+  deleteEvent: (id: number | string) => Promise<void>;
+  /** Add multiple events in a single call; the store assigns the ids. */
+  addEventsBulk: (events: Omit<IEvent, 'id'>[]) => Promise<IEvent[]>;
+  /** Stored records that fail validation (see `screenEvents`). */
+  getQuarantined: () => Promise<QuarantinedRecord[]>;
+  /** Delete a quarantined record from storage, by its `key`. */
+  discardQuarantined: (key: string) => Promise<void>;
+}
+
+/** A stored record that is not a valid event, with what is wrong with it. */
+export type QuarantinedRecord = {
+  // stable handle for `discardQuarantined` (derived from the id, or the record itself)
+  key: string;
+  // the record's id, when it has a usable one
+  id?: number | string;
+  record: unknown;
+  problems: string[];
+};
+
+/* -------------------------
+   Errors
+   ------------------------- */
+
+/** Failure categories an adapter maps its backend errors onto. */
+export type EventStoreErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not-found'
+  | 'conflict'
+  | 'validation'
+  | 'server'
+  | 'unknown';
+
+/**
+ * Error thrown by stores when a call fails, so callers can react to the kind of failure
+ * without knowing which backend produced it.
+ */
+export class EventStoreError extends Error {
+  readonly kind: EventStoreErrorKind;
+  /** HTTP status (or equivalent), when the backend returned one. */
+  readonly status?: number;
+
+  constructor(
+    kind: EventStoreErrorKind,
+    message: string,
+    options?: { status?: number; cause?: unknown }
+  ) {
+    super(message, { cause: options?.cause });
+    this.name = 'EventStoreError';
+    this.kind = kind;
+    this.status = options?.status;
+  }
+}
+
+/* -------------------------
+   Validation
+   ------------------------- */
+
+const hasId = (record: unknown): record is { id: number | string } => {
+  const id = (record as { id?: unknown } | null)?.id;
+  return typeof id === 'number' || (typeof id === 'string' && id !== '');
+};
+
+/** Handle a stored record is quarantined under. */
+export const quarantineKeyOf = (record: unknown) =>
+  hasId(record) ? `id:${record.id}` : `record:${JSON.stringify(record)}`;
+
+/**
+ * Split raw stored records into valid events and quarantined ones.
+ * Adapters run every read through this before querying, so a malformed record can never
+ * reach the views (or the recurrence expansion) and is never silently dropped.
+ */
+export const screenEvents = (
+  records: unknown[]
+): { events: IEvent[]; quarantined: QuarantinedRecord[] } => {
+  const events: IEvent[] = [];
+  const quarantined: QuarantinedRecord[] = [];
+  records.forEach((record) => {
+    const problems = eventProblems(record);
+    if (problems.length === 0) events.push(record as IEvent);
+    else {
+      quarantined.push({
+        key: quarantineKeyOf(record),
+        id: hasId(record) ? record.id : undefined,
+        record,
+        problems,
+      });
+    }
+  });
+  return { events, quarantined };
+};
+
+/**
+ * Reject invalid events before they are written. Events to be added get their id from the
+ * store, so they are checked without one.
+ */
+export const assertValidEvents = (events: unknown[], { withId }: { withId: boolean }) => {
+  const problems = events.flatMap((event, i) => {
+    const found = eventProblems(withId ? event : { ...(event as object), id: 'new' });
+    const label = events.length > 1 ? `event ${i + 1}: ` : '';
+    return found.length > 0 ? [`${label}${found.join(', ')}`] : [];
+  });
+  if (problems.length > 0) {
+    throw new EventStoreError('validation', `Invalid event (${problems.join('; ')})`);
+  }
+};
+
+/* -------------------------
+   Shared query helpers
+   ------------------------- */
+
+/**
+ * Normalize a Date or date string to its YYYY-MM-DD prefix.
+ */
+export const toDateKey = (date: string | Date): string =>
+  date instanceof Date ? date.toISOString().split('T')[0] : String(date).split('T')[0];
+
+/**
+ * Normalize a month argument to a 1-12 month number.
+ * Accepts a month number, a string ("3" or "03") or a Date.
+ */
+export const toMonthNumber = (month: number | string | Date): number => {
+  if (month instanceof Date) return month.getMonth() + 1;
+  if (typeof month === 'number') return month;
+  return parseInt(String(month), 10);
+};
+
+/** Ids may round-trip through the UI as strings, so compare them loosely. */
+export const isSameId = (a: number | string, b: number | string) => String(a) === String(b);
+
+/** Length of an event in ms; 0 when the end is missing or not after the start. */
+const durationOf = (event: IEvent) => {
+  const ms = new Date(event.end).getTime() - new Date(event.start).getTime();
+  return Number.isFinite(ms) && ms > 0 ? ms : 0;
+};
+
+/**
+ * True when the event covers any part of [from, to]. The end is exclusive, so an event
+ * ending at midnight does not reach into the next day.
+ */
+export const overlapsRange = (event: IEvent, from: Date, to: Date) => {
+  const start = new Date(event.start).getTime();
+  const end = start + durationOf(event);
+  return start <= to.getTime() && (end > from.getTime() || start >= from.getTime());
+};
+
+/**
+ * Events and occurrences overlapping [from, to], including ones that started earlier and
+ * are still running. Occurrences are expanded from `from` minus the event's length.
+ */
+export const filterByRange = (events: IEvent[], from: string | Date, to: string | Date) => {
+  const start = new Date(from);
+  const end = new Date(to);
+  return events.flatMap((e) =>
+    expandOccurrences(e, new Date(start.getTime() - durationOf(e)), end).filter((o) =>
+      overlapsRange(o, start, end)
+    )
+  );
+};
+
+export const filterByDate = (events: IEvent[], date: string | Date) => {
+  const targetDate = toDateKey(date);
+  return filterByRange(events, `${targetDate}T00:00:00.000Z`, `${targetDate}T23:59:59.999Z`);
+};
+
+export const filterByMonth = (events: IEvent[], month: number | string | Date) => {
+  if (month instanceof Date) return filterByRange(events, startOfMonth(month), endOfMonth(month));
+
+  const m = toMonthNumber(month);
+  const monthDate = new Date(new Date().getFullYear(), m - 1, 1);
+  return events.flatMap((e) => {
+    if (isRecurring(e)) {
+      return expandOccurrences(e, startOfMonth(monthDate), endOfMonth(monthDate));
+    }
+    return new Date(e.start).getMonth() + 1 === m ? [e] : [];
+  });
+};
+
+/* -------------------------
+   List-backed store factory
+   ------------------------- */
+
+export type ListEventStoreOptions = {
+  /** Read the full list of stored records (validated by the store) from the underlying medium. */
+  load: () => unknown[];
+  /** Write the full list of records back to the underlying medium. */
+  save: (records: unknown[]) => void;
+  /** Artificial latency in milliseconds applied to every call (0 disables it). */
+  latency?: number;
+};
+
+/**
+ * Build an EventStore on top of a synchronous load/save pair.
+ * Both the localStorage and in-memory adapters are thin wrappers around this.
+ * Quarantined records are written back untouched on every save.
+ */
+export const createListEventStore = ({
+  load,
+  save,
+  latency = 0,
+}: ListEventStoreOptions): EventStore => {
+  const respond = <T>(value: T): Promise<T> =>
+    latency > 0
+      ? new Promise((resolve) => setTimeout(() => resolve(value), latency))
+      : Promise.resolve(value);
+
+  const loadEvents = () => screenEvents(load()).events;
+  const isRecordOf = (id: number | string) => (record: unknown) =>
+    hasId(record) && isSameId(record.id, id);
+
+  return {
+    getEvents: async () => respond(loadEvents()),
+
+    getEventsByDate: async (date) => respond(filterByDate(loadEvents(), date)),
+
+    getEventsByMonth: async (month) => respond(filterByMonth(loadEvents(), month)),
+
+    getEventsByRange: async (from, to) => respond(filterByRange(loadEvents(), from, to)),
+
+    addEvent: async (event) => {
+      assertValidEvents([event], { withId: false });
+      const newEvent = { ...event, id: uuidv4() } as IEvent;
+      save([...load(), newEvent]);
+      return respond(newEvent);
+    },
+
+    changeEvent: async (event) => {
+      assertValidEvents([event], { withId: true });
+      const records = load();
+      const index = records.findIndex(isRecordOf(event.id));
+      if (index !== -1) {
+        records[index] = event;
+        save(records);
+      }
+      return respond(event);
+    },
+
+    deleteEvent: async (id) => {
+      const isTarget = isRecordOf(id);
+      save(load().filter((record) => !isTarget(record)));
+      return respond(undefined);
+    },
+
+    addEventsBulk: async (events) => {
+      assertValidEvents(events, { withId: false });
+      const newEvents = events.map((e) => ({ ...e, id: uuidv4() }) as IEvent);
+      save([...load(), ...newEvents]);
+      return respond(newEvents);
+    },
+
+    getQuarantined: async () => respond(screenEvents(load()).quarantined),
+
+    discardQuarantined: async (key) => {
+      save(load().filter((record) => quarantineKeyOf(record) !== key || isEvent(record)));
+      return respond(undefined);
+    },
+  };
+};
@@ -0,0 +1,245 @@
+import { IDBFactory } from 'fake-indexeddb';
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { IEvent } from '@/types/Calendar';
+import { createIndexedDbEventStore } from './indexedDbEventStore';
+
+const STORAGE_KEY = 'test-events';
+
+const baseEvents: IEvent[] = [
+  {
+    id: 1,
+    title: 'Standup',
+    start: '2024-03-04T09:00:00.000Z',
+    end: '2024-03-04T09:15:00.000Z',
+  },
+  {
+    id: 2,
+    title: 'Review',
+    start: '2024-03-05T14:00:00.000Z',
+    end: '2024-03-05T15:00:00.000Z',
+  },
+  {
+    id: 3,
+    title: 'Planning',
+    start: '2024-04-01T10:00:00.000Z',
+    end: '2024-04-01T11:00:00.000Z',
+  },
+];
+
+describe('createIndexedDbEventStore', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('answers date, month and range queries from the start index', async () => {
+    const store = createIndexedDbEventStore({
+      factory: new IDBFactory(),
+      migrateFromStorageKey: null,
+      seed: baseEvents,
+    });
+
+    expect((await store.getEventsByDate('2024-03-04')).map((e) => e.id)).toEqual([1]);
+    expect((await store.getEventsByMonth(3)).map((e) => e.id)).toEqual([1, 2]);
+    expect((await store.getEventsByMonth(new Date(2024, 3, 15))).map((e) => e.id)).toEqual([3]);
+    expect(
+      (await store.getEventsByRange('2024-03-05T00:00:00.000Z', '2024-04-30T00:00:00.000Z')).map(
+        (e) => e.id
+      )
+    ).toEqual([2, 3]);
+    expect(await store.getEventsByRange('2024-05-01', '2024-04-01')).toEqual([]);
+  });
+
+  it('returns events without the index fields', async () => {
+    const store = createIndexedDbEventStore({
+      factory: new IDBFactory(),
+      migrateFromStorageKey: null,
+      seed: baseEvents,
+    });
+
+    expect(await store.getEvents()).toEqual(baseEvents);
+  });
+
+  it('migrates the localStorage blob on first open and removes it', async () => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([baseEvents[2]]));
+    const factory = new IDBFactory();
+
+    const store = createIndexedDbEventStore({
+      factory,
+      migrateFromStorageKey: STORAGE_KEY,
+      seed: baseEvents,
+    });
+
+    expect((await store.getEvents()).map((e) => e.id)).toEqual([3]);
+    expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+
+    // a second store on the same database keeps the migrated data
+    const reopened = createIndexedDbEventStore({ factory, migrateFromStorageKey: STORAGE_KEY });
+    expect((await reopened.getEvents()).map((e) => e.id)).toEqual([3]);
+  });
+
+  it('matches ids regardless of number/string form', async () => {
+    const store = createIndexedDbEventStore({
+      factory: new IDBFactory(),
+      migrateFromStorageKey: null,
+      seed: baseEvents,
+    });
+
+    await store.changeEvent({ ...baseEvents[0], id: '1', title: 'Renamed' });
+    await store.deleteEvent('2');
+    const created = await store.addEvent({
+      title: 'New',
+      start: baseEvents[2].start,
+      end: baseEvents[2].end,
+    });
+    await store.deleteEvent(created.id);
+
+    const events = await store.getEvents();
+    expect(events.map((e) => [e.id, e.title])).toEqual([
+      [1, 'Renamed'],
+      [3, 'Planning'],
+    ]);
+  });
+
+  it('expands recurring events that started before the queried range', async () => {
+    const store = createIndexedDbEventStore({
+      factory: new IDBFactory(),
+      migrateFromStorageKey: null,
+      seed: [
+        ...baseEvents,
+        {
+          id: 4,
+          title: 'Weekly sync',
+          start: '2024-01-01T08:00:00.000Z',
+          end: '2024-01-01T08:30:00.000Z',
+          recurrence: { freq: 'weekly', until: '2024-12-31T00:00:00.000Z' },
+        },
+      ],
+    });
+
+    const events = await store.getEventsByRange(
+      '2024-03-04T00:00:00.000Z',
+      '2024-03-17T23:59:59.999Z'
+    );
+
+    expect(events.map((e) => e.title)).toEqual(['Standup', 'Review', 'Weekly sync', 'Weekly sync']);
+    expect(events.filter((e) => e.occurrenceOf).every((e) => e.occurrenceOf?.id === 4)).toBe(true);
+  });
+
+  it('includes multi-day events that started before the queried range', async () => {
+    const store = createIndexedDbEventStore({
+      factory: new IDBFactory(),
+      migrateFromStorageKey: null,
+      seed: [
+        ...baseEvents,
+        {
+          id: 4,
+          title: 'Conference',
+          start: '2024-03-01T09:00:00.000Z',
+          end: '2024-03-06T17:00:00.000Z',
+        },
+      ],
+    });
+
+    const events = await store.getEventsByRange(
+      '2024-03-05T00:00:00.000Z',
+      '2024-03-05T23:59:59.999Z'
+    );
+
+    expect(events.map((e) => e.title)).toEqual(['Conference', 'Review']);
+    expect(await store.getEventsByRange('2024-03-06T17:00:00.000Z', '2024-03-07')).toEqual([]);
+  });
+
+  it('does not read events far after the queried range', async () => {
+    const store = createIndexedDbEventStore({
+      factory: new IDBFactory(),
+      migrateFromStorageKey: null,
+      seed: [
+        ...baseEvents,
+        {
+          id: 4,
+          title: 'Next year',
+          start: '2025-06-01T09:00:00.000Z',
+          end: '2025-06-01T10:00:00.000Z',
+        },
+      ],
+    });
+    await store.getEvents(); // open the database before watching reads
+
+    const read: unknown[] = [];
+    const getAll = IDBIndex.prototype.getAll;
+    vi.spyOn(IDBIndex.prototype, 'getAll').mockImplementation(function (this: IDBIndex, ...args) {
+      const request = getAll.apply(this, args);
+      request.addEventListener('success', () => read.push(...request.result));
+      return request;
+    });
+
+    const events = await store.getEventsByRange(
+      '2024-03-05T00:00:00.000Z',
+      '2024-03-05T23:59:59.999Z'
+    );
+
+    expect(events.map((e) => e.id)).toEqual([2]);
+    const readIds = read.map((r) => (r as IEvent).id);
+    expect(readIds).toContain(2);
+    expect(readIds).not.toContain(4);
+  });
+
+  it('keeps legacy records that are not events out of the events store', async () => {
+    localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify([baseEvents[0], { title: 'No id', start: 'soon' }])
+    );
+    const factory = new IDBFactory();
+    const store = createIndexedDbEventStore({ factory, migrateFromStorageKey: STORAGE_KEY });
+
+    expect((await store.getEvents()).map((e) => e.id)).toEqual([1]);
+    const [quarantined] = await store.getQuarantined();
+    expect(quarantined.record).toEqual({ title: 'No id', start: 'soon' });
+
+    await store.discardQuarantined(quarantined.key);
+    expect(await store.getQuarantined()).toEqual([]);
+    expect((await store.getEvents()).map((e) => e.id)).toEqual([1]);
+  });
+
+  it('upgrades a version 2 database', async () => {
+    const factory = new IDBFactory();
+    await new Promise<void>((resolve, reject) => {
+      const request = factory.open('at-calendar', 2);
+      request.onupgradeneeded = () => {
+        const events = request.result.createObjectStore('events', { keyPath: 'id' });
+        ['startMs', 'endMs', 'seriesEndMs'].forEach((name) => events.createIndex(name, name));
+        const conference = {
+          id: 4,
+          title: 'Conference',
+          start: '2024-03-01T09:00:00.000Z',
+          end: '2024-03-06T17:00:00.000Z',
+        };
+        events.put({
+          ...conference,
+          startMs: Date.parse(conference.start),
+          endMs: Date.parse(conference.end),
+        });
+      };
+      request.onsuccess = () => {
+        request.result.close();
+        resolve();
+      };
+      request.onerror = () => reject(request.error);
+    });
+
+    const store = createIndexedDbEventStore({ factory, migrateFromStorageKey: null });
+
+    expect(
+      (await store.getEventsByRange('2024-03-05T00:00:00.000Z', '2024-03-05T23:59:59.999Z')).map(
+        (e) => e.title
+      )
+    ).toEqual(['Conference']);
+    expect(await store.getQuarantined()).toEqual([]);
+  });
+});
@@ -0,0 +1,372 @@
+import { endOfMonth, startOfMonth } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+
+import { isRecurring } from '@/lib/recurrence';
+import type { IEvent } from '@/types/Calendar';
+import { migrateData } from '../backup';
+import {
+  assertValidEvents,
+  filterByMonth,
+  filterByRange,
+  screenEvents,
+  toDateKey,
+  type EventStore,
+  type QuarantinedRecord,
+} from './EventStore';
+import { DEFAULT_STORAGE_KEY } from './localStorageEventStore';
+
+export type IndexedDbEventStoreOptions = {
+  /** IndexedDB database name. */
+  dbName?: string;
+  /** localStorage key whose JSON array is imported the first time the database is created. */
+  migrateFromStorageKey?: string | null;
+  /** Events written when the database is created and there is nothing to migrate. */
+  seed?: IEvent[];
+  /** IDBFactory to use; defaults to the global `indexedDB`. */
+  factory?: IDBFactory;
+};
+
+const DB_VERSION = 3;
+const EVENTS_STORE = 'events';
+// legacy records that could not be migrated into EVENTS_STORE, by quarantine key
+const QUARANTINE_STORE = 'quarantine';
+const START_INDEX = 'startMs';
+// v1 and v2 scanned running events on an end index; v3 drops it for DURATION_INDEX
+const END_INDEX = 'endMs';
+const SERIES_END_INDEX = 'seriesEndMs';
+const DURATION_INDEX = 'durationMs';
+
+// open-ended series (no UNTIL) sort after every real timestamp
+const OPEN_ENDED = Number.MAX_SAFE_INTEGER;
+
+/**
+ * Stored record shape: the event plus numeric timestamps used by the indexes.
+ * ISO strings only sort correctly when they share an offset, so the indexes use epoch ms.
+ * Only recurring events carry `seriesEndMs`, so the series index holds just those; only
+ * plain events carry `durationMs`, whose largest value bounds the scan for running events.
+ */
+type EventRecord = IEvent & {
+  startMs: number;
+  endMs: number;
+  seriesEndMs?: number;
+  durationMs?: number;
+};
+
+const toTime = (iso: string) => {
+  const t = new Date(iso).getTime();
+  return Number.isFinite(t) ? t : 0;
+};
+
+const toRecord = (event: IEvent): EventRecord => {
+  const record: EventRecord = { ...event, startMs: toTime(event.start), endMs: toTime(event.end) };
+  if (isRecurring(event)) {
+    record.seriesEndMs = event.recurrence?.until ? toTime(event.recurrence.until) : OPEN_ENDED;
+  } else {
+    record.durationMs = Math.max(0, record.endMs - record.startMs);
+  }
+  return record;
+};
+
+const fromRecord = ({ startMs, endMs, seriesEndMs, durationMs, ...event }: EventRecord): IEvent => {
+  void startMs;
+  void endMs;
+  void seriesEndMs;
+  void durationMs;
+  return event;
+};
+
+/** Valid events among read records; the rest are quarantined (see `getQuarantined`). */
+const toEvents = (records: EventRecord[]) => screenEvents(records.map(fromRecord)).events;
+
+/** Inclusive key range over epoch ms; null when the bounds are invalid or inverted. */
+const timeRange = (from: number, to: number) =>
+  Number.isFinite(from) && Number.isFinite(to) && from <= to ? IDBKeyRange.bound(from, to) : null;
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+/**
+ * Read the legacy localStorage blob (any schema version, see `migrateData`).
+ * Returns null when there is nothing usable to migrate.
+ */
+const readLegacyEvents = (storageKey: string): IEvent[] | null => {
+  try {
+    const stored = localStorage.getItem(storageKey);
+    if (!stored) return null;
+    return migrateData(JSON.parse(stored)).events;
+  } catch (error) {
+    console.error('Failed to read events for migration from localStorage', error);
+    return null;
+  }
+};
+
+/**
+ * EventStore backed by IndexedDB.
+ * - Events are indexed by start time and by duration, so date/month/range queries are index
+ *   scans: the longest duration bounds how far before a range an event still running in it
+ *   can start.
+ * - On first creation the database imports the legacy localStorage blob (then removes it),
+ *   or falls back to `seed` when there is nothing to migrate. Legacy records that are not
+ *   valid events are kept in a quarantine store rather than written as events.
+ */
+export const createIndexedDbEventStore = ({
+  dbName = 'at-calendar',
+  migrateFromStorageKey = DEFAULT_STORAGE_KEY,
+  seed = [],
+  factory,
+}: IndexedDbEventStoreOptions = {}): EventStore => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDb = () => {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = (factory ?? indexedDB).open(dbName, DB_VERSION);
+      let migrated = false;
+
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+
+        if (event.oldVersion < 1) {
+          const store = db.createObjectStore(EVENTS_STORE, { keyPath: 'id' });
+          store.createIndex(START_INDEX, START_INDEX);
+          store.createIndex(SERIES_END_INDEX, SERIES_END_INDEX);
+          store.createIndex(DURATION_INDEX, DURATION_INDEX);
+          const quarantine = db.createObjectStore(QUARANTINE_STORE);
+
+          const legacy = migrateFromStorageKey ? readLegacyEvents(migrateFromStorageKey) : null;
+          migrated = legacy !== null;
+          // one unusable record would abort the upgrade (and every later open), so only
+          // valid events are put; the rest stay readable through `getQuarantined`
+          const { events, quarantined } = screenEvents(legacy ?? seed);
+          events.forEach((e) => store.put(toRecord(e)));
+          quarantined.forEach((q) => quarantine.put(q, q.key));
+          return;
+        }
+
+        const store = request.transaction!.objectStore(EVENTS_STORE);
+        if (event.oldVersion < 2) {
+          // v1 predates recurrence, so no existing record needs a series entry
+          store.createIndex(SERIES_END_INDEX, SERIES_END_INDEX);
+        }
+        if (event.oldVersion < 3) {
+          db.createObjectStore(QUARANTINE_STORE);
+          store.createIndex(DURATION_INDEX, DURATION_INDEX);
+          store.deleteIndex(END_INDEX);
+          store.openCursor().onsuccess = (e) => {
+            const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+            if (!cursor) return;
+            cursor.update(toRecord(fromRecord(cursor.value as EventRecord)));
+            cursor.continue();
+          };
+        }
+      };
+
+      request.onsuccess = () => {
+        // the upgrade transaction has committed by the time success fires
+        if (migrated && migrateFromStorageKey) {
+          localStorage.removeItem(migrateFromStorageKey);
+        }
+        resolve(request.result);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+
+    return dbPromise;
+  };
+
+  /** Collect the records whose start falls in `range` (all when omitted), in start order. */
+  const scanByStart = async (range?: IDBKeyRange | null) => {
+    if (range === null) return [];
+    const db = await openDb();
+    const tx = db.transaction(EVENTS_STORE, 'readonly');
+    const index = tx.objectStore(EVENTS_STORE).index(START_INDEX);
+    const records = await requestToPromise(index.getAll(range) as IDBRequest<EventRecord[]>);
+    return toEvents(records);
+  };
+
+  /** Recurring events whose series has not ended before `fromMs`. */
+  const scanSeries = async (fromMs: number) => {
+    const db = await openDb();
+    const tx = db.transaction(EVENTS_STORE, 'readonly');
+    const index = tx.objectStore(EVENTS_STORE).index(SERIES_END_INDEX);
+    const records = await requestToPromise(
+      index.getAll(IDBKeyRange.lowerBound(fromMs)) as IDBRequest<EventRecord[]>
+    );
+    return toEvents(records);
+  };
+
+  /**
+   * Plain events that started before `fromMs` and end after it (still running at `fromMs`).
+   * None can have started longer ago than the longest stored duration, so only that stretch
+   * of the start index is read.
+   */
+  const scanRunning = async (fromMs: number) => {
+    const db = await openDb();
+    const tx = db.transaction(EVENTS_STORE, 'readonly');
+    const events = tx.objectStore(EVENTS_STORE);
+    const longest = await requestToPromise(events.index(DURATION_INDEX).openCursor(null, 'prev'));
+    const maxDuration = (longest?.value as EventRecord | undefined)?.durationMs ?? 0;
+    if (maxDuration === 0) return [];
+    const records = await requestToPromise(
+      events
+        .index(START_INDEX)
+        .getAll(IDBKeyRange.bound(fromMs - maxDuration, fromMs, false, true)) as IDBRequest<
+        EventRecord[]
+      >
+    );
+    return toEvents(records.filter((r) => r.endMs > fromMs));
+  };
+
+  /**
+   * Events and occurrences overlapping [fromMs, toMs]: plain events come from the start index
+   * (for ones already running, over the longest duration from the duration index before
+   * `fromMs`), recurring ones from the series index and are then expanded.
+   */
+  const queryRange = async (fromMs: number, toMs: number) => {
+    const range = timeRange(fromMs, toMs);
+    if (!range) return [];
+    const [single, running, series] = await Promise.all([
+      scanByStart(range),
+      scanRunning(fromMs),
+      scanSeries(fromMs),
+    ]);
+    return filterByRange(
+      [...running, ...single].filter((e) => !isRecurring(e)).concat(series),
+      new Date(fromMs),
+      new Date(toMs)
+    );
+  };
+
+  const writeAll = async (events: IEvent[]) => {
+    const db = await openDb();
+    const tx = db.transaction(EVENTS_STORE, 'readwrite');
+    const store = tx.objectStore(EVENTS_STORE);
+    events.forEach((event) => store.put(toRecord(event)));
+    await transactionDone(tx);
+  };
+
+  /** Stored records that fail validation, apart from the legacy ones never migrated. */
+  const scanInvalidRecords = async () => {
+    const db = await openDb();
+    const tx = db.transaction(EVENTS_STORE, 'readonly');
+    const records = await requestToPromise(
+      tx.objectStore(EVENTS_STORE).getAll() as IDBRequest<EventRecord[]>
+    );
+    return screenEvents(records.map(fromRecord)).quarantined;
+  };
+
+  const scanLegacyQuarantine = async () => {
+    const db = await openDb();
+    const tx = db.transaction(QUARANTINE_STORE, 'readonly');
+    return requestToPromise(
+      tx.objectStore(QUARANTINE_STORE).getAll() as IDBRequest<QuarantinedRecord[]>
+    );
+  };
+
+  /**
+   * Records keep the id type they were created with (mock data uses numbers, new events
+   * uuids), but the UI hands ids back as strings. Resolve the stored key before writing.
+   */
+  const resolveKey = async (id: number | string): Promise<IDBValidKey | null> => {
+    const db = await openDb();
+    const store = db.transaction(EVENTS_STORE, 'readonly').objectStore(EVENTS_STORE);
+    const candidates: IDBValidKey[] = [id];
+    const numeric = Number(id);
+    if (typeof id === 'string' && id.trim() !== '' && Number.isFinite(numeric)) {
+      candidates.push(numeric);
+    } else if (typeof id === 'number') {
+      candidates.push(String(id));
+    }
+    for (const key of candidates) {
+      const count = await requestToPromise(store.count(key));
+      if (count > 0) return key;
+    }
+    return null;
+  };
+
+  return {
+    getEvents: async () => scanByStart(),
+
+    getEventsByDate: async (date) => {
+      // keep the list stores' semantics: the UTC calendar day of the given date
+      const day = toDateKey(date);
+      return queryRange(
+        new Date(`${day}T00:00:00.000Z`).getTime(),
+        new Date(`${day}T23:59:59.999Z`).getTime()
+      );
+    },
+
+    getEventsByMonth: async (month) => {
+      if (month instanceof Date) {
+        return queryRange(startOfMonth(month).getTime(), endOfMonth(month).getTime());
+      }
+
+      // a bare month number spans every year, so walk the start index and filter
+      return filterByMonth(await scanByStart(), month);
+    },
+
+    getEventsByRange: async (from, to) =>
+      queryRange(new Date(from).getTime(), new Date(to).getTime()),
+
+    addEvent: async (event) => {
+      assertValidEvents([event], { withId: false });
+      const newEvent = { ...event, id: uuidv4() } as IEvent;
+      await writeAll([newEvent]);
+      return newEvent;
+    },
+
+    changeEvent: async (event) => {
+      assertValidEvents([event], { withId: true });
+      const key = await resolveKey(event.id);
+      if (key !== null) {
+        await writeAll([{ ...event, id: key as IEvent['id'] }]);
+      }
+      return event;
+    },
+
+    deleteEvent: async (id) => {
+      const key = await resolveKey(id);
+      if (key === null) return;
+      const db = await openDb();
+      const tx = db.transaction(EVENTS_STORE, 'readwrite');
+      tx.objectStore(EVENTS_STORE).delete(key);
+      await transactionDone(tx);
+    },
+
+    addEventsBulk: async (events) => {
+      assertValidEvents(events, { withId: false });
+      const newEvents = events.map((e) => ({ ...e, id: uuidv4() }) as IEvent);
+      await writeAll(newEvents);
+      return newEvents;
+    },
+
+    getQuarantined: async () => [
+      ...(await scanInvalidRecords()),
+      ...(await scanLegacyQuarantine()),
+    ],
+
+    discardQuarantined: async (key) => {
+      const target = (await scanInvalidRecords()).find((q) => q.key === key);
+      const db = await openDb();
+      const tx = db.transaction([EVENTS_STORE, QUARANTINE_STORE], 'readwrite');
+      tx.objectStore(QUARANTINE_STORE).delete(key);
+      // the events store's keyPath guarantees every record there has a usable key
+      if (target) tx.objectStore(EVENTS_STORE).delete((target.record as { id: IDBValidKey }).id);
+      await transactionDone(tx);
+    },
+  };
+};
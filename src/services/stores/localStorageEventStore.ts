@@ -0,0 +1,69 @@
+import type { IEvent } from '@/types/Calendar';
+import { migrateData, SCHEMA_VERSION } from '../backup';
+import { createListEventStore, EventStoreError, type EventStore } from './EventStore';
+
+export type LocalStorageEventStoreOptions = {
+  /** localStorage key holding the versioned JSON envelope of events. */
+  storageKey?: string;
+  /** Events written to storage the first time the key is empty. */
+  seed?: IEvent[];
+  /** Artificial latency in milliseconds (simulates a network round-trip). */
+  latency?: number;
+};
+
+export const DEFAULT_STORAGE_KEY = 'at-calendar-events';
+
+/**
+ * EventStore persisting the whole event list as a JSON blob in localStorage.
+ * The blob is a `{schemaVersion, events}` envelope; older data (including the original
+ * bare array) is migrated on load and written back in the current format. Data that cannot
+ * be read is left untouched: every call fails with an EventStoreError until it can be read
+ * again, so nothing mistakes it for an empty calendar or writes over it.
+ */
+export const createLocalStorageEventStore = ({
+  storageKey = DEFAULT_STORAGE_KEY,
+  seed = [],
+  latency = 200,
+}: LocalStorageEventStoreOptions = {}): EventStore => {
+  // records may include quarantined ones, which are written back as they were
+  const write = (records: unknown[]) => {
+    localStorage.setItem(
+      storageKey,
+      JSON.stringify({ schemaVersion: SCHEMA_VERSION, events: records })
+    );
+  };
+
+  const load = (): unknown[] => {
+    const stored = localStorage.getItem(storageKey);
+    if (!stored) {
+      // Initialize with seed data if empty
+      write(seed);
+      return [...seed];
+    }
+
+    let data: ReturnType<typeof migrateData>;
+    let migrated: boolean;
+    try {
+      const raw = JSON.parse(stored);
+      data = migrateData(raw);
+      migrated = Array.isArray(raw) || raw.schemaVersion !== data.schemaVersion;
+    } catch (error) {
+      console.error('Failed to read events from localStorage', error);
+      throw new EventStoreError('conflict', 'The stored events could not be read', {
+        cause: error,
+      });
+    }
+    if (migrated) save(data.events);
+    return data.events;
+  };
+
+  const save = (records: unknown[]) => {
+    try {
+      write(records);
+    } catch (error) {
+      console.error('Failed to save events to localStorage', error);
+    }
+  };
+
+  return createListEventStore({ load, save, latency });
+};
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+
+import type { IEvent } from '@/types/Calendar';
+import { createMemoryEventStore } from './memoryEventStore';
+
+const baseEvents: IEvent[] = [
+  {
+    id: 1,
+    title: 'Standup',
+    start: '2024-03-04T09:00:00.000Z',
+    end: '2024-03-04T09:15:00.000Z',
+  },
+  {
+    id: 2,
+    title: 'Review',
+    start: '2024-03-05T14:00:00.000Z',
+    end: '2024-03-05T15:00:00.000Z',
+  },
+  {
+    id: 3,
+    title: 'Planning',
+    start: '2024-04-01T10:00:00.000Z',
+    end: '2024-04-01T11:00:00.000Z',
+  },
+];
+
+describe('createMemoryEventStore', () => {
+  it('answers date, month and range queries', async () => {
+    const store = createMemoryEventStore({ initialEvents: baseEvents });
+
+    expect((await store.getEventsByDate('2024-03-04')).map((e) => e.id)).toEqual([1]);
+    expect((await store.getEventsByMonth(3)).map((e) => e.id)).toEqual([1, 2]);
+    expect(
+      (await store.getEventsByRange('2024-03-05T00:00:00.000Z', '2024-04-30T00:00:00.000Z')).map(
+        (e) => e.id
+      )
+    ).toEqual([2, 3]);
+  });
+
+  it('includes events still running at the start of a range', async () => {
+    const store = createMemoryEventStore({
+      initialEvents: [
+        ...baseEvents,
+        {
+          id: 4,
+          title: 'Night shift',
+          start: '2024-03-04T22:00:00.000Z',
+          end: '2024-03-05T06:00:00.000Z',
+        },
+      ],
+    });
+
+    expect((await store.getEventsByDate('2024-03-05')).map((e) => e.id)).toEqual([2, 4]);
+    // ending exactly at the start of the range does not count
+    expect(
+      (await store.getEventsByRange('2024-03-05T06:00:00.000Z', '2024-03-05T23:59:59.999Z')).map(
+        (e) => e.id
+      )
+    ).toEqual([2]);
+  });
+
+  it('assigns ids when adding events', async () => {
+    const store = createMemoryEventStore();
+
+    const created = await store.addEvent({
+      title: 'New',
+      start: baseEvents[0].start,
+      end: baseEvents[0].end,
+    });
+    const bulk = await store.addEventsBulk([
+      { title: 'A', start: baseEvents[1].start, end: baseEvents[1].end },
+      { title: 'B', start: baseEvents[2].start, end: baseEvents[2].end },
+    ]);
+
+    expect(created.id).toBeTruthy();
+    expect(new Set(bulk.map((e) => e.id)).size).toBe(2);
+    expect(await store.getEvents()).toHaveLength(3);
+  });
+
+  it('matches ids regardless of number/string form', async () => {
+    const store = createMemoryEventStore({ initialEvents: baseEvents });
+
+    await store.changeEvent({ ...baseEvents[0], id: '1', title: 'Renamed' });
+    await store.deleteEvent('2');
+
+    const events = await store.getEvents();
+    expect(events.map((e) => e.title)).toEqual(['Renamed', 'Planning']);
+  });
+
+  it('does not leak mutations of returned events', async () => {
+    const store = createMemoryEventStore({ initialEvents: baseEvents });
+
+    const [first] = await store.getEvents();
+    first.title = 'Mutated';
+
+    expect((await store.getEvents())[0].title).toBe('Standup');
+  });
+
+  it('quarantines invalid stored records instead of dropping them', async () => {
+    const broken = { id: 9, title: 'Broken', start: 'not a date', end: baseEvents[0].end };
+    const store = createMemoryEventStore({
+      initialEvents: [...baseEvents, broken as unknown as IEvent],
+    });
+
+    expect((await store.getEvents()).map((e) => e.id)).toEqual([1, 2, 3]);
+    expect(await store.getQuarantined()).toEqual([
+      { key: 'id:9', id: 9, record: broken, problems: ['invalid start'] },
+    ]);
+
+    // writes keep quarantined records; discarding removes them
+    await store.deleteEvent(1);
+    expect(await store.getQuarantined()).toHaveLength(1);
+    await store.discardQuarantined('id:9');
+    expect(await store.getQuarantined()).toEqual([]);
+    expect(await store.getEvents()).toHaveLength(2);
+  });
+
+  it('rejects invalid events on write', async () => {
+    const store = createMemoryEventStore({ initialEvents: baseEvents });
+
+    await expect(
+      store.addEvent({ title: 'Bad', start: baseEvents[0].start, end: 'later' })
+    ).rejects.toMatchObject({ kind: 'validation' });
+    await expect(
+      store.changeEvent({ ...baseEvents[0], timeZone: 'Nowhere/Special' })
+    ).rejects.toMatchObject({ kind: 'validation' });
+    expect(await store.getEvents()).toEqual(baseEvents);
+  });
+});
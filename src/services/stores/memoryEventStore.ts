@@ -0,0 +1,30 @@
+import type { IEvent } from '@/types/Calendar';
+import { createListEventStore, type EventStore } from './EventStore';
+
+export type MemoryEventStoreOptions = {
+  /** Events the store starts with. */
+  initialEvents?: IEvent[];
+  /** Artificial latency in milliseconds (0 resolves immediately). */
+  latency?: number;
+};
+
+/**
+ * Non-persistent EventStore kept in a closure. Useful for tests, demos and previews.
+ */
+export const createMemoryEventStore = ({
+  initialEvents = [],
+  latency = 0,
+}: MemoryEventStoreOptions = {}): EventStore => {
+  // shallow copies, so callers cannot change stored records by mutating what they got back
+  const copy = (record: unknown) =>
+    typeof record === 'object' && record !== null ? { ...record } : record;
+  let records: unknown[] = initialEvents.map(copy);
+
+  return createListEventStore({
+    load: () => records.map(copy),
+    save: (next) => {
+      records = next.map(copy);
+    },
+    latency,
+  });
+};
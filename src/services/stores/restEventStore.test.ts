@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+
+import type { IEvent } from '@/types/Calendar';
+import { EventStoreError } from './EventStore';
+import { createRestEventStore } from './restEventStore';
+import { createRestStubAdapter } from './restStubAdapter';
+
+const baseEvents: IEvent[] = [
+  {
+    id: 1,
+    title: 'Standup',
+    start: '2024-03-04T09:00:00.000Z',
+    end: '2024-03-04T09:15:00.000Z',
+  },
+  {
+    id: 2,
+    title: 'Review',
+    start: '2024-03-05T14:00:00.000Z',
+    end: '2024-03-05T15:00:00.000Z',
+  },
+];
+
+const rejection = async (promise: Promise<unknown>) => {
+  try {
+    await promise;
+  } catch (error) {
+    return error as EventStoreError;
+  }
+  throw new Error('Expected the call to fail');
+};
+
+describe('createRestEventStore', () => {
+  it('maps the EventStore API onto the REST contract', async () => {
+    const store = createRestEventStore({
+      baseURL: '/api',
+      adapter: createRestStubAdapter({ initialEvents: baseEvents }),
+    });
+
+    expect((await store.getEventsByDate('2024-03-05')).map((e) => e.id)).toEqual([2]);
+
+    const created = await store.addEvent({
+      title: 'New',
+      start: baseEvents[0].start,
+      end: baseEvents[0].end,
+    });
+    await store.changeEvent({ ...baseEvents[0], title: 'Renamed' });
+    await store.deleteEvent(2);
+    await store.addEventsBulk([
+      { title: 'Bulk', start: baseEvents[1].start, end: baseEvents[1].end },
+    ]);
+
+    expect((await store.getEvents()).map((e) => e.title)).toEqual(['Renamed', 'New', 'Bulk']);
+    expect(created.id).toBeTruthy();
+  });
+
+  it('injects the auth header', async () => {
+    const adapter = createRestStubAdapter({ initialEvents: baseEvents, authToken: 'secret' });
+
+    const anonymous = createRestEventStore({ baseURL: '/api', adapter });
+    const authed = createRestEventStore({ baseURL: '/api', adapter, getAuthToken: () => 'secret' });
+
+    expect((await rejection(anonymous.getEvents())).kind).toBe('unauthorized');
+    expect(await authed.getEvents()).toHaveLength(2);
+  });
+
+  it('maps failures to typed errors', async () => {
+    const store = createRestEventStore({
+      baseURL: '/api',
+      adapter: createRestStubAdapter({ initialEvents: baseEvents }),
+    });
+
+    const error = await rejection(store.deleteEvent('missing'));
+    expect(error).toBeInstanceOf(EventStoreError);
+    expect(error.kind).toBe('not-found');
+    expect(error.status).toBe(404);
+    expect(error.message).toBe('Event missing not found');
+  });
+
+  it('reports timeouts', async () => {
+    const store = createRestEventStore({
+      baseURL: '/api',
+      timeout: 5,
+      adapter: createRestStubAdapter({ latency: 50 }),
+    });
+
+    expect((await rejection(store.getEvents())).kind).toBe('timeout');
+  });
+});
@@ -0,0 +1,178 @@
+import axios, { type AxiosAdapter } from 'axios';
+import { endOfMonth, startOfMonth } from 'date-fns';
+
+import type { IEvent } from '@/types/Calendar';
+import {
+  assertValidEvents,
+  EventStoreError,
+  filterByDate,
+  filterByMonth,
+  filterByRange,
+  screenEvents,
+  toDateKey,
+  type EventStore,
+  type EventStoreErrorKind,
+} from './EventStore';
+
+export type RestEventStoreOptions = {
+  /** Base URL of the events API, e.g. "/api" or "https://example.com/api". */
+  baseURL: string;
+  /**
+   * Called before every request; a returned token is sent as `Authorization: Bearer <token>`.
+   * Return null/undefined to send the request unauthenticated.
+   */
+  getAuthToken?: () => string | null | undefined | Promise<string | null | undefined>;
+  /** Extra headers sent with every request. */
+  headers?: Record<string, string>;
+  /** Request timeout in milliseconds (0 disables it). */
+  timeout?: number;
+  /** Custom axios adapter, e.g. `createRestStubAdapter()` to run without a server. */
+  adapter?: AxiosAdapter;
+};
+
+const DEFAULT_TIMEOUT = 10000;
+
+const kindFromStatus = (status: number): EventStoreErrorKind => {
+  if (status === 400 || status === 422) return 'validation';
+  if (status === 401) return 'unauthorized';
+  if (status === 403) return 'forbidden';
+  if (status === 404) return 'not-found';
+  if (status === 409) return 'conflict';
+  if (status >= 500) return 'server';
+  return 'unknown';
+};
+
+/**
+ * Translate whatever axios rejected with into an EventStoreError.
+ * The server's `{ message }` body, when present, becomes the error message.
+ */
+export const toEventStoreError = (error: unknown): EventStoreError => {
+  if (error instanceof EventStoreError) return error;
+
+  if (axios.isAxiosError(error)) {
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+      return new EventStoreError('timeout', 'The events server did not respond in time', {
+        cause: error,
+      });
+    }
+    if (!error.response) {
+      return new EventStoreError('network', 'Could not reach the events server', { cause: error });
+    }
+    const { status, data } = error.response;
+    const serverMessage =
+      data && typeof data === 'object' && 'message' in data ? String(data.message) : null;
+    return new EventStoreError(
+      kindFromStatus(status),
+      serverMessage ?? `Events request failed with status ${status}`,
+      { status, cause: error }
+    );
+  }
+
+  return new EventStoreError(
+    'unknown',
+    error instanceof Error ? error.message : 'Unknown events error',
+    { cause: error }
+  );
+};
+
+/**
+ * EventStore backed by a REST API.
+ *
+ * Contract (all bodies are JSON, dates are ISO strings):
+ * - `GET    /events`             → IEvent[] (all events)
+ * - `GET    /events?from=&to=`   → IEvent[] overlapping [from, to], plus recurring
+ *                                  events that may occur in it (expanded client-side)
+ * - `POST   /events`             → IEvent (body: event without id; server assigns it)
+ * - `PUT    /events/:id`         → IEvent (body: full event)
+ * - `DELETE /events/:id`         → 204
+ * - `POST   /events/bulk`        → IEvent[] (body: events without ids)
+ *
+ * Error responses may carry `{ message }`; every failure is rethrown as an EventStoreError.
+ * Invalid records in responses are quarantined (reported by `getQuarantined`, never returned).
+ * Range queries are answered by the server; date and month queries are derived from them.
+ */
+export const createRestEventStore = ({
+  baseURL,
+  getAuthToken,
+  headers,
+  timeout = DEFAULT_TIMEOUT,
+  adapter,
+}: RestEventStoreOptions): EventStore => {
+  const client = axios.create({ baseURL, headers, timeout, adapter });
+
+  client.interceptors.request.use(async (config) => {
+    const token = await getAuthToken?.();
+    if (token) config.headers.set('Authorization', `Bearer ${token}`);
+    return config;
+  });
+
+  client.interceptors.response.use(
+    (response) => response,
+    (error) => Promise.reject(toEventStoreError(error))
+  );
+
+  // responses are screened like stored data: invalid records are reported, not returned
+  const getAll = async () => {
+    const { data } = await client.get<unknown[]>('/events');
+    return screenEvents(Array.isArray(data) ? data : []);
+  };
+
+  const getEventsByRange = async (from: string | Date, to: string | Date) => {
+    const { data } = await client.get<unknown[]>('/events', {
+      params: { from: new Date(from).toISOString(), to: new Date(to).toISOString() },
+    });
+    return filterByRange(screenEvents(Array.isArray(data) ? data : []).events, from, to);
+  };
+
+  return {
+    getEvents: async () => (await getAll()).events,
+
+    getEventsByDate: async (date) => {
+      const day = toDateKey(date);
+      const events = await getEventsByRange(`${day}T00:00:00.000Z`, `${day}T23:59:59.999Z`);
+      return filterByDate(events, date);
+    },
+
+    getEventsByMonth: async (month) => {
+      if (month instanceof Date) return getEventsByRange(startOfMonth(month), endOfMonth(month));
+
+      // a bare month number spans every year, which the contract has no query for
+      return filterByMonth((await getAll()).events, month);
+    },
+
+    getEventsByRange,
+
+    addEvent: async (event) => {
+      assertValidEvents([event], { withId: false });
+      const { data } = await client.post<IEvent>('/events', event);
+      return data;
+    },
+
+    changeEvent: async (event) => {
+      assertValidEvents([event], { withId: true });
+      const { data } = await client.put<IEvent>(`/events/${encodeURIComponent(event.id)}`, event);
+      return data;
+    },
+
+    deleteEvent: async (id) => {
+      await client.delete(`/events/${encodeURIComponent(id)}`);
+    },
+
+    addEventsBulk: async (events) => {
+      assertValidEvents(events, { withId: false });
+      const { data } = await client.post<IEvent[]>('/events/bulk', events);
+      return data;
+    },
+
+    getQuarantined: async () => (await getAll()).quarantined,
+
+    discardQuarantined: async (key) => {
+      const target = (await getAll()).quarantined.find((q) => q.key === key);
+      if (!target) return;
+      if (target.id === undefined) {
+        throw new EventStoreError('validation', 'This record has no id; remove it on the server');
+      }
+      await client.delete(`/events/${encodeURIComponent(target.id)}`);
+    },
+  };
+};
@@ -0,0 +1,106 @@
+import {
+  AxiosError,
+  type AxiosAdapter,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from 'axios';
+
+import type { IEvent } from '@/types/Calendar';
+import { createMemoryEventStore } from './memoryEventStore';
+
+export type RestStubAdapterOptions = {
+  /** Events the stub server starts with. */
+  initialEvents?: IEvent[];
+  /** When set, requests must send `Authorization: Bearer <authToken>` or get a 401. */
+  authToken?: string;
+  /** Simulated server latency in milliseconds; exceeding the client timeout aborts the call. */
+  latency?: number;
+};
+
+const respond = (
+  config: InternalAxiosRequestConfig,
+  status: number,
+  data: unknown = null
+): AxiosResponse => ({
+  data,
+  status,
+  statusText: String(status),
+  headers: {},
+  config,
+  request: {},
+});
+
+const parseBody = (config: InternalAxiosRequestConfig) =>
+  typeof config.data === 'string' ? JSON.parse(config.data) : config.data;
+
+/**
+ * Axios adapter that serves the REST events contract from memory, so
+ * `createRestEventStore({ baseURL, adapter: createRestStubAdapter() })` runs without a server.
+ * Used by the tests; also handy for offline demos.
+ */
+export const createRestStubAdapter = ({
+  initialEvents = [],
+  authToken,
+  latency = 0,
+}: RestStubAdapterOptions = {}): AxiosAdapter => {
+  const store = createMemoryEventStore({ initialEvents });
+
+  const handle = async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    if (authToken && config.headers.get('Authorization') !== `Bearer ${authToken}`) {
+      return respond(config, 401, { message: 'Missing or invalid token' });
+    }
+
+    const method = (config.method ?? 'get').toUpperCase();
+    const path = (config.url ?? '').split('?')[0];
+    const idMatch = path.match(/^\/events\/([^/]+)$/);
+
+    if (path === '/events' && method === 'GET') {
+      const { from, to } = config.params ?? {};
+      return respond(
+        config,
+        200,
+        from && to ? await store.getEventsByRange(from, to) : await store.getEvents()
+      );
+    }
+    if (path === '/events' && method === 'POST') {
+      return respond(config, 201, await store.addEvent(parseBody(config)));
+    }
+    if (path === '/events/bulk' && method === 'POST') {
+      return respond(config, 201, await store.addEventsBulk(parseBody(config)));
+    }
+    if (idMatch && (method === 'PUT' || method === 'DELETE')) {
+      const id = decodeURIComponent(idMatch[1]);
+      const exists = (await store.getEvents()).some((e) => String(e.id) === id);
+      if (!exists) return respond(config, 404, { message: `Event ${id} not found` });
+      if (method === 'DELETE') {
+        await store.deleteEvent(id);
+        return respond(config, 204);
+      }
+      return respond(config, 200, await store.changeEvent(parseBody(config)));
+    }
+
+    return respond(config, 404, { message: `No route for ${method} ${path}` });
+  };
+
+  return async (config) => {
+    if (latency > 0) {
+      if (config.timeout && latency > config.timeout) {
+        await new Promise((resolve) => setTimeout(resolve, config.timeout));
+        throw new AxiosError('timeout exceeded', AxiosError.ECONNABORTED, config);
+      }
+      await new Promise((resolve) => setTimeout(resolve, latency));
+    }
+
+    const response = await handle(config);
+    if (response.status >= 400) {
+      throw new AxiosError(
+        `Request failed with status code ${response.status}`,
+        response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        config,
+        response.request,
+        response
+      );
+    }
+    return response;
+  };
+};
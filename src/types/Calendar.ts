@@ -8,24 +8,115 @@ export type EventType =
   | 'task'
   | 'work';
 
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+// BYDAY entry: a weekday, optionally prefixed with its ordinal in the month ("2TU", "-1FR")
+export type ByDay = Weekday | `${number}${Weekday}`;
+
+// RFC 5545-style RRULE (the subset the calendar understands)
+export interface IRecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval?: number;
+  byDay?: ByDay[];
+  count?: number;
+  // ISO datetime; occurrences starting after it are dropped
+  until?: string;
+  // ISO start times of occurrences removed from the series (EXDATE)
+  exDates?: string[];
+}
+
+// an invitee's answer (iCalendar PARTSTAT)
+export type AttendeeStatus = 'needs-action' | 'accepted' | 'tentative' | 'declined';
+
+export interface IAttendee {
+  name: string;
+  email: string;
+  // optional attendees are invited but not required to come
+  optional?: boolean;
+  status: AttendeeStatus;
+  // the person who sent the invitation (at most one per event)
+  organizer?: boolean;
+}
+
+// a file attached to an event; the file itself is kept by the AttachmentStore under `id`
+export interface IAttachment {
+  id: string;
+  name: string;
+  // MIME type ("application/pdf"); empty when the browser could not tell
+  type: string;
+  // bytes
+  size: number;
+}
+
 export interface IEvent {
   id: number | string;
   title: string;
   description?: string;
+  // where it takes place (a room, an address...), as typed
+  location?: string;
   start: string;
   end: string;
   allDay?: boolean;
   type?: string;
   colour?: string;
+  recurrence?: IRecurrenceRule;
+  // IANA zone the event was created in (e.g. "America/Sao_Paulo"); recurrences keep their
+  // wall-clock time there. Unset means the browser's zone.
+  timeZone?: string;
+  // calendar the event belongs to (see ICalendar); unset or unknown means the first calendar
+  calendarId?: string;
+  // locked against changes: cannot be moved, edited or deleted (nor can its calendar's events
+  // when the calendar is read-only)
+  readOnly?: boolean;
+  // who is invited, and how they answered
+  attendees?: IAttendee[];
+  // minutes before the start to remind at (0 = at the start); unset means the calendar's
+  // defaults, an empty list no reminders
+  reminders?: number[];
+  // files attached to it, in the order they were added
+  attachments?: IAttachment[];
+  // set on occurrences expanded from a recurring event: the series id and
+  // how far (ms) this occurrence starts after the series start
+  occurrenceOf?: { id: number | string; offset: number };
+}
+
+// a named group of events (Work, Personal...) that can be shown or hidden as a whole
+export interface ICalendar {
+  id: string;
+  name: string;
+  // colour new events in this calendar start with: a built-in index ("1".."5") or "#rrggbb"
+  colour: string;
+  // its events cannot be changed, and no events can be added to it
+  readOnly?: boolean;
+  // reminders for its events that have none of their own (minutes before the start)
+  defaultReminders?: number[];
+}
+
+// a kind of event (Meeting, Birthday...); events keep its `id` in `type`, so renaming it
+// does not touch them
+export interface IEventType {
+  id: string;
+  name: string;
+  // name of the icon shown on the event cards (see TYPE_ICON_NAMES)
+  icon: string;
+  // colour new events of this type start with, like ICalendar.colour
+  colour: string;
 }
 
 // replace TCalendarEvent so start/end are Date
+// start/end (and segment) are wall-clock times in the display time zone: read them with
+// getHours()/format() as usual, and convert back with fromZonedTime before storing
 export type TCalendarEvent = Omit<IEvent, 'start' | 'end'> & {
   start: Date;
   end: Date;
   duration?: number;
   slot?: number;
   allDay?: boolean;
+  // set on the per-day pieces of a timed event running past midnight: the part drawn in
+  // that day's column, and which piece it is (0 = the day the event starts)
+  segment?: { start: Date; end: Date; index: number; count: number };
 };
 
 export interface CalendarCellProps {
@@ -1,7 +1,9 @@
 /// <reference types="vite/client" />
 
-// eslint-disable-next-line @typescript-eslint/no-empty-object-type
-interface ImportMetaEnv {}
+interface ImportMetaEnv {
+  /** Base URL of the REST events API; when set the app uses it instead of local storage. */
+  readonly VITE_EVENTS_API_URL?: string;
+}
 
 interface ImportMeta {
   readonly env: ImportMetaEnv;